@@ -2,13 +2,21 @@
 import React, { useState, useEffect } from 'react';
 import { StoryFinder } from './components/StoryFinder';
 import { EbookCreator } from './components/EbookCreator';
-import { Story, AppState } from './types';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import { ScriptEditor } from './components/ScriptEditor';
+import { BookReader } from './components/BookReader';
+import { Story, AppState, Project, Script, Ebook } from './types';
 import { Button } from './components/Button';
-import { KeyRound, Sparkles } from 'lucide-react';
+import { getAiProvider, setAiProvider } from './services/aiProvider';
+import { geminiProvider, mockProvider } from './services/providers';
+import { KeyRound, Sparkles, WifiOff } from 'lucide-react';
 
 const App: React.FC = () => {
   const [appState, setAppState] = useState<AppState>(AppState.DISCOVER);
   const [selectedStory, setSelectedStory] = useState<Story | null>(null);
+  const [approvedScript, setApprovedScript] = useState<Script | null>(null);
+  const [openedProject, setOpenedProject] = useState<Project | null>(null);
+  const [readingBook, setReadingBook] = useState<Ebook | null>(null);
   const [hasApiKey, setHasApiKey] = useState(false);
   const [isCheckingKey, setIsCheckingKey] = useState(true);
 
@@ -18,6 +26,11 @@ const App: React.FC = () => {
 
   const checkApiKey = async () => {
     try {
+      // Offline backends don't need a key at all
+      if (!getAiProvider().requiresApiKey) {
+        setHasApiKey(true);
+        return;
+      }
       // Check if window.aistudio exists and if a key is selected
       if (window.aistudio && await window.aistudio.hasSelectedApiKey()) {
         setHasApiKey(true);
@@ -43,14 +56,55 @@ const App: React.FC = () => {
     }
   };
 
+  const handleUseOfflineDemo = () => {
+    setAiProvider(mockProvider.id);
+    setHasApiKey(true);
+  };
+
   const handleSelectStory = (story: Story) => {
     setSelectedStory(story);
+    setApprovedScript(null);
+    setOpenedProject(null);
+    setAppState(AppState.SCRIPTING);
+  };
+
+  const handleStoryChange = (story: Story) => {
+    setSelectedStory(story);
+  };
+
+  const handleApproveScript = (script: Script) => {
+    setApprovedScript(script);
+    setAppState(AppState.BUILDING);
+  };
+
+  const handleOpenProject = (project: Project) => {
+    setSelectedStory(project.story);
+    setOpenedProject(project);
+    setAppState(AppState.BUILDING);
+  };
+
+  const handleRead = (ebook: Ebook) => {
+    setReadingBook(ebook);
+    setAppState(AppState.READING);
+  };
+
+  const handleCloseReader = () => {
+    setReadingBook(null);
     setAppState(AppState.BUILDING);
   };
 
   const handleBackToDiscover = () => {
     setAppState(AppState.DISCOVER);
     setSelectedStory(null);
+    setApprovedScript(null);
+    setOpenedProject(null);
+  };
+
+  const handleOpenLibrary = () => {
+    setAppState(AppState.LIBRARY);
+    setSelectedStory(null);
+    setApprovedScript(null);
+    setOpenedProject(null);
   };
 
   if (isCheckingKey) {
@@ -86,6 +140,15 @@ const App: React.FC = () => {
              <KeyRound className="w-5 h-5 mr-2" />
              Connect Gemini API Key
            </Button>
+
+           <Button 
+             onClick={handleUseOfflineDemo} 
+             variant="secondary"
+             className="w-full mt-3 bg-white/10 text-white hover:bg-white/20 border-white/20"
+           >
+             <WifiOff className="w-4 h-4 mr-2" />
+             Try the Offline Demo
+           </Button>
            
            <p className="mt-6 text-xs text-slate-400">
              <a href="https://ai.google.dev/gemini-api/docs/billing" target="_blank" rel="noreferrer" className="underline hover:text-white transition-colors">
@@ -110,23 +173,59 @@ const App: React.FC = () => {
       <div className="relative z-10">
         {appState === AppState.DISCOVER && (
           <div className="flex items-center justify-center min-h-screen py-12">
-            <StoryFinder onSelectStory={handleSelectStory} />
+            <StoryFinder onSelectStory={handleSelectStory} onOpenLibrary={handleOpenLibrary} />
           </div>
         )}
 
-        {appState === AppState.BUILDING && selectedStory && (
+        {appState === AppState.LIBRARY && (
           <div className="min-h-screen py-8">
-            <EbookCreator 
+            <ProjectLibrary onOpenProject={handleOpenProject} onNewProject={handleBackToDiscover} />
+          </div>
+        )}
+
+        {appState === AppState.SCRIPTING && selectedStory && (
+          <div className="min-h-screen py-8">
+            <ScriptEditor 
+              key={selectedStory.id}
               story={selectedStory} 
+              onStoryChange={handleStoryChange}
+              onApprove={handleApproveScript}
               onBack={handleBackToDiscover} 
             />
           </div>
         )}
+
+        {/* The editor stays mounted under the reader so its state and running jobs survive */}
+        {(appState === AppState.BUILDING || appState === AppState.READING) && selectedStory && (
+          <div className={`min-h-screen py-8 ${appState === AppState.READING ? 'hidden' : ''}`}>
+            <EbookCreator 
+              key={openedProject?.id || selectedStory.id}
+              story={selectedStory} 
+              script={approvedScript || undefined}
+              project={openedProject || undefined}
+              onBack={openedProject ? handleOpenLibrary : handleBackToDiscover} 
+              onRead={handleRead}
+            />
+          </div>
+        )}
+
+        {appState === AppState.READING && readingBook && (
+          <BookReader ebook={readingBook} onClose={handleCloseReader} />
+        )}
       </div>
       
       {/* Footer */}
       <footer className="py-6 text-center text-slate-400 text-sm relative z-10">
-        <p>Powered by Gemini 2.5 Flash & Flash Image</p>
+        {getAiProvider().requiresApiKey ? (
+          <p>Powered by Gemini 2.5 Flash & Flash Image</p>
+        ) : (
+          <p>
+            {getAiProvider().label} •{' '}
+            <button onClick={() => { setAiProvider(geminiProvider.id); setHasApiKey(false); checkApiKey(); }} className="underline hover:text-slate-600">
+              Switch to Gemini
+            </button>
+          </p>
+        )}
       </footer>
     </div>
   );
@@ -0,0 +1,16 @@
+import React from 'react';
+import { ImageAdjustment } from '../types';
+import { useAdjustedImage } from '../hooks/useAdjustedImage';
+
+interface AdjustedImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  src: string;
+  adjustments?: ImageAdjustment[];
+}
+
+/**
+ * An <img> showing a panel image with its local adjustments applied.
+ */
+export const AdjustedImage: React.FC<AdjustedImageProps> = ({ src, adjustments, ...props }) => {
+  const url = useAdjustedImage(src, adjustments);
+  return <img src={url} {...props} />;
+};
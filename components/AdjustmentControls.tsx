@@ -0,0 +1,185 @@
+import React from 'react';
+import { ImageAdjustment } from '../types';
+import { ASPECT_PRESETS, NEUTRAL_LEVELS, describeAdjustment } from '../services/adjustments';
+import { Button } from './Button';
+import { Crop, FlipHorizontal, FlipVertical, RotateCcw, RotateCw, Stamp, X } from 'lucide-react';
+
+export interface CropDraft {
+  preset: number;
+  zoom: number;
+  panX: number;
+  panY: number;
+}
+
+interface AdjustmentControlsProps {
+  adjustments: ImageAdjustment[];
+  onChange: (adjustments: ImageAdjustment[]) => void;
+  // Crop being set up on the preview; null when not cropping
+  cropDraft: CropDraft | null;
+  onCropDraftChange: (draft: CropDraft | null) => void;
+  onApplyCrop: () => void;
+  cloning: boolean;
+  onCloningChange: (cloning: boolean) => void;
+  cloneSize: number;
+  onCloneSizeChange: (size: number) => void;
+  hasCloneSource: boolean;
+}
+
+const LEVEL_SLIDERS: { key: keyof typeof NEUTRAL_LEVELS; label: string }[] = [
+  { key: 'brightness', label: 'Brightness' },
+  { key: 'contrast', label: 'Contrast' },
+  { key: 'saturation', label: 'Saturation' },
+  { key: 'temperature', label: 'Temperature' },
+];
+
+/**
+ * Controls for the local (non-AI) adjustments in ImageEditor. Slider steps
+ * (levels, sharpen) edit the last step of the stack while it is of the same
+ * kind, so dragging a slider doesn't pile up entries.
+ */
+export const AdjustmentControls: React.FC<AdjustmentControlsProps> = ({
+  adjustments,
+  onChange,
+  cropDraft,
+  onCropDraftChange,
+  onApplyCrop,
+  cloning,
+  onCloningChange,
+  cloneSize,
+  onCloneSizeChange,
+  hasCloneSource,
+}) => {
+  const last = adjustments[adjustments.length - 1];
+  const levels = last?.kind === 'levels' ? last : { kind: 'levels' as const, ...NEUTRAL_LEVELS };
+  const sharpenAmount = last?.kind === 'sharpen' ? last.amount : 0;
+
+  const push = (step: ImageAdjustment) => onChange([...adjustments, step]);
+
+  const setTrailing = (step: ImageAdjustment) => {
+    onChange(last?.kind === step.kind ? [...adjustments.slice(0, -1), step] : [...adjustments, step]);
+  };
+
+  const sliderClass = 'w-full accent-indigo-600';
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Rotate &amp; Flip</h4>
+        <div className="flex gap-2">
+          <Button variant="secondary" size="sm" onClick={() => push({ kind: 'rotate', quarterTurns: 3 })} title="Rotate left">
+            <RotateCcw className="w-4 h-4" />
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => push({ kind: 'rotate', quarterTurns: 1 })} title="Rotate right">
+            <RotateCw className="w-4 h-4" />
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => push({ kind: 'flip', axis: 'horizontal' })} title="Flip horizontally">
+            <FlipHorizontal className="w-4 h-4" />
+          </Button>
+          <Button variant="secondary" size="sm" onClick={() => push({ kind: 'flip', axis: 'vertical' })} title="Flip vertically">
+            <FlipVertical className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Crop</h4>
+        {cropDraft ? (
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1">
+              {ASPECT_PRESETS.map((preset, index) => (
+                <button
+                  key={preset.label}
+                  onClick={() => onCropDraftChange({ ...cropDraft, preset: index })}
+                  className={`px-2 py-1 text-xs rounded border ${cropDraft.preset === index ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 text-slate-500'}`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <label className="block text-xs text-slate-500">
+              Zoom
+              <input type="range" min={1} max={4} step={0.05} value={cropDraft.zoom} onChange={(e) => onCropDraftChange({ ...cropDraft, zoom: parseFloat(e.target.value) })} className={sliderClass} />
+            </label>
+            <p className="text-xs text-slate-400">Drag the frame on the image to position it.</p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={onApplyCrop}><Crop className="w-4 h-4" /> Apply crop</Button>
+              <Button variant="secondary" size="sm" onClick={() => onCropDraftChange(null)}>Cancel</Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="secondary" size="sm" onClick={() => onCropDraftChange({ preset: 0, zoom: 1, panX: 0, panY: 0 })}>
+            <Crop className="w-4 h-4" /> Crop...
+          </Button>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Light &amp; Colour</h4>
+        <div className="space-y-1">
+          {LEVEL_SLIDERS.map(({ key, label }) => (
+            <label key={key} className="block text-xs text-slate-500">
+              <span className="flex justify-between">{label}<span>{levels[key]}</span></span>
+              <input
+                type="range"
+                min={-100}
+                max={100}
+                value={levels[key]}
+                onChange={(e) => setTrailing({ ...levels, [key]: parseInt(e.target.value, 10) })}
+                className={sliderClass}
+              />
+            </label>
+          ))}
+          <label className="block text-xs text-slate-500">
+            <span className="flex justify-between">Sharpen<span>{sharpenAmount}</span></span>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={sharpenAmount}
+              onChange={(e) => setTrailing({ kind: 'sharpen', amount: parseInt(e.target.value, 10) })}
+              className={sliderClass}
+            />
+          </label>
+        </div>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Clone / Heal</h4>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => onCloningChange(!cloning)}
+            className={`p-2 rounded-lg border ${cloning ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+            title="Clone brush"
+          >
+            <Stamp className="w-4 h-4" />
+          </button>
+          <input type="range" min={8} max={120} value={cloneSize} onChange={(e) => onCloneSizeChange(parseInt(e.target.value, 10))} className="flex-1 accent-indigo-600" title="Brush size" />
+        </div>
+        {cloning && (
+          <p className="text-xs text-slate-400 mt-1">
+            {hasCloneSource ? 'Paint over the spot to cover it. Alt+click picks a new source.' : 'Alt+click (or click) the area to copy from.'}
+          </p>
+        )}
+      </div>
+
+      {adjustments.length > 0 && (
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider">Applied</h4>
+            <button onClick={() => onChange([])} className="text-xs text-slate-400 hover:text-red-500">Reset all</button>
+          </div>
+          <ol className="space-y-1">
+            {adjustments.map((step, index) => (
+              <li key={index} className="flex items-center justify-between text-sm text-slate-600 bg-slate-50 rounded px-2 py-1">
+                {index + 1}. {describeAdjustment(step)}
+                <button onClick={() => onChange(adjustments.filter((_, i) => i !== index))} className="text-slate-400 hover:text-red-500" title="Remove">
+                  <X className="w-3 h-3" />
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
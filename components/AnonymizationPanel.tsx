@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { PiiKind, PiiSubstitution } from '../types';
+import { PII_KIND_LABELS, buildSubstitutions } from '../services/anonymizer';
+import { Button } from './Button';
+import { EyeOff, Plus, Trash2, ArrowRight } from 'lucide-react';
+
+interface AnonymizationPanelProps {
+  substitutions: PiiSubstitution[];
+  onChange: (substitutions: PiiSubstitution[]) => void;
+}
+
+export const AnonymizationPanel: React.FC<AnonymizationPanelProps> = ({ substitutions, onChange }) => {
+  const [newOriginal, setNewOriginal] = useState('');
+  const [newKind, setNewKind] = useState<PiiKind>('name');
+
+  const handleReplacementChange = (original: string, replacement: string) => {
+    if (!replacement.trim()) return;
+    onChange(substitutions.map(s => s.original === original ? { ...s, replacement: replacement.trim() } : s));
+  };
+
+  const handleAdd = () => {
+    if (!newOriginal.trim()) return;
+    onChange(buildSubstitutions([{ text: newOriginal, kind: newKind }], substitutions));
+    setNewOriginal('');
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-1">
+        <EyeOff className="w-3 h-3" /> Anonymized Details
+      </div>
+      <p className="text-xs text-slate-400 mb-4">
+        Real names, usernames, places and employers are swapped for fictional ones everywhere in the book. Remove an entry to restore the original.
+      </p>
+
+      {substitutions.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-4">No personal details were found.</p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {substitutions.map(s => (
+            <div key={s.original} className="flex items-center gap-2 text-sm">
+              <span className="w-20 shrink-0 text-[10px] font-bold uppercase tracking-wider text-slate-400">{PII_KIND_LABELS[s.kind]}</span>
+              <span className="flex-1 min-w-0 truncate text-slate-400 line-through" title={s.original}>{s.original}</span>
+              <ArrowRight className="w-3 h-3 text-slate-300 shrink-0" />
+              <input
+                key={s.replacement}
+                defaultValue={s.replacement}
+                onBlur={(e) => handleReplacementChange(s.original, e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1 border border-slate-200 rounded outline-none focus:border-indigo-400 text-slate-700"
+              />
+              <button
+                onClick={() => onChange(substitutions.filter(other => other.original !== s.original))}
+                className="p-1 text-slate-400 hover:text-red-500"
+                title="Restore the original"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <select
+          value={newKind}
+          onChange={(e) => setNewKind(e.target.value as PiiKind)}
+          className="text-sm border border-slate-200 rounded-lg px-2 py-1.5 bg-white outline-none"
+        >
+          {(Object.keys(PII_KIND_LABELS) as PiiKind[]).map(kind => (
+            <option key={kind} value={kind}>{PII_KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+        <input
+          value={newOriginal}
+          onChange={(e) => setNewOriginal(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="Something else to hide, as written in the story..."
+          className="flex-1 text-sm px-3 py-1.5 border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+        />
+        <Button variant="secondary" size="sm" onClick={handleAdd} disabled={!newOriginal.trim()}>
+          <Plus className="w-4 h-4" /> Hide
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,382 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Ebook, Panel } from '../types';
+import { ContentPage, getContentPages } from '../services/pagination';
+import { getPageFormat, usesSpreads } from '../services/pageFormats';
+import { flattenEbookOverlays } from '../services/overlays';
+import { hasCurrentNarration, playNarration } from '../services/narration';
+import { tokenizeWords } from '../services/wordTimings';
+import { isAbortError } from '../services/jobQueue';
+import { TemplatedPage } from './TemplatedPage';
+import { Button } from './Button';
+import { X, ChevronLeft, ChevronRight, Columns2, RectangleVertical, GalleryHorizontal, Presentation, BookOpen, Volume2 } from 'lucide-react';
+
+interface BookReaderProps {
+  ebook: Ebook;
+  onClose: () => void;
+}
+
+type ReaderPage =
+  | { kind: 'cover' }
+  | { kind: 'page'; page: ContentPage; number: number }
+  // Both facing pages of a spread-format book; `number` is the left one
+  | { kind: 'spread'; panel: Panel; number: number };
+
+// Horizontal travel (px) that counts as a swipe rather than a tap
+const SWIPE_DISTANCE = 50;
+
+/**
+ * What is on screen together. The cover always stands alone; in two-page
+ * view content pages pair up as they would in the printed book. Spreads are
+ * already two pages.
+ */
+const groupViews = (pages: ReaderPage[], facing: boolean): ReaderPage[][] => {
+  const views: ReaderPage[][] = [];
+  pages.forEach(page => {
+    const last = views[views.length - 1];
+    if (facing && page.kind === 'page' && last?.length === 1 && last[0].kind === 'page') {
+      last.push(page);
+    } else {
+      views.push([page]);
+    }
+  });
+  return views;
+};
+
+const viewLabel = (view: ReaderPage[]) => {
+  const first = view[0];
+  if (first.kind === 'cover') return 'Cover';
+  if (first.kind === 'spread') return `Pages ${first.number}–${first.number + 1}`;
+  return view.length > 1 ? `Pages ${first.number}–${first.number + 1}` : `Page ${first.number}`;
+};
+
+/**
+ * Full-screen reader: the book a page (or two) at a time with page turns,
+ * keyboard and swipe navigation, a thumbnail strip, and a presentation mode
+ * that hides everything but the pages. Pages come from the same pagination
+ * and templates as the exports, and images are shown as exported, with
+ * adjustments and lettering baked in. Narrated books can be read aloud, with
+ * each word highlighted as it is spoken and pages turning by themselves.
+ */
+export const BookReader: React.FC<BookReaderProps> = ({ ebook, onClose }) => {
+  const [book, setBook] = useState<Ebook | null>(null);
+  const [position, setPosition] = useState(0);
+  const [direction, setDirection] = useState<'next' | 'prev' | null>(null);
+  const [facing, setFacing] = useState(() => window.innerWidth > window.innerHeight);
+  const [showThumbnails, setShowThumbnails] = useState(true);
+  const [presenting, setPresenting] = useState(false);
+  const [readAloud, setReadAloud] = useState(false);
+  // The word being read aloud, for highlighting
+  const [spoken, setSpoken] = useState<{ panelId: number; word: number } | null>(null);
+  const pointerRef = useRef<{ x: number; y: number } | null>(null);
+  const thumbnailRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    flattenEbookOverlays(ebook)
+      .catch(e => {
+        console.warn('Could not flatten panel images for the reader', e);
+        return ebook;
+      })
+      .then(flattened => { if (!cancelled) setBook(flattened); });
+    return () => { cancelled = true; };
+  }, [ebook]);
+
+  const pageFormat = getPageFormat(ebook.pageFormat);
+  const spreads = usesSpreads(ebook.pageFormat, ebook.layoutStyle);
+
+  const pages = useMemo<ReaderPage[]>(() => {
+    if (!book) return [];
+    const content: ReaderPage[] = spreads
+      ? book.panels.map((panel, idx) => ({ kind: 'spread', panel, number: idx * 2 + 1 }))
+      : getContentPages(book.panels, book.layoutStyle).map((page, idx) => ({ kind: 'page', page, number: idx + 1 }));
+    return [{ kind: 'cover' }, ...content];
+  }, [book, spreads]);
+
+  const views = useMemo(() => groupViews(pages, facing && !spreads), [pages, facing, spreads]);
+  const viewIndex = Math.max(0, views.findIndex(view => view.includes(pages[position])));
+  const view = views[viewIndex];
+
+  const goToView = (index: number) => {
+    if (index < 0 || index >= views.length || index === viewIndex) return;
+    setDirection(index > viewIndex ? 'next' : 'prev');
+    setPosition(pages.indexOf(views[index][0]));
+  };
+  const next = () => goToView(viewIndex + 1);
+  const prev = () => goToView(viewIndex - 1);
+
+  const startPresenting = () => {
+    setPresenting(true);
+    document.documentElement.requestFullscreen?.().catch(() => undefined);
+  };
+
+  const stopPresenting = () => {
+    setPresenting(false);
+    if (document.fullscreenElement) document.exitFullscreen().catch(() => undefined);
+  };
+
+  // Leaving browser full screen (e.g. with Esc) ends the presentation too
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      if (!document.fullscreenElement) setPresenting(false);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'PageDown':
+        case ' ':
+          e.preventDefault();
+          next();
+          break;
+        case 'ArrowLeft':
+        case 'PageUp':
+          e.preventDefault();
+          prev();
+          break;
+        case 'Home':
+          goToView(0);
+          break;
+        case 'End':
+          goToView(views.length - 1);
+          break;
+        case 'Escape':
+          if (presenting) stopPresenting();
+          else onClose();
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  useEffect(() => {
+    thumbnailRefs.current[viewIndex]?.scrollIntoView({ block: 'nearest', inline: 'center', behavior: 'smooth' });
+  }, [viewIndex, showThumbnails]);
+
+  // Reads the panels on screen in order, then turns the page
+  useEffect(() => {
+    if (!readAloud || !view) return;
+    const controller = new AbortController();
+    const panelsInView = view.flatMap(page => page.kind === 'page' ? page.page.panels : page.kind === 'spread' ? [page.panel] : []);
+    const read = async () => {
+      try {
+        for (const panel of panelsInView) {
+          if (!hasCurrentNarration(panel)) continue;
+          setSpoken({ panelId: panel.id, word: -1 });
+          await playNarration(panel.narration!, {
+            signal: controller.signal,
+            onWord: (word) => setSpoken({ panelId: panel.id, word }),
+          });
+        }
+      } catch (e) {
+        if (isAbortError(e)) return;
+        console.warn('Narration playback failed', e);
+        setReadAloud(false);
+        return;
+      }
+      setSpoken(null);
+      if (viewIndex < views.length - 1) next();
+      else setReadAloud(false);
+    };
+    read();
+    return () => {
+      controller.abort();
+      setSpoken(null);
+    };
+  }, [readAloud, viewIndex, views]);
+
+  // Swipes turn the page; in a presentation a tap turns it too, backwards on the left third
+  const handlePointerDown = (e: React.PointerEvent) => {
+    pointerRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const start = pointerRef.current;
+    pointerRef.current = null;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (Math.abs(dx) >= SWIPE_DISTANCE && Math.abs(dx) > Math.abs(dy)) {
+      if (dx < 0) next();
+      else prev();
+    } else if (presenting && Math.abs(dx) < 10 && Math.abs(dy) < 10) {
+      const bounds = e.currentTarget.getBoundingClientRect();
+      if (e.clientX < bounds.left + bounds.width / 3) prev();
+      else next();
+    }
+  };
+
+  const renderArt = (panel: Panel) => panel.imageUrl
+    ? <img src={panel.imageUrl} alt="" draggable={false} className="w-full h-full object-cover" />
+    : <div className="w-full h-full bg-slate-100" />;
+
+  // Narration timings line up with tokenizeWords, so word N is token N
+  const renderCaptionText = (panel: Panel) => {
+    if (spoken?.panelId !== panel.id) return panel.caption;
+    let offset = 0;
+    return tokenizeWords(panel.caption).map((token, i) => {
+      const gap = panel.caption.slice(offset, token.from);
+      offset = token.to;
+      return (
+        <React.Fragment key={i}>
+          {gap}
+          <span className={`rounded transition-colors ${i === spoken.word ? 'bg-yellow-300/80' : ''}`}>{token.word}</span>
+        </React.Fragment>
+      );
+    });
+  };
+
+  const renderCaption = (panel: Panel) => (
+    <div className="w-full h-full flex items-center justify-center text-center font-medium leading-snug whitespace-pre-wrap overflow-hidden" style={{ padding: '1cqw' }}>
+      <div>{renderCaptionText(panel)}</div>
+    </div>
+  );
+
+  const renderPage = (page: ReaderPage) => {
+    if (!book) return null;
+    if (page.kind === 'cover') {
+      return (
+        <div className="w-full h-full flex flex-col bg-white" style={{ containerType: 'inline-size' }}>
+          <div className="h-[75%] bg-slate-100 overflow-hidden">
+            {book.coverImage && <img src={book.coverImage} alt="" draggable={false} className="w-full h-full object-cover" />}
+          </div>
+          <div className="flex-1 flex flex-col items-center justify-center text-center" style={{ padding: '5cqw', gap: '2cqw' }}>
+            <h1 className="font-black text-slate-900 uppercase tracking-tight leading-tight" style={{ fontSize: '6.5cqw' }}>{book.storyTitle}</h1>
+            {book.author && <p className="text-slate-500 font-medium" style={{ fontSize: '2.8cqw' }}>{book.author}</p>}
+          </div>
+        </div>
+      );
+    }
+    if (page.kind === 'spread') {
+      return (
+        <div className="w-full h-full relative bg-white" style={{ containerType: 'inline-size' }}>
+          {renderArt(page.panel)}
+          {/* The fold between the facing pages */}
+          <div className="absolute inset-y-0 left-1/2 w-px bg-slate-900/20 shadow-[0_0_12px_rgba(15,23,42,0.25)]" />
+          <div className="absolute bottom-[5%] right-[3%] w-[38%] bg-white/90 rounded-xl shadow-lg font-comic text-slate-700" style={{ fontSize: '1.6cqw', padding: '1cqw' }}>
+            {renderCaption(page.panel)}
+          </div>
+        </div>
+      );
+    }
+    return (
+      <TemplatedPage
+        template={page.page.template}
+        panels={page.page.panels}
+        renderArt={renderArt}
+        renderText={renderCaption}
+      />
+    );
+  };
+
+  // Each screen is as big as fits the stage while keeping the page shape
+  const renderView = (pagesInView: ReaderPage[], className = '') => {
+    const wide = pagesInView.length > 1 || pagesInView[0].kind === 'spread';
+    const aspect = pageFormat.pageAspect * (wide ? 2 : 1);
+    return (
+      <div className={`flex bg-white shadow-2xl ${className}`} style={{ aspectRatio: aspect, width: `min(100cqw, ${aspect * 100}cqh)` }}>
+        {pagesInView.map((page, i) => (
+          <div key={i} className={`relative flex-1 min-w-0 overflow-hidden ${i > 0 ? 'border-l border-slate-900/10' : ''}`}>
+            {renderPage(page)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className={`fixed inset-0 z-50 flex flex-col select-none print:hidden ${presenting ? 'bg-black' : 'bg-slate-900'}`}>
+      {!presenting && (
+        <div className="flex items-center justify-between gap-4 px-6 py-3 text-white">
+          <div className="flex items-center gap-3 min-w-0">
+            <BookOpen className="w-5 h-5 text-indigo-300 shrink-0" />
+            <h2 className="font-bold truncate">{ebook.storyTitle}</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            {!spreads && (
+              <Button variant="secondary" size="sm" onClick={() => setFacing(f => !f)} className="rounded-full bg-white/10 text-white border-white/20 hover:bg-white/20" title={facing ? 'Show one page at a time' : 'Show facing pages'}>
+                {facing ? <RectangleVertical className="w-4 h-4" /> : <Columns2 className="w-4 h-4" />}
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={() => setShowThumbnails(s => !s)} className={`rounded-full border-white/20 hover:bg-white/20 ${showThumbnails ? 'bg-white/20 text-white' : 'bg-white/10 text-white'}`} title="Thumbnails">
+              <GalleryHorizontal className="w-4 h-4" />
+            </Button>
+            {book?.panels.some(hasCurrentNarration) && (
+              <Button variant="secondary" size="sm" onClick={() => setReadAloud(r => !r)} className={`rounded-full border-white/20 hover:bg-white/20 ${readAloud ? 'bg-indigo-500 text-white' : 'bg-white/10 text-white'}`} title={readAloud ? 'Stop reading aloud' : 'Read aloud'}>
+                <Volume2 className="w-4 h-4" /> {readAloud ? 'Stop' : 'Read aloud'}
+              </Button>
+            )}
+            <Button variant="secondary" size="sm" onClick={startPresenting} disabled={!book} className="rounded-full bg-white/10 text-white border-white/20 hover:bg-white/20">
+              <Presentation className="w-4 h-4" /> Present
+            </Button>
+            <button onClick={onClose} className="ml-2 text-white/60 hover:text-white" title="Back to the editor (Esc)">
+              <X className="w-6 h-6" />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {!book ? (
+        <div className="flex-1 flex items-center justify-center text-slate-400">
+          <BookOpen className="w-8 h-8 animate-pulse mr-3" /> Preparing pages...
+        </div>
+      ) : (
+        <div className={`flex-1 min-h-0 flex items-center gap-4 ${presenting ? 'p-0' : 'px-4 pb-4'}`}>
+          {!presenting && (
+            <button onClick={prev} disabled={viewIndex === 0} className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent" title="Previous (←)">
+              <ChevronLeft className="w-8 h-8" />
+            </button>
+          )}
+          <div
+            onPointerDown={handlePointerDown}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={() => { pointerRef.current = null; }}
+            className={`flex-1 h-full min-w-0 flex items-center justify-center touch-none ${presenting ? 'cursor-pointer' : ''}`}
+            style={{ containerType: 'size', perspective: '2000px' }}
+          >
+            {renderView(view, direction === 'next' ? 'animate-page-next origin-left' : direction === 'prev' ? 'animate-page-prev origin-right' : '')}
+          </div>
+          {!presenting && (
+            <button onClick={next} disabled={viewIndex === views.length - 1} className="p-2 rounded-full text-white/70 hover:text-white hover:bg-white/10 disabled:opacity-20 disabled:hover:bg-transparent" title="Next (→)">
+              <ChevronRight className="w-8 h-8" />
+            </button>
+          )}
+        </div>
+      )}
+
+      {book && !presenting && (
+        <div className="text-center text-xs font-semibold tracking-widest uppercase text-slate-400 pb-2">
+          {viewLabel(view)} <span className="text-slate-600">• {viewIndex + 1} / {views.length}</span>
+        </div>
+      )}
+
+      {book && !presenting && showThumbnails && (
+        <div className="flex gap-3 overflow-x-auto px-6 pb-4 pt-1 custom-scrollbar">
+          {views.map((thumbView, i) => (
+            <button
+              key={i}
+              ref={el => { thumbnailRefs.current[i] = el; }}
+              onClick={() => goToView(i)}
+              className={`shrink-0 h-20 rounded-sm overflow-hidden ring-2 transition-all ${i === viewIndex ? 'ring-indigo-400' : 'ring-transparent opacity-60 hover:opacity-100'}`}
+              style={{ containerType: 'size', aspectRatio: pageFormat.pageAspect * (thumbView.length > 1 || thumbView[0].kind === 'spread' ? 2 : 1) }}
+              title={viewLabel(thumbView)}
+            >
+              {renderView(thumbView, 'shadow-none pointer-events-none')}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {presenting && (
+        <button onClick={stopPresenting} className="absolute top-4 right-4 p-2 rounded-full text-white/30 hover:text-white hover:bg-white/10" title="End presentation (Esc)">
+          <X className="w-6 h-6" />
+        </button>
+      )}
+    </div>
+  );
+};
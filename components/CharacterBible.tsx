@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { Character } from '../types';
+import { generateCharacterSheet } from '../services/gemini';
+import { createCharacterId } from '../services/characters';
+import { readFileAsDataUrl } from '../services/imageData';
+import { isAbortError } from '../services/jobQueue';
+import { useUnmountSignal } from '../hooks/useUnmountSignal';
+import { Button } from './Button';
+import { Users, Plus, Trash2, Wand2, Upload, ImageOff } from 'lucide-react';
+
+interface CharacterBibleProps {
+  characters: Character[];
+  visualStyle: string;
+  // Takes an updater: reference sheets arrive after the list may have changed
+  onChange: (update: (characters: Character[]) => Character[]) => void;
+}
+
+export const CharacterBible: React.FC<CharacterBibleProps> = ({ characters, visualStyle, onChange }) => {
+  const [generatingId, setGeneratingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const getSignal = useUnmountSignal();
+
+  // Leaves the list alone if the character was removed in the meantime
+  const updateCharacter = (id: string, changes: Partial<Character>) => {
+    onChange(prev => prev.some(c => c.id === id) ? prev.map(c => c.id === id ? { ...c, ...changes } : c) : prev);
+  };
+
+  const handleAdd = () => {
+    onChange(prev => [...prev, { id: createCharacterId(), name: `Character ${prev.length + 1}`, description: '' }]);
+  };
+
+  const handleGenerate = async (character: Character) => {
+    setGeneratingId(character.id);
+    setError(null);
+    try {
+      const referenceImage = await generateCharacterSheet(character, visualStyle, { signal: getSignal() });
+      updateCharacter(character.id, { referenceImage });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setError(`Could not draw a reference sheet for ${character.name}.`);
+    } finally {
+      setGeneratingId(null);
+    }
+  };
+
+  const handleUpload = async (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    if (!file.type.startsWith('image/')) {
+      setError("Reference sheets must be an image file.");
+      return;
+    }
+    setError(null);
+    updateCharacter(id, { referenceImage: await readFileAsDataUrl(file) });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider">
+          <Users className="w-3 h-3" /> Character Bible
+        </div>
+        <Button variant="secondary" size="sm" onClick={handleAdd}>
+          <Plus className="w-4 h-4" /> Add Character
+        </Button>
+      </div>
+
+      {error && <p className="text-red-500 text-sm mb-3">{error}</p>}
+
+      {characters.length === 0 ? (
+        <p className="text-sm text-slate-400">No characters yet. Add one to keep their look consistent across panels.</p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4">
+          {characters.map(character => (
+            <div key={character.id} className="flex gap-3 p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <div className="shrink-0 w-28 h-24 rounded-lg bg-white border border-slate-200 overflow-hidden flex items-center justify-center relative">
+                {character.referenceImage ? (
+                  <img src={character.referenceImage} alt={character.name} className="w-full h-full object-cover" />
+                ) : (
+                  <ImageOff className="w-6 h-6 text-slate-300" />
+                )}
+                {generatingId === character.id && (
+                  <div className="absolute inset-0 bg-white/70 flex items-center justify-center">
+                    <Wand2 className="w-6 h-6 text-indigo-500 animate-spin-slow" />
+                  </div>
+                )}
+              </div>
+              <div className="flex-1 min-w-0 space-y-2">
+                <input
+                  value={character.name}
+                  onChange={(e) => updateCharacter(character.id, { name: e.target.value })}
+                  className="w-full text-sm font-bold text-slate-800 bg-transparent outline-none border-b border-transparent focus:border-indigo-400"
+                />
+                <textarea
+                  value={character.description}
+                  placeholder="Look: build, hair, clothes, colours..."
+                  onChange={(e) => updateCharacter(character.id, { description: e.target.value })}
+                  className="w-full h-16 p-2 text-xs text-slate-700 border border-slate-200 rounded-lg outline-none resize-none focus:border-indigo-400"
+                />
+                <div className="flex gap-2">
+                  <Button variant="secondary" size="sm" onClick={() => handleGenerate(character)} disabled={generatingId !== null || !character.description.trim()} title="Generate reference sheet">
+                    <Wand2 className="w-3 h-3" />
+                  </Button>
+                  <label className="px-3 py-1.5 rounded-lg bg-white text-indigo-700 hover:bg-indigo-50 border border-indigo-100 shadow-sm cursor-pointer flex items-center" title="Upload reference sheet">
+                    <Upload className="w-3 h-3" />
+                    <input type="file" accept="image/png,image/jpeg,image/webp" onChange={(e) => handleUpload(character.id, e)} className="hidden" />
+                  </label>
+                  <Button variant="danger" size="sm" onClick={() => onChange(prev => prev.filter(c => c.id !== character.id))} title="Remove character">
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-slate-400 mt-4">Each character's description and reference sheet are sent with every panel they appear in.</p>
+    </div>
+  );
+};
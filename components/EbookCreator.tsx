@@ -1,148 +1,834 @@
 
-import React, { useState, useEffect } from 'react';
-import { Story, Panel, AnalysisResult } from '../types';
-import { generateScript, generatePanelImage, generateCoverImage, analyzeStoryPotential, refineStoryContent } from '../services/gemini';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Story, Panel, PanelOverlay, ImageAdjustment, AnalysisResult, Project, Ebook, Script, StyleGuide, BookEdition, MarketplaceListing } from '../types';
+import { generateScript, generatePanelImage, generatePanelCandidates, generateCoverImage, analyzeStoryPotential, refineStoryContent, suggestBridgingBeat, splitBeat, reviewContentSafety, translateBookText, generateListing } from '../services/gemini';
+import { createPanel, copyPanel, insertPanelAt, removePanel, movePanel, updatePanel, nextPanelId } from '../services/panelOps';
+import { createOverlay, flattenOverlays } from '../services/overlays';
+import { BookChange, BookState, EMPTY_HISTORY, HistorySource, createEntry, recordEntry, undo, redo, jumpTo } from '../services/history';
+import { saveProject, createProjectId } from '../services/projectStore';
+import { base64ToBlob } from '../services/imageData';
+import { applyAdjustments } from '../services/adjustments';
+import { stripRedditHandles } from '../services/reddit';
+import { UPLOAD_TYPES, validateUpload } from '../services/uploads';
+import { hasCurrentNarration, narrateText, narrationFromRecording, NarrationSettings, validateRecording } from '../services/narration';
+import { AUDIO_FORMAT_NAMES } from '../services/audioData';
+import { getTtsProvider, setTtsProvider } from '../services/tts';
+import { applyEdition, collectTranslatables, languageLabel, mergeTranslations, setOverride, SOURCE_LANGUAGE, TranslatableItem } from '../services/translation';
+import { addVariants, createVariant, removeVariant, starVariant, variantSelection } from '../services/variants';
+import { ContentPage, getArtAspectRatios, getContentPages } from '../services/pagination';
+import { getPageFormat, usesSpreads } from '../services/pageFormats';
+import { BUILT_IN_TEMPLATES, getTemplate, slotAspectRatio, templateCapacity } from '../services/layoutTemplates';
+import { isAbortError, JobStatus } from '../services/jobQueue';
+import { SafetyFlag, buildSafetyReport, collectSafetyItems, flagsFor, getAudiencePolicy, safetyItemsKey } from '../services/safety';
+import { useUnmountSignal } from '../hooks/useUnmountSignal';
 import { Button } from './Button';
 import { ImageEditor } from './ImageEditor';
-import { ArrowLeft, Download, Wand2, Edit2, LayoutTemplate, Copy, Check, Bot, RefreshCw, Palette, FileText, ExternalLink, X } from 'lucide-react';
+import { AdjustedImage } from './AdjustedImage';
+import { TemplatedPage } from './TemplatedPage';
+import { EditionSafety, ExportDialog, SafetyReviewState } from './ExportDialog';
+import { PanelActions } from './PanelActions';
+import { HistoryPanel } from './HistoryPanel';
+import { OverlayLayer } from './OverlayLayer';
+import { JobQueueStatus } from './JobQueueStatus';
+import { VariantBrowser } from './VariantBrowser';
+import { VariantPicker } from './VariantPicker';
+import { ImageDropZone } from './ImageDropZone';
+import { UploadArtworkDialog } from './UploadArtworkDialog';
+import { SafetyFlags } from './SafetyFlags';
+import { NarrationPanel } from './NarrationPanel';
+import { EditionsPanel } from './EditionsPanel';
+import { ListingPanel } from './ListingPanel';
+import { ArrowLeft, Download, Wand2, Edit2, LayoutTemplate, Copy, Check, Bot, RefreshCw, Palette, FileText, ExternalLink, X, Save, Undo2, Redo2, History as HistoryIcon, Clock, ShieldAlert, Layers, Upload, BookOpen, AudioLines, Languages, Store } from 'lucide-react';
 
 interface EbookCreatorProps {
   story: Story;
+  // Approved script from the review stage; generated on the fly if missing.
+  script?: Script;
+  // When reopening a saved book we restore it instead of generating a new one.
+  project?: Project;
   onBack: () => void;
+  // Opens the full-screen reader on a snapshot of the book
+  onRead: (ebook: Ebook) => void;
 }
 
-const chunkArray = <T extends unknown>(arr: T[], size: number): T[][] => {
-  const results: T[][] = [];
-  for (let i = 0; i < arr.length; i += size) {
-    results.push(arr.slice(i, i + size));
-  }
-  return results;
-};
+const AUTOSAVE_DELAY_MS = 1000;
 
-// Helper for robust base64 to blob conversion
-const base64ToBlob = (base64: string): Blob => {
-  try {
-    const parts = base64.split(';base64,');
-    const contentType = parts[0]?.split(':')[1] || 'image/png';
-    const raw = window.atob(parts[1]);
-    const rawLength = raw.length;
-    const uInt8Array = new Uint8Array(rawLength);
-
-    for (let i = 0; i < rawLength; ++i) {
-      uInt8Array[i] = raw.charCodeAt(i);
-    }
-    return new Blob([uInt8Array], { type: contentType });
-  } catch (e) {
-    console.error("Base64 conversion failed", e);
-    throw new Error("Invalid image data");
-  }
-};
+type SaveStatus = 'idle' | 'saving' | 'saved' | 'error';
 
-export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) => {
-  const [panels, setPanels] = useState<Panel[]>([]);
-  const [coverImage, setCoverImage] = useState<string | null>(null);
-  const [isCoverGenerating, setIsCoverGenerating] = useState(true);
-  const [loadingScript, setLoadingScript] = useState(true);
+export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, script, project, onBack, onRead }) => {
+  const [panels, setPanels] = useState<Panel[]>(project?.panels || []);
+  const [styleGuide, setStyleGuide] = useState<StyleGuide | null>(project?.styleGuide || null);
+  const [coverImage, setCoverImage] = useState<string | null>(project?.coverImage || null);
+  const [isCoverGenerating, setIsCoverGenerating] = useState(!project);
+  const [loadingScript, setLoadingScript] = useState(!project);
   const [copiedId, setCopiedId] = useState<string | number | null>(null);
   
   // Editable fields
-  const [title, setTitle] = useState(story.title);
-  const [author, setAuthor] = useState(`Source: ${story.source || 'Internet'}`);
+  const [title, setTitle] = useState(project?.title || story.title);
+  const [author, setAuthor] = useState(project?.author || `Source: ${stripRedditHandles(story.source || '') || 'Internet'}`);
+  const pageFormat = getPageFormat(story.pageFormat);
+  const spreads = usesSpreads(story.pageFormat, story.layoutStyle);
+  const contentPages = getContentPages(panels, story.layoutStyle);
+  // Art is drawn for the slot it lands in; panels not placed yet get the book default's
+  const artAspectRatios = getArtAspectRatios(contentPages, pageFormat.pageAspect);
+  const defaultTemplate = getTemplate(undefined, story.layoutStyle);
+  const artAspectRatio = (panel: Panel): string => spreads
+    ? pageFormat.spreadAspectRatio!
+    : artAspectRatios[panel.id] || slotAspectRatio(defaultTemplate, defaultTemplate.slots.find(s => s.kind === 'image')!, pageFormat.pageAspect);
+
+  // Persistence
+  const projectIdRef = useRef(project?.id || createProjectId());
+  const createdAtRef = useRef(project?.createdAt || Date.now());
+  const nextPanelIdRef = useRef(project?.nextPanelId || 0);
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
   
   // Editing state
   const [editingImageId, setEditingImageId] = useState<number | 'cover' | null>(null);
   const [editingDescription, setEditingDescription] = useState<string>('');
   const [editingImageUrl, setEditingImageUrl] = useState<string>('');
+  const [editingAdjustments, setEditingAdjustments] = useState<ImageAdjustment[]>([]);
+  // The variant picker for a panel, or the cached covers
+  const [browsingVariantsId, setBrowsingVariantsId] = useState<number | 'cover' | null>(null);
+  // Artwork dropped or picked for a slot, waiting in the upload dialog
+  const [pendingUpload, setPendingUpload] = useState<{ id: number | 'cover'; file: File } | null>(null);
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadTargetRef = useRef<number | 'cover' | null>(null);
+
+  // Structure editing
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [structureBusyId, setStructureBusyId] = useState<number | null>(null);
+
+  // Lettering: at most one selected bubble across the whole book
+  const [selectedOverlay, setSelectedOverlay] = useState<{ panelId: number; overlayId: string } | null>(null);
+
+  // Undo / redo
+  const [history, setHistory] = useState(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
+
+  // Narration
+  const [showNarration, setShowNarration] = useState(false);
+  const [narrationSettings, setNarrationSettings] = useState<NarrationSettings>(() => ({ providerId: getTtsProvider().id, rate: 1 }));
+  const [narratingIds, setNarratingIds] = useState<number[]>([]);
+
+  // Language editions
+  const [editions, setEditions] = useState<BookEdition[]>(project?.editions || []);
+  const [showEditions, setShowEditions] = useState(false);
+  const [translatingLanguages, setTranslatingLanguages] = useState<string[]>([]);
+
+  // Marketplace listings
+  const [listings, setListings] = useState<MarketplaceListing[]>(project?.listings || []);
+  const [showListing, setShowListing] = useState(false);
+  const [listingLanguages, setListingLanguages] = useState<string[]>([]);
+  // Text fields record one history entry per edit session (focus to blur), not per keystroke
+  const editStartRef = useRef<string | null>(null);
 
   // Agent State
   const [showAgent, setShowAgent] = useState(false);
   const [analyzing, setAnalyzing] = useState(false);
-  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(project?.analysis || null);
   const [fixingText, setFixingText] = useState(false);
 
-  // Canva Modal
+  // AI jobs are cancelled when the creator unmounts; declared before the effects that start them
+  const getSignal = useUnmountSignal();
+  const [panelJobs, setPanelJobs] = useState<Record<number, JobStatus>>({});
+  const [coverStatus, setCoverStatus] = useState<JobStatus | null>(null);
+
+  // Content safety: word lists run on every edit, the model review on request
+  const [safetyReview, setSafetyReview] = useState<{ key: string; flags: SafetyFlag[] } | null>(null);
+  const [reviewingSafety, setReviewingSafety] = useState(false);
+  const [safetyReviewFailed, setSafetyReviewFailed] = useState(false);
+  // The same review for each edition's translated text, by language
+  const [editionReviews, setEditionReviews] = useState<Record<string, { key: string; flags: SafetyFlag[] }>>({});
+  const [reviewingEditions, setReviewingEditions] = useState<string[]>([]);
+  const [failedEditionReviews, setFailedEditionReviews] = useState<string[]>([]);
+
+  // Export Modals
   const [showCanvaModal, setShowCanvaModal] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
 
   useEffect(() => {
-    initStory();
+    if (!project) {
+      initStory();
+    }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [story]);
 
+  // Autosave (debounced) once there is a script worth keeping
+  useEffect(() => {
+    if (loadingScript || panels.length === 0) return;
+    const timer = setTimeout(async () => {
+      setSaveStatus('saving');
+      try {
+        await saveProject({
+          id: projectIdRef.current,
+          story,
+          title,
+          author,
+          panels,
+          nextPanelId: nextPanelId(panels, nextPanelIdRef.current),
+          styleGuide: styleGuide || undefined,
+          coverImage,
+          analysis,
+          editions,
+          listings,
+          createdAt: createdAtRef.current,
+          updatedAt: Date.now(),
+        });
+        setSaveStatus('saved');
+      } catch (e) {
+        console.error("Autosave failed", e);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [story, title, author, panels, styleGuide, coverImage, analysis, editions, listings, loadingScript]);
+
   const initStory = async () => {
     setLoadingScript(true);
+    // A fresh script reuses panel ids, so old entries no longer apply
+    setHistory(EMPTY_HISTORY);
+    setPanelJobs({});
     try {
-        const script = await generateScript(story);
-        setPanels(script);
+        const approved = script || await generateScript(story, { signal: getSignal() });
+        const guide: StyleGuide = { visualStyle: approved.visualStyle, characterDesign: approved.characterDesign, characters: approved.characters };
+        const scriptPanels = approved.panels.map(p => ({ ...p, imageUrl: undefined, isGenerating: false }));
+        setPanels(scriptPanels);
+        setStyleGuide(guide);
         setLoadingScript(false);
-        
-        // Start generations SEQUENTIALLY to avoid Rate Limits (429)
-        await generateCover();
-        
-        // Then panels
-        await generateImagesSequentially(script);
-        
+
+        // Everything is queued at once; the image queue paces the requests.
+        // The cover is enqueued first so it is drawn first.
+        await Promise.all([generateCover(guide), generateImages(scriptPanels, guide)]);
     } catch (e) {
+        if (isAbortError(e)) return;
         console.error("Failed to init script", e);
         setLoadingScript(false);
     }
   };
 
-  const generateImagesSequentially = async (scriptPanels: Panel[]) => {
-    for (const p of scriptPanels) {
-      // Check if we already have an image (in case of re-init)
-      if (!p.imageUrl && !p.isGenerating) {
-        await generateImageForPanel(p.id, p.description);
-        // INCREASED DELAY to 4 seconds to allow quota replenishment
-        await new Promise(r => setTimeout(r, 4000)); 
-      }
-    }
+  const generateImages = async (targets: Panel[], guide: StyleGuide | null) => {
+    await Promise.all(targets.map(p => generateImageForPanel(p, guide)));
   };
 
-  const generateCover = async () => {
+  // Groups every image made for a page (or the cover) in the response cache
+  const variantGroup = (id: number | 'cover') => `${projectIdRef.current}:${id === 'cover' ? 'cover' : `panel-${id}`}`;
+
+  // `fresh` skips the response cache, for a new take on an unchanged prompt
+  const generateCover = async (guide: StyleGuide | null, fresh = false) => {
+    const before = coverImage;
     setIsCoverGenerating(true);
+    setCoverStatus('queued');
     try {
-      const url = await generateCoverImage(story.title, story.summary, story.visualStyle);
+      const url = await generateCoverImage(story.title, story.summary, story.visualStyle, guide?.characters, pageFormat.coverAspectRatio, {
+        signal: getSignal(),
+        onStart: () => setCoverStatus('running'),
+        fresh,
+        variantGroup: variantGroup('cover'),
+      });
+      // A restart also draws a new cover, but its history was just cleared
+      if (fresh && before) record('Regenerated cover', [{ kind: 'cover', before, after: url }]);
       setCoverImage(url);
+      setCoverStatus('done');
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error("Cover generation failed", e);
-    } finally {
-      setIsCoverGenerating(false);
+      setCoverStatus('failed');
     }
+    setIsCoverGenerating(false);
+  };
+
+  const setPanelJob = (id: number, status: JobStatus) => {
+    setPanelJobs(prev => ({ ...prev, [id]: status }));
   };
 
-  const generateImageForPanel = async (id: number, description: string) => {
+  const generateImageForPanel = async (panel: Panel, guide: StyleGuide | null, fresh = false) => {
+    const { id } = panel;
     setPanels(prev => prev.map(p => p.id === id ? { ...p, isGenerating: true } : p));
+    setPanelJob(id, 'queued');
     try {
-      const imageUrl = await generatePanelImage(description);
-      setPanels(prev => prev.map(p => p.id === id ? { ...p, imageUrl, isGenerating: false } : p));
+      const imageUrl = await generatePanelImage(panel, guide, artAspectRatio(panel), {
+        signal: getSignal(),
+        onStart: () => setPanelJob(id, 'running'),
+        fresh,
+        variantGroup: variantGroup(id),
+      });
+      const variant = createVariant(imageUrl, 'generated');
+      if (panel.imageUrl) {
+        const index = panels.findIndex(p => p.id === id);
+        record(`Regenerated image on page ${index + 1}`, [
+          { kind: 'panel', id, before: variantSelection(panel), after: { imageUrl, starredVariantId: variant.id } },
+        ]);
+      }
+      setPanels(prev => prev.map(p => p.id === id ? { ...p, ...addVariants(p, [variant], true), isGenerating: false } : p));
+      setPanelJob(id, 'done');
     } catch (e) {
+      // Unmounted: nothing left to update
+      if (isAbortError(e)) return;
       console.error(`Failed to generate image for panel ${id}`, e);
       setPanels(prev => prev.map(p => p.id === id ? { ...p, isGenerating: false } : p));
+      setPanelJob(id, 'failed');
     }
   };
 
-  const openImageEditor = (id: number | 'cover', url: string, description: string) => {
+  // Candidates are added next to the page image for the user to pick from
+  const generateCandidatesForPanel = async (panel: Panel, count: number) => {
+    const { id } = panel;
+    setPanels(prev => prev.map(p => p.id === id ? { ...p, isGenerating: true } : p));
+    setPanelJob(id, 'queued');
+    try {
+      const images = await generatePanelCandidates(panel, styleGuide, count, artAspectRatio(panel), {
+        signal: getSignal(),
+        onStart: () => setPanelJob(id, 'running'),
+        variantGroup: variantGroup(id),
+      });
+      const added = images.map(url => createVariant(url, 'generated'));
+      setPanels(prev => prev.map(p => p.id === id ? { ...p, ...addVariants(p, added, false), isGenerating: false } : p));
+      setPanelJob(id, 'done');
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(`Failed to generate candidates for panel ${id}`, e);
+      setPanels(prev => prev.map(p => p.id === id ? { ...p, isGenerating: false } : p));
+      setPanelJob(id, 'failed');
+    }
+  };
+
+  // Panels whose image never arrived, whether the job failed or was never started
+  const failedPanels = loadingScript ? [] : panels.filter(p => !p.imageUrl && !p.isGenerating);
+  const coverFailed = !loadingScript && !coverImage && !isCoverGenerating;
+
+  const handleRetryFailed = () => {
+    if (coverFailed) generateCover(styleGuide);
+    generateImages(failedPanels, styleGuide);
+  };
+
+  const record = (label: string, changes: BookChange[], source: HistorySource = 'user') => {
+    if (changes.length === 0) return;
+    setHistory(prev => recordEntry(prev, createEntry(label, changes, source)));
+  };
+
+  const applyBookState = (next: BookState) => {
+    setTitle(next.title);
+    setAuthor(next.author);
+    setCoverImage(next.coverImage);
+    setPanels(next.panels);
+  };
+
+  const handleUndo = () => {
+    const result = undo(history, { title, author, coverImage, panels });
+    if (!result) return;
+    setHistory(result.history);
+    applyBookState(result.state);
+  };
+
+  const handleRedo = () => {
+    const result = redo(history, { title, author, coverImage, panels });
+    if (!result) return;
+    setHistory(result.history);
+    applyBookState(result.state);
+  };
+
+  const handleJump = (entryId: number | null) => {
+    const result = jumpTo(history, { title, author, coverImage, panels }, entryId);
+    setHistory(result.history);
+    applyBookState(result.state);
+  };
+
+  // Ctrl/Cmd+Z, Ctrl/Cmd+Shift+Z and Ctrl+Y. Text fields keep their native undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const beginTextEdit = (value: string) => {
+    editStartRef.current = value;
+  };
+
+  const endTextEdit = (label: string, value: string, change: (before: string, after: string) => BookChange) => {
+    const before = editStartRef.current;
+    editStartRef.current = null;
+    if (before !== null && before !== value) {
+      record(label, [change(before, value)]);
+    }
+  };
+
+  const openImageEditor = (id: number | 'cover', url: string, description: string, adjustments: ImageAdjustment[] = []) => {
     setEditingImageId(id);
     setEditingImageUrl(url);
     setEditingDescription(description);
+    setEditingAdjustments(adjustments);
   };
 
-  const handleImageSave = (newUrl: string) => {
-    if (editingImageId === 'cover') {
-      setCoverImage(newUrl);
-    } else if (typeof editingImageId === 'number') {
-      setPanels(prev => prev.map(p => p.id === editingImageId ? { ...p, imageUrl: newUrl } : p));
-    }
+  const handleImageSave = async (newUrl: string, adjustments: ImageAdjustment[]) => {
+    const id = editingImageId;
     setEditingImageId(null);
+    if (id === 'cover') {
+      // The cover has no variants to fall back on, so adjustments are baked in
+      const after = await applyAdjustments(newUrl, adjustments);
+      if (after === coverImage) return;
+      record('Edited cover', [{ kind: 'cover', before: coverImage, after }]);
+      setCoverImage(after);
+    } else if (typeof id === 'number') {
+      const index = panels.findIndex(p => p.id === id);
+      const panel = panels[index];
+      if (!panel) return;
+      const before: Partial<Panel> = { ...variantSelection(panel), adjustments: panel.adjustments };
+      const after: Partial<Panel> = { ...variantSelection(panel), adjustments };
+      // An AI edit is kept as a new variant, so the original can be starred again
+      const variant = newUrl !== panel.imageUrl ? createVariant(newUrl, 'edited') : null;
+      if (variant) {
+        after.imageUrl = newUrl;
+        after.starredVariantId = variant.id;
+      }
+      record(`Edited image on page ${index + 1}`, [{ kind: 'panel', id, before, after }]);
+      setPanels(prev => prev.map(p => p.id === id ? { ...p, ...(variant ? addVariants(p, [variant], true) : {}), adjustments } : p));
+    }
+  };
+
+  const handleSelectCover = (imageUrl: string) => {
+    record('Picked an earlier cover', [{ kind: 'cover', before: coverImage, after: imageUrl }]);
+    setCoverImage(imageUrl);
+  };
+
+  const handleStarVariant = (id: number, variantId: string) => {
+    const index = panels.findIndex(p => p.id === id);
+    const panel = panels[index];
+    if (!panel || panel.starredVariantId === variantId) return;
+    record(`Starred an image for page ${index + 1}`, [
+      { kind: 'panel', id, before: variantSelection(panel), after: variantSelection(starVariant(panel, variantId)) },
+    ]);
+    setPanels(prev => prev.map(p => p.id === id ? { ...p, ...starVariant(p, variantId) } : p));
+  };
+
+  const handleRemoveVariant = (id: number, variantId: string) => {
+    setPanels(prev => prev.map(p => p.id === id ? { ...p, ...removeVariant(p, variantId) } : p));
+  };
+
+  const handleAddVariant = (id: number, imageUrl: string, source: 'generated' | 'uploaded') => {
+    setPanels(prev => prev.map(p => p.id === id ? { ...p, ...addVariants(p, [createVariant(imageUrl, source)], false) } : p));
+  };
+
+  const startUpload = (id: number | 'cover', file: File) => {
+    const error = validateUpload(file);
+    if (error) {
+      alert(error);
+      return;
+    }
+    setPendingUpload({ id, file });
+  };
+
+  const pickUpload = (id: number | 'cover') => {
+    uploadTargetRef.current = id;
+    uploadInputRef.current?.click();
+  };
+
+  const handlePickedUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file && uploadTargetRef.current !== null) startUpload(uploadTargetRef.current, file);
+  };
+
+  const handleUseUpload = (id: number | 'cover', uploaded: string, restyled?: string) => {
+    setPendingUpload(null);
+    if (id === 'cover') {
+      const after = restyled || uploaded;
+      record('Uploaded cover art', [{ kind: 'cover', before: coverImage, after }]);
+      setCoverImage(after);
+      return;
+    }
+    const index = panels.findIndex(p => p.id === id);
+    const panel = panels[index];
+    if (!panel) return;
+    // Both versions are kept, so the hand-drawn original can be starred later
+    const added = [createVariant(uploaded, 'uploaded'), ...(restyled ? [createVariant(restyled, 'edited')] : [])];
+    const next = addVariants(panel, added, true);
+    record(`Uploaded artwork on page ${index + 1}`, [
+      { kind: 'panel', id, before: variantSelection(panel), after: variantSelection(next) },
+    ]);
+    setPanels(prev => prev.map(p => p.id === id ? { ...p, ...addVariants(p, added, true) } : p));
   };
 
   const updateCaption = (id: number, newCaption: string) => {
     setPanels(prev => prev.map(p => p.id === id ? { ...p, caption: newCaption } : p));
   };
 
-  const copyToClipboard = async (id: string | number, url: string) => {
+  const captionEditProps = (panel: Panel, pageLabel: string) => ({
+    onFocus: () => beginTextEdit(panel.caption),
+    onBlur: (e: React.FocusEvent<HTMLTextAreaElement>) => endTextEdit(`Edited caption on ${pageLabel}`, e.target.value, (before, after) => (
+      { kind: 'panel', id: panel.id, before: { caption: before }, after: { caption: after } }
+    )),
+  });
+
+  // Panel ids are never reused (see panelOps), so refineStoryContent's id
+  // matching and in-flight generations stay correct after any of these.
+  const takePanelId = () => {
+    const id = nextPanelId(panels, nextPanelIdRef.current);
+    nextPanelIdRef.current = id + 1;
+    return id;
+  };
+
+  const handleInsertPanel = async (afterId: number) => {
+    const index = panels.findIndex(p => p.id === afterId);
+    const placeholder = createPanel(takePanelId(), { isGenerating: true });
+    setStructureBusyId(placeholder.id);
+    setPanels(prev => insertPanelAt(prev, prev.findIndex(p => p.id === afterId), placeholder));
+    try {
+      const beat = await suggestBridgingBeat(story, styleGuide, panels[index], panels[index + 1], { signal: getSignal() });
+      setPanels(prev => updatePanel(prev, placeholder.id, beat));
+      record(`Inserted page ${index + 2}`, [
+        { kind: 'structure', before: panels, after: insertPanelAt(panels, index, { ...placeholder, ...beat, isGenerating: false }) },
+      ]);
+      await generateImageForPanel({ ...placeholder, ...beat }, styleGuide);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Failed to insert panel", e);
+      setPanels(prev => removePanel(prev, placeholder.id));
+      alert("Could not write a new scene. Please try again.");
+    } finally {
+      setStructureBusyId(null);
+    }
+  };
+
+  const handleSplitPanel = async (panel: Panel) => {
+    // The first half keeps the original id and artwork; only the second half is illustrated.
+    const second = createPanel(takePanelId(), { isGenerating: true, characterIds: panel.characterIds });
+    setStructureBusyId(panel.id);
+    setPanels(prev => insertPanelAt(prev, prev.findIndex(p => p.id === panel.id), second));
+    try {
+      const [firstBeat, secondBeat] = await splitBeat(story, styleGuide, panel, { signal: getSignal() });
+      setPanels(prev => updatePanel(updatePanel(prev, panel.id, firstBeat), second.id, secondBeat));
+      const index = panels.findIndex(p => p.id === panel.id);
+      record(`Split page ${index + 1}`, [
+        { kind: 'structure', before: panels, after: insertPanelAt(panels, index, { ...second, ...secondBeat, isGenerating: false }) },
+        {
+          kind: 'panel',
+          id: panel.id,
+          before: { description: panel.description, caption: panel.caption, characterIds: panel.characterIds },
+          after: firstBeat,
+        },
+      ]);
+      await generateImageForPanel({ ...second, ...secondBeat }, styleGuide);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Failed to split panel", e);
+      setPanels(prev => removePanel(prev, second.id));
+      alert("Could not split this scene. Please try again.");
+    } finally {
+      setStructureBusyId(null);
+    }
+  };
+
+  const handleDuplicatePanel = (id: number) => {
+    const index = panels.findIndex(p => p.id === id);
+    if (index < 0) return;
+    const next = insertPanelAt(panels, index, copyPanel(takePanelId(), panels[index]));
+    record(`Duplicated page ${index + 1}`, [{ kind: 'structure', before: panels, after: next }]);
+    setPanels(next);
+  };
+
+  const handleDeletePanel = (id: number) => {
+    if (panels.length <= 1) return;
+    if (!window.confirm("Delete this page?")) return;
+    const index = panels.findIndex(p => p.id === id);
+    const next = removePanel(panels, id);
+    record(`Deleted page ${index + 1}`, [{ kind: 'structure', before: panels, after: next }]);
+    setPanels(next);
+  };
+
+  const handleDragStart = (id: number) => (e: React.DragEvent) => {
+    setDraggedId(id);
+    e.dataTransfer.effectAllowed = 'move';
+    const card = (e.currentTarget as HTMLElement).closest('[data-panel-card]');
+    if (card) e.dataTransfer.setDragImage(card, 20, 20);
+  };
+
+  const handleDrop = (targetId: number) => (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedId === null || draggedId === targetId) return;
+    const from = panels.findIndex(p => p.id === draggedId);
+    const to = panels.findIndex(p => p.id === targetId);
+    const next = movePanel(panels, from, to);
+    record(`Moved page ${from + 1} to ${to + 1}`, [{ kind: 'structure', before: panels, after: next }]);
+    setPanels(next);
+    setDraggedId(null);
+  };
+
+  const dropTargetProps = (id: number) => ({
+    'data-panel-card': true,
+    onDragOver: (e: React.DragEvent) => { if (draggedId !== null) e.preventDefault(); },
+    onDrop: handleDrop(id),
+  });
+
+  const recordOverlayEdit = (panel: Panel, pageLabel: string) => (before: PanelOverlay[], after: PanelOverlay[]) => {
+    record(`Edited lettering on ${pageLabel}`, [
+      { kind: 'panel', id: panel.id, before: { overlays: before }, after: { overlays: after } },
+    ]);
+  };
+
+  const handleAddBubble = (panel: Panel) => {
+    const index = panels.findIndex(p => p.id === panel.id);
+    const before = panel.overlays || [];
+    const overlay = createOverlay('speech', { text: 'Hello!', characterId: panel.characterIds?.[0] });
+    const after = [...before, overlay];
+    record(`Added a speech bubble on page ${index + 1}`, [
+      { kind: 'panel', id: panel.id, before: { overlays: before }, after: { overlays: after } },
+    ]);
+    setPanels(prev => updatePanel(prev, panel.id, { overlays: after }));
+    setSelectedOverlay({ panelId: panel.id, overlayId: overlay.id });
+  };
+
+  const renderOverlayLayer = (panel: Panel, pageLabel: string, compact?: boolean) => (
+    <OverlayLayer
+      overlays={panel.overlays || []}
+      compact={compact}
+      selectedId={selectedOverlay?.panelId === panel.id ? selectedOverlay.overlayId : null}
+      onSelect={(overlayId) => setSelectedOverlay(overlayId ? { panelId: panel.id, overlayId } : null)}
+      onChange={(overlays) => setPanels(prev => updatePanel(prev, panel.id, { overlays }))}
+      onCommit={recordOverlayEdit(panel, pageLabel)}
+    />
+  );
+
+  const renderPanelActions = (panel: Panel, compact?: boolean) => (
+    <PanelActions
+      compact={compact}
+      busy={structureBusyId !== null}
+      canDelete={panels.length > 1}
+      onDragStart={handleDragStart(panel.id)}
+      onDragEnd={() => setDraggedId(null)}
+      onInsertAfter={() => handleInsertPanel(panel.id)}
+      onDuplicate={() => handleDuplicatePanel(panel.id)}
+      onSplit={() => handleSplitPanel(panel)}
+      onDelete={() => handleDeletePanel(panel.id)}
+      onAddBubble={panel.imageUrl ? () => handleAddBubble(panel) : undefined}
+    />
+  );
+
+  const handlePageTemplate = (panel: Panel, pageIdx: number, templateId: string) => {
+    const after = templateId || undefined;
+    if (after === panel.pageTemplateId) return;
+    record(`Changed the layout of page ${pageIdx + 1}`, [
+      { kind: 'panel', id: panel.id, before: { pageTemplateId: panel.pageTemplateId }, after: { pageTemplateId: after } },
+    ]);
+    setPanels(prev => updatePanel(prev, panel.id, { pageTemplateId: after }));
+  };
+
+  const narratePanel = async (panel: Panel) => {
+    const { id } = panel;
+    setNarratingIds(prev => [...prev, id]);
     try {
-        const blob = base64ToBlob(url);
+      const narration = await narrateText(panel.caption, narrationSettings, { signal: getSignal() });
+      const index = panels.findIndex(p => p.id === id);
+      record(`Narrated page ${index + 1}`, [{ kind: 'panel', id, before: { narration: panel.narration }, after: { narration } }]);
+      setPanels(prev => updatePanel(prev, id, { narration }));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(`Failed to narrate panel ${id}`, e);
+      alert('Narration failed. Try again or pick another voice engine.');
+    }
+    setNarratingIds(prev => prev.filter(n => n !== id));
+  };
+
+  const handleNarrate = (targets: Panel[]) => {
+    targets.filter(p => p.caption.trim() && !narratingIds.includes(p.id)).forEach(narratePanel);
+  };
+
+  const handleNarrationSettings = (settings: NarrationSettings) => {
+    if (settings.providerId !== narrationSettings.providerId) setTtsProvider(settings.providerId);
+    setNarrationSettings(settings);
+  };
+
+  const handleNarrationRecording = async (panel: Panel, file: File) => {
+    const problem = validateRecording(file);
+    if (problem) {
+      alert(problem);
+      return;
+    }
+    try {
+      const narration = await narrationFromRecording(file, panel.caption);
+      const index = panels.findIndex(p => p.id === panel.id);
+      record(`Recorded narration for page ${index + 1}`, [{ kind: 'panel', id: panel.id, before: { narration: panel.narration }, after: { narration } }]);
+      setPanels(prev => updatePanel(prev, panel.id, { narration }));
+    } catch (e) {
+      console.error('Could not read the recording', e);
+      alert(`Could not read that recording. Try another file (${AUDIO_FORMAT_NAMES}).`);
+    }
+  };
+
+  const handleRemoveNarration = (panel: Panel) => {
+    const index = panels.findIndex(p => p.id === panel.id);
+    record(`Removed narration from page ${index + 1}`, [{ kind: 'panel', id: panel.id, before: { narration: panel.narration }, after: { narration: undefined } }]);
+    setPanels(prev => updatePanel(prev, panel.id, { narration: undefined }));
+  };
+
+  const translatables = useMemo(() => collectTranslatables({ title, summary: story.summary, panels }), [title, story.summary, panels]);
+
+  const translateEdition = async (language: string, targets: TranslatableItem[], fresh = false) => {
+    // A new edition shows up straight away, before its text arrives
+    setEditions(prev => prev.some(e => e.language === language) ? prev : [...prev, { language, entries: {}, updatedAt: Date.now() }]);
+    setTranslatingLanguages(prev => [...prev, language]);
+    try {
+      const translated = await translateBookText(
+        targets,
+        language,
+        story.targetAudience || 'General',
+        styleGuide?.characters?.map(c => c.name),
+        { signal: getSignal(), fresh },
+      );
+      setEditions(prev => prev.map(e => e.language === language ? mergeTranslations(e, language, translatables, translated) : e));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(`Failed to translate into ${language}`, e);
+      alert(`Could not translate into ${languageLabel(language)}. Try again.`);
+    }
+    setTranslatingLanguages(prev => prev.filter(l => l !== language));
+  };
+
+  const handleEditionOverride = (language: string, key: string, text: string) => {
+    setEditions(prev => prev.map(e => e.language === language ? setOverride(e, key, text) : e));
+  };
+
+  const handleDeleteEdition = (language: string) => {
+    setEditions(prev => prev.filter(e => e.language !== language));
+  };
+
+  // The art slot of a panel, with its actions, drop target and generation states
+  const renderPanelArt = (panel: Panel, pageLabel: string, compact: boolean) => {
+    const buttonClass = compact ? 'h-7 w-7 p-0 bg-white/90' : 'shadow-xl bg-white/90 backdrop-blur';
+    const iconClass = compact ? 'w-3 h-3' : 'w-4 h-4';
+    return (
+      <div {...dropTargetProps(panel.id)} className={`absolute inset-0 group/panel ${draggedId === panel.id ? 'opacity-40' : ''}`}>
+        <div className={`absolute z-20 opacity-0 group-hover/panel:opacity-100 transition-opacity print:hidden ${compact ? 'top-2 left-2' : 'top-4 left-4'}`}>
+          {renderPanelActions(panel, compact)}
+        </div>
+        <ImageDropZone onFile={(file) => startUpload(panel.id, file)} className="w-full h-full relative bg-slate-50 flex items-center justify-center overflow-hidden">
+          {panel.isGenerating ? (
+            compact ? (
+              panelJobs[panel.id] === 'queued'
+                ? <span title="Waiting in queue"><Clock className="w-6 h-6 text-slate-300" /></span>
+                : <Wand2 className="w-6 h-6 text-indigo-400 animate-spin-slow" />
+            ) : (
+              <div className="text-center">
+                <Wand2 className="w-8 h-8 text-indigo-400 animate-spin-slow mx-auto mb-2" />
+                <span className="text-slate-400 font-medium">
+                  {panelJobs[panel.id] === 'queued' ? `Waiting in queue...` : `Illustrating ${pageLabel}...`}
+                </span>
+              </div>
+            )
+          ) : panel.imageUrl ? (
+            <>
+              <AdjustedImage src={panel.imageUrl} adjustments={panel.adjustments} alt={pageLabel} className="w-full h-full object-cover" />
+              {renderOverlayLayer(panel, pageLabel, compact)}
+              <div className={`absolute flex opacity-0 group-hover/panel:opacity-100 transition-opacity print:hidden ${compact ? 'top-2 right-2 gap-1' : 'top-4 right-4 gap-2'}`}>
+                <Button variant="secondary" size={compact ? 'sm' : 'md'} onClick={() => copyToClipboard(panel.id, panel.imageUrl!, panel.overlays, panel.adjustments)} className={buttonClass} title="Copy for Canva (Ctrl+V)">
+                  {copiedId === panel.id ? <Check className={`${iconClass} text-green-600`} /> : <Copy className={iconClass} />}
+                </Button>
+                <Button variant="secondary" size={compact ? 'sm' : 'md'} onClick={() => setBrowsingVariantsId(panel.id)} className={buttonClass} title="Variants">
+                  <Layers className={iconClass} />
+                </Button>
+                <Button variant="secondary" size={compact ? 'sm' : 'md'} onClick={() => pickUpload(panel.id)} className={buttonClass} title="Upload your own artwork">
+                  <Upload className={iconClass} />
+                </Button>
+                <Button variant="secondary" size={compact ? 'sm' : 'md'} onClick={() => openImageEditor(panel.id, panel.imageUrl!, panel.description, panel.adjustments)} className={buttonClass}>
+                  <Edit2 className={iconClass} />
+                </Button>
+              </div>
+            </>
+          ) : compact ? (
+            <div className="flex gap-3 print:hidden">
+              <button onClick={() => generateImageForPanel(panel, styleGuide)} className="flex items-center gap-1 text-xs text-slate-400 hover:text-indigo-600">
+                <RefreshCw className="w-3 h-3" /> Retry
+              </button>
+              <button onClick={() => pickUpload(panel.id)} className="flex items-center gap-1 text-xs text-slate-400 hover:text-indigo-600">
+                <Upload className="w-3 h-3" /> Upload
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center gap-3 text-slate-300">
+              Image failed
+              <div className="flex gap-2 print:hidden">
+                <Button variant="secondary" size="sm" onClick={() => generateImageForPanel(panel, styleGuide)}>
+                  <RefreshCw className="w-3 h-3" /> Retry
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => pickUpload(panel.id)}>
+                  <Upload className="w-3 h-3" /> Upload
+                </Button>
+              </div>
+            </div>
+          )}
+        </ImageDropZone>
+      </div>
+    );
+  };
+
+  // The caption of a panel; font and colour come from the page template
+  const renderCaption = (panel: Panel, pageLabel: string, compact: boolean) => (
+    <div className="relative w-full h-full flex flex-col">
+      {compact && flagsFor(safety.violations, panel.id).length > 0 && (
+        <div className="absolute bottom-full left-1 right-1 mb-1 z-10">
+          <SafetyFlags flags={flagsFor(safety.violations, panel.id)} policy={safety.policy} compact />
+        </div>
+      )}
+      <textarea
+        value={panel.caption}
+        onChange={(e) => updateCaption(panel.id, e.target.value)}
+        {...captionEditProps(panel, pageLabel)}
+        className={`w-full flex-1 min-h-0 font-medium bg-transparent resize-none outline-none border border-transparent hover:border-indigo-100 focus:border-indigo-400 rounded text-center ${compact ? 'p-1 leading-snug' : 'p-4 leading-relaxed'}`}
+      />
+      {!compact && <SafetyFlags flags={flagsFor(safety.violations, panel.id)} policy={safety.policy} />}
+    </div>
+  );
+
+  const renderContentPage = (page: ContentPage, pageIdx: number) => {
+    const compact = templateCapacity(page.template) > 1;
+    const pageLabel = `page ${pageIdx + 1}`;
+    const first = page.panels[0];
+    return (
+      <div key={first.id}>
+        <div className="max-w-[700px] mx-auto mb-2 flex items-center justify-between text-xs font-semibold text-slate-400 print:hidden">
+          <span className="tracking-widest uppercase">Page {pageIdx + 1}</span>
+          <label className="flex items-center gap-2">
+            <LayoutTemplate className="w-3 h-3" />
+            <select
+              value={first.pageTemplateId || ''}
+              onChange={(e) => handlePageTemplate(first, pageIdx, e.target.value)}
+              className="bg-transparent text-slate-500 outline-none cursor-pointer"
+              title="Page layout"
+            >
+              <option value="">Book default ({defaultTemplate.name})</option>
+              {BUILT_IN_TEMPLATES.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
+          </label>
+        </div>
+        <div
+          style={{ aspectRatio: pageFormat.pageAspect }}
+          className="ebook-page bg-white mx-auto shadow-xl shadow-slate-200/60 border border-slate-100 w-full max-w-[700px] relative overflow-hidden rounded-sm print:shadow-none print:border-none print:aspect-auto print:h-[297mm] print:w-[210mm] print:break-after-page"
+        >
+          <TemplatedPage
+            template={page.template}
+            panels={page.panels}
+            renderArt={(panel) => renderPanelArt(panel, pageLabel, compact)}
+            renderText={(panel) => renderCaption(panel, pageLabel, compact)}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const copyToClipboard = async (id: string | number, url: string, overlays?: PanelOverlay[], adjustments?: ImageAdjustment[]) => {
+    try {
+        const blob = base64ToBlob(await flattenOverlays(await applyAdjustments(url, adjustments), overlays));
         
         if (!navigator.clipboard || !navigator.clipboard.write) {
             throw new Error("Clipboard API not available");
@@ -172,7 +858,8 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
             story.targetAudience || "General",
             story.visualStyle || "Cartoon",
             coverImage || undefined,
-            captionsSample
+            captionsSample,
+            { signal: getSignal() }
         );
         setAnalysis(result);
     } catch (e) {
@@ -191,9 +878,22 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
         story.summary,
         panels,
         analysis.critique + " " + analysis.textQuality,
-        story.targetAudience || "General"
+        story.targetAudience || "General",
+        { signal: getSignal() }
       );
       
+      const changes: BookChange[] = [];
+      if (refined.newTitle !== title) {
+        changes.push({ kind: 'title', before: title, after: refined.newTitle });
+      }
+      panels.forEach(p => {
+        const update = refined.refinedPanels.find(rp => rp.id === p.id);
+        if (update && update.caption !== p.caption) {
+          changes.push({ kind: 'panel', id: p.id, before: { caption: p.caption }, after: { caption: update.caption } });
+        }
+      });
+      record('Rewrote title and captions', changes, 'agent');
+
       setTitle(refined.newTitle);
       setPanels(prev => prev.map(p => {
          const update = refined.refinedPanels.find(rp => rp.id === p.id);
@@ -215,13 +915,16 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
      const suggestionText = analysis.suggestions.join(", ");
      const enhancedStyle = `${story.visualStyle}. IMPROVEMENTS: ${suggestionText}`;
      setIsCoverGenerating(true);
-     generateCoverImage(title, story.summary, enhancedStyle)
+     generateCoverImage(title, story.summary, enhancedStyle, styleGuide?.characters, pageFormat.coverAspectRatio, { signal: getSignal(), variantGroup: variantGroup('cover') })
        .then(url => {
+          record('Regenerated cover from suggestions', [{ kind: 'cover', before: coverImage, after: url }], 'agent');
           setCoverImage(url);
           setIsCoverGenerating(false);
           setAnalysis(prev => prev ? { ...prev, visualQuality: "Cover regenerated with suggestions!" } : null);
        })
-       .catch(() => setIsCoverGenerating(false));
+       .catch(e => {
+          if (!isAbortError(e)) setIsCoverGenerating(false);
+       });
   };
 
   const handleRetry = () => {
@@ -230,11 +933,107 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
       initStory(); 
   }
 
-  const handlePrint = () => {
-    window.scrollTo(0, 0);
-    window.print();
+  const safetyItems = useMemo(() => collectSafetyItems({ title, author, summary: story.summary, panels }), [title, author, story.summary, panels]);
+  const safety = useMemo(
+    () => buildSafetyReport(safetyItems, getAudiencePolicy(story.targetAudience), safetyReview?.flags),
+    [safetyItems, story.targetAudience, safetyReview],
+  );
+  const safetyReviewCurrent = safetyReview?.key === safetyItemsKey(safetyItems);
+
+  const handleSafetyReview = async () => {
+    const items = safetyItems;
+    setReviewingSafety(true);
+    setSafetyReviewFailed(false);
+    try {
+      const flags = await reviewContentSafety(items, safety.policy, SOURCE_LANGUAGE, { signal: getSignal() });
+      setSafetyReview({ key: safetyItemsKey(items), flags });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setSafetyReviewFailed(true);
+    }
+    setReviewingSafety(false);
+  };
+
+  const openExportDialog = () => {
+    setShowExportDialog(true);
+    // Children's books can't be exported until the review has seen the latest text
+    if (safety.policy.blocksExport && !safetyReviewCurrent && !reviewingSafety) {
+      handleSafetyReview();
+    }
+  };
+
+  // The book as it reads in one of its languages
+  const buildEdition = (language: string): Ebook => {
+    const edition = editions.find(e => e.language === language);
+    return edition ? applyEdition(buildEbook(), edition) : buildEbook();
+  };
+
+  // The word lists only know English, so editions lean on the model review
+  const editionSafetyItems = (language: string) => {
+    const book = buildEdition(language);
+    return collectSafetyItems({ title: book.storyTitle, author: book.author, summary: book.storySummary, panels: book.panels });
+  };
+
+  const buildEditionSafety = (): Record<string, EditionSafety> => Object.fromEntries(editions.map(edition => {
+    const items = editionSafetyItems(edition.language);
+    const review = editionReviews[edition.language];
+    const state: SafetyReviewState = reviewingEditions.includes(edition.language) ? 'running'
+      : failedEditionReviews.includes(edition.language) ? 'failed'
+      : review?.key === safetyItemsKey(items) ? 'current' : 'stale';
+    return [edition.language, { safety: buildSafetyReport(items, safety.policy, review?.flags), review: state }];
+  }));
+
+  const handleEditionSafetyReview = async (language: string) => {
+    const items = editionSafetyItems(language);
+    setReviewingEditions(prev => [...prev, language]);
+    setFailedEditionReviews(prev => prev.filter(l => l !== language));
+    try {
+      const flags = await reviewContentSafety(items, safety.policy, language, { signal: getSignal() });
+      setEditionReviews(prev => ({ ...prev, [language]: { key: safetyItemsKey(items), flags } }));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setFailedEditionReviews(prev => [...prev, language]);
+    }
+    setReviewingEditions(prev => prev.filter(l => l !== language));
   };
 
+  const handleGenerateListing = async (language: string) => {
+    const book = buildEdition(language);
+    setListingLanguages(prev => [...prev, language]);
+    try {
+      const listing = await generateListing({
+        title: book.storyTitle,
+        author,
+        summary: book.storySummary,
+        captions: book.panels.map(p => p.caption).filter(c => c.trim()),
+        audience: story.targetAudience || 'General',
+        visualStyle: story.visualStyle || 'Cartoon',
+        language,
+        critique: analysis?.critique,
+      }, { signal: getSignal(), fresh: listings.some(l => l.language === language) });
+      setListings(prev => [...prev.filter(l => l.language !== language), listing]);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error(`Failed to write the ${language} listing`, e);
+      alert(`Could not write the ${languageLabel(language)} listing. Try again.`);
+    }
+    setListingLanguages(prev => prev.filter(l => l !== language));
+  };
+
+  const handleListingChange = (listing: MarketplaceListing) => {
+    setListings(prev => prev.map(l => l.language === listing.language ? listing : l));
+  };
+
+  const buildEbook = (): Ebook => ({
+    storyTitle: title,
+    storySummary: safety.omitSummary ? '' : story.summary,
+    panels,
+    author,
+    coverImage,
+    layoutStyle: story.layoutStyle,
+    pageFormat: story.pageFormat,
+  });
+
   if (loadingScript) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center p-8 text-center space-y-6 bg-slate-50">
@@ -248,7 +1047,8 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
     );
   }
 
-  const comicPages: Panel[][] | null = story.layoutStyle === 'COMIC_STRIP' ? chunkArray(panels, 4) : null;
+  const narratedCount = panels.filter(hasCurrentNarration).length;
+  const browsingPanel = typeof browsingVariantsId === 'number' ? panels.find(p => p.id === browsingVariantsId) : undefined;
 
   return (
     <div className="min-h-screen bg-slate-100 pb-20 font-sans print:bg-white print:pb-0">
@@ -262,11 +1062,50 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
             <div>
                 <h1 className="text-lg font-bold text-slate-800 truncate max-w-md">{title}</h1>
                 <div className="text-xs text-slate-500 font-medium flex items-center gap-2">
-                    <span>{panels.length} Panels</span> • <span>{story.layoutStyle === 'COMIC_STRIP' ? 'Comic Grid' : 'Storybook'}</span>
+                    <span>{panels.length} Panels</span> • <span>{story.layoutStyle === 'COMIC_STRIP' ? 'Comic Grid' : 'Storybook'}</span> • <span>{pageFormat.label}</span>
+                    {saveStatus !== 'idle' && (
+                      <span className={`flex items-center gap-1 ${saveStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                        • <Save className="w-3 h-3" />
+                        {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'saved' ? 'Saved' : 'Not saved'}
+                      </span>
+                    )}
+                    {safety.violations.length > 0 && (
+                      <span className="flex items-center gap-1 text-red-500" title={`Flagged for ${safety.policy.label}`}>
+                        • <ShieldAlert className="w-3 h-3" />
+                        {safety.violations.length} content issue{safety.violations.length === 1 ? '' : 's'}
+                      </span>
+                    )}
                 </div>
             </div>
         </div>
         <div className="flex gap-3">
+            <JobQueueStatus failedCount={failedPanels.length + (coverFailed ? 1 : 0)} onRetryFailed={handleRetryFailed} />
+            <div className="flex gap-1">
+                <Button variant="secondary" size="sm" onClick={handleUndo} disabled={history.past.length === 0} className="rounded-full" title="Undo (Ctrl+Z)">
+                    <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button variant="secondary" size="sm" onClick={handleRedo} disabled={history.future.length === 0} className="rounded-full" title="Redo (Ctrl+Shift+Z)">
+                    <Redo2 className="w-4 h-4" />
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => setShowHistory(true)} className="rounded-full" title="History">
+                    <HistoryIcon className="w-4 h-4" />
+                </Button>
+            </div>
+            <Button variant="secondary" onClick={() => setShowNarration(true)} className="rounded-full" title="Narration">
+                <AudioLines className="w-4 h-4" />
+                {narratedCount > 0 && <span className="text-xs">{narratedCount}/{panels.length}</span>}
+            </Button>
+            <Button variant="secondary" onClick={() => setShowEditions(true)} className="rounded-full" title="Translations">
+                <Languages className="w-4 h-4" />
+                {editions.length > 0 && <span className="text-xs">{editions.length}</span>}
+            </Button>
+            <Button variant="secondary" onClick={() => setShowListing(true)} className="rounded-full" title="Marketplace listing">
+                <Store className="w-4 h-4" />
+            </Button>
+            <Button variant="secondary" onClick={() => onRead(buildEbook())} className="rounded-full" title="Read the book full screen">
+                <BookOpen className="w-4 h-4 mr-2" />
+                Read
+            </Button>
             <Button variant="outline" onClick={runAgentAnalysis} className="hidden md:flex rounded-full border-indigo-200 text-indigo-700 hover:bg-indigo-50">
                 <Bot className="w-4 h-4 mr-2" />
                 Viral Agent
@@ -275,9 +1114,9 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
                 <ExternalLink className="w-4 h-4 mr-2" />
                 Export to Canva
             </Button>
-            <Button variant="primary" onClick={handlePrint} className="rounded-full shadow-lg shadow-indigo-200">
+            <Button variant="primary" onClick={openExportDialog} className="rounded-full shadow-lg shadow-indigo-200">
                 <Download className="w-4 h-4 mr-2" /> 
-                Download PDF
+                Export PDF / EPUB
             </Button>
         </div>
       </div>
@@ -287,13 +1126,13 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
       <div id="ebook-content" className="max-w-5xl w-full p-8 space-y-12 print:p-0 print:space-y-0 print:w-full print:max-w-none print:m-0">
         
         {/* PAGE 1: COVER */}
-        <div className="ebook-page bg-white mx-auto shadow-xl shadow-slate-200/60 border border-slate-100 aspect-[3/4] w-full max-w-[700px] flex flex-col relative overflow-hidden group rounded-sm print:shadow-none print:border-none print:aspect-auto print:h-[297mm] print:w-[210mm]">
-          <div className="h-[75%] w-full relative bg-slate-100 overflow-hidden print:h-[70%]">
+        <div style={{ aspectRatio: pageFormat.pageAspect }} className="ebook-page bg-white mx-auto shadow-xl shadow-slate-200/60 border border-slate-100 w-full max-w-[700px] flex flex-col relative overflow-hidden group rounded-sm print:shadow-none print:border-none print:aspect-auto print:h-[297mm] print:w-[210mm]">
+          <ImageDropZone onFile={(file) => startUpload('cover', file)} className="h-[75%] w-full relative bg-slate-100 overflow-hidden print:h-[70%]">
              {isCoverGenerating ? (
                <div className="absolute inset-0 flex items-center justify-center bg-slate-50">
                   <div className="text-center">
                     <Wand2 className="w-8 h-8 text-indigo-400 animate-spin-slow mx-auto mb-2" />
-                    <span className="text-indigo-400 font-medium">Painting Cover...</span>
+                    <span className="text-indigo-400 font-medium">{coverStatus === 'queued' ? 'Cover waiting in queue...' : 'Painting Cover...'}</span>
                   </div>
                </div>
              ) : coverImage ? (
@@ -303,106 +1142,73 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
                     <Button variant="secondary" onClick={() => copyToClipboard('cover', coverImage)} className="shadow-xl bg-white/90 backdrop-blur" title="Copy for Canva (Ctrl+V)">
                       {copiedId === 'cover' ? <Check className="w-4 h-4 text-green-600"/> : <Copy className="w-4 h-4" />}
                     </Button>
+                    <Button variant="secondary" onClick={() => setBrowsingVariantsId('cover')} className="shadow-xl bg-white/90 backdrop-blur" title="Variants">
+                      <Layers className="w-4 h-4" />
+                    </Button>
+                    <Button variant="secondary" onClick={() => pickUpload('cover')} className="shadow-xl bg-white/90 backdrop-blur" title="Upload your own artwork">
+                      <Upload className="w-4 h-4" />
+                    </Button>
                     <Button variant="secondary" onClick={() => openImageEditor('cover', coverImage, `Cover art for ${title}`)} className="shadow-xl bg-white/90 backdrop-blur">
                       <Edit2 className="w-4 h-4" />
                     </Button>
                   </div>
                 </>
              ) : (
-                <div className="w-full h-full flex items-center justify-center text-slate-400">Cover generation failed</div>
+                <div className="w-full h-full flex flex-col items-center justify-center gap-3 text-slate-400">
+                  Cover generation failed
+                  <div className="flex gap-2 print:hidden">
+                    <Button variant="secondary" size="sm" onClick={() => generateCover(styleGuide)}>
+                      <RefreshCw className="w-3 h-3" /> Retry
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => pickUpload('cover')}>
+                      <Upload className="w-3 h-3" /> Upload
+                    </Button>
+                  </div>
+                </div>
              )}
-          </div>
+          </ImageDropZone>
           <div className="flex-1 bg-white p-8 md:p-12 flex flex-col justify-center items-center text-center">
              <input
                value={title}
                onChange={(e) => setTitle(e.target.value)}
+               onFocus={() => beginTextEdit(title)}
+               onBlur={(e) => endTextEdit('Edited title', e.target.value, (before, after) => ({ kind: 'title', before, after }))}
                className="w-full text-4xl md:text-5xl font-black text-slate-900 text-center outline-none border-b-2 border-transparent hover:border-indigo-100 focus:border-indigo-500 transition-all bg-transparent mb-4 placeholder-slate-300 uppercase tracking-tight leading-tight"
                placeholder="BOOK TITLE"
              />
+             <SafetyFlags flags={flagsFor(safety.violations, undefined)} policy={safety.policy} />
              <input 
                 value={author}
                 onChange={(e) => setAuthor(e.target.value)}
+                onFocus={() => beginTextEdit(author)}
+                onBlur={(e) => endTextEdit('Edited author', e.target.value, (before, after) => ({ kind: 'author', before, after }))}
                 className="w-full text-lg text-slate-500 font-medium text-center outline-none border-b border-transparent hover:border-indigo-100 focus:border-indigo-500 bg-transparent"
              />
           </div>
         </div>
 
         {/* CONTENT PAGES */}
-        {story.layoutStyle === 'STORYBOOK' ? (
-            /* STORYBOOK LAYOUT */
+        {spreads ? (
+            /* FULL-BLEED SPREADS */
             panels.map((panel, idx) => (
-               <div key={panel.id} className="ebook-page bg-white mx-auto shadow-xl shadow-slate-200/60 border border-slate-100 aspect-[3/4] w-full max-w-[700px] flex flex-col relative group rounded-sm print:shadow-none print:border-none print:aspect-auto print:h-[297mm] print:w-[210mm] print:break-after-page">
-                  <div className="w-full h-[65%] bg-slate-50 relative overflow-hidden flex items-center justify-center border-b border-slate-50 print:h-[65%]">
-                      {panel.isGenerating ? (
-                        <div className="text-center">
-                            <Wand2 className="w-8 h-8 text-indigo-400 animate-spin-slow mx-auto mb-2" />
-                            <span className="text-slate-400 font-medium">Illustrating Page {idx + 1}...</span>
-                        </div>
-                      ) : panel.imageUrl ? (
-                        <>
-                            <img src={panel.imageUrl} alt={`Page ${idx+1}`} className="w-full h-full object-cover" />
-                            <div className="absolute top-4 right-4 flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity print:hidden">
-                                <Button variant="secondary" onClick={() => copyToClipboard(panel.id, panel.imageUrl!)} className="shadow-xl bg-white/90 backdrop-blur" title="Copy for Canva (Ctrl+V)">
-                                    {copiedId === panel.id ? <Check className="w-4 h-4 text-green-600"/> : <Copy className="w-4 h-4" />}
-                                </Button>
-                                <Button variant="secondary" onClick={() => openImageEditor(panel.id, panel.imageUrl!, panel.description)} className="shadow-xl bg-white/90 backdrop-blur">
-                                    <Edit2 className="w-4 h-4" />
-                                </Button>
-                            </div>
-                        </>
-                      ) : (
-                        <span className="text-slate-300">Image failed</span>
-                      )}
+               <div
+                 key={panel.id}
+                 style={{ aspectRatio: pageFormat.pageAspect * 2 }}
+                 className="ebook-page bg-white mx-auto shadow-xl shadow-slate-200/60 border border-slate-100 w-full max-w-[1100px] relative group rounded-sm overflow-hidden print:shadow-none print:border-none print:aspect-auto print:h-[297mm] print:w-[210mm] print:break-after-page"
+               >
+                  {renderPanelArt(panel, `pages ${idx * 2 + 1}–${idx * 2 + 2}`, false)}
+                  {/* The fold between the facing pages */}
+                  <div className="absolute inset-y-0 left-1/2 w-px bg-slate-900/20 shadow-[0_0_12px_rgba(15,23,42,0.25)] pointer-events-none" />
+                  <div className="absolute bottom-6 right-6 w-[38%] h-40 p-2 bg-white/90 backdrop-blur rounded-xl shadow-lg text-lg text-slate-700 font-comic">
+                      {renderCaption(panel, `pages ${idx * 2 + 1}–${idx * 2 + 2}`, false)}
                   </div>
-                  <div className="flex-1 p-8 md:p-12 flex flex-col justify-center items-center">
-                      <textarea
-                          value={panel.caption}
-                          onChange={(e) => updateCaption(panel.id, e.target.value)}
-                          className="w-full h-full text-xl md:text-2xl font-medium text-slate-700 bg-transparent resize-none outline-none border border-transparent hover:border-indigo-100 focus:border-indigo-400 rounded p-4 text-center leading-relaxed flex items-center justify-center font-comic"
-                       />
-                       <div className="text-slate-300 text-xs font-semibold mt-4 tracking-widest uppercase">Page {idx + 1}</div>
+                  <div className="absolute bottom-2 right-6 w-[38%] text-center text-slate-400 text-[10px] font-semibold tracking-widest uppercase pointer-events-none">
+                    Pages {idx * 2 + 1}–{idx * 2 + 2}
                   </div>
                </div>
             ))
         ) : (
-            /* COMIC STRIP LAYOUT */
-            comicPages?.map((pagePanels, pageIdx) => (
-              <div key={pageIdx} className="ebook-page bg-white mx-auto shadow-xl shadow-slate-200/60 border border-slate-100 aspect-[3/4] w-full max-w-[700px] p-8 relative group flex flex-col rounded-sm print:shadow-none print:border-none print:aspect-auto print:h-[297mm] print:w-[210mm] print:break-after-page">
-                  <div className="grid grid-cols-2 grid-rows-2 gap-4 flex-1 h-full">
-                    {pagePanels.map((panel) => (
-                      <div key={panel.id} className="flex flex-col border border-slate-200 bg-white shadow-sm rounded overflow-hidden relative group/panel print:border-slate-300">
-                        <div className="flex-1 relative bg-slate-50 flex items-center justify-center overflow-hidden">
-                           {panel.isGenerating ? (
-                             <Wand2 className="w-6 h-6 text-indigo-400 animate-spin-slow" />
-                           ) : panel.imageUrl ? (
-                             <>
-                                <img src={panel.imageUrl} className="w-full h-full object-cover" />
-                                <div className="absolute top-2 right-2 flex gap-1 opacity-0 group-hover/panel:opacity-100 transition-opacity print:hidden">
-                                  <Button variant="secondary" size="sm" onClick={() => copyToClipboard(panel.id, panel.imageUrl!)} className="h-7 w-7 p-0 bg-white/90" title="Copy for Canva">
-                                    <Copy className="w-3 h-3" />
-                                  </Button>
-                                  <Button variant="secondary" size="sm" onClick={() => openImageEditor(panel.id, panel.imageUrl!, panel.description)} className="h-7 w-7 p-0 bg-white/90">
-                                    <Edit2 className="w-3 h-3" />
-                                  </Button>
-                                </div>
-                             </>
-                           ) : (
-                             <span className="text-xs text-slate-400">Failed</span>
-                           )}
-                        </div>
-                        <div className="h-[35%] p-2 bg-white">
-                           <textarea
-                              value={panel.caption}
-                              onChange={(e) => updateCaption(panel.id, e.target.value)}
-                              className="w-full h-full text-xs font-medium text-slate-700 bg-transparent resize-none outline-none border border-transparent hover:border-indigo-100 focus:border-indigo-400 rounded p-1 text-center leading-snug font-comic"
-                           />
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                  <div className="text-center mt-6 text-slate-300 text-xs font-semibold tracking-widest uppercase">Page {pageIdx + 1}</div>
-              </div>
-            ))
+            contentPages.map((page, pageIdx) => renderContentPage(page, pageIdx))
         )}
       </div>
       </div>
@@ -525,7 +1331,7 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
                         <div className="bg-indigo-100 text-indigo-700 w-6 h-6 rounded-full flex items-center justify-center font-bold text-sm shrink-0 mt-0.5">1</div>
                         <div>
                             <h4 className="font-bold text-slate-800">Download as PDF</h4>
-                            <p className="text-sm text-slate-600">Click the button below. In the print window, choose <strong>"Save as PDF"</strong>.</p>
+                            <p className="text-sm text-slate-600">Click the button below and download the <strong>Print PDF</strong>.</p>
                         </div>
                     </div>
 
@@ -539,7 +1345,7 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
                 </div>
 
                 <div className="mt-8 flex flex-col gap-3">
-                    <Button onClick={handlePrint} className="w-full justify-center py-3 text-lg">
+                    <Button onClick={() => { setShowCanvaModal(false); openExportDialog(); }} className="w-full justify-center py-3 text-lg">
                         <Download className="w-5 h-5 mr-2" />
                         Step 1: Save as PDF
                     </Button>
@@ -556,11 +1362,113 @@ export const EbookCreator: React.FC<EbookCreatorProps> = ({ story, onBack }) =>
         </div>
       )}
 
+      {showExportDialog && (
+        <ExportDialog
+          ebook={buildEbook()}
+          editions={editions}
+          safety={safety}
+          safetyReview={reviewingSafety ? 'running' : safetyReviewFailed ? 'failed' : safetyReviewCurrent ? 'current' : 'stale'}
+          onSafetyReview={handleSafetyReview}
+          editionSafety={buildEditionSafety()}
+          onEditionSafetyReview={handleEditionSafetyReview}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
+      {showNarration && (
+        <NarrationPanel
+          panels={panels}
+          recommended={safety.policy.id === 'children' || safety.policy.id === 'toddlers'}
+          settings={narrationSettings}
+          onSettingsChange={handleNarrationSettings}
+          narratingIds={narratingIds}
+          onNarrate={handleNarrate}
+          onRecording={handleNarrationRecording}
+          onRemove={handleRemoveNarration}
+          onClose={() => setShowNarration(false)}
+        />
+      )}
+
+      {showEditions && (
+        <EditionsPanel
+          items={translatables}
+          panels={panels}
+          editions={editions}
+          translating={translatingLanguages}
+          onTranslate={translateEdition}
+          onOverride={handleEditionOverride}
+          onDelete={handleDeleteEdition}
+          onClose={() => setShowEditions(false)}
+        />
+      )}
+
+      {showListing && (
+        <ListingPanel
+          languages={[SOURCE_LANGUAGE, ...editions.map(e => e.language)]}
+          titles={Object.fromEntries([SOURCE_LANGUAGE, ...editions.map(e => e.language)].map(language => [language, buildEdition(language).storyTitle]))}
+          author={author}
+          listings={listings}
+          generating={listingLanguages}
+          onGenerate={handleGenerateListing}
+          onChange={handleListingChange}
+          onClose={() => setShowListing(false)}
+        />
+      )}
+
+      {showHistory && (
+        <HistoryPanel
+          history={history}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          onJump={handleJump}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {browsingVariantsId === 'cover' && (
+        <VariantBrowser
+          title="Cover variants"
+          group={variantGroup('cover')}
+          currentImage={coverImage}
+          generating={isCoverGenerating}
+          onSelect={handleSelectCover}
+          onGenerate={() => generateCover(styleGuide, true)}
+          onClose={() => setBrowsingVariantsId(null)}
+        />
+      )}
+
+      {browsingPanel && (
+        <VariantPicker
+          title={`Page ${panels.indexOf(browsingPanel) + 1} variants`}
+          panel={browsingPanel}
+          cacheGroup={variantGroup(browsingPanel.id)}
+          aspectRatio={artAspectRatio(browsingPanel)}
+          onStar={(variantId) => handleStarVariant(browsingPanel.id, variantId)}
+          onRemove={(variantId) => handleRemoveVariant(browsingPanel.id, variantId)}
+          onGenerate={(count) => generateCandidatesForPanel(browsingPanel, count)}
+          onAdd={(imageUrl, source) => handleAddVariant(browsingPanel.id, imageUrl, source)}
+          onClose={() => setBrowsingVariantsId(null)}
+        />
+      )}
+
+      <input ref={uploadInputRef} type="file" accept={UPLOAD_TYPES.join(',')} onChange={handlePickedUpload} className="hidden" />
+      {pendingUpload && (
+        <UploadArtworkDialog
+          title={pendingUpload.id === 'cover' ? 'Upload cover art' : `Upload art for page ${panels.findIndex(p => p.id === pendingUpload.id) + 1}`}
+          file={pendingUpload.file}
+          aspectRatio={pendingUpload.id === 'cover' ? pageFormat.coverAspectRatio : artAspectRatio(panels.find(p => p.id === pendingUpload.id) || panels[0])}
+          styleGuide={styleGuide}
+          onUse={(uploaded, restyled) => handleUseUpload(pendingUpload.id, uploaded, restyled)}
+          onClose={() => setPendingUpload(null)}
+        />
+      )}
+
       {/* Image Editor Overlay */}
       {editingImageId !== null && (
         <ImageEditor 
           imageUrl={editingImageUrl} 
           panelDescription={editingDescription}
+          adjustments={editingAdjustments}
           onSave={handleImageSave}
           onClose={() => setEditingImageId(null)}
         />
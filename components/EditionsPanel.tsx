@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { BookEdition, Panel } from '../types';
+import { entryText, isEntryCurrent, languageLabel, LANGUAGES, pendingItems, SOURCE_LANGUAGE, TranslatableItem } from '../services/translation';
+import { Button } from './Button';
+import { AdjustedImage } from './AdjustedImage';
+import { X, Languages, Plus, RefreshCw, RotateCcw, Trash2, AlertTriangle, Loader2, Wand2 } from 'lucide-react';
+
+interface EditionsPanelProps {
+  items: TranslatableItem[];
+  panels: Panel[];
+  editions: BookEdition[];
+  // Languages with a translation request in flight
+  translating: string[];
+  onTranslate: (language: string, items: TranslatableItem[], fresh?: boolean) => void;
+  onOverride: (language: string, key: string, text: string) => void;
+  onDelete: (language: string) => void;
+  onClose: () => void;
+}
+
+type Filter = 'all' | 'pending' | 'edited';
+
+export const EditionsPanel: React.FC<EditionsPanelProps> = ({
+  items,
+  panels,
+  editions,
+  translating,
+  onTranslate,
+  onOverride,
+  onDelete,
+  onClose,
+}) => {
+  const [language, setLanguage] = useState<string | null>(editions[0]?.language || null);
+  const [filter, setFilter] = useState<Filter>('all');
+  // The textarea being edited, committed on blur like the editor's other text fields
+  const [draft, setDraft] = useState<{ key: string; text: string } | null>(null);
+
+  const edition = editions.find(e => e.language === language);
+  const busy = language !== null && translating.includes(language);
+  const pending = pendingItems(edition, items);
+  const available = LANGUAGES.filter(l => l.code !== SOURCE_LANGUAGE && !editions.some(e => e.language === l.code));
+
+  const handleAdd = (code: string) => {
+    if (!code) return;
+    setLanguage(code);
+    setFilter('all');
+    onTranslate(code, items);
+  };
+
+  const handleDelete = () => {
+    if (!language || !confirm(`Delete the ${languageLabel(language)} edition and any wording you changed in it?`)) return;
+    onDelete(language);
+    setLanguage(editions.find(e => e.language !== language)?.language || null);
+  };
+
+  const commitDraft = () => {
+    if (!draft || !language) return;
+    const entry = edition?.entries[draft.key];
+    if (entry && draft.text !== entryText(entry)) onOverride(language, draft.key, draft.text);
+    setDraft(null);
+  };
+
+  const visible = items.filter(item => {
+    const entry = edition?.entries[item.key];
+    if (filter === 'pending') return !isEntryCurrent(entry, item);
+    if (filter === 'edited') return isEntryCurrent(entry, item) && entry.override !== undefined;
+    return true;
+  });
+
+  const renderTranslation = (item: TranslatableItem) => {
+    const entry = edition?.entries[item.key];
+    if (!isEntryCurrent(entry, item)) {
+      return (
+        <div className="h-full min-h-[3rem] p-2 rounded-lg border border-dashed border-yellow-300 bg-yellow-50 text-xs text-yellow-700 flex items-start gap-2">
+          <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+          <span className="flex-1">
+            {entry ? <>Original changed. Was: <span className="italic">{entryText(entry)}</span></> : 'Not translated yet'}
+          </span>
+        </div>
+      );
+    }
+    const value = draft?.key === item.key ? draft.text : entryText(entry);
+    return (
+      <div className="space-y-1">
+        <textarea
+          value={value}
+          onFocus={() => setDraft({ key: item.key, text: entryText(entry) })}
+          onChange={(e) => setDraft({ key: item.key, text: e.target.value })}
+          onBlur={commitDraft}
+          rows={Math.max(1, Math.ceil(value.length / 48))}
+          className={`w-full p-2 text-sm rounded-lg border outline-none resize-none focus:border-indigo-400 ${entry.override !== undefined ? 'border-indigo-200 bg-indigo-50/40' : 'border-slate-200'}`}
+        />
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          {entry.override !== undefined ? (
+            <>
+              <span className="text-indigo-600 font-medium">Edited</span>
+              <button onClick={() => onOverride(language!, item.key, entry.text)} className="flex items-center gap-1 hover:text-slate-600" title={entry.text}>
+                <RotateCcw className="w-3 h-3" /> Use machine translation
+              </button>
+            </>
+          ) : (
+            <button onClick={() => onTranslate(language!, [item], true)} disabled={busy} className="flex items-center gap-1 hover:text-slate-600 disabled:opacity-50">
+              <RefreshCw className="w-3 h-3" /> Translate again
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full relative max-h-[90vh] flex flex-col">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 pb-4 border-b border-slate-100 space-y-4">
+          <div className="flex items-center gap-2">
+            <Languages className="w-5 h-5 text-indigo-600" />
+            <h3 className="font-bold text-lg text-slate-800">Translations</h3>
+            <span className="text-sm text-slate-400">Editions share this book's art; only the text is translated.</span>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            {editions.map(e => {
+              const count = pendingItems(e, items).length;
+              return (
+                <button
+                  key={e.language}
+                  onClick={() => { setLanguage(e.language); setDraft(null); }}
+                  className={`px-3 py-1.5 rounded-full text-sm font-medium border flex items-center gap-1.5 ${e.language === language ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+                >
+                  {translating.includes(e.language) && <Loader2 className="w-3 h-3 animate-spin" />}
+                  {languageLabel(e.language)}
+                  {count > 0 && <span className={`text-xs ${e.language === language ? 'text-indigo-100' : 'text-yellow-600'}`}>{count}</span>}
+                </button>
+              );
+            })}
+            {available.length > 0 && (
+              <label className="flex items-center gap-1 text-sm text-slate-500">
+                <Plus className="w-4 h-4" />
+                <select
+                  value=""
+                  onChange={(e) => handleAdd(e.target.value)}
+                  className="p-1.5 text-sm border border-slate-200 rounded-full bg-white outline-none focus:border-indigo-400"
+                >
+                  <option value="">Add a language...</option>
+                  {available.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+                </select>
+              </label>
+            )}
+          </div>
+
+          {language && (
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex gap-1 text-xs">
+                {(['all', 'pending', 'edited'] as Filter[]).map(f => (
+                  <button
+                    key={f}
+                    onClick={() => setFilter(f)}
+                    className={`px-2.5 py-1 rounded-full font-medium ${filter === f ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}
+                  >
+                    {f === 'all' ? 'All' : f === 'pending' ? `Needs translation (${pending.length})` : 'Edited by hand'}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={() => onTranslate(language, pending)} disabled={busy || pending.length === 0}>
+                  {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Wand2 className="w-3 h-3" />}
+                  {busy ? 'Translating...' : pending.length === 0 ? 'Up to date' : `Translate ${pending.length} line${pending.length === 1 ? '' : 's'}`}
+                </Button>
+                <Button variant="secondary" size="sm" onClick={handleDelete} disabled={busy} title="Delete this edition" className="text-slate-400">
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {language ? (
+          <div className="flex-1 overflow-y-auto p-6 pt-4 custom-scrollbar">
+            <div className="grid grid-cols-[4rem_1fr_1fr] gap-x-4 gap-y-1 text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+              <span></span>
+              <span>{languageLabel(SOURCE_LANGUAGE)} (original)</span>
+              <span>{languageLabel(language)}</span>
+            </div>
+            {visible.length === 0 && (
+              <p className="text-center text-sm text-slate-400 py-8">Nothing to show here.</p>
+            )}
+            <div className="space-y-3">
+              {visible.map(item => {
+                const panel = item.panelId !== undefined ? panels.find(p => p.id === item.panelId) : undefined;
+                return (
+                  <div key={item.key} className="grid grid-cols-[4rem_1fr_1fr] gap-x-4 items-start">
+                    <div className="w-16 aspect-square rounded-lg overflow-hidden bg-slate-100">
+                      {panel?.imageUrl && <AdjustedImage src={panel.imageUrl} adjustments={panel.adjustments} alt="" className="w-full h-full object-cover" />}
+                    </div>
+                    <div>
+                      <div className="text-xs font-semibold text-slate-400 mb-1">{item.label}</div>
+                      <p className="text-sm text-slate-700 whitespace-pre-line">{item.text}</p>
+                    </div>
+                    <div className="pt-5">{renderTranslation(item)}</div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ) : (
+          <div className="flex-1 p-12 text-center text-slate-400">
+            <Languages className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+            <p>Add a language to translate the title, summary, captions and lettering.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
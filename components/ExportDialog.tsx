@@ -0,0 +1,543 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BookEdition, Ebook } from '../types';
+import { buildEpub, DEFAULT_EPUB_OPTIONS, EpubOptions } from '../services/epub';
+import { buildPdf, fetchFontFile, DEFAULT_PDF_OPTIONS, KDP_TRIM_SIZES, PdfOptions, PdfWarning } from '../services/pdf';
+import { flattenEbookOverlays } from '../services/overlays';
+import { canRecordVideo, DEFAULT_VIDEO_OPTIONS, planSlides, READING_SPEEDS, renderVideo, VideoOptions, VideoTransition, VIDEO_TRANSITIONS, videoDuration } from '../services/video';
+import { isAbortError } from '../services/jobQueue';
+import { hasCurrentNarration } from '../services/narration';
+import { getPageFormat } from '../services/pageFormats';
+import { applyEdition, collectTranslatables, languageLabel, LANGUAGES, pendingItems, SOURCE_LANGUAGE } from '../services/translation';
+import { SafetyReport, SAFETY_CATEGORY_LABELS, describeFlagLocation } from '../services/safety';
+import { downloadBlob, toFileName } from '../services/imageData';
+import { Button } from './Button';
+import { X, BookOpen, Download, FileText, AlertTriangle, ShieldAlert, ShieldCheck, Loader2, Film, Languages } from 'lucide-react';
+
+export type SafetyReviewState = 'stale' | 'running' | 'current' | 'failed';
+
+// An edition's text as exported, checked under the book's policy
+export interface EditionSafety {
+  safety: SafetyReport;
+  review: SafetyReviewState;
+}
+
+interface ExportDialogProps {
+  ebook: Ebook;
+  // Translations that can be exported instead of the original
+  editions: BookEdition[];
+  safety: SafetyReport;
+  // Whether the model review has seen the book's current text
+  safetyReview: SafetyReviewState;
+  onSafetyReview: () => void;
+  // By language
+  editionSafety: Record<string, EditionSafety>;
+  onEditionSafetyReview: (language: string) => void;
+  onClose: () => void;
+}
+
+const FIXED_PAGE_SIZES = [
+  { label: 'Portrait 3:4 (1200 × 1600)', width: 1200, height: 1600 },
+  { label: 'Square (1600 × 1600)', width: 1600, height: 1600 },
+  { label: 'Landscape 4:3 (1600 × 1200)', width: 1600, height: 1200 },
+];
+
+type FontSource = 'default' | 'upload' | 'none';
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ ebook, editions, safety, safetyReview, onSafetyReview, editionSafety, onEditionSafetyReview, onClose }) => {
+  // Page sizes start from the book's format; the user can still pick another
+  const format = getPageFormat(ebook.pageFormat);
+  const [epubOptions, setEpubOptions] = useState<EpubOptions>({ ...DEFAULT_EPUB_OPTIONS, pageWidth: format.epubPageWidth, pageHeight: format.epubPageHeight });
+  const [pdfOptions, setPdfOptions] = useState<PdfOptions>({ ...DEFAULT_PDF_OPTIONS, trimSizeId: format.trimSizeId });
+  const [fontSource, setFontSource] = useState<FontSource>('default');
+  const [uploadedFont, setUploadedFont] = useState<{ name: string; data: ArrayBuffer } | null>(null);
+  const [pdfWarnings, setPdfWarnings] = useState<PdfWarning[] | null>(null);
+  // Panels whose narration couldn't be converted to an EPUB audio type
+  const [epubDropped, setEpubDropped] = useState<number[] | null>(null);
+  const [videoOptions, setVideoOptions] = useState<VideoOptions>(DEFAULT_VIDEO_OPTIONS);
+  const [videoAudioName, setVideoAudioName] = useState<string | null>(null);
+  const [videoProgress, setVideoProgress] = useState(0);
+  const [exporting, setExporting] = useState<'epub' | 'pdf' | 'video' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [editionLanguage, setEditionLanguage] = useState(SOURCE_LANGUAGE);
+  const videoCanvasRef = useRef<HTMLCanvasElement>(null);
+  const videoAbortRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog stops a recording in progress
+  useEffect(() => () => videoAbortRef.current?.abort(), []);
+
+  // Every format exports the chosen edition: the original's art with the translated text
+  const edition = editions.find(e => e.language === editionLanguage);
+  const translated = edition ? applyEdition(ebook, edition) : ebook;
+  // The original's check doesn't cover translations (hand-written ones least of
+  // all), so an edition is screened as it will be exported, under the same policy
+  const editionCheck = edition ? editionSafety[edition.language] : undefined;
+  const book = editionCheck?.safety.omitSummary ? { ...translated, storySummary: '' } : translated;
+  const untranslated = edition ? pendingItems(edition, collectTranslatables({ title: ebook.storyTitle, summary: ebook.storySummary, panels: ebook.panels })).length : 0;
+  // Editions are named after the original title, so a shop's files sort together
+  const fileName = (extension: string) => toFileName(edition ? `${ebook.storyTitle} ${edition.language}` : ebook.storyTitle, extension);
+
+  const handleEdition = (language: string) => {
+    setEditionLanguage(language);
+    setEpubOptions(prev => ({ ...prev, language }));
+    const check = editionSafety[language];
+    if (check && safety.policy.blocksExport && check.review !== 'current' && check.review !== 'running') {
+      onEditionSafetyReview(language);
+    }
+  };
+
+  const missingImages = ebook.panels.filter(p => !p.imageUrl).length;
+  const narrated = book.panels.filter(hasCurrentNarration);
+  const liveNarrations = narrated.filter(p => !p.narration!.audioUrl).length;
+  const panelNumber = (panelId?: number) => panelId === undefined ? undefined : ebook.panels.findIndex(p => p.id === panelId) + 1;
+  // A book under a blocking policy waits for the review before it can leave the app
+  // The word lists only know English, so under such a policy an edition also
+  // waits until the review has read its current text
+  const editionLocked = !!editionCheck && (editionCheck.safety.blocked || (safety.policy.blocksExport && editionCheck.review !== 'current'));
+  const exportLocked = safety.blocked || editionLocked || (safety.policy.blocksExport && safetyReview === 'running');
+
+  const handleExportEpub = async () => {
+    setExporting('epub');
+    setError(null);
+    setEpubDropped(null);
+    try {
+      const result = await buildEpub(await flattenEbookOverlays(book), epubOptions);
+      downloadBlob(result.blob, fileName('epub'));
+      setEpubDropped(result.droppedNarration);
+    } catch (e) {
+      console.error("EPUB export failed", e);
+      setError("Could not build the EPUB file.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const resolveFont = async (): Promise<ArrayBuffer | null> => {
+    if (fontSource === 'upload') return uploadedFont?.data || null;
+    if (fontSource === 'none') return null;
+    try {
+      return await fetchFontFile();
+    } catch (e) {
+      console.warn("Default font download failed", e);
+      return null;
+    }
+  };
+
+  const handleExportPdf = async () => {
+    setExporting('pdf');
+    setError(null);
+    setPdfWarnings(null);
+    try {
+      const result = await buildPdf(await flattenEbookOverlays(book), { ...pdfOptions, font: await resolveFont() });
+      downloadBlob(result.blob, fileName('pdf'));
+      setPdfWarnings(result.warnings);
+    } catch (e) {
+      console.error("PDF export failed", e);
+      setError("Could not build the PDF file.");
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleExportVideo = async () => {
+    const controller = new AbortController();
+    videoAbortRef.current = controller;
+    setExporting('video');
+    setError(null);
+    setVideoProgress(0);
+    try {
+      const blob = await renderVideo(await flattenEbookOverlays(book), videoCanvasRef.current!, videoOptions, setVideoProgress, controller.signal);
+      downloadBlob(blob, fileName('webm'));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error("Video export failed", e);
+      setError("Could not record the video.");
+    } finally {
+      videoAbortRef.current = null;
+      if (!controller.signal.aborted) setExporting(null);
+    }
+  };
+
+  const handleCancelVideo = () => {
+    videoAbortRef.current?.abort();
+    setExporting(null);
+  };
+
+  const handleAudioUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setVideoOptions(prev => ({ ...prev, audio: file }));
+    setVideoAudioName(file?.name || null);
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setUploadedFont({ name: file.name, data: await file.arrayBuffer() });
+    setFontSource('upload');
+  };
+
+  const sizeKey = `${epubOptions.pageWidth}x${epubOptions.pageHeight}`;
+  const videoSeconds = Math.round(videoDuration(planSlides(book, videoOptions)));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full p-6 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="text-center mb-6">
+          <div className="w-12 h-12 bg-gradient-to-br from-indigo-500 to-purple-500 rounded-xl mx-auto flex items-center justify-center mb-4 shadow-lg shadow-indigo-200">
+            <Download className="w-6 h-6 text-white" />
+          </div>
+          <h3 className="text-xl font-bold text-slate-800">Export Ebook</h3>
+          <p className="text-slate-500 mt-2">Generate a ready-to-upload file for KDP, Etsy, e-readers, TikTok and Reels.</p>
+        </div>
+
+        {missingImages > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 text-yellow-700 text-sm rounded-lg">
+            {missingImages} panel{missingImages > 1 ? 's have' : ' has'} no image yet and will be exported without art.
+          </div>
+        )}
+
+        <div className={`mb-4 p-3 rounded-lg border text-sm ${safety.violations.length > 0 ? (safety.blocked ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-700') : 'bg-green-50 border-green-200 text-green-700'}`}>
+          <div className="flex items-center gap-2 font-semibold">
+            {safety.violations.length > 0 ? <ShieldAlert className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+            {safety.violations.length === 0
+              ? `Content check passed for ${safety.policy.label}`
+              : `${safety.violations.length} content issue${safety.violations.length === 1 ? '' : 's'} for ${safety.policy.label}`}
+          </div>
+          {safety.blocked && (
+            <p className="mt-1">Books for {safety.policy.label.toLowerCase()} can't be exported until these are fixed in the editor.</p>
+          )}
+          {safety.violations.length > 0 && (
+            <ul className="mt-2 space-y-1 text-xs max-h-32 overflow-y-auto">
+              {safety.violations.map((flag, i) => (
+                <li key={i}>
+                  {describeFlagLocation(flag, panelNumber(flag.panelId))}: {SAFETY_CATEGORY_LABELS[flag.category]}
+                  {flag.excerpt && ` “${flag.excerpt}”`} ({flag.reason})
+                </li>
+              ))}
+            </ul>
+          )}
+          {safety.omitSummary && (
+            <p className="mt-2 text-xs">The story summary was flagged, so it is left out of the EPUB description.</p>
+          )}
+          <div className="mt-2 flex items-center justify-between gap-2 text-xs">
+            <span className="opacity-80">
+              {safetyReview === 'running' && <span className="flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> AI review in progress...</span>}
+              {safetyReview === 'current' && 'Checked by word lists and AI review.'}
+              {safetyReview === 'stale' && 'Checked by word lists only.'}
+              {safetyReview === 'failed' && 'AI review unavailable; checked by word lists only.'}
+            </span>
+            {safetyReview !== 'running' && safetyReview !== 'current' && (
+              <button onClick={onSafetyReview} className="font-semibold underline">Run AI review</button>
+            )}
+          </div>
+        </div>
+
+        {editions.length > 0 && (
+          <div className="mb-4 p-4 bg-slate-50 rounded-xl border border-slate-100">
+            <label className="block text-sm text-slate-600">
+              <span className="flex items-center gap-2 font-bold text-slate-800 mb-1">
+                <Languages className="w-4 h-4 text-indigo-600" /> Edition
+              </span>
+              <select
+                value={editionLanguage}
+                onChange={(e) => handleEdition(e.target.value)}
+                disabled={exporting !== null}
+                className="mt-1 w-full p-2 border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+              >
+                <option value={SOURCE_LANGUAGE}>{languageLabel(SOURCE_LANGUAGE)} (original)</option>
+                {editions.map(e => (
+                  <option key={e.language} value={e.language}>{languageLabel(e.language)}</option>
+                ))}
+              </select>
+            </label>
+            {editionCheck && (
+              <div className={`mt-2 p-3 rounded-lg border text-xs ${editionCheck.safety.violations.length > 0 ? (editionLocked ? 'bg-red-50 border-red-200 text-red-700' : 'bg-yellow-50 border-yellow-200 text-yellow-700') : editionLocked ? 'bg-slate-100 border-slate-200 text-slate-600' : 'bg-green-50 border-green-200 text-green-700'}`}>
+                <div className="flex items-center gap-2 font-semibold text-sm">
+                  {editionCheck.safety.violations.length > 0 || editionLocked ? <ShieldAlert className="w-4 h-4" /> : <ShieldCheck className="w-4 h-4" />}
+                  {editionCheck.safety.violations.length > 0
+                    ? `${editionCheck.safety.violations.length} content issue${editionCheck.safety.violations.length === 1 ? '' : 's'} in the ${languageLabel(editionLanguage)} text`
+                    : editionCheck.review === 'current'
+                      ? `${languageLabel(editionLanguage)} text passed for ${safety.policy.label}`
+                      : `${languageLabel(editionLanguage)} text not reviewed yet`}
+                </div>
+                {editionCheck.safety.blocked && (
+                  <p className="mt-1">This edition can't be exported until these are fixed under Translations.</p>
+                )}
+                {!editionCheck.safety.blocked && editionLocked && (
+                  <p className="mt-1">Books for {safety.policy.label.toLowerCase()} can't be exported in {languageLabel(editionLanguage)} until the AI review has read the translated text.</p>
+                )}
+                {editionCheck.safety.violations.length > 0 && (
+                  <ul className="mt-2 space-y-1 max-h-32 overflow-y-auto">
+                    {editionCheck.safety.violations.map((flag, i) => (
+                      <li key={i}>
+                        {describeFlagLocation(flag, panelNumber(flag.panelId))}: {SAFETY_CATEGORY_LABELS[flag.category]}
+                        {flag.excerpt && ` “${flag.excerpt}”`} ({flag.reason})
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {editionCheck.safety.omitSummary && (
+                  <p className="mt-2">The translated summary was flagged, so it is left out of the EPUB description.</p>
+                )}
+                <div className="mt-2 flex items-center justify-between gap-2">
+                  <span className="opacity-80">
+                    {editionCheck.review === 'running' && <span className="flex items-center gap-1"><Loader2 className="w-3 h-3 animate-spin" /> AI review in progress...</span>}
+                    {editionCheck.review === 'current' && 'Checked by AI review.'}
+                    {editionCheck.review === 'stale' && 'English word lists only; they miss most of this language.'}
+                    {editionCheck.review === 'failed' && 'AI review unavailable.'}
+                  </span>
+                  {editionCheck.review !== 'running' && editionCheck.review !== 'current' && (
+                    <button onClick={() => onEditionSafetyReview(editionLanguage)} className="font-semibold underline">Run AI review</button>
+                  )}
+                </div>
+              </div>
+            )}
+            {untranslated > 0 && (
+              <p className="mt-2 text-xs text-yellow-700 flex items-start gap-1">
+                <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                {untranslated} line{untranslated === 1 ? ' is' : 's are'} not translated yet and will be exported in {languageLabel(SOURCE_LANGUAGE)}. Update the edition under Translations.
+              </p>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-4 p-4 mb-4 bg-slate-50 rounded-xl border border-slate-100">
+          <div className="flex items-center gap-2 font-bold text-slate-800">
+            <FileText className="w-4 h-4 text-indigo-600" /> Print PDF (KDP)
+          </div>
+
+          <label className="block text-sm text-slate-600">
+            Trim size
+            <select
+              value={pdfOptions.trimSizeId}
+              onChange={(e) => setPdfOptions(prev => ({ ...prev, trimSizeId: e.target.value }))}
+              className="mt-1 w-full p-2 border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+            >
+              {KDP_TRIM_SIZES.map(size => (
+                <option key={size.id} value={size.id}>{size.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <div className="flex gap-6">
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={pdfOptions.bleed}
+                onChange={(e) => setPdfOptions(prev => ({ ...prev, bleed: e.target.checked }))}
+                className="accent-indigo-600"
+              />
+              0.125" bleed
+            </label>
+            <label className="flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={pdfOptions.pageNumbers}
+                onChange={(e) => setPdfOptions(prev => ({ ...prev, pageNumbers: e.target.checked }))}
+                className="accent-indigo-600"
+              />
+              Page numbers
+            </label>
+          </div>
+
+          <label className="block text-sm text-slate-600">
+            Embedded font
+            <select
+              value={fontSource}
+              onChange={(e) => setFontSource(e.target.value as FontSource)}
+              className="mt-1 w-full p-2 border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+            >
+              <option value="default">Comic Neue (downloaded)</option>
+              <option value="upload" disabled={!uploadedFont}>{uploadedFont ? uploadedFont.name : 'Uploaded .ttf'}</option>
+              <option value="none">None (Helvetica, not embedded)</option>
+            </select>
+            <input type="file" accept=".ttf,font/ttf" onChange={handleFontUpload} className="mt-2 text-xs" />
+          </label>
+
+          <Button onClick={handleExportPdf} isLoading={exporting === 'pdf'} disabled={exporting !== null || exportLocked} className="w-full">
+            <Download className="w-4 h-4" /> Download PDF
+          </Button>
+
+          {pdfWarnings && (
+            pdfWarnings.length === 0 ? (
+              <p className="text-sm text-green-600 text-center">Preflight passed: all text is inside the safe zone.</p>
+            ) : (
+              <ul className="space-y-1 text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                {pdfWarnings.map((w, i) => (
+                  <li key={i} className="flex items-start gap-2">
+                    <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                    <span>{w.page !== null ? `Page ${w.page}: ` : ''}{w.message}</span>
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </div>
+
+        <div className="space-y-4 p-4 bg-slate-50 rounded-xl border border-slate-100">
+          <div className="flex items-center gap-2 font-bold text-slate-800">
+            <BookOpen className="w-4 h-4 text-indigo-600" /> EPUB 3
+          </div>
+
+          <label className="block text-sm text-slate-600">
+            Language
+            <select
+              value={epubOptions.language}
+              onChange={(e) => setEpubOptions(prev => ({ ...prev, language: e.target.value }))}
+              className="mt-1 w-full p-2 border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+            >
+              {LANGUAGES.map(lang => (
+                <option key={lang.code} value={lang.code}>{lang.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={epubOptions.fixedLayout}
+              onChange={(e) => setEpubOptions(prev => ({ ...prev, fixedLayout: e.target.checked }))}
+              className="accent-indigo-600"
+            />
+            Fixed layout (recommended for picture books and comics)
+          </label>
+
+          {epubOptions.fixedLayout && (
+            <label className="block text-sm text-slate-600">
+              Page size
+              <select
+                value={sizeKey}
+                onChange={(e) => {
+                  const size = FIXED_PAGE_SIZES.find(s => `${s.width}x${s.height}` === e.target.value);
+                  if (size) setEpubOptions(prev => ({ ...prev, pageWidth: size.width, pageHeight: size.height }));
+                }}
+                className="mt-1 w-full p-2 border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+              >
+                {FIXED_PAGE_SIZES.map(size => (
+                  <option key={size.label} value={`${size.width}x${size.height}`}>{size.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {narrated.length > 0 && (
+            <p className="text-xs text-slate-500">
+              {narrated.length - liveNarrations > 0 && `${narrated.length - liveNarrations} narrated page${narrated.length - liveNarrations === 1 ? '' : 's'} will read along (Media Overlays). `}
+              {liveNarrations > 0 && `${liveNarrations} page${liveNarrations === 1 ? ' uses' : 's use'} a live browser voice and will be exported without audio.`}
+            </p>
+          )}
+
+          <Button onClick={handleExportEpub} isLoading={exporting === 'epub'} disabled={exporting !== null || exportLocked} className="w-full">
+            <Download className="w-4 h-4" /> Download EPUB
+          </Button>
+
+          {epubDropped && epubDropped.length > 0 && (
+            <p className="text-xs text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-lg p-3 flex items-start gap-2">
+              <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+              <span>
+                Narration on page{epubDropped.length === 1 ? '' : 's'} {epubDropped.map(id => panelNumber(id)).join(', ')} couldn't be converted to an audio format EPUB readers play, so {epubDropped.length === 1 ? 'it reads' : 'they read'} without audio. Exporting from a browser that encodes Opus (such as Chrome) keeps it.
+              </span>
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-4 p-4 mt-4 bg-slate-50 rounded-xl border border-slate-100">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2 font-bold text-slate-800">
+              <Film className="w-4 h-4 text-indigo-600" /> Vertical video (TikTok / Reels)
+            </div>
+            <span className="text-xs text-slate-400">9:16 WebM • about {Math.floor(videoSeconds / 60)}:{String(videoSeconds % 60).padStart(2, '0')}</span>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm text-slate-600">
+              Transition
+              <select
+                value={videoOptions.transition}
+                onChange={(e) => setVideoOptions(prev => ({ ...prev, transition: e.target.value as VideoTransition }))}
+                disabled={exporting === 'video'}
+                className="mt-1 w-full p-2 border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+              >
+                {(Object.keys(VIDEO_TRANSITIONS) as VideoTransition[]).map(id => (
+                  <option key={id} value={id}>{VIDEO_TRANSITIONS[id]}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-slate-600">
+              Caption pace
+              <select
+                value={videoOptions.wordsPerMinute}
+                onChange={(e) => setVideoOptions(prev => ({ ...prev, wordsPerMinute: Number(e.target.value) }))}
+                disabled={exporting === 'video'}
+                className="mt-1 w-full p-2 border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+              >
+                {READING_SPEEDS.map(speed => (
+                  <option key={speed.wordsPerMinute} value={speed.wordsPerMinute}>{speed.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-600">
+            <input
+              type="checkbox"
+              checked={videoOptions.kenBurns}
+              onChange={(e) => setVideoOptions(prev => ({ ...prev, kenBurns: e.target.checked }))}
+              disabled={exporting === 'video'}
+              className="accent-indigo-600"
+            />
+            Ken Burns pan and zoom
+          </label>
+
+          <label className="block text-sm text-slate-600">
+            Background audio {videoAudioName && <span className="text-slate-400">({videoAudioName})</span>}
+            <input type="file" accept="audio/*" onChange={handleAudioUpload} disabled={exporting === 'video'} className="mt-1 block text-xs" />
+          </label>
+          {videoOptions.audio && (
+            <label className="flex items-center gap-3 text-sm text-slate-600">
+              Volume
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={videoOptions.audioVolume}
+                onChange={(e) => setVideoOptions(prev => ({ ...prev, audioVolume: Number(e.target.value) }))}
+                disabled={exporting === 'video'}
+                className="flex-1 accent-indigo-600"
+              />
+            </label>
+          )}
+
+          <div className={exporting === 'video' ? 'flex items-center gap-4' : 'hidden'}>
+            <canvas ref={videoCanvasRef} className="w-24 aspect-[9/16] rounded-lg bg-slate-900 shadow" />
+            <div className="flex-1 space-y-2">
+              <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-[width]" style={{ width: `${Math.round(videoProgress * 100)}%` }} />
+              </div>
+              <p className="text-xs text-slate-500">Recording in real time ({Math.round(videoProgress * 100)}%). Keep this tab in front until it finishes.</p>
+              <Button variant="secondary" size="sm" onClick={handleCancelVideo}>Cancel</Button>
+            </div>
+          </div>
+
+          {exporting !== 'video' && (
+            canRecordVideo() ? (
+              <Button onClick={handleExportVideo} disabled={exporting !== null || exportLocked} className="w-full">
+                <Film className="w-4 h-4" /> Record video
+              </Button>
+            ) : (
+              <p className="text-sm text-yellow-700 text-center">This browser can't record WebM video. Try Chrome, Edge or Firefox.</p>
+            )
+          )}
+        </div>
+
+        {error && (
+          <p className="mt-4 text-red-500 text-sm text-center">{error}</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { History, HistoryEntry } from '../services/history';
+import { Button } from './Button';
+import { ArrowLeft, Bot, User, Undo2, Redo2, History as HistoryIcon, CircleDot } from 'lucide-react';
+
+interface HistoryPanelProps {
+  history: History;
+  onUndo: () => void;
+  onRedo: () => void;
+  // Rewinds or replays to just after the entry (null = before the first one).
+  onJump: (entryId: number | null) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onUndo, onRedo, onJump, onClose }) => {
+  const renderEntry = (entry: HistoryEntry, undone: boolean, current: boolean) => (
+    <button
+      key={entry.id}
+      onClick={() => onJump(entry.id)}
+      className={`w-full text-left p-3 rounded-xl border flex items-start gap-3 transition-colors ${
+        current ? 'border-indigo-300 bg-indigo-50' : 'border-slate-100 bg-white hover:bg-slate-50'
+      } ${undone ? 'opacity-50' : ''}`}
+    >
+      <div className={`shrink-0 w-7 h-7 rounded-full flex items-center justify-center ${entry.source === 'agent' ? 'bg-purple-100 text-purple-600' : 'bg-slate-100 text-slate-500'}`}>
+        {entry.source === 'agent' ? <Bot className="w-4 h-4" /> : <User className="w-4 h-4" />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className={`text-sm font-medium text-slate-700 ${undone ? 'line-through' : ''}`}>{entry.label}</div>
+        <div className="text-xs text-slate-400">
+          {entry.source === 'agent' ? 'Viral Agent' : 'You'} • {formatTime(entry.timestamp)}
+          {entry.changes.length > 1 && ` • ${entry.changes.length} changes`}
+        </div>
+      </div>
+      {current && <CircleDot className="w-4 h-4 text-indigo-500 shrink-0 mt-1" />}
+    </button>
+  );
+
+  const latest = history.past[history.past.length - 1];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end print:hidden">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-sm h-full bg-white shadow-2xl flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <HistoryIcon className="w-5 h-5 text-indigo-600" />
+            <h3 className="font-bold text-lg text-slate-800">History</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <ArrowLeft className="w-5 h-5 rotate-180" />
+          </button>
+        </div>
+
+        <div className="px-6 py-3 border-b border-slate-100 flex gap-2">
+          <Button variant="secondary" size="sm" onClick={onUndo} disabled={history.past.length === 0} className="flex-1" title="Undo (Ctrl+Z)">
+            <Undo2 className="w-4 h-4" /> Undo
+          </Button>
+          <Button variant="secondary" size="sm" onClick={onRedo} disabled={history.future.length === 0} className="flex-1" title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-4 h-4" /> Redo
+          </Button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-2 custom-scrollbar">
+          {/* Newest first: undone entries above the applied ones */}
+          {[...history.future].reverse().map(entry => renderEntry(entry, true, false))}
+          {[...history.past].reverse().map(entry => renderEntry(entry, false, entry === latest))}
+          <button
+            onClick={() => onJump(null)}
+            className={`w-full text-left p-3 rounded-xl border text-sm ${!latest ? 'border-indigo-300 bg-indigo-50 text-indigo-700' : 'border-dashed border-slate-200 text-slate-400 hover:bg-slate-50'}`}
+          >
+            Start of session
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
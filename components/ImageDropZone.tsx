@@ -0,0 +1,28 @@
+import React from 'react';
+import { useFileDrop } from '../hooks/useFileDrop';
+import { Upload } from 'lucide-react';
+
+interface ImageDropZoneProps {
+  onFile: (file: File) => void;
+  className?: string;
+  style?: React.CSSProperties;
+  children: React.ReactNode;
+}
+
+/**
+ * Wraps an image slot so artwork can be dropped straight onto it.
+ */
+export const ImageDropZone: React.FC<ImageDropZoneProps> = ({ onFile, className = '', style, children }) => {
+  const { isDragging, dropProps } = useFileDrop(onFile);
+  return (
+    <div {...dropProps} className={className} style={style}>
+      {children}
+      {isDragging && (
+        <div className="absolute inset-0 z-20 flex flex-col items-center justify-center gap-2 bg-indigo-600/70 text-white font-semibold border-4 border-dashed border-white/80 pointer-events-none print:hidden">
+          <Upload className="w-8 h-8" />
+          Drop to use this image
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,31 +1,194 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
+import { ImageAdjustment } from '../types';
 import { editPanelImage } from '../services/gemini';
+import { isAbortError } from '../services/jobQueue';
+import { MaskPoint, blendMasked, drawBrushStroke, fillLasso, isMaskEmpty, maskToDataUrl } from '../services/imageMask';
+import { ASPECT_PRESETS, cropForAspect } from '../services/adjustments';
+import { useUnmountSignal } from '../hooks/useUnmountSignal';
+import { useAdjustedImage } from '../hooks/useAdjustedImage';
 import { Button } from './Button';
-import { X, Check, Wand2, RotateCcw } from 'lucide-react';
+import { AdjustmentControls, CropDraft } from './AdjustmentControls';
+import { X, Check, Wand2, RotateCcw, Brush, Lasso, Eraser, MousePointer2, Trash2, SlidersHorizontal } from 'lucide-react';
+
+type MaskTool = 'none' | 'brush' | 'lasso';
+
+type EditorMode = 'ai' | 'adjust';
 
 interface ImageEditorProps {
   imageUrl: string;
   panelDescription: string;
-  onSave: (url: string) => void;
+  adjustments?: ImageAdjustment[];
+  // The AI-edited image (or the original) and the local adjustment stack to layer over it
+  onSave: (url: string, adjustments: ImageAdjustment[]) => void;
   onClose: () => void;
 }
 
-export const ImageEditor: React.FC<ImageEditorProps> = ({ imageUrl, panelDescription, onSave, onClose }) => {
+export const ImageEditor: React.FC<ImageEditorProps> = ({ imageUrl, panelDescription, adjustments: initialAdjustments = [], onSave, onClose }) => {
+  const [mode, setMode] = useState<EditorMode>('ai');
   const [prompt, setPrompt] = useState('');
   const [currentImage, setCurrentImage] = useState(imageUrl);
   const [originalImage] = useState(imageUrl); // Store original to revert
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Closing the editor cancels an edit that is still queued or running
+  const getSignal = useUnmountSignal();
+
+  // Inpainting mask, painted at the image's own resolution
+  const maskRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<MaskTool>('none');
+  const [erasing, setErasing] = useState(false);
+  const [brushSize, setBrushSize] = useState(32);
+  const [hasMask, setHasMask] = useState(false);
+  // Paste the result back into the masked area only, so the rest stays pixel-identical
+  const [blendIntoMask, setBlendIntoMask] = useState(true);
+  const lastPointRef = useRef<MaskPoint | null>(null);
+  const [lassoPoints, setLassoPoints] = useState<MaskPoint[] | null>(null);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = maskRef.current;
+    const { naturalWidth, naturalHeight } = e.currentTarget;
+    // Resizing clears the canvas, so only do it when an edit changed the size
+    if (canvas && (canvas.width !== naturalWidth || canvas.height !== naturalHeight)) {
+      canvas.width = naturalWidth;
+      canvas.height = naturalHeight;
+      setHasMask(false);
+    }
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>): MaskPoint => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * canvas.width / rect.width,
+      y: (e.clientY - rect.top) * canvas.height / rect.height,
+    };
+  };
+
+  // The brush size slider is in screen pixels
+  const canvasBrushSize = (canvas: HTMLCanvasElement) => brushSize * canvas.width / canvas.getBoundingClientRect().width;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (tool === 'none') return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = toCanvasPoint(e);
+    if (tool === 'brush') {
+      drawBrushStroke(e.currentTarget, point, point, canvasBrushSize(e.currentTarget), erasing);
+      lastPointRef.current = point;
+    } else {
+      setLassoPoints([point]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toCanvasPoint(e);
+    if (tool === 'brush' && lastPointRef.current) {
+      drawBrushStroke(e.currentTarget, lastPointRef.current, point, canvasBrushSize(e.currentTarget), erasing);
+      lastPointRef.current = point;
+    } else if (tool === 'lasso' && lassoPoints) {
+      setLassoPoints([...lassoPoints, point]);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (tool === 'lasso' && lassoPoints) {
+      fillLasso(e.currentTarget, lassoPoints, erasing);
+      setLassoPoints(null);
+    }
+    lastPointRef.current = null;
+    setHasMask(!isMaskEmpty(e.currentTarget));
+  };
+
+  // Local adjustments, previewed over the current (possibly AI-edited) image
+  const [adjustments, setAdjustments] = useState<ImageAdjustment[]>(initialAdjustments);
+  const adjustedImage = useAdjustedImage(currentImage, adjustments);
+  const [adjustedSize, setAdjustedSize] = useState({ width: 1, height: 1 });
+  const [cropDraft, setCropDraft] = useState<CropDraft | null>(null);
+  const [cloning, setCloning] = useState(false);
+  const [cloneSize, setCloneSize] = useState(40);
+  const [cloneSource, setCloneSource] = useState<MaskPoint | null>(null);
+  const [cloneStroke, setCloneStroke] = useState<Extract<ImageAdjustment, { kind: 'clone' }> | null>(null);
+  const cropDragRef = useRef<{ start: MaskPoint; draft: CropDraft } | null>(null);
+
+  const cropFrame = cropDraft && cropForAspect(
+    adjustedSize.width, adjustedSize.height, ASPECT_PRESETS[cropDraft.preset].ratio, cropDraft.zoom, cropDraft.panX, cropDraft.panY,
+  );
+
+  // Preview positions as fractions of the displayed image
+  const toFraction = (e: React.PointerEvent<SVGSVGElement>): MaskPoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handleAdjustPointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toFraction(e);
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (cropDraft) {
+      cropDragRef.current = { start: point, draft: cropDraft };
+    } else if (cloning) {
+      if (e.altKey || !cloneSource) {
+        setCloneSource(point);
+        return;
+      }
+      const size = cloneSize / e.currentTarget.getBoundingClientRect().width;
+      setCloneStroke({ kind: 'clone', dx: cloneSource.x - point.x, dy: cloneSource.y - point.y, size, points: [point] });
+    }
+  };
+
+  const handleAdjustPointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const point = toFraction(e);
+    const drag = cropDragRef.current;
+    if (drag && cropFrame) {
+      // Pan runs from -1 to 1 across the slack between the frame and the image edges
+      const slackX = (1 - cropFrame.width) / 2;
+      const slackY = (1 - cropFrame.height) / 2;
+      const clampPan = (v: number) => Math.max(-1, Math.min(1, v));
+      setCropDraft({
+        ...drag.draft,
+        panX: slackX > 0 ? clampPan(drag.draft.panX + (point.x - drag.start.x) / slackX) : 0,
+        panY: slackY > 0 ? clampPan(drag.draft.panY + (point.y - drag.start.y) / slackY) : 0,
+      });
+    } else if (cloneStroke) {
+      const last = cloneStroke.points[cloneStroke.points.length - 1];
+      // Dabs a quarter of the brush apart give a continuous stroke
+      if (Math.hypot(point.x - last.x, point.y - last.y) >= cloneStroke.size / 4) {
+        setCloneStroke({ ...cloneStroke, points: [...cloneStroke.points, point] });
+      }
+    }
+  };
+
+  const handleAdjustPointerUp = () => {
+    cropDragRef.current = null;
+    if (cloneStroke) {
+      setAdjustments(prev => [...prev, cloneStroke]);
+      setCloneStroke(null);
+    }
+  };
+
+  const applyCrop = () => {
+    if (!cropFrame) return;
+    setAdjustments(prev => [...prev, { kind: 'crop', ...cropFrame }]);
+    setCropDraft(null);
+  };
+
+  const clearMask = () => {
+    const canvas = maskRef.current;
+    if (!canvas) return;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
 
   const handleEdit = async () => {
     if (!prompt.trim()) return;
     setLoading(true);
     setError(null);
     try {
-      const edited = await editPanelImage(currentImage, prompt);
-      setCurrentImage(edited);
+      const canvas = maskRef.current;
+      const mask = hasMask && canvas ? maskToDataUrl(canvas) : null;
+      const edited = await editPanelImage(currentImage, prompt, mask, { signal: getSignal() });
+      setCurrentImage(mask && canvas && blendIntoMask ? await blendMasked(currentImage, edited, canvas) : edited);
       setPrompt(''); // Clear prompt after successful edit
     } catch (e) {
+      if (isAbortError(e)) return;
       setError("Failed to edit image. Try a simpler prompt.");
     } finally {
       setLoading(false);
@@ -38,11 +201,95 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageUrl, panelDescrip
         
         {/* Preview Side */}
         <div className="w-full md:w-1/2 bg-slate-100 flex items-center justify-center p-6 relative">
-             <img 
-               src={currentImage} 
-               alt="Editing preview" 
-               className="max-w-full max-h-[60vh] object-contain rounded-lg border-2 border-slate-200 shadow-md"
-             />
+             <div className={mode === 'ai' ? 'relative' : 'hidden'}>
+               <img 
+                 src={currentImage} 
+                 alt="Editing preview" 
+                 onLoad={handleImageLoad}
+                 className="block max-w-full max-h-[60vh] object-contain rounded-lg border-2 border-slate-200 shadow-md"
+               />
+               <canvas
+                 ref={maskRef}
+                 onPointerDown={handlePointerDown}
+                 onPointerMove={handlePointerMove}
+                 onPointerUp={handlePointerUp}
+                 className={`absolute inset-0 w-full h-full rounded-lg opacity-50 touch-none ${tool === 'none' ? 'pointer-events-none' : 'cursor-crosshair'}`}
+               />
+               {lassoPoints && maskRef.current && (
+                 <svg
+                   viewBox={`0 0 ${maskRef.current.width} ${maskRef.current.height}`}
+                   preserveAspectRatio="none"
+                   className="absolute inset-0 w-full h-full pointer-events-none"
+                 >
+                   <polyline
+                     points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+                     fill="none"
+                     stroke="#ef4444"
+                     strokeWidth={2}
+                     strokeDasharray="6 4"
+                     vectorEffect="non-scaling-stroke"
+                   />
+                 </svg>
+               )}
+             </div>
+             {mode === 'adjust' && adjustedImage && (
+               <div className="relative">
+                 <img
+                   src={adjustedImage}
+                   alt="Adjusted preview"
+                   onLoad={(e) => setAdjustedSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                   className="block max-w-full max-h-[60vh] object-contain rounded-lg border-2 border-slate-200 shadow-md"
+                 />
+                 <svg
+                   viewBox={`0 0 ${adjustedSize.width} ${adjustedSize.height}`}
+                   preserveAspectRatio="none"
+                   onPointerDown={handleAdjustPointerDown}
+                   onPointerMove={handleAdjustPointerMove}
+                   onPointerUp={handleAdjustPointerUp}
+                   className={`absolute inset-0 w-full h-full rounded-lg touch-none ${cropDraft ? 'cursor-move' : cloning ? 'cursor-crosshair' : 'pointer-events-none'}`}
+                 >
+                   {cropFrame && (
+                     <>
+                       <path
+                         fillRule="evenodd"
+                         fill="rgba(15,23,42,0.55)"
+                         d={`M0 0H${adjustedSize.width}V${adjustedSize.height}H0Z M${cropFrame.x * adjustedSize.width} ${cropFrame.y * adjustedSize.height}h${cropFrame.width * adjustedSize.width}v${cropFrame.height * adjustedSize.height}h${-cropFrame.width * adjustedSize.width}Z`}
+                       />
+                       <rect
+                         x={cropFrame.x * adjustedSize.width}
+                         y={cropFrame.y * adjustedSize.height}
+                         width={cropFrame.width * adjustedSize.width}
+                         height={cropFrame.height * adjustedSize.height}
+                         fill="none"
+                         stroke="#ffffff"
+                         strokeWidth={2}
+                         vectorEffect="non-scaling-stroke"
+                       />
+                     </>
+                   )}
+                   {cloning && cloneSource && (
+                     <circle
+                       cx={cloneSource.x * adjustedSize.width}
+                       cy={cloneSource.y * adjustedSize.height}
+                       r={6}
+                       fill="none"
+                       stroke="#6366f1"
+                       strokeWidth={2}
+                       vectorEffect="non-scaling-stroke"
+                     />
+                   )}
+                   {cloneStroke?.points.map((point, i) => (
+                     <circle
+                       key={i}
+                       cx={point.x * adjustedSize.width}
+                       cy={point.y * adjustedSize.height}
+                       r={(cloneStroke.size * adjustedSize.width) / 2}
+                       fill="rgba(99,102,241,0.25)"
+                     />
+                   ))}
+                 </svg>
+               </div>
+             )}
              {loading && (
                <div className="absolute inset-0 bg-white/50 flex items-center justify-center backdrop-blur-sm">
                  <Wand2 className="w-10 h-10 text-indigo-600 animate-spin-slow" />
@@ -52,13 +299,42 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageUrl, panelDescrip
 
         {/* Controls Side */}
         <div className="w-full md:w-1/2 p-6 flex flex-col">
-          <div className="flex justify-between items-start mb-6">
+          <div className="flex justify-between items-start mb-4">
             <h3 className="text-2xl font-bold text-slate-800">Edit Panel</h3>
             <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
               <X className="w-6 h-6" />
             </button>
           </div>
 
+          <div className="flex gap-1 p-1 bg-slate-100 rounded-lg mb-6">
+            {([['ai', Wand2, 'AI Edit'], ['adjust', SlidersHorizontal, 'Adjust']] as const).map(([value, Icon, label]) => (
+              <button
+                key={value}
+                onClick={() => setMode(value)}
+                className={`flex-1 flex items-center justify-center gap-2 py-1.5 rounded-md text-sm font-semibold ${mode === value ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-500'}`}
+              >
+                <Icon className="w-4 h-4" /> {label}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'adjust' ? (
+            <div className="flex-1 overflow-y-auto">
+              <AdjustmentControls
+                adjustments={adjustments}
+                onChange={setAdjustments}
+                cropDraft={cropDraft}
+                onCropDraftChange={(draft) => { setCropDraft(draft); if (draft) setCloning(false); }}
+                onApplyCrop={applyCrop}
+                cloning={cloning}
+                onCloningChange={(value) => { setCloning(value); if (value) setCropDraft(null); }}
+                cloneSize={cloneSize}
+                onCloneSizeChange={setCloneSize}
+                hasCloneSource={!!cloneSource}
+              />
+            </div>
+          ) : (
+          <>
           <div className="mb-4">
              <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Original Context</h4>
              <p className="text-sm text-slate-600 bg-slate-50 p-3 rounded-lg border border-slate-100 italic">
@@ -67,6 +343,56 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageUrl, panelDescrip
           </div>
 
           <div className="flex-1 space-y-4">
+             <div>
+               <h4 className="text-sm font-semibold text-slate-500 uppercase tracking-wider mb-2">Edit Area</h4>
+               <div className="flex items-center gap-1 mb-2">
+                 {([
+                   ['none', MousePointer2, 'Whole image'],
+                   ['brush', Brush, 'Paint the area to change'],
+                   ['lasso', Lasso, 'Draw around the area to change'],
+                 ] as const).map(([value, Icon, label]) => (
+                   <button
+                     key={value}
+                     onClick={() => setTool(value)}
+                     title={label}
+                     className={`p-2 rounded-lg border ${tool === value ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                   >
+                     <Icon className="w-4 h-4" />
+                   </button>
+                 ))}
+                 <button
+                   onClick={() => setErasing(e => !e)}
+                   disabled={tool === 'none'}
+                   title="Erase from the mask"
+                   className={`p-2 rounded-lg border disabled:opacity-40 ${erasing ? 'bg-indigo-50 border-indigo-300 text-indigo-700' : 'border-slate-200 text-slate-500 hover:bg-slate-50'}`}
+                 >
+                   <Eraser className="w-4 h-4" />
+                 </button>
+                 {tool === 'brush' && (
+                   <input
+                     type="range"
+                     min={4}
+                     max={96}
+                     value={brushSize}
+                     onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+                     className="flex-1 mx-2"
+                     title="Brush size"
+                   />
+                 )}
+                 <button onClick={clearMask} disabled={!hasMask} title="Clear mask" className="ml-auto p-2 text-slate-400 hover:text-red-500 disabled:opacity-40">
+                   <Trash2 className="w-4 h-4" />
+                 </button>
+               </div>
+               {hasMask ? (
+                 <label className="flex items-center gap-2 text-sm text-slate-600">
+                   <input type="checkbox" checked={blendIntoMask} onChange={(e) => setBlendIntoMask(e.target.checked)} />
+                   Only change the masked area (keep every other pixel)
+                 </label>
+               ) : (
+                 <p className="text-xs text-slate-400">No mask: the edit may change the whole image.</p>
+               )}
+             </div>
+
              <div>
                <label className="block text-sm font-medium text-slate-700 mb-2">
                  How should we change this image?
@@ -107,11 +433,16 @@ export const ImageEditor: React.FC<ImageEditorProps> = ({ imageUrl, panelDescrip
                  <RotateCcw className="w-4 h-4" />
                </Button>
              </div>
+             {adjustments.length > 0 && (
+               <p className="text-xs text-slate-400">AI edits apply to the unadjusted image; your adjustments are layered back on top.</p>
+             )}
           </div>
+          </>
+          )}
 
           <div className="mt-8 pt-6 border-t border-slate-100 flex justify-end gap-3">
             <Button variant="secondary" onClick={onClose}>Cancel</Button>
-            <Button onClick={() => onSave(currentImage)}>
+            <Button onClick={() => onSave(currentImage, adjustments)}>
               <Check className="w-4 h-4" /> Save Changes
             </Button>
           </div>
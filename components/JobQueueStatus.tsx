@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { aiQueues, setQueueOptions, QueueName } from '../services/aiQueue';
+import { JobQueueStats } from '../services/jobQueue';
+import { CacheUsage, clearResponseCache, getCacheSettings, getCacheUsage, setCacheSettings } from '../services/responseCache';
+import { Button } from './Button';
+import { Loader2, RefreshCw, Settings2, Trash2 } from 'lucide-react';
+
+interface JobQueueStatusProps {
+  failedCount: number;
+  onRetryFailed: () => void;
+}
+
+const QUEUE_LABELS: Record<QueueName, string> = {
+  image: 'Images',
+  text: 'Text',
+};
+
+const CACHE_LIMITS_MB = [50, 200, 500, 1000];
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const CacheSettings: React.FC = () => {
+  const [settings, setSettings] = useState(getCacheSettings());
+  const [usage, setUsage] = useState<CacheUsage | null>(null);
+
+  const refreshUsage = () => {
+    getCacheUsage().then(setUsage).catch(e => console.warn('Could not read cache usage', e));
+  };
+
+  useEffect(refreshUsage, []);
+
+  const update = (changes: Parameters<typeof setCacheSettings>[0]) => {
+    setCacheSettings(changes);
+    setSettings(getCacheSettings());
+    // Lowering the limit evicts in the background
+    setTimeout(refreshUsage, 500);
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Delete every cached script and image? Earlier panel variants will no longer be browsable.')) return;
+    await clearResponseCache();
+    refreshUsage();
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-slate-100">
+      <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Response Cache</h4>
+      <label className="flex items-center gap-2 text-sm text-slate-700 mb-2">
+        <input
+          type="checkbox"
+          checked={settings.forceFresh}
+          onChange={(e) => update({ forceFresh: e.target.checked })}
+        />
+        Always generate fresh
+      </label>
+      <label className="text-xs text-slate-500 block mb-2">
+        Size limit
+        <select
+          value={Math.round(settings.maxBytes / (1024 * 1024))}
+          onChange={(e) => update({ maxBytes: parseInt(e.target.value, 10) * 1024 * 1024 })}
+          className="mt-1 w-full border border-slate-200 rounded px-2 py-1 text-sm text-slate-700 bg-white"
+        >
+          {CACHE_LIMITS_MB.map(mb => <option key={mb} value={mb}>{mb} MB</option>)}
+        </select>
+      </label>
+      <div className="flex items-center justify-between text-xs text-slate-500">
+        <span>{usage ? `${usage.entries} responses • ${formatMegabytes(usage.bytes)}` : 'Measuring...'}</span>
+        <button onClick={handleClear} className="flex items-center gap-1 text-slate-400 hover:text-red-500">
+          <Trash2 className="w-3 h-3" /> Clear
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const useQueueStats = (name: QueueName): JobQueueStats => {
+  const [stats, setStats] = useState(aiQueues[name].getStats());
+  useEffect(() => aiQueues[name].subscribe(setStats), [name]);
+  return stats;
+};
+
+export const JobQueueStatus: React.FC<JobQueueStatusProps> = ({ failedCount, onRetryFailed }) => {
+  const image = useQueueStats('image');
+  const text = useQueueStats('text');
+  const [showSettings, setShowSettings] = useState(false);
+  // Bumped after a change so the inputs re-read the queue options
+  const [, setRevision] = useState(0);
+
+  const running = image.running + text.running;
+  const queued = image.queued + text.queued;
+
+  const updateOption = (name: QueueName, key: 'concurrency' | 'requestsPerMinute', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (Number.isNaN(parsed) || parsed < (key === 'concurrency' ? 1 : 0)) return;
+    setQueueOptions(name, { [key]: parsed });
+    setRevision(r => r + 1);
+  };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      {(running > 0 || queued > 0) && (
+        <span className="flex items-center gap-1 text-xs font-medium text-indigo-600 bg-indigo-50 px-3 py-1.5 rounded-full">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          {running} running{queued > 0 && ` • ${queued} queued`}
+        </span>
+      )}
+      {failedCount > 0 && (
+        <Button variant="danger" size="sm" onClick={onRetryFailed} className="rounded-full">
+          <RefreshCw className="w-3 h-3" /> Retry failed ({failedCount})
+        </Button>
+      )}
+      <Button variant="secondary" size="sm" onClick={() => setShowSettings(s => !s)} className="rounded-full" title="Generation settings">
+        <Settings2 className="w-4 h-4" />
+      </Button>
+
+      {showSettings && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white rounded-xl shadow-xl border border-slate-100 p-4 z-40">
+          <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Generation Limits</h4>
+          {(Object.keys(QUEUE_LABELS) as QueueName[]).map(name => {
+            const options = aiQueues[name].getOptions();
+            return (
+              <div key={name} className="mb-3 last:mb-0">
+                <div className="text-sm font-semibold text-slate-700 mb-1">{QUEUE_LABELS[name]}</div>
+                <div className="grid grid-cols-2 gap-2">
+                  <label className="text-xs text-slate-500">
+                    At once
+                    <input
+                      type="number"
+                      min={1}
+                      defaultValue={options.concurrency}
+                      onChange={(e) => updateOption(name, 'concurrency', e.target.value)}
+                      className="mt-1 w-full border border-slate-200 rounded px-2 py-1 text-sm text-slate-700"
+                    />
+                  </label>
+                  <label className="text-xs text-slate-500">
+                    Per minute (0 = no limit)
+                    <input
+                      type="number"
+                      min={0}
+                      defaultValue={options.requestsPerMinute}
+                      onChange={(e) => updateOption(name, 'requestsPerMinute', e.target.value)}
+                      className="mt-1 w-full border border-slate-200 rounded px-2 py-1 text-sm text-slate-700"
+                    />
+                  </label>
+                </div>
+              </div>
+            );
+          })}
+          <CacheSettings />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState } from 'react';
+import { KdpListing, EtsyListing, MarketplaceListing } from '../types';
+import { BISAC_CATEGORIES, ETSY_LIMITS, KDP_LIMITS, gradeLabel, ListingPlatform, listingToCsv, listingToJson, validateListing } from '../services/listing';
+import { languageLabel } from '../services/translation';
+import { downloadBlob, toFileName } from '../services/imageData';
+import { Button } from './Button';
+import { X, Store, Wand2, RefreshCw, Download, AlertTriangle, AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+
+interface ListingPanelProps {
+  // The original first, then each edition
+  languages: string[];
+  // The book's title in each language
+  titles: Record<string, string>;
+  author: string;
+  listings: MarketplaceListing[];
+  // Languages with a listing being written
+  generating: string[];
+  onGenerate: (language: string) => void;
+  onChange: (listing: MarketplaceListing) => void;
+  onClose: () => void;
+}
+
+const AGES = Array.from({ length: KDP_LIMITS.maxAge + 1 }, (_, age) => age);
+const GRADES = Array.from({ length: 14 }, (_, i) => i - 1);
+
+const inputClass = 'w-full p-2 text-sm border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400';
+
+// A fixed number of boxes, like the store forms
+const slots = (values: string[], count: number) => Array.from({ length: Math.max(count, values.length) }, (_, i) => values[i] || '');
+
+const Counter: React.FC<{ length: number; max: number }> = ({ length, max }) => (
+  <span className={`text-xs font-normal ${length > max ? 'text-red-500 font-semibold' : 'text-slate-400'}`}>{length}/{max}</span>
+);
+
+export const ListingPanel: React.FC<ListingPanelProps> = ({
+  languages,
+  titles,
+  author,
+  listings,
+  generating,
+  onGenerate,
+  onChange,
+  onClose,
+}) => {
+  const [language, setLanguage] = useState(languages[0]);
+  const listing = listings.find(l => l.language === language);
+  const title = titles[language] || '';
+  const busy = generating.includes(language);
+  const issues = listing ? validateListing(listing, title) : [];
+  const errors = issues.filter(i => i.severity === 'error').length;
+
+  const updateKdp = (patch: Partial<KdpListing>) => {
+    if (listing) onChange({ ...listing, kdp: { ...listing.kdp, ...patch }, updatedAt: Date.now() });
+  };
+
+  const updateEtsy = (patch: Partial<EtsyListing>) => {
+    if (listing) onChange({ ...listing, etsy: { ...listing.etsy, ...patch }, updatedAt: Date.now() });
+  };
+
+  const handleGenerate = () => {
+    if (listing && !confirm('Write a new listing? Your edits to this one will be replaced.')) return;
+    onGenerate(language);
+  };
+
+  const handleDownload = (format: 'csv' | 'json') => {
+    if (!listing) return;
+    const book = { title, author };
+    const blob = format === 'csv'
+      // The byte order mark makes Excel read accented text as UTF-8
+      ? new Blob(['\uFEFF', listingToCsv(listing, book)], { type: 'text/csv;charset=utf-8' })
+      : new Blob([listingToJson(listing, book)], { type: 'application/json' });
+    downloadBlob(blob, toFileName(`${titles[languages[0]]} ${language} listing`, format));
+  };
+
+  const renderIssues = (platform: ListingPlatform) => {
+    const list = issues.filter(i => i.platform === platform);
+    if (list.length === 0) {
+      return <p className="text-xs text-green-600 flex items-center gap-1"><CheckCircle2 className="w-3 h-3" /> Meets the {platform === 'kdp' ? 'KDP' : 'Etsy'} limits</p>;
+    }
+    return (
+      <ul className="space-y-1">
+        {list.map((issue, i) => (
+          <li key={i} className={`text-xs flex items-start gap-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}`}>
+            {issue.severity === 'error' ? <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> : <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />}
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderRange = (
+    label: string,
+    range: { min: number; max: number } | undefined,
+    options: number[],
+    optionLabel: (value: number) => string,
+    onRange: (range?: { min: number; max: number }) => void,
+  ) => (
+    <div className="block text-xs font-semibold text-slate-500">
+      {label}
+      <div className="mt-1 flex items-center gap-1">
+        {(['min', 'max'] as const).map((end, i) => (
+          <React.Fragment key={end}>
+            {i > 0 && <span className="text-slate-400 font-normal">to</span>}
+            <select
+              value={range ? range[end] : ''}
+              onChange={(e) => {
+                if (e.target.value === '') return onRange(undefined);
+                const value = Number(e.target.value);
+                onRange({ min: range?.min ?? value, max: range?.max ?? value, [end]: value });
+              }}
+              className={`${inputClass} font-normal`}
+            >
+              <option value="">Not set</option>
+              {options.map(o => <option key={o} value={o}>{optionLabel(o)}</option>)}
+            </select>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full relative max-h-[90vh] flex flex-col">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="p-6 pb-4 border-b border-slate-100 flex flex-wrap items-center gap-3 pr-12">
+          <div className="flex items-center gap-2 mr-auto">
+            <Store className="w-5 h-5 text-indigo-600" />
+            <h3 className="font-bold text-lg text-slate-800">Marketplace listing</h3>
+          </div>
+          {languages.length > 1 && (
+            <select value={language} onChange={(e) => setLanguage(e.target.value)} className="p-2 text-sm border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400">
+              {languages.map((code, i) => (
+                <option key={code} value={code}>{languageLabel(code)}{i === 0 ? ' (original)' : ''}</option>
+              ))}
+            </select>
+          )}
+          <Button size="sm" variant={listing ? 'secondary' : 'primary'} onClick={handleGenerate} disabled={busy}>
+            {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : listing ? <RefreshCw className="w-3 h-3" /> : <Wand2 className="w-3 h-3" />}
+            {busy ? 'Writing...' : listing ? 'Rewrite' : 'Write listing'}
+          </Button>
+          {listing && (
+            <>
+              <Button size="sm" variant="secondary" onClick={() => handleDownload('csv')} disabled={errors > 0} title={errors > 0 ? 'Fix the errors first' : 'Download as CSV'}>
+                <Download className="w-3 h-3" /> CSV
+              </Button>
+              <Button size="sm" variant="secondary" onClick={() => handleDownload('json')} disabled={errors > 0} title={errors > 0 ? 'Fix the errors first' : 'Download as JSON'}>
+                <Download className="w-3 h-3" /> JSON
+              </Button>
+            </>
+          )}
+        </div>
+
+        {!listing ? (
+          <div className="flex-1 p-12 text-center text-slate-400">
+            <Store className="w-10 h-10 mx-auto mb-3 text-slate-300" />
+            <p>Write a KDP description, keywords, categories and readership, and an Etsy title, tags and description from this book.</p>
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto p-6 grid md:grid-cols-2 gap-6 custom-scrollbar">
+            <div className="space-y-4">
+              <div>
+                <h4 className="font-bold text-slate-800 mb-1">Amazon KDP</h4>
+                {renderIssues('kdp')}
+              </div>
+
+              <label className="block text-xs font-semibold text-slate-500">
+                <span className="flex justify-between">Description <Counter length={listing.kdp.description.length} max={KDP_LIMITS.descriptionChars} /></span>
+                <textarea
+                  value={listing.kdp.description}
+                  onChange={(e) => updateKdp({ description: e.target.value })}
+                  rows={8}
+                  className={`${inputClass} mt-1 font-normal resize-y`}
+                />
+              </label>
+
+              <div className="text-xs font-semibold text-slate-500">
+                Keywords
+                <div className="mt-1 space-y-1">
+                  {slots(listing.kdp.keywords, KDP_LIMITS.keywords).map((keyword, i) => (
+                    <div key={i} className="flex items-center gap-2">
+                      <input
+                        value={keyword}
+                        onChange={(e) => updateKdp({ keywords: slots(listing.kdp.keywords, KDP_LIMITS.keywords).map((k, j) => j === i ? e.target.value : k) })}
+                        placeholder={`Keyword ${i + 1}`}
+                        className={`${inputClass} font-normal`}
+                      />
+                      <Counter length={keyword.length} max={KDP_LIMITS.keywordChars} />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="text-xs font-semibold text-slate-500">
+                BISAC categories
+                <div className="mt-1 space-y-1">
+                  {slots(listing.kdp.categories, KDP_LIMITS.categories).map((code, i) => (
+                    <select
+                      key={i}
+                      value={code}
+                      onChange={(e) => updateKdp({ categories: slots(listing.kdp.categories, KDP_LIMITS.categories).map((c, j) => j === i ? e.target.value : c).filter(Boolean) })}
+                      className={`${inputClass} font-normal`}
+                    >
+                      <option value="">{i === 0 ? 'Pick a category' : 'None'}</option>
+                      {BISAC_CATEGORIES.map(c => <option key={c.code} value={c.code}>{c.code} {c.label}</option>)}
+                    </select>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {renderRange('Reading age', listing.kdp.ageRange, AGES, age => age === 0 ? 'Baby' : String(age), ageRange => updateKdp({ ageRange }))}
+                {renderRange('Grade level', listing.kdp.gradeRange, GRADES, gradeLabel, gradeRange => updateKdp({ gradeRange }))}
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <h4 className="font-bold text-slate-800 mb-1">Etsy</h4>
+                {renderIssues('etsy')}
+              </div>
+
+              <label className="block text-xs font-semibold text-slate-500">
+                <span className="flex justify-between">Title <Counter length={listing.etsy.title.length} max={ETSY_LIMITS.titleChars} /></span>
+                <textarea
+                  value={listing.etsy.title}
+                  onChange={(e) => updateEtsy({ title: e.target.value.replace(/\n/g, ' ') })}
+                  rows={2}
+                  className={`${inputClass} mt-1 font-normal resize-none`}
+                />
+              </label>
+
+              <div className="text-xs font-semibold text-slate-500">
+                Tags
+                <div className="mt-1 grid grid-cols-2 gap-1">
+                  {slots(listing.etsy.tags, ETSY_LIMITS.tags).map((tag, i) => (
+                    <div key={i} className="relative">
+                      <input
+                        value={tag}
+                        onChange={(e) => updateEtsy({ tags: slots(listing.etsy.tags, ETSY_LIMITS.tags).map((t, j) => j === i ? e.target.value : t) })}
+                        placeholder={`Tag ${i + 1}`}
+                        className={`${inputClass} font-normal pr-12 ${tag.length > ETSY_LIMITS.tagChars ? 'border-red-300' : ''}`}
+                      />
+                      <span className="absolute right-2 top-1/2 -translate-y-1/2"><Counter length={tag.length} max={ETSY_LIMITS.tagChars} /></span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <label className="block text-xs font-semibold text-slate-500">
+                Description
+                <textarea
+                  value={listing.etsy.description}
+                  onChange={(e) => updateEtsy({ description: e.target.value })}
+                  rows={8}
+                  className={`${inputClass} mt-1 font-normal resize-y`}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
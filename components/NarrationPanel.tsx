@@ -0,0 +1,213 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Panel } from '../types';
+import { getAiProvider } from '../services/aiProvider';
+import { listTtsProviders, findTtsProvider, TtsVoice } from '../services/tts';
+import { hasCurrentNarration, NarrationSettings, NARRATION_RATES, playNarration } from '../services/narration';
+import { isAbortError } from '../services/jobQueue';
+import { Button } from './Button';
+import { ArrowLeft, AudioLines, Mic, Play, Square, Trash2, Wand2, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface NarrationPanelProps {
+  panels: Panel[];
+  // Picture books for young readers sell better narrated
+  recommended: boolean;
+  settings: NarrationSettings;
+  onSettingsChange: (settings: NarrationSettings) => void;
+  narratingIds: number[];
+  onNarrate: (panels: Panel[]) => void;
+  onRecording: (panel: Panel, file: File) => void;
+  onRemove: (panel: Panel) => void;
+  onClose: () => void;
+}
+
+export const NarrationPanel: React.FC<NarrationPanelProps> = ({
+  panels,
+  recommended,
+  settings,
+  onSettingsChange,
+  narratingIds,
+  onNarrate,
+  onRecording,
+  onRemove,
+  onClose,
+}) => {
+  const [voices, setVoices] = useState<TtsVoice[]>([]);
+  const [playing, setPlaying] = useState<{ panelId: number; word: number } | null>(null);
+  const [playError, setPlayError] = useState<string | null>(null);
+  const playbackRef = useRef<AbortController | null>(null);
+  const recordingInputRef = useRef<HTMLInputElement>(null);
+  const recordingTargetRef = useRef<Panel | null>(null);
+
+  // Hosted voices need the AI key, which the offline demo doesn't have
+  const providers = listTtsProviders().filter(p => !p.requiresApiKey || getAiProvider().requiresApiKey);
+  const provider = findTtsProvider(settings.providerId);
+
+  useEffect(() => {
+    let cancelled = false;
+    setVoices([]);
+    provider?.listVoices()
+      .then(list => { if (!cancelled) setVoices(list); })
+      .catch(e => console.warn('Could not list voices', e));
+    return () => { cancelled = true; };
+  }, [provider]);
+
+  useEffect(() => () => playbackRef.current?.abort(), []);
+
+  const stopPlayback = () => {
+    playbackRef.current?.abort();
+    playbackRef.current = null;
+    setPlaying(null);
+  };
+
+  const handlePlay = async (panel: Panel) => {
+    stopPlayback();
+    if (!panel.narration) return;
+    const controller = new AbortController();
+    playbackRef.current = controller;
+    setPlayError(null);
+    setPlaying({ panelId: panel.id, word: -1 });
+    try {
+      await playNarration(panel.narration, {
+        signal: controller.signal,
+        onWord: (word) => setPlaying({ panelId: panel.id, word }),
+      });
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error('Narration playback failed', e);
+      setPlayError(e instanceof Error ? e.message : 'Could not play the narration.');
+    }
+    if (playbackRef.current === controller) stopPlayback();
+  };
+
+  const pickRecording = (panel: Panel) => {
+    recordingTargetRef.current = panel;
+    recordingInputRef.current?.click();
+  };
+
+  const handlePickedRecording = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const panel = recordingTargetRef.current;
+    e.target.value = '';
+    if (file && panel) onRecording(panel, file);
+  };
+
+  const missing = panels.filter(p => p.caption.trim() && !hasCurrentNarration(p));
+
+  const renderCaption = (panel: Panel) => {
+    if (playing?.panelId !== panel.id || !panel.narration) return panel.caption;
+    return panel.narration.words.map((w, i) => (
+      <span key={i} className={i === playing.word ? 'bg-yellow-200 rounded' : ''}>{w.word} </span>
+    ));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end print:hidden">
+      <div className="absolute inset-0 bg-slate-900/20 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative w-full max-w-md h-full bg-white shadow-2xl flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <AudioLines className="w-5 h-5 text-indigo-600" />
+            <h3 className="font-bold text-lg text-slate-800">Narration</h3>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <ArrowLeft className="w-5 h-5 rotate-180" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 border-b border-slate-100 space-y-3">
+          {recommended && (
+            <p className="text-xs text-indigo-700 bg-indigo-50 border border-indigo-100 rounded-lg p-2">
+              Picture books for young children sell better with read-along narration.
+            </p>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-xs font-semibold text-slate-500">
+              Voice engine
+              <select
+                value={settings.providerId}
+                onChange={(e) => onSettingsChange({ ...settings, providerId: e.target.value, voice: undefined })}
+                className="mt-1 w-full p-2 text-sm font-normal border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+              >
+                {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+              </select>
+            </label>
+            <label className="block text-xs font-semibold text-slate-500">
+              Pace
+              <select
+                value={settings.rate}
+                onChange={(e) => onSettingsChange({ ...settings, rate: Number(e.target.value) })}
+                className="mt-1 w-full p-2 text-sm font-normal border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+              >
+                {NARRATION_RATES.map(r => <option key={r.rate} value={r.rate}>{r.label}</option>)}
+              </select>
+            </label>
+          </div>
+          <label className="block text-xs font-semibold text-slate-500">
+            Voice
+            <select
+              value={settings.voice || ''}
+              onChange={(e) => onSettingsChange({ ...settings, voice: e.target.value || undefined })}
+              className="mt-1 w-full p-2 text-sm font-normal border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-400"
+            >
+              <option value="">Default</option>
+              {voices.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+            </select>
+          </label>
+          {provider?.live && (
+            <p className="text-xs text-slate-400">Browser voices are spoken live, so they play in the editor and reader but aren't included in EPUB exports.</p>
+          )}
+          <Button onClick={() => onNarrate(missing)} disabled={missing.length === 0} className="w-full">
+            <Wand2 className="w-4 h-4" />
+            {missing.length === 0 ? 'Every page is narrated' : `Narrate ${missing.length} page${missing.length === 1 ? '' : 's'}`}
+          </Button>
+          {playError && <p className="text-xs text-red-500">{playError}</p>}
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+          {panels.map((panel, idx) => {
+            const busy = narratingIds.includes(panel.id);
+            const stale = !!panel.narration && !hasCurrentNarration(panel);
+            return (
+              <div key={panel.id} className="p-3 rounded-xl border border-slate-100 bg-white">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Page {idx + 1}</span>
+                  <span className="text-xs text-slate-400 flex items-center gap-1">
+                    {busy ? (
+                      <><Loader2 className="w-3 h-3 animate-spin" /> Narrating...</>
+                    ) : stale ? (
+                      <span className="flex items-center gap-1 text-yellow-600"><AlertTriangle className="w-3 h-3" /> Caption changed</span>
+                    ) : panel.narration ? (
+                      `${panel.narration.source === 'recording' ? 'Recorded' : 'Generated'} • ${panel.narration.duration.toFixed(1)}s`
+                    ) : 'No narration'}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-600 mb-2">{renderCaption(panel)}</p>
+                <div className="flex gap-1">
+                  {panel.narration && (
+                    playing?.panelId === panel.id ? (
+                      <Button variant="secondary" size="sm" onClick={stopPlayback} title="Stop"><Square className="w-3 h-3" /></Button>
+                    ) : (
+                      <Button variant="secondary" size="sm" onClick={() => handlePlay(panel)} title="Play"><Play className="w-3 h-3" /></Button>
+                    )
+                  )}
+                  <Button variant="secondary" size="sm" onClick={() => onNarrate([panel])} disabled={busy || !panel.caption.trim()} title={panel.narration ? 'Narrate again' : 'Narrate'}>
+                    <Wand2 className="w-3 h-3" />
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => pickRecording(panel)} disabled={busy} title="Upload a voice recording">
+                    <Mic className="w-3 h-3" />
+                  </Button>
+                  {panel.narration && (
+                    <Button variant="secondary" size="sm" onClick={() => onRemove(panel)} disabled={busy} title="Remove narration" className="ml-auto text-slate-400">
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <input ref={recordingInputRef} type="file" accept="audio/*" onChange={handlePickedRecording} className="hidden" />
+      </div>
+    </div>
+  );
+};
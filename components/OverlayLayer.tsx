@@ -0,0 +1,259 @@
+import React, { useRef } from 'react';
+import { OverlayKind, PanelOverlay } from '../types';
+import { OVERLAY_FONT_FAMILY, OVERLAY_LABELS, OVERLAY_STYLES, overlayPaths, overlayText, textInset } from '../services/overlays';
+import { Trash2, X } from 'lucide-react';
+
+interface OverlayLayerProps {
+  overlays: PanelOverlay[];
+  // Image width / height; the layer crops like object-cover to line up with the <img>
+  aspectRatio?: number;
+  selectedId: string | null;
+  onSelect: (overlayId: string | null) => void;
+  // Called continuously while dragging or typing
+  onChange: (overlays: PanelOverlay[]) => void;
+  // Called once a drag or text edit is finished, for the undo history
+  onCommit: (before: PanelOverlay[], after: PanelOverlay[]) => void;
+  compact?: boolean;
+}
+
+// SVG user units across the image width
+const VIEW_WIDTH = 1000;
+
+type DragMode = 'move' | 'tail' | 'resize';
+
+interface DragState {
+  mode: DragMode;
+  overlayId: string;
+  startX: number;
+  startY: number;
+  original: PanelOverlay;
+  before: PanelOverlay[];
+}
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+export const OverlayLayer: React.FC<OverlayLayerProps> = ({
+  overlays,
+  aspectRatio = 1,
+  selectedId,
+  onSelect,
+  onChange,
+  onCommit,
+  compact,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const textEditRef = useRef<PanelOverlay[] | null>(null);
+  // Handlers run outside React's render, so read the latest overlays from a ref
+  const overlaysRef = useRef(overlays);
+  overlaysRef.current = overlays;
+
+  const viewHeight = VIEW_WIDTH / aspectRatio;
+  const selected = overlays.find(o => o.id === selectedId) || null;
+
+  const toFraction = (clientX: number, clientY: number) => {
+    const svg = svgRef.current!;
+    const point = svg.createSVGPoint();
+    point.x = clientX;
+    point.y = clientY;
+    const local = point.matrixTransform(svg.getScreenCTM()!.inverse());
+    return { x: local.x / VIEW_WIDTH, y: local.y / viewHeight };
+  };
+
+  const updateOverlay = (id: string, changes: Partial<PanelOverlay>) => {
+    onChange(overlaysRef.current.map(o => o.id === id ? { ...o, ...changes } : o));
+  };
+
+  const startDrag = (overlay: PanelOverlay, mode: DragMode) => (e: React.PointerEvent) => {
+    e.stopPropagation();
+    e.preventDefault();
+    onSelect(overlay.id);
+    const { x, y } = toFraction(e.clientX, e.clientY);
+    dragRef.current = { mode, overlayId: overlay.id, startX: x, startY: y, original: overlay, before: overlaysRef.current };
+    // Capture on the handle itself; its moves bubble up to the <svg> handlers
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const { x, y } = toFraction(e.clientX, e.clientY);
+    const dx = x - drag.startX;
+    const dy = y - drag.startY;
+    const o = drag.original;
+    if (drag.mode === 'move') {
+      // The tail tip stays put so the bubble still points at the speaker
+      updateOverlay(o.id, { x: clamp(o.x + dx), y: clamp(o.y + dy) });
+    } else if (drag.mode === 'tail') {
+      updateOverlay(o.id, { tailX: clamp(x), tailY: clamp(y) });
+    } else {
+      updateOverlay(o.id, { width: clamp(o.width + dx * 2, 0.08), height: clamp(o.height + dy * 2, 0.05) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    dragRef.current = null;
+    if (overlaysRef.current !== drag.before) {
+      onCommit(drag.before, overlaysRef.current);
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    const before = overlaysRef.current;
+    const after = before.filter(o => o.id !== id);
+    onChange(after);
+    onCommit(before, after);
+    onSelect(null);
+  };
+
+  const handleKindChange = (overlay: PanelOverlay, kind: OverlayKind) => {
+    const before = overlaysRef.current;
+    const hasTail = OVERLAY_STYLES[kind].hasTail;
+    const changes: Partial<PanelOverlay> = { kind };
+    if (hasTail && overlay.tailX === undefined) {
+      changes.tailX = overlay.x;
+      changes.tailY = clamp(overlay.y + overlay.height);
+    }
+    const after = before.map(o => o.id === overlay.id ? { ...o, ...changes } : o);
+    onChange(after);
+    onCommit(before, after);
+  };
+
+  const handleSize = compact ? 14 : 10;
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_WIDTH} ${viewHeight}`}
+        preserveAspectRatio="xMidYMid slice"
+        className="absolute inset-0 w-full h-full"
+        style={{ pointerEvents: 'none' }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {overlays.map(overlay => {
+          const style = OVERLAY_STYLES[overlay.kind];
+          const paths = overlayPaths(overlay, VIEW_WIDTH, viewHeight);
+          const inset = textInset(overlay.kind);
+          const boxWidth = overlay.width * VIEW_WIDTH;
+          const boxHeight = overlay.height * viewHeight;
+          const isSelected = overlay.id === selectedId;
+          return (
+            <g key={overlay.id} style={{ pointerEvents: 'auto', cursor: 'move' }} onPointerDown={startDrag(overlay, 'move')}>
+              {style.stroke !== 'none' && paths.map((d, i) => (
+                <path key={`s${i}`} d={d} fill="none" stroke={style.stroke} strokeWidth={4} strokeLinejoin="round" />
+              ))}
+              {style.fill !== 'none' && paths.map((d, i) => (
+                <path key={`f${i}`} d={d} fill={style.fill} stroke="none" />
+              ))}
+              <foreignObject
+                x={overlay.x * VIEW_WIDTH - (boxWidth * inset) / 2}
+                y={overlay.y * viewHeight - (boxHeight * inset) / 2}
+                width={boxWidth * inset}
+                height={boxHeight * inset}
+              >
+                <div
+                  style={{
+                    width: '100%',
+                    height: '100%',
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    textAlign: 'center',
+                    overflow: 'hidden',
+                    fontFamily: OVERLAY_FONT_FAMILY,
+                    fontSize: style.fontScale * VIEW_WIDTH,
+                    lineHeight: 1.15,
+                    fontWeight: style.bold ? 700 : 400,
+                    fontStyle: style.italic ? 'italic' : 'normal',
+                    color: style.textColor,
+                    WebkitTextStroke: style.textStroke ? `${style.fontScale * VIEW_WIDTH * 0.06}px ${style.textStroke}` : undefined,
+                    paintOrder: 'stroke fill',
+                    whiteSpace: 'pre-wrap',
+                    userSelect: 'none',
+                  }}
+                >
+                  {overlayText(overlay)}
+                </div>
+              </foreignObject>
+              {isSelected && (
+                <g className="print:hidden">
+                  <rect
+                    x={(overlay.x - overlay.width / 2) * VIEW_WIDTH}
+                    y={(overlay.y - overlay.height / 2) * viewHeight}
+                    width={boxWidth}
+                    height={boxHeight}
+                    fill="none"
+                    stroke="#6366f1"
+                    strokeWidth={3}
+                    strokeDasharray="12 8"
+                  />
+                  <rect
+                    x={(overlay.x + overlay.width / 2) * VIEW_WIDTH - handleSize * 2}
+                    y={(overlay.y + overlay.height / 2) * viewHeight - handleSize * 2}
+                    width={handleSize * 3}
+                    height={handleSize * 3}
+                    fill="#6366f1"
+                    style={{ cursor: 'nwse-resize' }}
+                    onPointerDown={startDrag(overlay, 'resize')}
+                  />
+                  {style.hasTail && overlay.tailX !== undefined && overlay.tailY !== undefined && (
+                    <circle
+                      cx={overlay.tailX * VIEW_WIDTH}
+                      cy={overlay.tailY * viewHeight}
+                      r={handleSize * 1.6}
+                      fill="#6366f1"
+                      stroke="#ffffff"
+                      strokeWidth={3}
+                      style={{ cursor: 'crosshair' }}
+                      onPointerDown={startDrag(overlay, 'tail')}
+                    />
+                  )}
+                </g>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+
+      {selected && (
+        <div
+          className={`absolute left-2 right-2 bottom-2 z-20 bg-white/95 backdrop-blur rounded-lg shadow-lg border border-indigo-100 flex items-center gap-1 print:hidden ${compact ? 'p-1' : 'p-2 gap-2'}`}
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <select
+            value={selected.kind}
+            onChange={(e) => handleKindChange(selected, e.target.value as OverlayKind)}
+            className="text-xs border border-slate-200 rounded px-1 py-1 bg-white outline-none"
+          >
+            {(Object.keys(OVERLAY_LABELS) as OverlayKind[]).map(kind => (
+              <option key={kind} value={kind}>{OVERLAY_LABELS[kind]}</option>
+            ))}
+          </select>
+          <input
+            value={selected.text}
+            placeholder="Text..."
+            onFocus={() => { textEditRef.current = overlaysRef.current; }}
+            onChange={(e) => updateOverlay(selected.id, { text: e.target.value })}
+            onBlur={() => {
+              const before = textEditRef.current;
+              textEditRef.current = null;
+              if (before && before !== overlaysRef.current) onCommit(before, overlaysRef.current);
+            }}
+            className="flex-1 min-w-0 text-xs border border-slate-200 rounded px-2 py-1 outline-none focus:border-indigo-400"
+          />
+          <button onClick={() => handleRemove(selected.id)} className="p-1 text-red-500 hover:bg-red-50 rounded" title="Remove">
+            <Trash2 className="w-3 h-3" />
+          </button>
+          <button onClick={() => onSelect(null)} className="p-1 text-slate-400 hover:bg-slate-100 rounded" title="Done">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,66 @@
+import React from 'react';
+import { GripVertical, Plus, Copy, Scissors, Trash2, MessageCircle } from 'lucide-react';
+
+interface PanelActionsProps {
+  onDragStart: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onInsertAfter: () => void;
+  onDuplicate: () => void;
+  onSplit: () => void;
+  onDelete: () => void;
+  onAddBubble?: () => void;
+  // Disables the AI-backed actions while one is already running
+  busy?: boolean;
+  canDelete?: boolean;
+  compact?: boolean;
+}
+
+/**
+ * Hover toolbar for changing the book's structure around one panel.
+ */
+export const PanelActions: React.FC<PanelActionsProps> = ({
+  onDragStart,
+  onDragEnd,
+  onInsertAfter,
+  onDuplicate,
+  onSplit,
+  onDelete,
+  onAddBubble,
+  busy,
+  canDelete = true,
+  compact,
+}) => {
+  const buttonClass = `${compact ? 'h-7 w-7' : 'h-9 w-9'} flex items-center justify-center rounded-lg bg-white/90 backdrop-blur border border-indigo-100 text-indigo-700 hover:bg-indigo-50 shadow-sm disabled:opacity-50 disabled:cursor-not-allowed`;
+  const iconClass = compact ? 'w-3 h-3' : 'w-4 h-4';
+
+  return (
+    <div className="flex gap-1">
+      <div
+        draggable
+        onDragStart={onDragStart}
+        onDragEnd={onDragEnd}
+        className={`${buttonClass} cursor-grab active:cursor-grabbing`}
+        title="Drag to reorder"
+      >
+        <GripVertical className={iconClass} />
+      </div>
+      <button onClick={onInsertAfter} disabled={busy} className={buttonClass} title="Insert a new page after this one">
+        <Plus className={iconClass} />
+      </button>
+      <button onClick={onDuplicate} className={buttonClass} title="Duplicate">
+        <Copy className={iconClass} />
+      </button>
+      <button onClick={onSplit} disabled={busy} className={buttonClass} title="Split into two pages">
+        <Scissors className={iconClass} />
+      </button>
+      {onAddBubble && (
+        <button onClick={onAddBubble} className={buttonClass} title="Add speech bubble">
+          <MessageCircle className={iconClass} />
+        </button>
+      )}
+      <button onClick={onDelete} disabled={!canDelete} className={`${buttonClass} text-red-600 border-red-100 hover:bg-red-50`} title="Delete">
+        <Trash2 className={iconClass} />
+      </button>
+    </div>
+  );
+};
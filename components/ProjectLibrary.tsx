@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { Project } from '../types';
+import { listProjects, deleteProject, duplicateProject } from '../services/projectStore';
+import { Button } from './Button';
+import { ArrowLeft, BookOpen, Copy, Trash2, Plus, AlertCircle, Library } from 'lucide-react';
+
+interface ProjectLibraryProps {
+  onOpenProject: (project: Project) => void;
+  onNewProject: () => void;
+}
+
+const formatDate = (timestamp: number) => new Date(timestamp).toLocaleString(undefined, {
+  dateStyle: 'medium',
+  timeStyle: 'short',
+});
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ onOpenProject, onNewProject }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = async () => {
+    setLoading(true);
+    try {
+      setProjects(await listProjects());
+      setError(null);
+    } catch (e) {
+      console.error("Failed to load projects", e);
+      setError("Could not open the local project library.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    setBusyId(id);
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (e) {
+      console.error("Failed to duplicate project", e);
+      setError("Could not duplicate this project.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (project: Project) => {
+    if (!confirm(`Delete "${project.title}"? This cannot be undone.`)) return;
+    setBusyId(project.id);
+    try {
+      await deleteProject(project.id);
+      setProjects(prev => prev.filter(p => p.id !== project.id));
+    } catch (e) {
+      console.error("Failed to delete project", e);
+      setError("Could not delete this project.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto p-6 lg:p-10 w-full">
+      <div className="flex items-center justify-between mb-8">
+        <div className="flex items-center gap-4">
+          <Button variant="secondary" onClick={onNewProject} size="sm" className="rounded-full">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight flex items-center gap-3">
+              <Library className="w-7 h-7 text-indigo-600" />
+              My Books
+            </h1>
+            <p className="text-slate-500 text-sm">Saved automatically in this browser.</p>
+          </div>
+        </div>
+        <Button onClick={onNewProject} className="rounded-full">
+          <Plus className="w-4 h-4" /> New Book
+        </Button>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 text-red-600 rounded-xl flex items-center gap-2 border border-red-100">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-20">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : projects.length === 0 ? (
+        <div className="text-center py-20 bg-white rounded-2xl border border-slate-100 shadow-sm">
+          <BookOpen className="w-12 h-12 text-slate-300 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-slate-700 mb-2">No saved books yet</h3>
+          <p className="text-slate-500 mb-6">Books are saved here as soon as their script is written.</p>
+          <Button onClick={onNewProject} className="mx-auto">
+            <Plus className="w-4 h-4" /> Start a Book
+          </Button>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
+          {projects.map(project => (
+            <div key={project.id} className="group bg-white rounded-2xl border border-slate-200 overflow-hidden shadow-sm hover:border-indigo-400 hover:ring-4 hover:ring-indigo-50 transition-all flex flex-col">
+              <button onClick={() => onOpenProject(project)} className="aspect-[3/4] bg-slate-100 relative overflow-hidden text-left">
+                {project.coverImage ? (
+                  <img src={project.coverImage} alt={project.title} className="w-full h-full object-cover" />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center text-slate-300">
+                    <BookOpen className="w-12 h-12" />
+                  </div>
+                )}
+              </button>
+              <div className="p-4 flex-1 flex flex-col">
+                <h3 className="font-bold text-slate-800 truncate group-hover:text-indigo-600">{project.title}</h3>
+                <p className="text-xs text-slate-400 mb-4">
+                  {project.panels.length} Panels • Edited {formatDate(project.updatedAt)}
+                </p>
+                <div className="mt-auto flex gap-2">
+                  <Button onClick={() => onOpenProject(project)} size="sm" className="flex-1">
+                    Open
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => handleDuplicate(project.id)} disabled={busyId === project.id} title="Duplicate">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                  <Button variant="danger" size="sm" onClick={() => handleDelete(project)} disabled={busyId === project.id} title="Delete">
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
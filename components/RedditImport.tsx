@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { RedditPost, fetchRedditPost, isRedditUrl, parseRedditText } from '../services/reddit';
+import { isAbortError } from '../services/jobQueue';
+import { useUnmountSignal } from '../hooks/useUnmountSignal';
+import { Button } from './Button';
+import { AlertCircle, ArrowUp, FileUp, Link2, Sparkles } from 'lucide-react';
+
+interface RedditImportProps {
+  // Set while the chosen post is being turned into a story
+  importing: boolean;
+  onImport: (post: RedditPost) => void;
+}
+
+// Dumps can hold thousands of posts; only the best-scoring ones are listed
+const MAX_LISTED_POSTS = 100;
+
+export const RedditImport: React.FC<RedditImportProps> = ({ importing, onImport }) => {
+  const [input, setInput] = useState('');
+  const [posts, setPosts] = useState<RedditPost[]>([]);
+  const [filter, setFilter] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const getSignal = useUnmountSignal();
+
+  const showPosts = (found: RedditPost[]) => {
+    if (found.length === 0) {
+      setError("No Reddit post found. Paste a post URL, its .json export, an archive file, or the post's title and text.");
+    }
+    setPosts([...found].sort((a, b) => b.score - a.score));
+  };
+
+  const handleRead = async () => {
+    const text = input.trim();
+    if (!text) return;
+    setError(null);
+    setPosts([]);
+    if (!isRedditUrl(text)) {
+      showPosts(parseRedditText(text));
+      return;
+    }
+    setLoading(true);
+    try {
+      showPosts([await fetchRedditPost(text, getSignal())]);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setFilter('');
+    try {
+      showPosts(parseRedditText(await file.text()));
+    } catch (err) {
+      console.error("Failed to read Reddit file", err);
+      setError(`Could not read ${file.name}.`);
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const matching = query
+    ? posts.filter(p => `${p.title} ${p.subreddit} ${p.selftext}`.toLowerCase().includes(query))
+    : posts;
+  const listed = matching.slice(0, MAX_LISTED_POSTS);
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-6">
+      <div className="text-center space-y-2">
+        <h3 className="text-2xl font-bold text-slate-800">Import a Reddit Post</h3>
+        <p className="text-slate-500">Start from the real post: paste its URL, its .json export or the post text, or upload an archive.</p>
+      </div>
+
+      <div className="relative">
+        <div className="absolute -top-3 left-4 px-2 bg-white text-xs font-bold text-indigo-600 flex items-center gap-1">
+          <Link2 className="w-3 h-3" /> URL, JSON or post text
+        </div>
+        <textarea
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={"https://www.reddit.com/r/tifu/comments/abc123/...\n\nor paste the post title on the first line and the story below it"}
+          className="w-full p-6 h-48 border-2 border-slate-200 rounded-2xl focus:border-indigo-500 focus:ring-4 focus:ring-indigo-50 outline-none resize-none text-slate-700 leading-relaxed transition-all font-mono text-sm"
+        />
+      </div>
+
+      <div className="flex gap-3">
+        <Button onClick={handleRead} isLoading={loading} disabled={!input.trim()} className="flex-1 py-3 rounded-xl">
+          <Sparkles className="w-4 h-4" /> Read Post
+        </Button>
+        <label className="flex items-center gap-2 px-4 py-3 rounded-xl border border-indigo-100 bg-white text-indigo-700 font-semibold text-sm cursor-pointer hover:bg-indigo-50 transition-colors">
+          <FileUp className="w-4 h-4" /> Upload File
+          <input type="file" accept=".json,.jsonl,.ndjson,.txt,application/json,text/plain" className="hidden" onChange={handleFile} />
+        </label>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 text-red-600 rounded-xl flex items-center gap-2 border border-red-100 text-sm">
+          <AlertCircle className="w-5 h-5 shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {posts.length > 1 && (
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-sm text-slate-500">
+            {matching.length} post{matching.length === 1 ? '' : 's'}
+            {matching.length > listed.length && ` (showing the top ${listed.length})`}
+          </span>
+          <input
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter by title, subreddit or text..."
+            className="flex-1 max-w-xs text-sm px-3 py-2 border border-slate-200 rounded-lg outline-none focus:border-indigo-400"
+          />
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {listed.map((post, index) => (
+          <div key={post.id || index} className="bg-white border border-slate-200 p-6 rounded-2xl">
+            <div className="flex flex-wrap items-center gap-2 text-[11px] font-bold uppercase tracking-wider text-slate-400 mb-2">
+              {post.subreddit && <span className="px-2 py-1 bg-orange-50 text-orange-600 rounded">r/{post.subreddit}</span>}
+              <span>u/{post.author}</span>
+              {post.score > 0 && (
+                <span className="flex items-center gap-0.5"><ArrowUp className="w-3 h-3" />{post.score.toLocaleString()}</span>
+              )}
+              {post.permalink && (
+                <a href={post.permalink} target="_blank" rel="noreferrer" className="text-indigo-500 hover:underline normal-case tracking-normal font-medium">
+                  View original
+                </a>
+              )}
+            </div>
+            <h4 className="text-lg font-bold text-slate-800 mb-2">{post.title}</h4>
+            {post.selftext ? (
+              <p className="text-slate-600 text-sm leading-relaxed whitespace-pre-line line-clamp-6">{post.selftext}</p>
+            ) : (
+              <p className="text-amber-600 text-sm">
+                {post.bodyRemoved ? 'The post text was removed from Reddit' : 'This post has no text'}; only the title will be used.
+              </p>
+            )}
+            <div className="flex justify-end mt-4">
+              <Button size="sm" onClick={() => onImport(post)} isLoading={importing} className="rounded-full">
+                <Sparkles className="w-4 h-4" /> Use This Post
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,33 @@
+import React from 'react';
+import { AudiencePolicy, SafetyFlag, SAFETY_CATEGORY_LABELS, describeFlagLocation } from '../services/safety';
+import { ShieldAlert } from 'lucide-react';
+
+interface SafetyFlagsProps {
+  // Violations only; tolerated flags would just be noise next to the text
+  flags: SafetyFlag[];
+  policy: AudiencePolicy;
+  compact?: boolean;
+}
+
+export const SafetyFlags: React.FC<SafetyFlagsProps> = ({ flags, policy, compact }) => {
+  if (flags.length === 0) return null;
+  return (
+    <ul className={`space-y-1 print:hidden ${compact ? 'mt-1' : 'mt-2'}`}>
+      {flags.map((flag, i) => (
+        <li
+          key={i}
+          className={`flex items-start gap-1.5 text-red-600 bg-red-50 border border-red-100 rounded ${compact ? 'text-[10px] px-1.5 py-0.5' : 'text-xs px-2 py-1'}`}
+          title={flag.source === 'review' ? 'Found by AI review' : 'Found by word list'}
+        >
+          <ShieldAlert className={`shrink-0 ${compact ? 'w-3 h-3' : 'w-3.5 h-3.5 mt-px'}`} />
+          <span>
+            {!compact && <>{describeFlagLocation(flag)} · </>}
+            <strong>{SAFETY_CATEGORY_LABELS[flag.category]}</strong>
+            {flag.excerpt && <> “{flag.excerpt}”</>}
+            {!compact && <> ({flag.reason}) is not suitable for {policy.label}</>}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
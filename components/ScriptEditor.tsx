@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Story, Script, Panel, Character, PiiSubstitution } from '../types';
+import { generateScript, regenerateBeat, removePersonalIdentifiers } from '../services/gemini';
+import { diffSubstitutions, swapScriptTerms, swapStoryTerms } from '../services/anonymizer';
+import { createPanel, insertPanelAt, removePanel, movePanel, updatePanel, nextPanelId } from '../services/panelOps';
+import { toggleCharacter } from '../services/characters';
+import { isAbortError } from '../services/jobQueue';
+import { buildSafetyReport, collectSafetyItems, flagsFor, getAudiencePolicy } from '../services/safety';
+import { useUnmountSignal } from '../hooks/useUnmountSignal';
+import { Button } from './Button';
+import { CharacterBible } from './CharacterBible';
+import { SafetyFlags } from './SafetyFlags';
+import { AnonymizationPanel } from './AnonymizationPanel';
+import { ArrowLeft, ArrowUp, ArrowDown, Trash2, Plus, RefreshCw, Palette, LayoutTemplate, Wand2, AlertCircle, ShieldAlert } from 'lucide-react';
+
+interface ScriptEditorProps {
+  story: Story;
+  // Called when the story's text or anonymization changes
+  onStoryChange: (story: Story) => void;
+  onApprove: (script: Script) => void;
+  onBack: () => void;
+}
+
+export const ScriptEditor: React.FC<ScriptEditorProps> = ({ story, onStoryChange, onApprove, onBack }) => {
+  const [script, setScript] = useState<Script | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [anonymizing, setAnonymizing] = useState(false);
+  const [regeneratingId, setRegeneratingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Ids are never reused, even after deleting the last beat (see panelOps)
+  const nextPanelIdRef = useRef(0);
+  const getSignal = useUnmountSignal();
+
+  // Word-list screening only; the model review runs from the book editor
+  const safety = useMemo(() => buildSafetyReport(
+    collectSafetyItems({ title: story.title, summary: story.summary, panels: script?.panels || [] }),
+    getAudiencePolicy(story.targetAudience),
+  ), [story, script]);
+
+  // Keyed on the id: anonymizing the story hands back a new object for the same story
+  useEffect(() => {
+    loadScript();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [story.id]);
+
+  // A rewrite skips the response cache; the first load may reuse an earlier script
+  const loadScript = async (fresh = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      let source = story;
+      // Personal details are swapped out once, before anything is written from the story
+      if (!source.anonymization) {
+        setAnonymizing(true);
+        source = await removePersonalIdentifiers(story, { signal: getSignal() });
+        setAnonymizing(false);
+        onStoryChange(source);
+      }
+      setScript(await generateScript(source, { signal: getSignal(), fresh }));
+    } catch (e) {
+      // A cancelled run must not clear the loading state of the run that replaced it
+      if (isAbortError(e)) return;
+      console.error("Failed to write script", e);
+      setError("Failed to write the script. Please try again.");
+    }
+    setLoading(false);
+  };
+
+  const setPanels = (update: (panels: Panel[]) => Panel[]) => {
+    setScript(prev => prev ? { ...prev, panels: update(prev.panels) } : prev);
+  };
+
+  const handleRegenerateBeat = async (id: number) => {
+    if (!script) return;
+    const index = script.panels.findIndex(p => p.id === id);
+    if (index < 0) return;
+    setRegeneratingId(id);
+    setError(null);
+    try {
+      const beat = await regenerateBeat(story, script, index, { signal: getSignal() });
+      setPanels(panels => updatePanel(panels, id, beat));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setError((e as Error).message);
+    } finally {
+      setRegeneratingId(null);
+    }
+  };
+
+  const handleCharactersChange = (update: (characters: Character[]) => Character[]) => {
+    setScript(prev => {
+      if (!prev) return prev;
+      const characters = update(prev.characters || []);
+      if (characters === prev.characters) return prev;
+      // Forget removed characters so panels don't keep dangling ids
+      const ids = characters.map(c => c.id);
+      const panels = prev.panels.map(p => p.characterIds ? { ...p, characterIds: p.characterIds.filter(id => ids.includes(id)) } : p);
+      return { ...prev, characters, panels };
+    });
+  };
+
+  const handleAnonymizationChange = (substitutions: PiiSubstitution[]) => {
+    const pairs = diffSubstitutions(story.anonymization || [], substitutions);
+    onStoryChange({ ...swapStoryTerms(story, pairs), anonymization: substitutions });
+    setScript(prev => prev ? swapScriptTerms(prev, pairs) : prev);
+  };
+
+  const handleAddBeat = (afterIndex: number) => {
+    const id = nextPanelId(script?.panels || [], nextPanelIdRef.current);
+    nextPanelIdRef.current = id + 1;
+    setPanels(panels => insertPanelAt(panels, afterIndex, createPanel(id)));
+  };
+
+  const emptyBeats = script ? script.panels.filter(p => !p.description.trim()).length : 0;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-8 text-center space-y-6 bg-slate-50">
+        <div className="relative">
+             <div className="absolute inset-0 bg-indigo-200 blur-xl opacity-50 rounded-full animate-pulse"></div>
+             <LayoutTemplate className="relative z-10 w-16 h-16 text-indigo-600 animate-bounce" />
+        </div>
+        <h2 className="text-3xl font-bold text-slate-800">{anonymizing ? 'Removing Personal Details...' : 'Writing Script...'}</h2>
+        <p className="text-slate-500 text-lg">
+          {anonymizing
+            ? 'Swapping real names, usernames and places for fictional ones...'
+            : `Designing ${story.visualStyle} characters for ${story.targetAudience}...`}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-100 pb-20 font-sans">
+      {/* Top Bar */}
+      <div className="sticky top-0 z-30 bg-white/80 backdrop-blur-md border-b border-slate-200 px-6 py-4 flex items-center justify-between">
+        <div className="flex items-center gap-4">
+            <Button variant="secondary" onClick={onBack} size="sm" className="rounded-full">
+               <ArrowLeft className="w-4 h-4" />
+            </Button>
+            <div>
+                <h1 className="text-lg font-bold text-slate-800 truncate max-w-md">{story.title}</h1>
+                <div className="text-xs text-slate-500 font-medium flex items-center gap-2">
+                    <span>Script Review • {script?.panels.length || 0} Beats</span>
+                    {safety.violations.length > 0 && (
+                      <span className="flex items-center gap-1 text-red-500">
+                        • <ShieldAlert className="w-3 h-3" />
+                        {safety.violations.length} content issue{safety.violations.length === 1 ? '' : 's'} for {safety.policy.label}
+                      </span>
+                    )}
+                </div>
+            </div>
+        </div>
+        <div className="flex gap-3">
+            <Button variant="secondary" onClick={() => loadScript(true)} className="rounded-full">
+                <RefreshCw className="w-4 h-4 mr-2" />
+                Rewrite Script
+            </Button>
+            <Button
+              onClick={() => script && onApprove(script)}
+              disabled={!script || script.panels.length === 0 || emptyBeats > 0}
+              title={emptyBeats > 0 ? "Every beat needs a scene description" : undefined}
+              className="rounded-full shadow-lg shadow-indigo-200"
+            >
+                <Wand2 className="w-4 h-4 mr-2" />
+                Approve & Illustrate
+            </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="max-w-5xl mx-auto mt-6 p-4 bg-red-50 text-red-600 rounded-xl flex items-center gap-2 border border-red-100">
+          <AlertCircle className="w-5 h-5" />
+          {error}
+        </div>
+      )}
+
+      {script && (
+        <div className="max-w-5xl mx-auto p-8 space-y-8">
+          {/* Title and summary come from the story, so their flags sit above the script */}
+          <SafetyFlags flags={flagsFor(safety.violations, undefined)} policy={safety.policy} />
+
+          <AnonymizationPanel substitutions={story.anonymization || []} onChange={handleAnonymizationChange} />
+
+          {/* Style Guide */}
+          <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm">
+            <div className="flex items-center gap-2 text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">
+              <Palette className="w-3 h-3" /> Visual Style
+            </div>
+            <textarea
+              value={script.visualStyle}
+              onChange={(e) => setScript({ ...script, visualStyle: e.target.value })}
+              className="w-full h-24 p-3 text-sm text-slate-700 border border-slate-200 rounded-lg outline-none resize-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100"
+            />
+            <p className="text-xs text-slate-400 mt-2">The style is added to every panel's image prompt.</p>
+          </div>
+
+          <CharacterBible
+            characters={script.characters || []}
+            visualStyle={script.visualStyle}
+            onChange={handleCharactersChange}
+          />
+
+          {/* Beats */}
+          <div className="space-y-4">
+            {script.panels.map((panel, idx) => (
+              <div key={panel.id}>
+                <div className="bg-white rounded-2xl p-6 border border-slate-100 shadow-sm flex gap-4">
+                  <div className="shrink-0 w-10 h-10 rounded-full bg-indigo-50 text-indigo-700 font-bold flex items-center justify-center">
+                    {idx + 1}
+                  </div>
+                  <div className="flex-1 space-y-3">
+                    <label className="block">
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Scene</span>
+                      <textarea
+                        value={panel.description}
+                        placeholder="Describe what happens in this scene: setting, action, lighting..."
+                        onChange={(e) => setPanels(panels => updatePanel(panels, panel.id, { description: e.target.value }))}
+                        className="mt-1 w-full h-20 p-3 text-sm text-slate-700 border border-slate-200 rounded-lg outline-none resize-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100"
+                      />
+                      <SafetyFlags flags={flagsFor(safety.violations, panel.id, ['description'])} policy={safety.policy} />
+                    </label>
+                    <label className="block">
+                      <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Caption</span>
+                      <textarea
+                        value={panel.caption}
+                        onChange={(e) => setPanels(panels => updatePanel(panels, panel.id, { caption: e.target.value }))}
+                        className="mt-1 w-full h-16 p-3 text-base text-slate-700 border border-slate-200 rounded-lg outline-none resize-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100 font-comic"
+                      />
+                      <SafetyFlags flags={flagsFor(safety.violations, panel.id, ['caption', 'dialogue'])} policy={safety.policy} />
+                    </label>
+                    {script.characters && script.characters.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">In this panel</span>
+                        {script.characters.map(character => {
+                          const selected = panel.characterIds?.includes(character.id);
+                          return (
+                            <button
+                              key={character.id}
+                              onClick={() => setPanels(panels => panels.map(p => p.id === panel.id ? toggleCharacter(p, character.id) : p))}
+                              className={`text-xs px-3 py-1 rounded-full border transition-colors ${selected ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'}`}
+                            >
+                              {character.name}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                  <div className="shrink-0 flex flex-col gap-2">
+                    <Button variant="secondary" size="sm" onClick={() => setPanels(panels => movePanel(panels, idx, idx - 1))} disabled={idx === 0} title="Move up">
+                      <ArrowUp className="w-4 h-4" />
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => setPanels(panels => movePanel(panels, idx, idx + 1))} disabled={idx === script.panels.length - 1} title="Move down">
+                      <ArrowDown className="w-4 h-4" />
+                    </Button>
+                    <Button variant="secondary" size="sm" onClick={() => handleRegenerateBeat(panel.id)} disabled={regeneratingId !== null} title="Regenerate this beat">
+                      <RefreshCw className={`w-4 h-4 ${regeneratingId === panel.id ? 'animate-spin' : ''}`} />
+                    </Button>
+                    <Button variant="danger" size="sm" onClick={() => setPanels(panels => removePanel(panels, panel.id))} disabled={script.panels.length <= 1} title="Remove beat">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+                <div className="flex justify-center py-2">
+                  <button onClick={() => handleAddBeat(idx)} className="text-xs text-slate-400 hover:text-indigo-600 flex items-center gap-1 px-3 py-1 rounded-full hover:bg-white transition-colors">
+                    <Plus className="w-3 h-3" /> Add beat here
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
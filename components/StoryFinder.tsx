@@ -1,19 +1,25 @@
 
 import React, { useState } from 'react';
-import { findViralStories, createStoryFromPrompt } from '../services/gemini';
-import { Story, LayoutStyle } from '../types';
+import { findViralStories, createStoryFromPrompt, createStoryFromRedditPost } from '../services/gemini';
+import { RedditPost } from '../services/reddit';
+import { isAbortError } from '../services/jobQueue';
+import { useUnmountSignal } from '../hooks/useUnmountSignal';
+import { Story, LayoutStyle, PageFormat } from '../types';
+import { DEFAULT_PAGE_FORMAT, PAGE_FORMATS, PAGE_FORMAT_IDS } from '../services/pageFormats';
 import { Button } from './Button';
+import { RedditImport } from './RedditImport';
 import { 
   Search, Sparkles, AlertCircle, PenTool, Globe, BookOpen, Palette, LayoutGrid, 
   FileImage, Users, TrendingUp, ShoppingBag, MessageSquare, Flame, Heart, 
-  Ghost, Smile, Newspaper, Smartphone
+  Ghost, Smile, Newspaper, Smartphone, Library, FileUp
 } from 'lucide-react';
 
 interface StoryFinderProps {
   onSelectStory: (story: Story) => void;
+  onOpenLibrary: () => void;
 }
 
-type Mode = 'search' | 'create';
+type Mode = 'search' | 'create' | 'import';
 type InspirationTab = 'reddit' | 'social' | 'news' | 'niches';
 
 const ART_STYLES = [
@@ -126,7 +132,7 @@ const NICHE_CATEGORIES = [
   }
 ];
 
-export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
+export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory, onOpenLibrary }) => {
   const [mode, setMode] = useState<Mode>('search');
   const [topic, setTopic] = useState('');
   const [customPrompt, setCustomPrompt] = useState('');
@@ -134,12 +140,14 @@ export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
   const [visualStyle, setVisualStyle] = useState(ART_STYLES[0]);
   const [customStyle, setCustomStyle] = useState('');
   const [layoutStyle, setLayoutStyle] = useState<LayoutStyle>('STORYBOOK');
+  const [pageFormat, setPageFormat] = useState<PageFormat>(DEFAULT_PAGE_FORMAT);
   const [targetAudience, setTargetAudience] = useState(TARGET_AUDIENCES[1]); // Default to Children
   const [inspirationTab, setInspirationTab] = useState<InspirationTab>('reddit');
   
   const [stories, setStories] = useState<Story[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const getSignal = useUnmountSignal();
 
   const getFinalStyle = () => {
     return customStyle.trim() ? customStyle : visualStyle;
@@ -151,16 +159,18 @@ export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
     setLoading(true);
     setError(null);
     try {
-      const results = await findViralStories(topic, targetAudience);
+      const results = await findViralStories(topic, targetAudience, { signal: getSignal() });
       const resultsWithConfig = results.map(s => ({ 
         ...s, 
         panelCount: panelCount,
         visualStyle: getFinalStyle(),
         layoutStyle: layoutStyle,
+        pageFormat: pageFormat,
         targetAudience: targetAudience
       }));
       setStories(resultsWithConfig);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError("Failed to find stories. Please check your API key.");
     } finally {
       setLoading(false);
@@ -173,18 +183,37 @@ export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
     setLoading(true);
     setError(null);
     try {
-      const story = await createStoryFromPrompt(customPrompt, panelCount, targetAudience);
+      const story = await createStoryFromPrompt(customPrompt, panelCount, targetAudience, { signal: getSignal() });
       story.visualStyle = getFinalStyle();
       story.layoutStyle = layoutStyle;
+      story.pageFormat = pageFormat;
       story.targetAudience = targetAudience;
       onSelectStory(story);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError("Failed to create story.");
     } finally {
       setLoading(false);
     }
   };
 
+  const handleImportPost = async (post: RedditPost) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const story = await createStoryFromRedditPost(post, panelCount, targetAudience, { signal: getSignal() });
+      story.visualStyle = getFinalStyle();
+      story.layoutStyle = layoutStyle;
+      story.pageFormat = pageFormat;
+      onSelectStory(story);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setError("Failed to import the post.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const applyInspiration = (query: string) => {
     if (mode === 'search') {
       setTopic(query);
@@ -292,6 +321,26 @@ export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
                  </div>
                </button>
             </div>
+            <div className="grid grid-cols-2 gap-2">
+              {PAGE_FORMAT_IDS.map(id => (
+                <button
+                  key={id}
+                  onClick={() => setPageFormat(id)}
+                  title={PAGE_FORMATS[id].description}
+                  className={`p-2 rounded-lg border text-left transition-all flex items-center gap-2 ${
+                    pageFormat === id
+                    ? 'border-indigo-500 bg-indigo-50/50 ring-1 ring-indigo-500'
+                    : 'border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  <span
+                    className={`shrink-0 border-2 rounded-sm ${pageFormat === id ? 'border-indigo-600' : 'border-slate-300'}`}
+                    style={{ width: PAGE_FORMATS[id].spread ? 24 : 16 * Math.min(1, PAGE_FORMATS[id].pageAspect), height: 16 / Math.max(1, PAGE_FORMATS[id].pageAspect) }}
+                  />
+                  <span className="text-xs font-bold text-slate-700">{PAGE_FORMATS[id].label}</span>
+                </button>
+              ))}
+            </div>
         </div>
 
         {/* 3. Length */}
@@ -350,11 +399,17 @@ export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
       <main className="flex-1 flex flex-col h-full overflow-hidden bg-white rounded-2xl shadow-sm border border-slate-100">
         
         {/* Header / Title */}
-        <div className="p-8 pb-4">
-           <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight mb-2">
-            RedditToon <span className="text-indigo-600">Studio</span>
-          </h1>
-          <p className="text-slate-500">Create viral ebooks fueled by Gemini AI.</p>
+        <div className="p-8 pb-4 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-extrabold text-slate-900 tracking-tight mb-2">
+              RedditToon <span className="text-indigo-600">Studio</span>
+            </h1>
+            <p className="text-slate-500">Create viral ebooks fueled by Gemini AI.</p>
+          </div>
+          <Button variant="secondary" onClick={onOpenLibrary} className="rounded-full shrink-0">
+            <Library className="w-4 h-4" />
+            My Books
+          </Button>
         </div>
 
         {/* Tabs */}
@@ -381,6 +436,17 @@ export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
             <PenTool className="w-4 h-4" />
             Custom Story
           </button>
+          <button
+            onClick={() => setMode('import')}
+            className={`px-6 py-4 text-sm font-bold flex items-center gap-2 transition-colors border-b-2 ${
+              mode === 'import' 
+                ? 'border-indigo-600 text-indigo-600' 
+                : 'border-transparent text-slate-400 hover:text-slate-600'
+            }`}
+          >
+            <FileUp className="w-4 h-4" />
+            Import Reddit Post
+          </button>
         </div>
 
         {/* Scrollable Content */}
@@ -463,6 +529,8 @@ export const StoryFinder: React.FC<StoryFinderProps> = ({ onSelectStory }) => {
                </div>
 
             </div>
+          ) : mode === 'import' ? (
+            <RedditImport importing={loading} onImport={handleImportPost} />
           ) : (
             <div className="max-w-2xl mx-auto flex flex-col items-center justify-center h-full">
                <div className="w-full space-y-6">
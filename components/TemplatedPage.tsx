@@ -0,0 +1,68 @@
+import React from 'react';
+import { PageTemplate, Panel, TemplateSlot } from '../types';
+import { FONT_STACKS } from '../services/layoutTemplates';
+
+interface TemplatedPageProps {
+  template: PageTemplate;
+  panels: Panel[];
+  renderArt: (panel: Panel, slot: TemplateSlot) => React.ReactNode;
+  renderText: (panel: Panel, slot: TemplateSlot) => React.ReactNode;
+  className?: string;
+}
+
+const ALIGN_ITEMS = { start: 'flex-start', center: 'center', end: 'flex-end' } as const;
+
+/**
+ * Lays a page's panels out on its template's grid. Sizes are in container
+ * query units, so the page scales with its width like the exports do. The
+ * slot contents come from the caller: editable in the editor, plain in the
+ * reader.
+ */
+export const TemplatedPage: React.FC<TemplatedPageProps> = ({ template, panels, renderArt, renderText, className = '' }) => {
+  const area = (slot: TemplateSlot): React.CSSProperties => ({
+    gridColumn: `${slot.column} / span ${slot.columnSpan || 1}`,
+    gridRow: `${slot.row} / span ${slot.rowSpan || 1}`,
+  });
+
+  return (
+    <div className={`w-full h-full ${className}`} style={{ containerType: 'inline-size', background: template.background }}>
+      <div
+        className="grid w-full h-full"
+        style={{
+          gridTemplateColumns: template.columns.map(w => `minmax(0, ${w}fr)`).join(' '),
+          gridTemplateRows: template.rows.map(w => `minmax(0, ${w}fr)`).join(' '),
+          gap: `${template.gap * 100}cqw`,
+          padding: template.fullBleed ? 0 : `${template.margin * 100}cqw`,
+          boxSizing: 'border-box',
+        }}
+      >
+        {template.slots.map((slot, i) => {
+          const panel = panels[slot.panel];
+          if (!panel) return null;
+          return slot.kind === 'image' ? (
+            <div key={i} style={area(slot)} className={`relative overflow-hidden min-h-0 ${template.borders ? 'border-2 border-slate-300' : ''}`}>
+              {renderArt(panel, slot)}
+            </div>
+          ) : (
+            <div
+              key={i}
+              style={{
+                ...area(slot),
+                alignItems: ALIGN_ITEMS[slot.align || 'center'],
+                padding: template.fullBleed ? `${template.margin * 100}cqw` : 0,
+                fontFamily: FONT_STACKS[template.font.family],
+                fontSize: `${template.font.size * 100}cqw`,
+                color: template.font.color,
+              }}
+              className="relative z-10 flex justify-center min-h-0 pointer-events-none"
+            >
+              <div className={`w-full pointer-events-auto ${slot.band ? 'h-[30%] bg-white/90 rounded-[1.5cqw] shadow-lg' : 'h-full'}`}>
+                {renderText(panel, slot)}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
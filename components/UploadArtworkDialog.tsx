@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { StyleGuide } from '../types';
+import { restyleArtwork } from '../services/gemini';
+import { fitUploadToAspect } from '../services/uploads';
+import { isAbortError } from '../services/jobQueue';
+import { useUnmountSignal } from '../hooks/useUnmountSignal';
+import { Button } from './Button';
+import { Check, Loader2, Upload, Wand2, X } from 'lucide-react';
+
+interface UploadArtworkDialogProps {
+  title: string;
+  file: File;
+  // The slot's aspect ratio, e.g. "3:4"; the upload is cropped to it
+  aspectRatio: string;
+  styleGuide?: StyleGuide | null;
+  // `restyled` is set when the restyled version was picked
+  onUse: (uploaded: string, restyled?: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Previews an uploaded image cropped to its slot, and optionally redraws it
+ * in the book's style before it is used.
+ */
+export const UploadArtworkDialog: React.FC<UploadArtworkDialogProps> = ({ title, file, aspectRatio, styleGuide, onUse, onClose }) => {
+  const getSignal = useUnmountSignal();
+  const [uploaded, setUploaded] = useState<string | null>(null);
+  const [restyled, setRestyled] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+  const [restyling, setRestyling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fitUploadToAspect(file, aspectRatio)
+      .then(url => { if (!cancelled) setUploaded(url); })
+      .catch(() => { if (!cancelled) setError('Could not read that image.'); });
+    return () => { cancelled = true; };
+  }, [file, aspectRatio]);
+
+  const handleRestyle = async () => {
+    if (!uploaded) return;
+    setRestyling(true);
+    setError(null);
+    try {
+      setRestyled(await restyleArtwork(uploaded, styleGuide, notes, { signal: getSignal() }));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setError('Restyling failed. You can still use the image as it is.');
+    } finally {
+      setRestyling(false);
+    }
+  };
+
+  const previewClass = 'w-full object-contain rounded-lg border border-slate-200 bg-slate-50 max-h-[45vh]';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full p-6 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-2 mb-1">
+          <Upload className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-xl font-bold text-slate-800">{title}</h3>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">
+          Cropped to {aspectRatio} to fit the page. Use it as drawn, or restyle it to match the rest of the book.
+        </p>
+
+        <div className={`grid gap-4 mb-6 ${restyled || restyling ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          <div>
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Your artwork</h4>
+            {uploaded ? (
+              <img src={uploaded} alt="Uploaded artwork" className={previewClass} />
+            ) : !error && (
+              <div className="h-48 flex items-center justify-center"><Loader2 className="w-6 h-6 text-indigo-400 animate-spin" /></div>
+            )}
+          </div>
+          {(restyled || restyling) && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-2">Restyled</h4>
+              {restyling ? (
+                <div className="h-48 flex items-center justify-center"><Wand2 className="w-6 h-6 text-indigo-400 animate-spin-slow" /></div>
+              ) : (
+                <img src={restyled!} alt="Restyled artwork" className={previewClass} />
+              )}
+            </div>
+          )}
+        </div>
+
+        <label className="block text-sm font-semibold text-slate-500 mb-2">Restyle notes (optional)</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder="e.g. Keep the pencil texture, brighten the sky"
+          className="w-full p-3 mb-4 border border-slate-200 rounded-lg text-sm outline-none focus:ring-2 focus:ring-indigo-500 resize-none h-20"
+        />
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button variant="secondary" onClick={handleRestyle} isLoading={restyling} disabled={!uploaded || restyling}>
+            <Wand2 className="w-4 h-4" /> {restyled ? 'Restyle again' : 'Restyle to match the book'}
+          </Button>
+          <Button variant={restyled ? 'secondary' : 'primary'} onClick={() => uploaded && onUse(uploaded)} disabled={!uploaded || restyling}>
+            <Check className="w-4 h-4" /> Use {restyled ? 'original' : 'image'}
+          </Button>
+          {restyled && (
+            <Button onClick={() => onUse(uploaded!, restyled)} disabled={restyling}>
+              <Check className="w-4 h-4" /> Use restyled
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
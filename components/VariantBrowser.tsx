@@ -0,0 +1,78 @@
+import React from 'react';
+import { useCachedImages } from '../hooks/useCachedImages';
+import { Button } from './Button';
+import { Check, Layers, Loader2, Wand2, X } from 'lucide-react';
+
+interface VariantBrowserProps {
+  title: string;
+  // Cache group the images were generated under
+  group: string;
+  currentImage?: string | null;
+  generating: boolean;
+  onSelect: (imageUrl: string) => void;
+  // Generates a new image, bypassing the cache
+  onGenerate: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Every image the response cache still holds for the cover, so an earlier
+ * take can be brought back without paying for it again. Panels keep their
+ * own variants (see VariantPicker).
+ */
+export const VariantBrowser: React.FC<VariantBrowserProps> = ({ title, group, currentImage, generating, onSelect, onGenerate, onClose }) => {
+  // Reloaded whenever the image changes, which is when a generation lands
+  const variants = useCachedImages(group, currentImage);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full p-6 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-2 mb-1">
+          <Layers className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-xl font-bold text-slate-800">{title}</h3>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">Earlier images kept in the response cache. The oldest are dropped when the cache is full.</p>
+
+        {variants === null ? (
+          <div className="flex justify-center py-12"><Loader2 className="w-6 h-6 text-indigo-400 animate-spin" /></div>
+        ) : variants.length === 0 ? (
+          <p className="text-center text-slate-400 py-12">No cached covers yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {variants.map(({ entry, imageUrl }) => {
+              const isCurrent = imageUrl === currentImage;
+              return (
+                <button
+                  key={entry.id}
+                  onClick={() => onSelect(imageUrl)}
+                  disabled={isCurrent}
+                  className={`relative rounded-xl overflow-hidden border-2 text-left transition-colors ${isCurrent ? 'border-indigo-500' : 'border-transparent hover:border-indigo-200'}`}
+                >
+                  <img src={imageUrl} alt="" className="w-full aspect-square object-cover bg-slate-100" />
+                  <div className="px-2 py-1 text-xs text-slate-500 bg-white">
+                    {new Date(entry.createdAt).toLocaleString()}
+                  </div>
+                  {isCurrent && (
+                    <span className="absolute top-2 right-2 flex items-center gap-1 text-xs font-semibold text-white bg-indigo-500 px-2 py-0.5 rounded-full">
+                      <Check className="w-3 h-3" /> In use
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex justify-end mt-6">
+          <Button onClick={onGenerate} isLoading={generating} disabled={generating}>
+            <Wand2 className="w-4 h-4" /> Generate new variant
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
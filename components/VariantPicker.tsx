@@ -0,0 +1,147 @@
+import React, { useRef, useState } from 'react';
+import { Panel } from '../types';
+import { VARIANT_SOURCE_LABELS, getStarredVariant, getVariants } from '../services/variants';
+import { UPLOAD_TYPES, fitUploadToAspect, validateUpload } from '../services/uploads';
+import { useCachedImages } from '../hooks/useCachedImages';
+import { Button } from './Button';
+import { Layers, Loader2, Plus, Star, Trash2, Upload, Wand2, X } from 'lucide-react';
+
+interface VariantPickerProps {
+  title: string;
+  panel: Panel;
+  // Response cache group, for generations not yet kept as variants
+  cacheGroup: string;
+  // Uploads are cropped to the panel's art shape
+  aspectRatio: string;
+  onStar: (variantId: string) => void;
+  onRemove: (variantId: string) => void;
+  onGenerate: (count: number) => void;
+  onAdd: (imageUrl: string, source: 'generated' | 'uploaded') => void;
+  onClose: () => void;
+}
+
+const CANDIDATE_COUNTS = [1, 2, 3, 4];
+
+/**
+ * Side-by-side view of every image kept for a panel. The starred one is the
+ * page image; new candidates land here without replacing it.
+ */
+export const VariantPicker: React.FC<VariantPickerProps> = ({ title, panel, cacheGroup, aspectRatio, onStar, onRemove, onGenerate, onAdd, onClose }) => {
+  const [count, setCount] = useState(3);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const variants = getVariants(panel);
+  const starred = getStarredVariant(panel);
+  // Cached generations the panel no longer keeps (trimmed, or made before variants existed)
+  const cached = useCachedImages(cacheGroup, variants.length);
+  const kept = new Set(variants.map(v => v.imageUrl));
+  const unkept = (cached || []).filter(image => !kept.has(image.imageUrl));
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const error = validateUpload(file);
+    setUploadError(error);
+    if (error) return;
+    try {
+      onAdd(await fitUploadToAspect(file, aspectRatio), 'uploaded');
+    } catch {
+      setUploadError('Could not read that image.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-sm print:hidden">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-5xl w-full p-6 relative max-h-[90vh] overflow-y-auto">
+        <button onClick={onClose} className="absolute top-4 right-4 text-slate-400 hover:text-slate-600">
+          <X className="w-5 h-5" />
+        </button>
+
+        <div className="flex items-center gap-2 mb-1">
+          <Layers className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-xl font-bold text-slate-800">{title}</h3>
+        </div>
+        <p className="text-sm text-slate-500 mb-6">Star the image to use on the page. Every variant is saved with the project.</p>
+
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+          <select
+            value={count}
+            onChange={(e) => setCount(parseInt(e.target.value, 10))}
+            disabled={panel.isGenerating}
+            className="text-sm border border-slate-200 rounded-lg px-2 py-2 bg-white outline-none"
+          >
+            {CANDIDATE_COUNTS.map(n => <option key={n} value={n}>{n} candidate{n === 1 ? '' : 's'}</option>)}
+          </select>
+          <Button onClick={() => onGenerate(count)} isLoading={panel.isGenerating} disabled={panel.isGenerating}>
+            <Wand2 className="w-4 h-4" /> Generate
+          </Button>
+          <Button variant="secondary" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4" /> Upload
+          </Button>
+          <input ref={fileInputRef} type="file" accept={UPLOAD_TYPES.join(',')} onChange={handleUpload} className="hidden" />
+          {uploadError && <span className="text-sm text-red-600">{uploadError}</span>}
+        </div>
+
+        {variants.length === 0 && !panel.isGenerating ? (
+          <p className="text-center text-slate-400 py-12">No images for this page yet.</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {variants.map(variant => {
+              const isStarred = variant.id === starred?.id;
+              return (
+                <div key={variant.id} className={`relative rounded-xl overflow-hidden border-2 group ${isStarred ? 'border-amber-400' : 'border-slate-100'}`}>
+                  <button onClick={() => onStar(variant.id)} className="block w-full" title={isStarred ? 'On the page' : 'Use on the page'}>
+                    <img src={variant.imageUrl} alt="" className="w-full aspect-square object-cover bg-slate-100" />
+                  </button>
+                  <div className="flex items-center justify-between px-2 py-1 text-xs text-slate-500 bg-white">
+                    <span>{VARIANT_SOURCE_LABELS[variant.source]}{variant.createdAt > 0 && ` • ${new Date(variant.createdAt).toLocaleTimeString()}`}</span>
+                    {!isStarred && (
+                      <button onClick={() => onRemove(variant.id)} className="p-1 text-slate-400 hover:text-red-500" title="Delete variant">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => onStar(variant.id)}
+                    className={`absolute top-2 right-2 p-1.5 rounded-full shadow ${isStarred ? 'bg-amber-400 text-white' : 'bg-white/90 text-slate-400 opacity-0 group-hover:opacity-100 hover:text-amber-500'}`}
+                    title={isStarred ? 'Favourite' : 'Star as favourite'}
+                  >
+                    <Star className={`w-4 h-4 ${isStarred ? 'fill-current' : ''}`} />
+                  </button>
+                </div>
+              );
+            })}
+            {panel.isGenerating && (
+              <div className="rounded-xl border-2 border-dashed border-indigo-100 aspect-square flex items-center justify-center">
+                <Loader2 className="w-6 h-6 text-indigo-400 animate-spin" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {unkept.length > 0 && (
+          <div className="mt-8">
+            <h4 className="text-xs font-bold text-slate-500 uppercase tracking-wider mb-3">Earlier generations in the cache</h4>
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-3">
+              {unkept.map(({ entry, imageUrl }) => (
+                <button
+                  key={entry.id}
+                  onClick={() => onAdd(imageUrl, 'generated')}
+                  className="relative rounded-lg overflow-hidden border border-slate-100 hover:border-indigo-300 group"
+                  title="Keep as a variant"
+                >
+                  <img src={imageUrl} alt="" className="w-full aspect-square object-cover bg-slate-100" />
+                  <span className="absolute inset-0 flex items-center justify-center bg-indigo-900/40 text-white opacity-0 group-hover:opacity-100">
+                    <Plus className="w-5 h-5" />
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import { useEffect, useState } from 'react';
+import { ImageAdjustment } from '../types';
+import { applyAdjustments } from '../services/adjustments';
+
+/**
+ * The image with its adjustment stack applied. Shows the unadjusted image
+ * until the first render finishes, then the last finished render while a
+ * newer one is in progress.
+ */
+export const useAdjustedImage = (imageUrl?: string, adjustments?: ImageAdjustment[]): string | undefined => {
+  const [rendered, setRendered] = useState<{ source: string; url: string } | null>(null);
+
+  useEffect(() => {
+    if (!imageUrl || !adjustments || adjustments.length === 0) return;
+    let cancelled = false;
+    applyAdjustments(imageUrl, adjustments)
+      .then(url => { if (!cancelled) setRendered({ source: imageUrl, url }); })
+      .catch(e => console.warn('Could not apply image adjustments', e));
+    return () => { cancelled = true; };
+  }, [imageUrl, adjustments]);
+
+  if (!imageUrl || !adjustments || adjustments.length === 0) return imageUrl;
+  // A render of a different image (e.g. another variant) is never shown
+  return rendered && rendered.source === imageUrl ? rendered.url : imageUrl;
+};
@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react';
+import { CachedVariant, getVariantValue, listVariants } from '../services/responseCache';
+
+export interface CachedImage {
+  entry: CachedVariant;
+  imageUrl: string;
+}
+
+/**
+ * Loads every image the response cache holds for a variant group, newest
+ * first; null while loading. Reloads when `refreshKey` changes, e.g. when a
+ * generation for the group lands.
+ */
+export const useCachedImages = (group: string, refreshKey?: unknown): CachedImage[] | null => {
+  const [images, setImages] = useState<CachedImage[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      try {
+        const entries = await listVariants(group);
+        const loaded = await Promise.all(entries.map(async entry => ({ entry, imageUrl: await getVariantValue(entry.id) })));
+        if (!cancelled) setImages(loaded.filter((image): image is CachedImage => !!image.imageUrl));
+      } catch (e) {
+        console.warn('Could not load cached variants', e);
+        if (!cancelled) setImages([]);
+      }
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [group, refreshKey]);
+
+  return images;
+};
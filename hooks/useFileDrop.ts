@@ -0,0 +1,42 @@
+import React, { useRef, useState } from 'react';
+
+/**
+ * Drag-and-drop of a single file onto an element. Spread `dropProps` on the
+ * drop target; `isDragging` is true while a file is held over it.
+ */
+export const useFileDrop = (onFile: (file: File) => void) => {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child crossed, so count them
+  const depthRef = useRef(0);
+
+  const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const dropProps = {
+    onDragEnter: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depthRef.current += 1;
+      setIsDragging(true);
+    },
+    onDragOver: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = 'copy';
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return;
+      depthRef.current = Math.max(0, depthRef.current - 1);
+      if (depthRef.current === 0) setIsDragging(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+      const file = e.dataTransfer.files[0];
+      if (file) onFile(file);
+    },
+  };
+
+  return { isDragging, dropProps };
+};
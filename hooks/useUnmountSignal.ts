@@ -0,0 +1,21 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Returns a getter for an AbortSignal that fires when the component unmounts,
+ * so queued and running AI jobs are cancelled when the user navigates away.
+ * Declare it before any effect that starts jobs: under StrictMode the
+ * mount-unmount-mount cycle cancels the first run and starts a fresh one.
+ */
+export const useUnmountSignal = (): (() => AbortSignal) => {
+  const controllerRef = useRef<AbortController>(new AbortController());
+
+  useEffect(() => {
+    if (controllerRef.current.signal.aborted) {
+      controllerRef.current = new AbortController();
+    }
+    const controller = controllerRef.current;
+    return () => controller.abort();
+  }, []);
+
+  return () => controllerRef.current.signal;
+};
@@ -0,0 +1,212 @@
+import { ImageAdjustment } from "../types";
+import { loadImage } from "./imageData";
+
+/**
+ * Local, non-destructive image edits. A panel keeps its original imageUrl
+ * plus an ordered stack of adjustments; the stack is rendered on a canvas for
+ * display and again, at full resolution, at export time. None of this goes
+ * through the model.
+ */
+
+export interface AspectPreset {
+  label: string;
+  // width / height; null keeps the current proportions
+  ratio: number | null;
+}
+
+export const ASPECT_PRESETS: AspectPreset[] = [
+  { label: "Original", ratio: null },
+  { label: "1:1", ratio: 1 },
+  { label: "3:4", ratio: 3 / 4 },
+  { label: "4:3", ratio: 4 / 3 },
+  { label: "2:3", ratio: 2 / 3 },
+  { label: "16:9", ratio: 16 / 9 },
+  { label: "9:16", ratio: 9 / 16 },
+];
+
+export const NEUTRAL_LEVELS = { brightness: 0, contrast: 0, saturation: 0, temperature: 0 };
+
+const createCanvas = (width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+const clamp = (value: number) => (value < 0 ? 0 : value > 255 ? 255 : value);
+
+/**
+ * The largest crop of the given aspect ratio, shrunk by `zoom` (1 = largest)
+ * and moved by `panX` / `panY` (-1 to 1, 0 = centred), as fractions.
+ */
+export const cropForAspect = (width: number, height: number, ratio: number | null, zoom = 1, panX = 0, panY = 0) => {
+  const target = ratio ?? width / height;
+  let cropWidth = width;
+  let cropHeight = width / target;
+  if (cropHeight > height) {
+    cropHeight = height;
+    cropWidth = height * target;
+  }
+  cropWidth /= zoom;
+  cropHeight /= zoom;
+  const x = ((width - cropWidth) / 2) * (1 + panX);
+  const y = ((height - cropHeight) / 2) * (1 + panY);
+  return { x: x / width, y: y / height, width: cropWidth / width, height: cropHeight / height };
+};
+
+const crop = (source: HTMLCanvasElement, step: Extract<ImageAdjustment, { kind: "crop" }>): HTMLCanvasElement => {
+  const sx = step.x * source.width;
+  const sy = step.y * source.height;
+  const sw = step.width * source.width;
+  const sh = step.height * source.height;
+  const out = createCanvas(sw, sh);
+  out.getContext("2d")!.drawImage(source, sx, sy, sw, sh, 0, 0, out.width, out.height);
+  return out;
+};
+
+const rotate = (source: HTMLCanvasElement, quarterTurns: number): HTMLCanvasElement => {
+  const sideways = quarterTurns % 2 === 1;
+  const out = createCanvas(sideways ? source.height : source.width, sideways ? source.width : source.height);
+  const ctx = out.getContext("2d")!;
+  ctx.translate(out.width / 2, out.height / 2);
+  ctx.rotate((quarterTurns * Math.PI) / 2);
+  ctx.drawImage(source, -source.width / 2, -source.height / 2);
+  return out;
+};
+
+const flip = (source: HTMLCanvasElement, axis: "horizontal" | "vertical"): HTMLCanvasElement => {
+  const out = createCanvas(source.width, source.height);
+  const ctx = out.getContext("2d")!;
+  if (axis === "horizontal") {
+    ctx.translate(out.width, 0);
+    ctx.scale(-1, 1);
+  } else {
+    ctx.translate(0, out.height);
+    ctx.scale(1, -1);
+  }
+  ctx.drawImage(source, 0, 0);
+  return out;
+};
+
+const levels = (source: HTMLCanvasElement, step: Extract<ImageAdjustment, { kind: "levels" }>): HTMLCanvasElement => {
+  const ctx = source.getContext("2d")!;
+  const image = ctx.getImageData(0, 0, source.width, source.height);
+  const { data } = image;
+  const brightness = step.brightness * 1.28;
+  const contrast = (100 + step.contrast) / 100;
+  const saturation = (100 + step.saturation) / 100;
+  // Warm adds red and takes away blue; cool the reverse
+  const warmth = step.temperature * 0.4;
+  for (let i = 0; i < data.length; i += 4) {
+    let r = data[i] + brightness;
+    let g = data[i + 1] + brightness;
+    let b = data[i + 2] + brightness;
+    r = (r - 128) * contrast + 128;
+    g = (g - 128) * contrast + 128;
+    b = (b - 128) * contrast + 128;
+    const grey = 0.299 * r + 0.587 * g + 0.114 * b;
+    r = grey + (r - grey) * saturation;
+    g = grey + (g - grey) * saturation;
+    b = grey + (b - grey) * saturation;
+    data[i] = clamp(r + warmth);
+    data[i + 1] = clamp(g);
+    data[i + 2] = clamp(b - warmth);
+  }
+  ctx.putImageData(image, 0, 0);
+  return source;
+};
+
+const sharpen = (source: HTMLCanvasElement, amount: number): HTMLCanvasElement => {
+  const { width, height } = source;
+  const ctx = source.getContext("2d")!;
+  const input = ctx.getImageData(0, 0, width, height);
+  const output = ctx.createImageData(width, height);
+  const a = amount / 100;
+  const src = input.data;
+  const dst = output.data;
+  // 3x3 sharpen kernel: centre 1 + 4a, edge neighbours -a
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const up = (Math.max(0, y - 1) * width + x) * 4;
+      const down = (Math.min(height - 1, y + 1) * width + x) * 4;
+      const left = (y * width + Math.max(0, x - 1)) * 4;
+      const right = (y * width + Math.min(width - 1, x + 1)) * 4;
+      for (let c = 0; c < 3; c++) {
+        dst[i + c] = clamp(src[i + c] * (1 + 4 * a) - a * (src[up + c] + src[down + c] + src[left + c] + src[right + c]));
+      }
+      dst[i + 3] = src[i + 3];
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+  return source;
+};
+
+const clone = (source: HTMLCanvasElement, step: Extract<ImageAdjustment, { kind: "clone" }>): HTMLCanvasElement => {
+  const { width, height } = source;
+  const size = Math.max(2, Math.round(step.size * width));
+  // Dabs copy from the image as it was before the stroke, never from earlier dabs
+  const before = createCanvas(width, height);
+  before.getContext("2d")!.drawImage(source, 0, 0);
+
+  const stamp = createCanvas(size, size);
+  const stampCtx = stamp.getContext("2d")!;
+  const ctx = source.getContext("2d")!;
+  for (const point of step.points) {
+    const cx = point.x * width;
+    const cy = point.y * height;
+    stampCtx.globalCompositeOperation = "source-over";
+    stampCtx.clearRect(0, 0, size, size);
+    stampCtx.drawImage(before, cx + step.dx * width - size / 2, cy + step.dy * height - size / 2, size, size, 0, 0, size, size);
+    // Soft edge, so the patch heals into its surroundings
+    const falloff = stampCtx.createRadialGradient(size / 2, size / 2, 0, size / 2, size / 2, size / 2);
+    falloff.addColorStop(0, "rgba(0,0,0,1)");
+    falloff.addColorStop(0.6, "rgba(0,0,0,0.8)");
+    falloff.addColorStop(1, "rgba(0,0,0,0)");
+    stampCtx.globalCompositeOperation = "destination-in";
+    stampCtx.fillStyle = falloff;
+    stampCtx.fillRect(0, 0, size, size);
+    ctx.drawImage(stamp, cx - size / 2, cy - size / 2);
+  }
+  return source;
+};
+
+const applyStep = (canvas: HTMLCanvasElement, step: ImageAdjustment): HTMLCanvasElement => {
+  switch (step.kind) {
+    case "crop": return crop(canvas, step);
+    case "rotate": return rotate(canvas, step.quarterTurns);
+    case "flip": return flip(canvas, step.axis);
+    case "levels": return levels(canvas, step);
+    case "sharpen": return step.amount > 0 ? sharpen(canvas, step.amount) : canvas;
+    case "clone": return clone(canvas, step);
+  }
+};
+
+/**
+ * Renders the image with the adjustment stack applied, at full resolution.
+ */
+export const renderAdjusted = (img: HTMLImageElement, adjustments: ImageAdjustment[]): HTMLCanvasElement => {
+  const canvas = createCanvas(img.naturalWidth || img.width, img.naturalHeight || img.height);
+  canvas.getContext("2d")!.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return adjustments.reduce(applyStep, canvas);
+};
+
+/**
+ * The adjusted image as a PNG data URL; the original URL when there is
+ * nothing to apply.
+ */
+export const applyAdjustments = async (imageUrl: string, adjustments: ImageAdjustment[] = []): Promise<string> => {
+  if (adjustments.length === 0) return imageUrl;
+  return renderAdjusted(await loadImage(imageUrl), adjustments).toDataURL("image/png");
+};
+
+export const describeAdjustment = (step: ImageAdjustment): string => {
+  switch (step.kind) {
+    case "crop": return "Crop";
+    case "rotate": return `Rotate ${step.quarterTurns * 90}°`;
+    case "flip": return step.axis === "horizontal" ? "Flip horizontally" : "Flip vertically";
+    case "levels": return "Light & colour";
+    case "sharpen": return `Sharpen ${step.amount}`;
+    case "clone": return "Clone / heal";
+  }
+};
@@ -0,0 +1,131 @@
+import { Schema } from "@google/genai";
+import { saveSetting } from "./settings";
+
+/**
+ * Backend-agnostic interface for every AI call the app makes.
+ * services/gemini.ts builds the prompts; a provider only transports them.
+ * Retries, rate limits and concurrency are handled by the queues in aiQueue.ts,
+ * so a provider should make exactly one attempt and honour the request's signal.
+ */
+
+// Which kind of model a request needs. Providers map these to concrete models.
+export type ModelTier = "text" | "analysis";
+
+// What a request is for. Real backends can ignore it; offline backends use it
+// to decide which canned response to return.
+export type AiTask =
+  | "findStories"
+  | "createStory"
+  | "redditStory"
+  | "pii"
+  | "script"
+  | "beat"
+  | "bridge"
+  | "split"
+  | "analysis"
+  | "refine"
+  | "safety"
+  | "translate"
+  | "listing"
+  | "panelImage"
+  | "coverImage"
+  | "characterSheet"
+  | "editImage";
+
+export interface TextRequest {
+  task: AiTask;
+  prompt: string;
+  tier?: ModelTier;
+  // Ground the answer with web search (free-form text only).
+  search?: boolean;
+  // Structured inputs the prompt was built from, so offline backends don't
+  // need to parse prompt text.
+  params?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface JsonRequest extends TextRequest {
+  schema: Schema;
+}
+
+export interface AnalysisRequest extends JsonRequest {
+  // Data URLs attached as inline image parts before the prompt.
+  images: string[];
+}
+
+export interface ImageRequest {
+  task: AiTask;
+  prompt: string;
+  aspectRatio: string;
+  // Data URLs (e.g. character reference sheets) attached as inline image parts before the prompt.
+  referenceImages?: string[];
+  params?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+export interface EditImageRequest {
+  image: string;
+  prompt: string;
+  // Data URL the size of the image: white where the edit may change pixels, black elsewhere.
+  mask?: string;
+  signal?: AbortSignal;
+}
+
+export interface AiProvider {
+  id: string;
+  label: string;
+  // Whether the provider needs a user API key before it can be used.
+  requiresApiKey: boolean;
+  // The concrete model behind each tier; part of every response cache key.
+  models: Record<ModelTier | "image", string>;
+  generateText: (request: TextRequest) => Promise<string>;
+  generateJson: <T>(request: JsonRequest) => Promise<T>;
+  analyze: <T>(request: AnalysisRequest) => Promise<T>;
+  // Both image calls resolve to a base64 data URL.
+  generateImage: (request: ImageRequest) => Promise<string>;
+  editImage: (request: EditImageRequest) => Promise<string>;
+}
+
+const providers = new Map<string, AiProvider>();
+const STORAGE_KEY = "reddittoon.aiProvider";
+let activeId: string | null = null;
+
+export const registerAiProvider = (provider: AiProvider) => {
+  providers.set(provider.id, provider);
+};
+
+export const listAiProviders = (): AiProvider[] => Array.from(providers.values());
+
+/**
+ * Selects the backend for all subsequent calls and remembers the choice.
+ */
+export const setAiProvider = (id: string) => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown AI provider "${id}".`);
+  }
+  activeId = id;
+  saveSetting(STORAGE_KEY, id);
+};
+
+const initialProviderId = (): string => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && providers.has(stored)) return stored;
+  } catch {
+    // ignore
+  }
+  const fromEnv = process.env.AI_PROVIDER;
+  if (fromEnv && providers.has(fromEnv)) return fromEnv;
+  return "gemini";
+};
+
+export const getAiProvider = (): AiProvider => {
+  if (!activeId) {
+    activeId = initialProviderId();
+  }
+  const provider = providers.get(activeId);
+  if (!provider) {
+    throw new Error("No AI provider registered.");
+  }
+  return provider;
+};
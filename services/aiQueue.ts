@@ -0,0 +1,42 @@
+import { createJobQueue, JobQueue, JobQueueOptions } from "./jobQueue";
+import { saveSetting } from "./settings";
+
+/**
+ * The app-wide queues every AI call goes through. Image models have much
+ * tighter quotas than text models, so they get their own limits.
+ */
+
+export type QueueName = "text" | "image";
+
+const STORAGE_KEY = "reddittoon.queueOptions";
+
+export const DEFAULT_QUEUE_OPTIONS: Record<QueueName, JobQueueOptions> = {
+  text: { concurrency: 3, requestsPerMinute: 30, maxRetries: 3, baseRetryDelayMs: 2000 },
+  image: { concurrency: 2, requestsPerMinute: 10, maxRetries: 3, baseRetryDelayMs: 4000 },
+};
+
+const loadStoredOptions = (): Partial<Record<QueueName, Partial<JobQueueOptions>>> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const stored = loadStoredOptions();
+
+export const aiQueues: Record<QueueName, JobQueue> = {
+  text: createJobQueue({ ...DEFAULT_QUEUE_OPTIONS.text, ...stored.text }),
+  image: createJobQueue({ ...DEFAULT_QUEUE_OPTIONS.image, ...stored.image }),
+};
+
+/**
+ * Changes a queue's limits and remembers them for next time.
+ */
+export const setQueueOptions = (name: QueueName, options: Partial<JobQueueOptions>) => {
+  aiQueues[name].setOptions(options);
+  saveSetting(STORAGE_KEY, JSON.stringify({
+    text: aiQueues.text.getOptions(),
+    image: aiQueues.image.getOptions(),
+  }));
+};
@@ -0,0 +1,200 @@
+import { PiiKind, PiiSubstitution, Script, Story } from "../types";
+
+/**
+ * Replaces personal identifiers in Reddit-sourced stories with consistent
+ * fictional substitutes. Detection of names, places and employers is done by
+ * the model (removePersonalIdentifiers in gemini.ts); usernames and contact
+ * details are caught here by pattern. The resulting substitution list lives on
+ * the Story, and generations pass their output through applySubstitutions so
+ * an original that slips back in is swapped for the same substitute.
+ */
+
+export interface PiiCandidate {
+  text: string;
+  kind: PiiKind;
+}
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+  name: "Name",
+  username: "Username",
+  place: "Place",
+  employer: "Employer",
+  contact: "Contact",
+};
+
+const FIRST_NAMES = [
+  "Alex", "Jordan", "Casey", "Riley", "Morgan", "Taylor", "Jamie", "Quinn",
+  "Avery", "Rowan", "Harper", "Reese", "Skyler", "Emerson", "Finley", "Sage",
+  "Parker", "Dakota", "Hayden", "Marlowe", "Ellis", "Remy", "Noel", "Arden",
+];
+
+const LAST_NAMES = [
+  "Carter", "Hollis", "Bennett", "Marsh", "Whitaker", "Lane", "Ashford", "Brooks",
+  "Calloway", "Dunmore", "Ellery", "Fairbanks", "Garland", "Hale", "Kingsley", "Lowell",
+];
+
+const PLACES = [
+  "Maple Hollow", "Cedar Falls", "Brookhaven", "Willow Creek", "Pine Ridge", "Oakmont",
+  "Silver Lake", "Fairview Heights", "Juniper Bay", "Elmstead", "Harrow Glen", "Lark Meadow",
+];
+
+const EMPLOYERS = [
+  "Brightside Co.", "Northwind Foods", "Bluebird Logistics", "Summit Retail", "Harbor & Finch",
+  "Greenleaf Market", "Copperline Tech", "Meadowbrook Clinic", "Riverstone Bank", "Foxglove Studios",
+];
+
+const hash = (text: string): number => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) >>> 0;
+  return h;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Usernames, social handles, emails and phone numbers, found by pattern.
+ */
+export const findPatternIdentifiers = (text: string): PiiCandidate[] => {
+  const found: PiiCandidate[] = [];
+  const add = (pattern: RegExp, kind: PiiKind) => {
+    for (const match of text.match(pattern) || []) found.push({ text: match.trim(), kind });
+  };
+  add(/(?<![\w/])\/?u\/[A-Za-z0-9_-]{3,20}\b/g, "username");
+  add(/(?<![\w@])@[A-Za-z0-9_]{3,30}\b/g, "username");
+  add(/[\w.+-]+@[\w-]+\.[\w.]+\w/g, "contact");
+  add(/(?:\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g, "contact");
+  return found;
+};
+
+const pick = (list: string[], seed: string, taken: Set<string>): string => {
+  const start = hash(seed) % list.length;
+  for (let i = 0; i < list.length; i++) {
+    const candidate = list[(start + i) % list.length];
+    if (!taken.has(candidate.toLowerCase())) return candidate;
+  }
+  // Every substitute is in use; number them rather than reuse one
+  return `${list[start]} ${taken.size + 1}`;
+};
+
+const createSubstitute = (candidate: PiiCandidate, taken: Set<string>, contactIndex: number): string => {
+  switch (candidate.kind) {
+    case "name":
+    case "username":
+      return pick(FIRST_NAMES, candidate.text, taken);
+    case "place":
+      return pick(PLACES, candidate.text, taken);
+    case "employer":
+      return pick(EMPLOYERS, candidate.text, taken);
+    case "contact":
+      return candidate.text.includes("@")
+        ? `contact${contactIndex}@example.com`
+        : `555-01${String(contactIndex).padStart(2, "0")}`;
+  }
+};
+
+/**
+ * Adds substitutes for new candidates to an existing list. Originals already
+ * in the list keep their substitute, and no two originals share one. A full
+ * name also maps its first name, so "Sarah Jones" and a later "Sarah" stay
+ * the same fictional person.
+ */
+export const buildSubstitutions = (candidates: PiiCandidate[], existing: PiiSubstitution[] = []): PiiSubstitution[] => {
+  const result = [...existing];
+  const byOriginal = new Map(existing.map(s => [s.original.toLowerCase(), s]));
+  const taken = new Set(existing.map(s => s.replacement.toLowerCase()));
+
+  const add = (original: string, kind: PiiKind): PiiSubstitution | null => {
+    const key = original.toLowerCase();
+    const known = byOriginal.get(key);
+    if (known) return known;
+    // Skip our own substitutes and fragments too short to be identifying
+    if (original.length < 2 || taken.has(key)) return null;
+    let replacement: string;
+    const parts = original.split(/\s+/);
+    if (kind === "name" && parts.length > 1) {
+      const first = add(parts[0], "name");
+      replacement = `${first ? first.replacement : pick(FIRST_NAMES, original, taken)} ${pick(LAST_NAMES, original, taken)}`;
+    } else {
+      replacement = createSubstitute({ text: original, kind }, taken, result.filter(s => s.kind === "contact").length + 1);
+    }
+    const substitution = { original, replacement, kind };
+    result.push(substitution);
+    byOriginal.set(key, substitution);
+    taken.add(replacement.toLowerCase());
+    return substitution;
+  };
+
+  for (const candidate of candidates) add(candidate.text.trim(), candidate.kind);
+  return result;
+};
+
+/**
+ * Swaps whole-word occurrences of each `from` for its `to` in one pass, so a
+ * substitute is never itself substituted. Matching ignores case.
+ */
+export const swapTerms = (text: string, pairs: { from: string; to: string }[]): string => {
+  const usable = pairs.filter(p => p.from.trim() && p.from !== p.to);
+  if (!text || usable.length === 0) return text;
+  const lookup = new Map(usable.map(p => [p.from.toLowerCase(), p.to]));
+  // Longest first so "Sarah Jones" wins over "Sarah"
+  const alternatives = [...lookup.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\w/@])(?:${alternatives.join("|")})(?!\\w)`, "gi");
+  return text.replace(pattern, match => lookup.get(match.toLowerCase()) ?? match);
+};
+
+export const applySubstitutions = (text: string, substitutions: PiiSubstitution[] = []): string =>
+  swapTerms(text, substitutions.map(s => ({ from: s.original, to: s.replacement })));
+
+export const swapStoryTerms = (story: Story, pairs: { from: string; to: string }[]): Story => ({
+  ...story,
+  title: swapTerms(story.title, pairs),
+  summary: swapTerms(story.summary, pairs),
+});
+
+/**
+ * Returns the story with its title and summary anonymized and the
+ * substitution list recorded on it.
+ */
+export const anonymizeStory = (story: Story, substitutions: PiiSubstitution[]): Story => ({
+  ...swapStoryTerms(story, substitutions.map(s => ({ from: s.original, to: s.replacement }))),
+  anonymization: substitutions,
+});
+
+/**
+ * Rewrites every piece of script text (scenes, captions, lettering and the
+ * character bible) with the given swaps.
+ */
+export const swapScriptTerms = (script: Script, pairs: { from: string; to: string }[]): Script => ({
+  ...script,
+  characters: script.characters?.map(c => ({ ...c, name: swapTerms(c.name, pairs), description: swapTerms(c.description, pairs) })),
+  panels: script.panels.map(panel => ({
+    ...panel,
+    description: swapTerms(panel.description, pairs),
+    caption: swapTerms(panel.caption, pairs),
+    overlays: panel.overlays?.map(o => ({ ...o, text: swapTerms(o.text, pairs) })),
+  })),
+});
+
+export const anonymizeScript = (script: Script, substitutions: PiiSubstitution[] = []): Script =>
+  swapScriptTerms(script, substitutions.map(s => ({ from: s.original, to: s.replacement })));
+
+/**
+ * Turns an edit of the substitution list into text swaps: a changed
+ * substitute replaces the old one, a removed entry restores its original,
+ * and a new entry replaces its original.
+ */
+export const diffSubstitutions = (before: PiiSubstitution[], after: PiiSubstitution[]): { from: string; to: string }[] => {
+  const pairs: { from: string; to: string }[] = [];
+  const key = (s: PiiSubstitution) => s.original.toLowerCase();
+  const afterByOriginal = new Map(after.map(s => [key(s), s]));
+  const beforeOriginals = new Set(before.map(key));
+  for (const old of before) {
+    const next = afterByOriginal.get(key(old));
+    if (!next) pairs.push({ from: old.replacement, to: old.original });
+    else if (next.replacement !== old.replacement) pairs.push({ from: old.replacement, to: next.replacement });
+  }
+  for (const added of after) {
+    if (!beforeOriginals.has(key(added))) pairs.push({ from: added.original, to: added.replacement });
+  }
+  return pairs;
+};
@@ -0,0 +1,128 @@
+/**
+ * Helpers for narration clips, which are stored as data URLs like images.
+ */
+
+export interface AudioFormat {
+  // The registered type, for manifests
+  mimeType: string;
+  extension: string;
+  // What users call it, for messages
+  name: string;
+}
+
+const MP3: AudioFormat = { mimeType: "audio/mpeg", extension: "mp3", name: "MP3" };
+const M4A: AudioFormat = { mimeType: "audio/mp4", extension: "m4a", name: "M4A" };
+const AAC: AudioFormat = { mimeType: "audio/aac", extension: "aac", name: "AAC" };
+const WAV: AudioFormat = { mimeType: "audio/wav", extension: "wav", name: "WAV" };
+const OGG: AudioFormat = { mimeType: "audio/ogg", extension: "ogg", name: "OGG" };
+const WEBM: AudioFormat = { mimeType: "audio/webm", extension: "weba", name: "WebM" };
+const FLAC: AudioFormat = { mimeType: "audio/flac", extension: "flac", name: "FLAC" };
+
+// Browsers and operating systems report the same formats under several names
+const AUDIO_FORMATS: Record<string, AudioFormat> = {
+  "audio/mpeg": MP3,
+  "audio/mp3": MP3,
+  "audio/mpeg3": MP3,
+  "audio/x-mpeg": MP3,
+  "audio/mp4": M4A,
+  "audio/m4a": M4A,
+  "audio/x-m4a": M4A,
+  "audio/aac": AAC,
+  "audio/x-aac": AAC,
+  "audio/wav": WAV,
+  "audio/wave": WAV,
+  "audio/x-wav": WAV,
+  "audio/vnd.wave": WAV,
+  "audio/ogg": OGG,
+  "audio/opus": OGG,
+  "audio/webm": WEBM,
+  "audio/flac": FLAC,
+  "audio/x-flac": FLAC,
+};
+
+// "MP3, M4A, ... or FLAC", for messages about unsupported files
+const names = [...new Set(Object.values(AUDIO_FORMATS).map(f => f.name))];
+export const AUDIO_FORMAT_NAMES = `${names.slice(0, -1).join(", ")} or ${names[names.length - 1]}`;
+
+/**
+ * The format behind an audio MIME type (parameters such as codecs are
+ * ignored), or null for types we don't know how to name.
+ */
+export const audioFormat = (mimeType: string): AudioFormat | null =>
+  AUDIO_FORMATS[mimeType.split(";")[0].trim().toLowerCase()] || null;
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  // In chunks: spreading a whole clip into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return window.btoa(binary);
+};
+
+/**
+ * Wraps 16-bit mono PCM samples in a WAV container, as a data URL.
+ */
+export const pcmToWavDataUrl = (samples: Int16Array, sampleRate: number): string => {
+  const dataSize = samples.length * 2;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, "WAVE");
+  writeString(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, "data");
+  view.setUint32(40, dataSize, true);
+  new Int16Array(buffer, 44).set(samples);
+  return `data:audio/wav;base64,${bytesToBase64(new Uint8Array(buffer))}`;
+};
+
+/**
+ * Length of a clip in seconds, from the browser's own decoder.
+ */
+export const getAudioDuration = (src: string): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const audio = new Audio();
+    audio.preload = "metadata";
+    audio.onloadedmetadata = () => {
+      if (Number.isFinite(audio.duration)) {
+        resolve(audio.duration);
+        return;
+      }
+      // Recordings from MediaRecorder report Infinity until seeked past the end
+      audio.ontimeupdate = () => {
+        audio.ontimeupdate = null;
+        resolve(audio.duration);
+      };
+      audio.currentTime = Number.MAX_SAFE_INTEGER;
+    };
+    audio.onerror = () => reject(new Error("Could not read the audio file"));
+    audio.src = src;
+  });
+};
+
+/**
+ * Decodes a clip to mono samples at the given rate; the browser resamples,
+ * and stereo recordings are mixed down.
+ */
+export const decodeAudioMono = async (bytes: Uint8Array, sampleRate: number): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  // decodeAudioData takes ownership of the buffer it is given
+  const buffer = await context.decodeAudioData(bytes.slice().buffer);
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < mono.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
@@ -0,0 +1,35 @@
+import { Character, Panel, StyleGuide } from "../types";
+
+/**
+ * Helpers for the character bible stored on the style guide.
+ */
+
+export const createCharacterId = () => `char-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * The bible entries featured in a panel, in bible order.
+ */
+export const getPanelCharacters = (panel: Pick<Panel, "characterIds">, styleGuide?: StyleGuide | null): Character[] => {
+  const ids = panel.characterIds || [];
+  return (styleGuide?.characters || []).filter(c => ids.includes(c.id));
+};
+
+/**
+ * Maps character names (as written by the model) to bible ids, ignoring case
+ * and unknown names.
+ */
+export const matchCharacterIds = (names: string[], characters: Character[]): string[] => {
+  const wanted = names.map(n => n.trim().toLowerCase());
+  return characters.filter(c => wanted.includes(c.name.trim().toLowerCase())).map(c => c.id);
+};
+
+export const describeCharacters = (characters: Character[]): string =>
+  characters.map(c => `${c.name}: ${c.description}`).join(". ");
+
+export const toggleCharacter = (panel: Panel, characterId: string): Panel => {
+  const ids = panel.characterIds || [];
+  return {
+    ...panel,
+    characterIds: ids.includes(characterId) ? ids.filter(id => id !== characterId) : [...ids, characterId],
+  };
+};
@@ -0,0 +1,382 @@
+import { Ebook, PageTemplate, Panel } from "../types";
+import { createZip, ZipEntry } from "./zip";
+import { dataUrlToBytes, extensionForMimeType } from "./imageData";
+import { audioFormat, decodeAudioMono } from "./audioData";
+import { encodeOggOpus, OPUS_SAMPLE_RATE } from "./oggOpus";
+import { getContentPages } from "./pagination";
+import { usesSpreads } from "./pageFormats";
+import { FONT_STACKS } from "./layoutTemplates";
+import { hasCurrentNarration } from "./narration";
+import { tokenizeWords } from "./wordTimings";
+
+export interface EpubOptions {
+  language: string;
+  // Fixed-layout (pre-paginated) is what picture books and comics need on
+  // Kindle / Apple Books; reflowable is better for text-heavy stories.
+  fixedLayout: boolean;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export const DEFAULT_EPUB_OPTIONS: EpubOptions = {
+  language: "en",
+  fixedLayout: true,
+  pageWidth: 1200,
+  pageHeight: 1600,
+};
+
+export interface EpubResult {
+  blob: Blob;
+  // Panels whose narration clip couldn't be packaged, so they read without audio
+  droppedNarration: number[];
+}
+
+interface SpineItem {
+  id: string;
+  // page-spread-left / page-spread-right for the halves of a spread
+  properties?: string;
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties?: string;
+  // Id of the page's Media Overlay (SMIL) document
+  mediaOverlay?: string;
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, "&amp;")
+  .replace(/</g, "&lt;")
+  .replace(/>/g, "&gt;")
+  .replace(/"/g, "&quot;")
+  .replace(/'/g, "&apos;");
+
+// EPUB 3 core media types for audio. Any other clip (the WAV our voices
+// produce, uploaded WAV, AAC, WebM or Ogg Vorbis) is re-encoded as Opus.
+const CORE_AUDIO_TYPES = ["audio/mpeg", "audio/mp4"];
+const OPUS_MEDIA_TYPE = "audio/ogg; codecs=opus";
+
+const epubAudio = async (dataUrl: string): Promise<{ mediaType: string; extension: string; bytes: Uint8Array }> => {
+  const { mimeType, bytes } = dataUrlToBytes(dataUrl);
+  const format = audioFormat(mimeType);
+  if (format && CORE_AUDIO_TYPES.includes(format.mimeType)) {
+    return { mediaType: format.mimeType, extension: extensionForMimeType(mimeType), bytes };
+  }
+  const samples = await decodeAudioMono(bytes, OPUS_SAMPLE_RATE);
+  return { mediaType: OPUS_MEDIA_TYPE, extension: "opus", bytes: await encodeOggOpus(samples) };
+};
+
+const pageFileName = (index: number) => `page-${String(index + 1).padStart(3, "0")}.xhtml`;
+
+// SMIL clock value, h:mm:ss.fff
+const clockValue = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = ((ms % 60000) / 1000).toFixed(3).padStart(6, "0");
+  return `${h}:${String(m).padStart(2, "0")}:${s}`;
+};
+
+const wordId = (panel: Panel, index: number) => `p${panel.id}-w${index}`;
+
+const xhtmlDocument = (title: string, body: string, options: EpubOptions) => `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(options.language)}" lang="${escapeXml(options.language)}">
+<head>
+  <meta charset="UTF-8"/>
+  <title>${escapeXml(title)}</title>
+  ${options.fixedLayout ? `<meta name="viewport" content="width=${options.pageWidth}, height=${options.pageHeight}"/>` : ""}
+  <link rel="stylesheet" type="text/css" href="styles.css"/>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+const stylesheet = (options: EpubOptions) => {
+  const page = options.fixedLayout
+    ? `html, body { margin: 0; padding: 0; width: ${options.pageWidth}px; height: ${options.pageHeight}px; overflow: hidden; }
+.page { position: relative; width: 100%; height: 100%; display: flex; flex-direction: column; background: #ffffff; }`
+    : `body { margin: 0 1em; }
+.page { page-break-after: always; }`;
+
+  return `${page}
+body { font-family: "Comic Neue", "Comic Sans MS", cursive, sans-serif; color: #334155; }
+img { display: block; }
+.cover .art { ${options.fixedLayout ? "height: 75%;" : ""} width: 100%; }
+.cover .art img { width: 100%; ${options.fixedLayout ? "height: 100%; object-fit: cover;" : "height: auto;"} }
+.cover h1 { font-family: sans-serif; text-transform: uppercase; text-align: center; font-size: ${options.fixedLayout ? "72px" : "2em"}; margin: 0.5em 0.3em 0.2em; color: #0f172a; }
+.cover .author { text-align: center; font-size: ${options.fixedLayout ? "32px" : "1em"}; color: #64748b; }
+.templated .grid { ${options.fixedLayout ? "display: grid; width: 100%; height: 100%; box-sizing: border-box;" : ""} }
+.templated .slot { position: relative; min-height: 0; overflow: hidden; }
+.templated .art { background: #f8fafc; ${options.fixedLayout ? "" : "margin-bottom: 0.5em;"} }
+.templated .art img { width: 100%; ${options.fixedLayout ? "height: 100%; object-fit: cover;" : "height: auto;"} }
+.templated .bordered { border: 3px solid #cbd5e1; }
+.templated .text { margin: 0; display: flex; justify-content: center; text-align: center; line-height: 1.4; box-sizing: border-box; ${options.fixedLayout ? "" : "margin-bottom: 1em;"} }
+.templated .text span { display: block; width: 100%; }
+.templated .band span { background: rgba(255, 255, 255, 0.9); border-radius: 24px; padding: 0.6em 1em; box-sizing: border-box; }
+.templated .page-number { position: absolute; left: 0; right: 0; bottom: 0; }
+.spread .art { position: absolute; inset: 0; overflow: hidden; }
+.spread .art img { width: 200%; max-width: none; height: 100%; object-fit: cover; }
+.spread.right .art img { margin-left: -100%; }
+.spread .caption { position: absolute; left: 10%; right: 10%; bottom: 6%; margin: 0; padding: 24px 32px; background: rgba(255, 255, 255, 0.9); border-radius: 24px; text-align: center; font-size: 36px; line-height: 1.5; }
+.-epub-media-overlay-active { background: #fde68a; border-radius: 4px; }
+.page-number { text-align: center; font-family: sans-serif; font-size: ${options.fixedLayout ? "20px" : "0.7em"}; letter-spacing: 0.2em; color: #cbd5e1; padding: 16px 0; }
+`;
+};
+
+/**
+ * Packages the ebook as an EPUB 3 file: cover page, one XHTML document per
+ * content page (laid out by its page template), a nav document and OPF
+ * metadata. Fixed-layout spreads are written as a left and
+ * a right page that each show half of the same image; reflowable books show
+ * the whole image on one page instead.
+ *
+ * Panels with narration clips get EPUB 3 Media Overlays: every word of the
+ * caption is a span, and a SMIL document per page ties each span to its
+ * stretch of the clip, so reading systems highlight the text as it is read.
+ * Live (browser voice) narration has no clip and is left out. Clips that
+ * aren't MP3 or MP4 audio are re-encoded as Ogg Opus, the other audio type
+ * every reading system must play; a clip that can't be converted leaves its
+ * panel without read-along rather than failing the export.
+ */
+export const buildEpub = async (ebook: Ebook, options: EpubOptions = DEFAULT_EPUB_OPTIONS): Promise<EpubResult> => {
+  const title = ebook.storyTitle || "Untitled Story";
+  const author = ebook.author || "Unknown";
+  const layoutStyle = ebook.layoutStyle || "STORYBOOK";
+  const files: ZipEntry[] = [];
+  const manifest: ManifestItem[] = [];
+  const spine: SpineItem[] = [];
+
+  // Images are stored once and referenced from the pages
+  const imageHref = new Map<string, string>();
+  const addImage = (key: string, dataUrl: string | null | undefined): string | null => {
+    if (!dataUrl) return null;
+    try {
+      const { mimeType, bytes } = dataUrlToBytes(dataUrl);
+      const href = `images/${key}.${extensionForMimeType(mimeType)}`;
+      files.push({ path: `OEBPS/${href}`, data: bytes });
+      manifest.push({ id: `img-${key}`, href, mediaType: mimeType, properties: key === "cover" ? "cover-image" : undefined });
+      imageHref.set(key, href);
+      return href;
+    } catch (e) {
+      console.warn(`Skipping unreadable image ${key}`, e);
+      return null;
+    }
+  };
+
+  const coverHref = addImage("cover", ebook.coverImage);
+  ebook.panels.forEach(p => addImage(`panel-${p.id}`, p.imageUrl));
+
+  // Narration clips, by panel id
+  const audioHref = new Map<number, string>();
+  const droppedNarration: number[] = [];
+  for (const panel of ebook.panels) {
+    if (!hasCurrentNarration(panel) || !panel.narration?.audioUrl) continue;
+    try {
+      const { mediaType, extension, bytes } = await epubAudio(panel.narration.audioUrl);
+      const href = `audio/panel-${panel.id}.${extension}`;
+      files.push({ path: `OEBPS/${href}`, data: bytes });
+      manifest.push({ id: `audio-${panel.id}`, href, mediaType });
+      audioHref.set(panel.id, href);
+    } catch (e) {
+      console.warn(`Skipping narration for panel ${panel.id}`, e);
+      droppedNarration.push(panel.id);
+    }
+  }
+
+  // Narrated captions are split into word spans for the Media Overlays to point at
+  const captionMarkup = (panel: Panel) => {
+    if (!audioHref.has(panel.id)) return escapeXml(panel.caption);
+    let offset = 0;
+    const words = tokenizeWords(panel.caption).map((token, i) => {
+      const gap = escapeXml(panel.caption.slice(offset, token.from));
+      offset = token.to;
+      return `${gap}<span id="${wordId(panel, i)}">${escapeXml(token.word)}</span>`;
+    });
+    return words.join("") + escapeXml(panel.caption.slice(offset));
+  };
+
+  // Cover
+  const coverBody = `<section class="page cover" epub:type="cover">
+  ${coverHref ? `<div class="art"><img src="${coverHref}" alt="${escapeXml(title)}"/></div>` : ""}
+  <h1>${escapeXml(title)}</h1>
+  <div class="author">${escapeXml(author)}</div>
+</section>`;
+  files.push({ path: "OEBPS/cover.xhtml", data: xhtmlDocument(title, coverBody, options) });
+  manifest.push({ id: "cover", href: "cover.xhtml", mediaType: "application/xhtml+xml" });
+  spine.push({ id: "cover" });
+
+  // Content pages
+  const panelImage = (panel: Panel, alt: string) => {
+    const href = imageHref.get(`panel-${panel.id}`);
+    return href ? `<img src="${href}" alt="${escapeXml(alt)}"/>` : "";
+  };
+
+  const pages = getContentPages(ebook.panels, layoutStyle);
+  const spreads = options.fixedLayout && usesSpreads(ebook.pageFormat, layoutStyle);
+  // Spreads are two files each, so file names count physical pages
+  let fileIndex = 0;
+  const firstFiles: string[] = [];
+  const overlayDurations: { id: string; seconds: number }[] = [];
+  const addMediaOverlay = (pageHref: string, pageIndex: number, narrated: Panel[]) => {
+    const pars = narrated.flatMap(panel => {
+      const narration = panel.narration!;
+      const audio = audioHref.get(panel.id)!;
+      // Each word runs until the next starts, so the pauses are read too
+      return narration.words.map((word, i) => {
+        const begin = i === 0 ? 0 : word.start;
+        const end = i < narration.words.length - 1 ? narration.words[i + 1].start : narration.duration;
+        return `      <par id="${wordId(panel, i)}-par">
+        <text src="../${pageHref}#${wordId(panel, i)}"/>
+        <audio src="../${audio}" clipBegin="${begin.toFixed(3)}s" clipEnd="${end.toFixed(3)}s"/>
+      </par>`;
+      });
+    });
+    const id = `mo-page-${pageIndex + 1}`;
+    const smil = `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq epub:textref="../${pageHref}">
+${pars.join("\n")}
+    </seq>
+  </body>
+</smil>`;
+    const href = `smil/${pageHref.replace(/\.xhtml$/, ".smil")}`;
+    files.push({ path: `OEBPS/${href}`, data: smil });
+    manifest.push({ id, href, mediaType: "application/smil+xml" });
+    overlayDurations.push({ id, seconds: narrated.reduce((sum, panel) => sum + panel.narration!.duration, 0) });
+    return id;
+  };
+
+  const addPage = (pageTitle: string, body: string, properties?: string, narrated: Panel[] = []) => {
+    const href = pageFileName(fileIndex);
+    const id = `page-${fileIndex + 1}`;
+    const withAudio = narrated.filter(panel => audioHref.has(panel.id));
+    const mediaOverlay = withAudio.length > 0 ? addMediaOverlay(href, fileIndex, withAudio) : undefined;
+    files.push({ path: `OEBPS/${href}`, data: xhtmlDocument(`${title} - ${pageTitle}`, body, options) });
+    manifest.push({ id, href, mediaType: "application/xhtml+xml", mediaOverlay });
+    spine.push({ id, properties });
+    fileIndex += 1;
+    return href;
+  };
+
+  const px = (fraction: number) => `${Math.round(fraction * options.pageWidth)}px`;
+  const templatedPage = (template: PageTemplate, pagePanels: Panel[], pageLabel: string) => {
+    const fixed = options.fixedLayout;
+    const slotStyle = (column: number, row: number, columnSpan = 1, rowSpan = 1) =>
+      fixed ? `grid-column: ${column} / span ${columnSpan}; grid-row: ${row} / span ${rowSpan};` : "";
+    const gridStyle = fixed ? [
+      `grid-template-columns: ${template.columns.map(w => `${w}fr`).join(" ")};`,
+      `grid-template-rows: ${template.rows.map(w => `${w}fr`).join(" ")};`,
+      `gap: ${px(template.gap)};`,
+      `padding: ${template.fullBleed ? 0 : px(template.margin)};`,
+      `font-family: ${FONT_STACKS[template.font.family]};`,
+      `font-size: ${px(template.font.size)};`,
+      `color: ${template.font.color};`,
+    ].join(" ") : `font-family: ${FONT_STACKS[template.font.family]};`;
+    const slots = template.slots.map(slot => {
+      const panel = pagePanels[slot.panel];
+      if (!panel) return "";
+      const style = slotStyle(slot.column, slot.row, slot.columnSpan, slot.rowSpan);
+      if (slot.kind === "image") {
+        return `    <div class="slot art${template.borders ? " bordered" : ""}" style="${style}">${panelImage(panel, pagePanels.length === 1 ? pageLabel : panel.caption)}</div>`;
+      }
+      const align = { start: "flex-start", center: "center", end: "flex-end" }[slot.align || "center"];
+      const textStyle = fixed ? `${style} align-items: ${align}; padding: ${template.fullBleed ? px(template.margin) : 0};` : "";
+      return `    <p class="slot text${slot.band ? " band" : ""}" style="${textStyle}"><span>${captionMarkup(panel)}</span></p>`;
+    });
+    // Page numbers would sit on the art of full-bleed pages
+    const pageNumber = template.fullBleed && fixed ? "" : `\n  <div class="page-number">${pageLabel}</div>`;
+    return `<section class="page templated" epub:type="bodymatter"${fixed ? ` style="background: ${template.background};"` : ""}>
+  <div class="grid" style="${escapeXml(gridStyle)}">
+${slots.filter(Boolean).join("\n")}
+  </div>${pageNumber}
+</section>`;
+  };
+
+  pages.forEach(({ template, panels: pagePanels }, index) => {
+    if (spreads) {
+      const panel = pagePanels[0];
+      const pageLabel = `Pages ${index * 2 + 1}-${index * 2 + 2}`;
+      const half = (side: "left" | "right") => `<section class="page spread ${side}" epub:type="bodymatter">
+  <div class="art">${panelImage(panel, side === "left" ? pageLabel : "")}</div>
+  ${side === "right" ? `<p class="caption">${captionMarkup(panel)}</p>` : ""}
+</section>`;
+      firstFiles.push(addPage(pageLabel, half("left"), "page-spread-left"));
+      addPage(pageLabel, half("right"), "page-spread-right", [panel]);
+      return;
+    }
+
+    const pageLabel = `Page ${index + 1}`;
+    firstFiles.push(addPage(pageLabel, templatedPage(template, pagePanels, pageLabel), undefined, pagePanels));
+  });
+
+  // Navigation document
+  const navBody = `<nav epub:type="toc" id="toc">
+  <h1>Contents</h1>
+  <ol>
+    <li><a href="cover.xhtml">Cover</a></li>
+${firstFiles.map((href, i) => `    <li><a href="${href}">${spreads ? `Pages ${i * 2 + 1}-${i * 2 + 2}` : `Page ${i + 1}`}</a></li>`).join("\n")}
+  </ol>
+</nav>
+<nav epub:type="landmarks" hidden="hidden">
+  <ol>
+    <li><a epub:type="cover" href="cover.xhtml">Cover</a></li>
+    ${firstFiles.length > 0 ? `<li><a epub:type="bodymatter" href="${firstFiles[0]}">Start of Story</a></li>` : ""}
+  </ol>
+</nav>`;
+  // The nav document is never shown as a fixed-layout page, so it stays reflowable.
+  files.push({ path: "OEBPS/nav.xhtml", data: xhtmlDocument(title, navBody, { ...options, fixedLayout: false }) });
+  manifest.push({ id: "nav", href: "nav.xhtml", mediaType: "application/xhtml+xml", properties: "nav" });
+
+  files.push({ path: "OEBPS/styles.css", data: stylesheet(options) });
+  manifest.push({ id: "css", href: "styles.css", mediaType: "text/css" });
+
+  // Package document
+  const identifier = `urn:uuid:${crypto.randomUUID()}`;
+  const modified = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+  const opf = `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(options.language)}"${options.fixedLayout ? ` prefix="rendition: http://www.idpf.org/vocab/rendition/#"` : ""}>
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${identifier}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:creator>${escapeXml(author)}</dc:creator>
+    <dc:language>${escapeXml(options.language)}</dc:language>
+    ${ebook.storySummary ? `<dc:description>${escapeXml(ebook.storySummary)}</dc:description>` : ""}
+    <meta property="dcterms:modified">${modified}</meta>
+    ${coverHref ? `<meta name="cover" content="img-cover"/>` : ""}
+    ${overlayDurations.length > 0 ? [
+      ...overlayDurations.map(d => `<meta property="media:duration" refines="#${d.id}">${clockValue(d.seconds)}</meta>`),
+      `<meta property="media:duration">${clockValue(overlayDurations.reduce((sum, d) => sum + d.seconds, 0))}</meta>`,
+      `<meta property="media:active-class">-epub-media-overlay-active</meta>`,
+    ].join("\n    ") : ""}
+    ${options.fixedLayout ? `<meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">auto</meta>
+    <meta property="rendition:spread">${spreads ? "landscape" : "none"}</meta>` : ""}
+  </metadata>
+  <manifest>
+${manifest.map(item => `    <item id="${item.id}" href="${item.href}" media-type="${item.mediaType}"${item.properties ? ` properties="${item.properties}"` : ""}${item.mediaOverlay ? ` media-overlay="${item.mediaOverlay}"` : ""}/>`).join("\n")}
+  </manifest>
+  <spine>
+${spine.map(item => `    <itemref idref="${item.id}"${item.properties ? ` properties="${item.properties}"` : ""}/>`).join("\n")}
+  </spine>
+</package>`;
+
+  const container = `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`;
+
+  const blob = createZip([
+    { path: "mimetype", data: "application/epub+zip" },
+    { path: "META-INF/container.xml", data: container },
+    { path: "OEBPS/content.opf", data: opf },
+    ...files,
+  ], "application/epub+zip");
+  return { blob, droppedNarration };
+};
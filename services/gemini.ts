@@ -1,41 +1,66 @@
+import { Type, Schema } from "@google/genai";
+import { Story, Panel, AnalysisResult, RefinedContent, Script, StyleGuide, Character, MarketplaceListing } from "../types";
+import { getAiProvider, ImageRequest, JsonRequest } from "./aiProvider";
+import { aiQueues } from "./aiQueue";
+import { isAbortError, JobOptions } from "./jobQueue";
+import { CacheOptions, withResponseCache } from "./responseCache";
+import { createCharacterId, describeCharacters, getPanelCharacters, matchCharacterIds } from "./characters";
+import { dialogueToOverlays } from "./overlays";
+import { RedditPost, formatRedditAttribution } from "./reddit";
+import { AudiencePolicy, SafetyCategory, SafetyFlag, SafetyItem, getAudiencePolicy } from "./safety";
+import { PiiCandidate, anonymizeScript, anonymizeStory, applySubstitutions, buildSubstitutions, findPatternIdentifiers } from "./anonymizer";
+import { SOURCE_LANGUAGE, TranslatableItem, languageLabel } from "./translation";
+import { BISAC_CATEGORIES, ETSY_LIMITS, KDP_LIMITS, defaultReadership, normalizeListing } from "./listing";
+import "./providers";
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { Story, Panel, AnalysisResult, RefinedContent } from "../types";
+// Options for the generations whose results are cached (see responseCache.ts).
+export type GenerationOptions = JobOptions & CacheOptions;
 
-// Models
-const TEXT_MODEL = "gemini-2.5-flash"; // Good for search and logic
-const IMAGE_MODEL = "gemini-2.5-flash-image"; // "Nano Banana" for images
-const ANALYSIS_MODEL = "gemini-3-pro-preview"; // "Pro" for complex reasoning and multimodal analysis
-
-// Helper to get fresh client with latest key
-const getAiClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Runs a JSON request through the response cache, keyed by the model, prompt
+ * and schema. Only used for calls where the same input should give the same
+ * answer; beats, bridges and refinements are asked for precisely because the
+ * user wants something different.
+ */
+const cachedJson = <T>(request: Omit<JsonRequest, "signal">, job: GenerationOptions): Promise<T> => {
+  const provider = getAiProvider();
+  return withResponseCache(
+    {
+      kind: "text",
+      provider: provider.id,
+      model: request.tier === "analysis" ? provider.models.analysis : provider.models.text,
+      prompt: request.prompt,
+      config: { schema: request.schema },
+    },
+    job,
+    () => aiQueues.text.run(signal => provider.generateJson<T>({ ...request, signal }), job),
+  );
 };
 
 /**
- * Helper to retry operations on 429 RESOURCE_EXHAUSTED errors.
+ * Runs an image request through the response cache, keyed by the model,
+ * prompt, aspect ratio and reference sheets.
  */
-async function retryOperation<T>(operation: () => Promise<T>, retries = 3, delay = 2000): Promise<T> {
-  try {
-    return await operation();
-  } catch (error: any) {
-    const isQuotaError = error?.status === "RESOURCE_EXHAUSTED" || error?.code === 429 || (error?.message && error.message.includes("429"));
-    
-    if (retries > 0 && isQuotaError) {
-      console.warn(`Quota exceeded. Retrying in ${delay}ms... (${retries} retries left)`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return retryOperation(operation, retries - 1, delay * 2);
-    }
-    throw error;
-  }
-}
+const cachedImage = (request: Omit<ImageRequest, "signal">, job: GenerationOptions): Promise<string> => {
+  const provider = getAiProvider();
+  return withResponseCache(
+    {
+      kind: "image",
+      provider: provider.id,
+      model: provider.models.image,
+      prompt: request.prompt,
+      config: { aspectRatio: request.aspectRatio, referenceImages: request.referenceImages || [] },
+    },
+    job,
+    () => aiQueues.image.run(signal => provider.generateImage({ ...request, signal }), job),
+  );
+};
 
 /**
  * Searches for viral Reddit stories using Google Search Grounding.
  */
-export const findViralStories = async (topic: string = "general", targetAudience: string = "General Audience"): Promise<Story[]> => {
+export const findViralStories = async (topic: string = "general", targetAudience: string = "General Audience", job: JobOptions = {}): Promise<Story[]> => {
   try {
-    const ai = getAiClient();
     const prompt = `
     Act as a specialized Viral Content Scout. 
     Your goal is to find the most engaging, trending, and viral stories related to "${topic}" by searching across ALL of the following major inspiration sources:
@@ -68,15 +93,13 @@ export const findViralStories = async (topic: string = "general", targetAudience
     - "source": The specific platform and subreddit/account (e.g. "Reddit r/NoSleep" or "TikTok Trend").
     `;
 
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
-    });
-
-    const text = response.text || "";
+    const text = await aiQueues.text.run(signal => getAiProvider().generateText({
+      task: "findStories",
+      prompt,
+      search: true,
+      params: { topic, targetAudience },
+      signal,
+    }), job);
     
     // Attempt to parse JSON. 
     let parsed: any[] = [];
@@ -111,17 +134,85 @@ export const findViralStories = async (topic: string = "general", targetAudience
     }];
 
   } catch (error) {
+
+    if (isAbortError(error)) throw error;
     console.error("Error finding stories:", error);
     throw new Error("Failed to fetch viral stories.");
   }
 };
 
+// Long posts are cut before summarising; the opening carries the setup
+const MAX_POST_CHARS = 12000;
+
+/**
+ * Turns an imported Reddit post into a Story. The summary retells only what
+ * the post says, and the original author, subreddit and link are credited.
+ */
+export const createStoryFromRedditPost = async (post: RedditPost, panelCount: number, targetAudience: string, job: JobOptions = {}): Promise<Story> => {
+  const body = post.selftext.slice(0, MAX_POST_CHARS);
+  const story: Story = {
+    id: `reddit-${post.id || Date.now()}`,
+    title: post.title,
+    summary: body || post.title,
+    source: formatRedditAttribution(post),
+    sourceUrl: post.permalink || undefined,
+    panelCount,
+    targetAudience,
+  };
+
+  try {
+    const prompt = `You are adapting a real Reddit post into a ${panelCount}-part picture book.
+    Target Audience: ${targetAudience}
+
+    Post title: "${post.title}"
+    Subreddit: ${post.subreddit ? `r/${post.subreddit}` : "unknown"}
+    Post text:
+    """
+    ${body || "(no body text; work from the title only)"}
+    """
+
+    Return a JSON object with:
+    - "title": A catchy book title that stays true to the post.
+    - "summary": A faithful 3-4 sentence summary of what happens in the post, in order, including how it ends (and any update).
+
+    Rules for the summary:
+    - Only use events, people and outcomes that are in the post. Do not invent details or a different ending.
+    - Refer to people by role (e.g. "the narrator", "her neighbour") rather than by usernames or real names.
+    - Leave out meta-commentary such as edits thanking commenters, TL;DRs and requests for judgement.
+    `;
+
+    const data = await cachedJson<any>({
+      task: "redditStory",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING },
+          summary: { type: Type.STRING }
+        },
+        required: ["title", "summary"]
+      },
+      params: { title: post.title, selftext: body, subreddit: post.subreddit, panelCount, targetAudience },
+    }, job);
+
+    return {
+      ...story,
+      title: data.title || story.title,
+      summary: data.summary || story.summary,
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error summarising Reddit post:", error);
+    // The post text itself is always a faithful (if long) summary
+    return story;
+  }
+};
+
 /**
  * Creates a structured Story object from a raw user prompt.
  */
-export const createStoryFromPrompt = async (userPrompt: string, panelCount: number, targetAudience: string): Promise<Story> => {
+export const createStoryFromPrompt = async (userPrompt: string, panelCount: number, targetAudience: string, job: JobOptions = {}): Promise<Story> => {
   try {
-    const ai = getAiClient();
     const prompt = `You are a professional author for best-selling KDP and Etsy ebooks.
     Target Audience: ${targetAudience}
     Task: Turn the following idea into a structured story summary for a ${panelCount}-part picture book.
@@ -132,23 +223,20 @@ export const createStoryFromPrompt = async (userPrompt: string, panelCount: numb
     - "summary": A compelling 2-3 sentence summary of the plot.
     `;
 
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-             title: {type: Type.STRING},
-             summary: {type: Type.STRING}
-          },
-          required: ["title", "summary"]
-        }
-      }
-    });
-    
-    const data = JSON.parse(response.text || "{}");
+    const data = await aiQueues.text.run(signal => getAiProvider().generateJson<any>({
+      task: "createStory",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+           title: {type: Type.STRING},
+           summary: {type: Type.STRING}
+        },
+        required: ["title", "summary"]
+      },
+      params: { userPrompt, panelCount, targetAudience },
+      signal,
+    }), job);
     
     return {
       id: `custom-${Date.now()}`,
@@ -160,6 +248,8 @@ export const createStoryFromPrompt = async (userPrompt: string, panelCount: numb
     };
 
   } catch (error) {
+
+    if (isAbortError(error)) throw error;
     console.error("Error creating story from prompt:", error);
     return {
        id: `custom-${Date.now()}`,
@@ -172,19 +262,103 @@ export const createStoryFromPrompt = async (userPrompt: string, panelCount: numb
   }
 };
 
+/**
+ * The anonymizer step between finding a story and scripting it. The model
+ * lists the private people, places and employers in the title and summary;
+ * usernames and contact details are found by pattern. Each gets a fictional
+ * substitute, and the list is stored on the story for later generations.
+ */
+export const removePersonalIdentifiers = async (story: Story, job: JobOptions = {}): Promise<Story> => {
+  const text = `${story.title}\n${story.summary}`;
+  const candidates: PiiCandidate[] = findPatternIdentifiers(text);
+
+  const prompt = `You are preparing a true story from Reddit for commercial republication as a picture book.
+    List every personal identifier in the text below that could identify a real private person:
+    - "name": first names, surnames, nicknames of private people (not famous public figures or fictional characters).
+    - "username": Reddit usernames or social media handles.
+    - "place": towns, neighbourhoods, streets, schools or venues small enough to locate someone (not countries, states or major cities).
+    - "employer": companies, shops or organisations the people work for or attend.
+    - "contact": emails, phone numbers, addresses.
+    Give each identifier exactly as written in the text. Return an empty list if there are none.
+
+    Text:
+    """
+    ${text}
+    """
+    `;
+
+  try {
+    const data = await cachedJson<any>({
+      task: "pii",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          identifiers: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                kind: { type: Type.STRING, enum: ["name", "username", "place", "employer", "contact"] }
+              },
+              required: ["text", "kind"]
+            }
+          }
+        },
+        required: ["identifiers"]
+      },
+      params: { title: story.title, summary: story.summary },
+    }, job);
+    const lower = text.toLowerCase();
+    // Only keep what is really in the text; the model sometimes normalises spelling
+    candidates.push(...(data.identifiers || []).filter((item: any) => item.text && lower.includes(String(item.text).toLowerCase())));
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Identifier detection failed; only usernames and contact details were replaced.", error);
+  }
+
+  return anonymizeStory(story, buildSubstitutions(candidates, story.anonymization));
+};
+
+// The image model keeps likeness best with only a few reference sheets per call.
+const MAX_REFERENCE_IMAGES = 3;
+
+type PanelScene = Pick<Panel, "description" | "characterIds">;
+
+const referenceSheets = (characters: Character[]): string[] =>
+  characters.filter(c => c.referenceImage).slice(0, MAX_REFERENCE_IMAGES).map(c => c.referenceImage!);
+
+/**
+ * Builds the final image prompt for a panel.
+ * Without a style guide the description is used as-is (projects from before
+ * the script stage stored the full prompt in the description). With a
+ * character bible only the characters featured in the panel are described.
+ */
+export const composePanelPrompt = (panel: PanelScene, styleGuide?: StyleGuide | null): string => {
+  if (!styleGuide) return panel.description;
+  const featured = getPanelCharacters(panel, styleGuide);
+  const cast = styleGuide.characters ? describeCharacters(featured) : styleGuide.characterDesign;
+  const references = referenceSheets(featured).length > 0
+    ? " Draw the characters exactly as they appear in the attached reference sheets."
+    : "";
+  return `Style: ${styleGuide.visualStyle}. ${cast ? `Characters: ${cast}. ` : ""}Scene: ${panel.description}${references}`;
+};
+
 /**
  * Generates a script (panels) for the comic book from a story summary.
  * Uses a two-step prompt to ensure consistency of characters.
+ * The style and character design are returned separately from the scenes and
+ * combined per panel by composePanelPrompt at image generation time.
  */
-export const generateScript = async (story: Story): Promise<Panel[]> => {
+export const generateScript = async (story: Story, job: GenerationOptions = {}): Promise<Script> => {
   const count = story.panelCount || 6;
   const userStylePreference = story.visualStyle || "Vibrant Digital Cartoon";
   const audience = story.targetAudience || "General Audience";
   
   try {
-    const ai = getAiClient();
     // We ask for a structured object containing the character design AND the panels.
-    // This forces the model to 'think' about the characters first, which we then inject into every panel description.
+    // This forces the model to 'think' about the characters first, which we then inject into every panel prompt.
     const schema: Schema = {
       type: Type.OBJECT,
       properties: {
@@ -192,23 +366,45 @@ export const generateScript = async (story: Story): Promise<Panel[]> => {
           type: Type.STRING, 
           description: "Detailed description of the art style, color palette, and lighting based on the user's preference." 
         },
-        characterDesign: { 
-          type: Type.STRING, 
-          description: "Detailed visual description of main characters (e.g., 'Jack: tall, trench coat, fedora. Jill: short, red dress'). This will be used in every image prompt for consistency." 
+        characters: {
+          type: Type.ARRAY,
+          description: "The recurring characters. Each description is used in every image prompt the character appears in, for consistency.",
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              name: { type: Type.STRING },
+              description: { type: Type.STRING, description: "Detailed visual description (e.g., 'tall, trench coat, fedora, grey stubble')." }
+            },
+            required: ["name", "description"],
+          }
         },
         panels: {
           type: Type.ARRAY,
           items: {
             type: Type.OBJECT,
             properties: {
-              actionDescription: { type: Type.STRING, description: "Detailed visual prompt for Gemini Flash Image. Focus on visual elements, setting, action, and lighting. Do NOT include dialogue." },
-              caption: { type: Type.STRING, description: `Narrative text for the bottom of the page. Tone must be appropriate for ${audience}.` }
+              actionDescription: { type: Type.STRING, description: "Detailed visual prompt for Gemini Flash Image. Focus on visual elements, setting, action, and lighting. Do NOT include dialogue or describe the characters' looks." },
+              caption: { type: Type.STRING, description: `Narrative text for the bottom of the page. Tone must be appropriate for ${audience}.` },
+              characters: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Names of the characters visible in this panel." },
+              dialogue: {
+                type: Type.ARRAY,
+                description: "Lettering for this panel, at most 3 short lines. Can be empty.",
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    kind: { type: Type.STRING, enum: ["speech", "thought", "shout", "narration", "sfx"] },
+                    speaker: { type: Type.STRING, description: "Character name for speech, thought and shout lines." },
+                    text: { type: Type.STRING, description: "Under 12 words." }
+                  },
+                  required: ["kind", "text"],
+                }
+              }
             },
-            required: ["actionDescription", "caption"],
+            required: ["actionDescription", "caption", "characters"],
           }
         }
       },
-      required: ["visualStyle", "characterDesign", "panels"]
+      required: ["visualStyle", "characters", "panels"]
     };
 
     const prompt = `Write a ${count}-part story script based on: "${story.title}: ${story.summary}".
@@ -216,159 +412,334 @@ export const generateScript = async (story: Story): Promise<Panel[]> => {
     
     CRITICAL INSTRUCTIONS FOR CONSISTENCY:
     1. The visual style MUST be based on: "${userStylePreference}". Elaborate on this style to ensure high-quality generation (e.g. lighting, texture, medium).
-    2. Define "characterDesign" that fits this style.
+    2. Define the recurring "characters" (name + look) so they fit this style, and list who appears in each panel.
     3. Create ${count} panels.
     4. Ensure the story flows logically from start to finish with a clear beginning, middle, and end.
     5. The 'caption' text must be engaging and suitable for ${audience}.
+    6. Put spoken lines, thoughts and sound effects in 'dialogue' (they are lettered over the art), never in 'actionDescription'.
     `;
 
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: schema
-      }
-    });
-
-    const data = JSON.parse(response.text || "{}");
+    const data = await cachedJson<any>({
+      task: "script",
+      prompt,
+      schema,
+      params: { panelCount: count, visualStyle: userStylePreference, targetAudience: audience, title: story.title },
+    }, job);
     const style = data.visualStyle || userStylePreference;
-    const chars = data.characterDesign || "";
+    const characters: Character[] = (data.characters || []).map((c: any) => ({
+      id: createCharacterId(),
+      name: c.name,
+      description: c.description,
+    }));
     const rawPanels = data.panels || [];
 
-    // Combine style + characters + action into the final image generation prompt
-    return rawPanels.map((item: any, index: number) => ({
-      id: index,
-      // We bake the consistency instructions directly into the description
-      description: `Style: ${style}. Characters: ${chars}. Scene: ${item.actionDescription}`,
-      caption: item.caption,
-      isGenerating: false,
-    }));
+    // Swap back any original identifier the model reintroduced
+    return anonymizeScript({
+      visualStyle: style,
+      characterDesign: "",
+      characters,
+      panels: rawPanels.map((item: any, index: number) => ({
+        id: index,
+        description: item.actionDescription,
+        caption: item.caption,
+        isGenerating: false,
+        characterIds: matchCharacterIds(item.characters || [], characters),
+        overlays: dialogueToOverlays((item.dialogue || []).map((line: any) => ({
+          kind: line.kind,
+          text: line.text || "",
+          characterId: line.speaker ? matchCharacterIds([line.speaker], characters)[0] : undefined,
+        }))),
+      })),
+    }, story.anonymization);
 
   } catch (error) {
+
+    if (isAbortError(error)) throw error;
     console.error("Error generating script:", error);
     // Fallback if schema parsing fails significantly
-    return Array(count).fill(null).map((_, i) => ({
-        id: i,
-        description: `Style: ${userStylePreference}. A scene from the story ${story.title}`,
-        caption: "Story processing...",
-        isGenerating: false
-    }));
+    return {
+      visualStyle: userStylePreference,
+      characterDesign: "",
+      characters: [],
+      panels: Array(count).fill(null).map((_, i) => ({
+          id: i,
+          description: `A scene from the story ${story.title}`,
+          caption: "Story processing...",
+          isGenerating: false
+      })),
+    };
   }
 };
 
 /**
- * Generates an image for a specific panel description.
- * Wrapped with retry logic for 429 handling.
+ * Rewrites a single beat of the script so it still connects to its neighbours.
  */
-export const generatePanelImage = async (description: string): Promise<string> => {
-  return retryOperation(async () => {
-    try {
-      const ai = getAiClient();
-      // 2.5 Flash Image works best with clear, descriptive prompts.
-      // The description already contains Style + Characters + Scene from generateScript.
-      const response = await ai.models.generateContent({
-        model: IMAGE_MODEL,
-        contents: {
-          parts: [{ text: description }]
+export const regenerateBeat = async (story: Story, script: Script, index: number, job: JobOptions = {}): Promise<{ description: string; caption: string }> => {
+  const audience = story.targetAudience || "General Audience";
+  const previous = script.panels[index - 1];
+  const current = script.panels[index];
+  const next = script.panels[index + 1];
+
+  const prompt = `You are rewriting ONE beat of a ${script.panels.length}-part picture book script for "${story.title}: ${story.summary}".
+    Target Audience: ${audience}.
+    Visual Style: ${script.visualStyle}
+    Characters: ${script.characters ? describeCharacters(script.characters) : script.characterDesign}
+
+    Previous beat: ${previous ? `"${previous.description}" / caption: "${previous.caption}"` : "None (this is the opening)."}
+    Current beat (to replace): "${current.description}" / caption: "${current.caption}"
+    Next beat: ${next ? `"${next.description}" / caption: "${next.caption}"` : "None (this is the ending)."}
+
+    Write a fresh alternative for the current beat that flows from the previous beat into the next one.
+    The 'actionDescription' is a visual prompt (setting, action, lighting). Do NOT include dialogue or restate the style.
+    The 'caption' must be engaging and suitable for ${audience}.
+    `;
+
+  try {
+    const data = await aiQueues.text.run(signal => getAiProvider().generateJson<any>({
+      task: "beat",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          actionDescription: { type: Type.STRING },
+          caption: { type: Type.STRING }
         },
-        config: {
-          imageConfig: {
-            aspectRatio: "1:1", // keeping 1:1 for versatility, could be 4:3
-          }
-        }
-      });
+        required: ["actionDescription", "caption"]
+      },
+      params: { index, panelCount: script.panels.length, title: story.title, current: current.description },
+      signal,
+    }), job);
+    return {
+      description: applySubstitutions(data.actionDescription || current.description, story.anonymization),
+      caption: applySubstitutions(data.caption || current.caption, story.anonymization),
+    };
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error regenerating beat:", error);
+    throw new Error("Failed to regenerate this beat.");
+  }
+};
 
-      // Extract image
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-      throw new Error("No image data returned.");
+export type Beat = Pick<Panel, "description" | "caption" | "characterIds">;
 
-    } catch (error) {
-      console.error("Error generating image:", error);
-      throw error; // Rethrow for retryOperation to catch
-    }
-  });
+const beatSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    actionDescription: { type: Type.STRING },
+    caption: { type: Type.STRING },
+    characters: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Names of the characters visible in this beat." }
+  },
+  required: ["actionDescription", "caption"]
 };
 
+const describeBeat = (panel: Panel) => `"${panel.description}" / caption: "${panel.caption}"`;
+
+const castLine = (styleGuide?: StyleGuide | null) => {
+  if (!styleGuide) return "Characters: as in the surrounding beats.";
+  return `Visual Style: ${styleGuide.visualStyle}
+    Characters: ${styleGuide.characters ? describeCharacters(styleGuide.characters) : styleGuide.characterDesign}`;
+};
+
+const toBeat = (item: any, story: Story, styleGuide?: StyleGuide | null): Beat => ({
+  description: applySubstitutions(item.actionDescription || "", story.anonymization),
+  caption: applySubstitutions(item.caption || "", story.anonymization),
+  characterIds: matchCharacterIds(item.characters || [], styleGuide?.characters || []),
+});
+
 /**
- * Generates a cover image for the ebook.
- * Wrapped with retry logic for 429 handling.
+ * Suggests a new beat to insert between two existing ones (either may be
+ * missing at the start or end of the book).
  */
-export const generateCoverImage = async (title: string, summary: string, style: string = "Professional digital art"): Promise<string> => {
-  return retryOperation(async () => {
-    try {
-      const ai = getAiClient();
-      const prompt = `A high quality book cover illustration for a story titled "${title}". 
-      The story is about: ${summary}. 
-      Style: ${style}.
-      Do NOT include text on the image.`;
-      
-      const response = await ai.models.generateContent({
-        model: IMAGE_MODEL,
-        contents: {
-          parts: [{ text: prompt }]
-        },
-        config: {
-          imageConfig: {
-            aspectRatio: "3:4", // Portrait for cover
-          }
-        }
-      });
+export const suggestBridgingBeat = async (story: Story, styleGuide: StyleGuide | null, previous?: Panel, next?: Panel, job: JobOptions = {}): Promise<Beat> => {
+  const audience = story.targetAudience || "General Audience";
+  const prompt = `You are adding ONE new beat to a picture book script for "${story.title}: ${story.summary}".
+    Target Audience: ${audience}.
+    ${castLine(styleGuide)}
 
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-      throw new Error("No image data returned.");
-    } catch (error) {
-      console.error("Error generating cover:", error);
-      throw error; // Rethrow for retryOperation to catch
-    }
-  });
+    Beat before the new one: ${previous ? describeBeat(previous) : "None (the new beat opens the book)."}
+    Beat after the new one: ${next ? describeBeat(next) : "None (the new beat ends the book)."}
+
+    Write a beat that bridges these naturally without repeating either of them.
+    The 'actionDescription' is a visual prompt (setting, action, lighting). Do NOT include dialogue or restate the style.
+    The 'caption' must be engaging and suitable for ${audience}.
+    `;
+
+  try {
+    const data = await aiQueues.text.run(signal => getAiProvider().generateJson<any>({
+      task: "bridge",
+      prompt,
+      schema: beatSchema,
+      params: { title: story.title, previous: previous?.description, next: next?.description },
+      signal,
+    }), job);
+    return toBeat(data, story, styleGuide);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error suggesting a bridging beat:", error);
+    throw new Error("Failed to write a new scene.");
+  }
 };
 
 /**
- * Edits an existing image based on a text prompt.
- * Wrapped with retry logic.
+ * Splits one beat into two consecutive beats that together tell the same moment.
  */
-export const editPanelImage = async (base64Image: string, prompt: string): Promise<string> => {
-  return retryOperation(async () => {
-    try {
-      const ai = getAiClient();
-      const cleanBase64 = base64Image.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
-
-      const response = await ai.models.generateContent({
-        model: IMAGE_MODEL,
-        contents: {
-          parts: [
-            {
-              inlineData: {
-                mimeType: "image/png",
-                data: cleanBase64
-              }
-            },
-            { text: prompt }
-          ]
-        }
-      });
+export const splitBeat = async (story: Story, styleGuide: StyleGuide | null, panel: Panel, job: JobOptions = {}): Promise<[Beat, Beat]> => {
+  const audience = story.targetAudience || "General Audience";
+  const prompt = `You are splitting ONE beat of a picture book script for "${story.title}: ${story.summary}" into TWO consecutive beats.
+    Target Audience: ${audience}.
+    ${castLine(styleGuide)}
 
-      for (const part of response.candidates?.[0]?.content?.parts || []) {
-        if (part.inlineData) {
-          return `data:image/png;base64,${part.inlineData.data}`;
-        }
-      }
-      throw new Error("No edited image returned.");
+    Beat to split: ${describeBeat(panel)}
 
-    } catch (error) {
-      console.error("Error editing image:", error);
-      throw error;
+    Return exactly two beats that together cover the same moment, the first leading into the second.
+    Each 'actionDescription' is a visual prompt (setting, action, lighting). Do NOT include dialogue or restate the style.
+    Divide the caption between them; each must be engaging and suitable for ${audience}.
+    `;
+
+  try {
+    const data = await aiQueues.text.run(signal => getAiProvider().generateJson<any>({
+      task: "split",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          beats: { type: Type.ARRAY, items: beatSchema }
+        },
+        required: ["beats"]
+      },
+      params: { title: story.title, current: panel.description, caption: panel.caption },
+      signal,
+    }), job);
+    const beats = data.beats || [];
+    if (beats.length < 2) {
+      throw new Error("Expected two beats");
     }
-  });
+    return [toBeat(beats[0], story, styleGuide), toBeat(beats[1], story, styleGuide)];
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error splitting beat:", error);
+    throw new Error("Failed to split this scene.");
+  }
+};
+
+/**
+ * Generates an image for a panel, attaching the reference sheets of the
+ * characters it features. The aspect ratio is that of the slot the art
+ * lands in (see getArtAspectRatios in pagination.ts). Quota retries are
+ * handled by the provider.
+ */
+export const generatePanelImage = async (panel: PanelScene, styleGuide?: StyleGuide | null, aspectRatio = "1:1", job: GenerationOptions = {}): Promise<string> => {
+  try {
+    return await cachedImage({
+      task: "panelImage",
+      prompt: composePanelPrompt(panel, styleGuide),
+      aspectRatio,
+      referenceImages: referenceSheets(getPanelCharacters(panel, styleGuide)),
+    }, job);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error generating image:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generates several candidate images for a panel in one action. Candidates
+ * always skip the cache lookup, since identical requests would all come back
+ * as the same image. Failed candidates are dropped; this only throws when
+ * none succeed.
+ */
+export const generatePanelCandidates = async (panel: PanelScene, styleGuide: StyleGuide | null | undefined, count: number, aspectRatio = "1:1", job: GenerationOptions = {}): Promise<string[]> => {
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, () => generatePanelImage(panel, styleGuide, aspectRatio, { ...job, fresh: true }))
+  );
+  const failures = results.filter((r): r is PromiseRejectedResult => r.status === "rejected");
+  const aborted = failures.find(r => isAbortError(r.reason));
+  if (aborted) throw aborted.reason;
+  const images = results.filter((r): r is PromiseFulfilledResult<string> => r.status === "fulfilled").map(r => r.value);
+  if (images.length === 0) throw failures[0].reason;
+  return images;
+};
+
+/**
+ * Generates a turnaround reference sheet for a character in the book's style.
+ */
+export const generateCharacterSheet = async (character: Character, visualStyle: string, job: GenerationOptions = {}): Promise<string> => {
+  try {
+    const prompt = `A character reference sheet for "${character.name}": ${character.description}.
+    Style: ${visualStyle}.
+    Show the same character from the front, side and back in a neutral pose, full body, on a plain white background.
+    Do NOT include text on the image.`;
+
+    return await cachedImage({
+      task: "characterSheet",
+      prompt,
+      aspectRatio: "4:3",
+      params: { name: character.name },
+    }, job);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error generating character sheet:", error);
+    throw error;
+  }
+};
+
+/**
+ * Generates a cover image for the ebook, featuring the main characters when given.
+ */
+export const generateCoverImage = async (title: string, summary: string, style: string = "Professional digital art", characters: Character[] = [], aspectRatio = "3:4", job: GenerationOptions = {}): Promise<string> => {
+  try {
+    const featured = characters.slice(0, MAX_REFERENCE_IMAGES);
+    const prompt = `A high quality book cover illustration for a story titled "${title}". 
+    The story is about: ${summary}. 
+    Style: ${style}.
+    ${featured.length > 0 ? `Featuring: ${describeCharacters(featured)}.` : ""}
+    ${referenceSheets(featured).length > 0 ? "Draw the characters exactly as they appear in the attached reference sheets." : ""}
+    Do NOT include text on the image.`;
+
+    return await cachedImage({
+      task: "coverImage",
+      prompt,
+      aspectRatio,
+      referenceImages: referenceSheets(featured),
+      params: { title, summary, style },
+    }, job);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error generating cover:", error);
+    throw error;
+  }
+};
+
+/**
+ * Edits an existing image based on a text prompt. With a mask (see
+ * EditImageRequest) the model is told to confine the edit to the masked
+ * region; ImageEditor can also blend the result back client-side.
+ */
+export const editPanelImage = async (base64Image: string, prompt: string, mask?: string | null, job: JobOptions = {}): Promise<string> => {
+  const instruction = mask
+    ? `The second image is a mask for the first. Apply the edit below ONLY inside the white area of the mask and keep everything in the black area exactly as it is. Blend the edited region seamlessly with its surroundings. Do not draw the mask itself.
+    Edit: ${prompt}`
+    : prompt;
+  try {
+    return await aiQueues.image.run(signal => getAiProvider().editImage({ image: base64Image, prompt: instruction, mask: mask || undefined, signal }), job);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Error editing image:", error);
+    throw error;
+  }
+};
+
+/**
+ * Redraws uploaded artwork in the book's style, keeping its composition.
+ */
+export const restyleArtwork = (base64Image: string, styleGuide?: StyleGuide | null, notes = "", job: JobOptions = {}): Promise<string> => {
+  const prompt = `Redraw this artwork in the following style: ${styleGuide?.visualStyle || "Professional digital art"}.
+    Keep the composition, poses and framing exactly as they are.
+    ${styleGuide?.characters?.length ? `Characters: ${describeCharacters(styleGuide.characters)}.` : ""}
+    ${notes}
+    Do NOT include text on the image.`;
+  return editPanelImage(base64Image, prompt, null, job);
 };
 
 /**
@@ -381,23 +752,10 @@ export const analyzeStoryPotential = async (
   audience: string, 
   style: string,
   coverImageBase64?: string,
-  captionsSample?: string
+  captionsSample?: string,
+  job: JobOptions = {}
 ): Promise<AnalysisResult> => {
   try {
-    const ai = getAiClient();
-    const parts: any[] = [];
-    
-    // Add cover image if available for style analysis
-    if (coverImageBase64) {
-      const cleanBase64 = coverImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, "");
-      parts.push({
-        inlineData: {
-          mimeType: "image/png",
-          data: cleanBase64
-        }
-      });
-    }
-
     const promptText = `
     Act as a highly critical and successful Ebook Publisher for Etsy and Amazon KDP.
     Analyze this story project:
@@ -425,30 +783,28 @@ export const analyzeStoryPotential = async (
     - "suggestions": string[] (3 specific actionable bullet points)
     `;
 
-    parts.push({ text: promptText });
-
-    const response = await ai.models.generateContent({
-      model: ANALYSIS_MODEL,
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            score: { type: Type.INTEGER },
-            viralPotential: { type: Type.STRING, enum: ["Low", "Medium", "High", "Viral Hit"] },
-            coherenceCheck: { type: Type.STRING },
-            critique: { type: Type.STRING },
-            textQuality: { type: Type.STRING },
-            visualQuality: { type: Type.STRING },
-            suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ["score", "viralPotential", "coherenceCheck", "critique", "textQuality", "visualQuality", "suggestions"]
-        }
-      }
-    });
-
-    const data = JSON.parse(response.text || "{}");
+    // Attach cover image if available for style analysis
+    const data = await aiQueues.text.run(signal => getAiProvider().analyze<any>({
+      task: "analysis",
+      tier: "analysis",
+      prompt: promptText,
+      images: coverImageBase64 ? [coverImageBase64] : [],
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          score: { type: Type.INTEGER },
+          viralPotential: { type: Type.STRING, enum: ["Low", "Medium", "High", "Viral Hit"] },
+          coherenceCheck: { type: Type.STRING },
+          critique: { type: Type.STRING },
+          textQuality: { type: Type.STRING },
+          visualQuality: { type: Type.STRING },
+          suggestions: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["score", "viralPotential", "coherenceCheck", "critique", "textQuality", "visualQuality", "suggestions"]
+      },
+      params: { title, summary, audience, style },
+      signal,
+    }), job);
     return {
       score: data.score || 5,
       viralPotential: data.viralPotential || "Low",
@@ -460,6 +816,8 @@ export const analyzeStoryPotential = async (
     };
 
   } catch (error) {
+
+    if (isAbortError(error)) throw error;
     console.error("Error in agent analysis:", error);
     return {
       score: 0,
@@ -481,10 +839,10 @@ export const refineStoryContent = async (
   currentSummary: string,
   panels: Panel[],
   critique: string,
-  audience: string
+  audience: string,
+  job: JobOptions = {}
 ): Promise<RefinedContent> => {
   try {
-    const ai = getAiClient();
     const prompt = `
     You are a professional editor.
     Task: Rewrite the following story content to address this critique: "${critique}".
@@ -505,32 +863,33 @@ export const refineStoryContent = async (
     - refinedPanels: array of objects {id, caption}
     `;
 
-    const response = await ai.models.generateContent({
-      model: TEXT_MODEL,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.OBJECT,
-          properties: {
-            newTitle: { type: Type.STRING },
-            newSummary: { type: Type.STRING },
-            refinedPanels: {
-              type: Type.ARRAY,
-              items: {
-                type: Type.OBJECT,
-                properties: {
-                  id: { type: Type.INTEGER },
-                  caption: { type: Type.STRING }
-                }
+    const data = await aiQueues.text.run(signal => getAiProvider().generateJson<any>({
+      task: "refine",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          newTitle: { type: Type.STRING },
+          newSummary: { type: Type.STRING },
+          refinedPanels: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                id: { type: Type.INTEGER },
+                caption: { type: Type.STRING }
               }
             }
           }
         }
-      }
-    });
-
-    const data = JSON.parse(response.text || "{}");
+      },
+      params: {
+        title: currentTitle,
+        summary: currentSummary,
+        panels: panels.map(p => ({ id: p.id, caption: p.caption })),
+      },
+      signal,
+    }), job);
     return {
       newTitle: data.newTitle || currentTitle,
       newSummary: data.newSummary || currentSummary,
@@ -538,7 +897,271 @@ export const refineStoryContent = async (
     };
 
   } catch (error) {
+
+    if (isAbortError(error)) throw error;
     console.error("Error refining story:", error);
     throw error;
   }
 };
+
+/**
+ * Translates the book's text for a language edition, returning the
+ * translations by item key. Cached, so retranslating unchanged text is free;
+ * pass `fresh` for a new take on an entry.
+ */
+export const translateBookText = async (
+  items: TranslatableItem[],
+  language: string,
+  audience: string,
+  characterNames: string[] = [],
+  job: GenerationOptions = {}
+): Promise<Record<string, string>> => {
+  if (items.length === 0) return {};
+  // JSON keeps multi-line captions and bubbles in one piece
+  const source = items.map(({ key, text }) => ({ key, text }));
+  const prompt = `You are a professional translator of picture books and comics.
+  Translate the "text" of every item below from English into ${languageLabel(language)} (${language}) for the audience "${audience}".
+  Keys starting with "overlay:" are speech bubbles, caption boxes and sound effects drawn on the art; "caption:" keys are the page captions.
+
+  Instructions:
+  - Keep the tone, humour and reading level; adapt idioms and wordplay rather than translating them literally.
+  - Keep character names as they are${characterNames.length > 0 ? `: ${characterNames.join(", ")}` : ""}.
+  - Speech bubbles, shouts and sound effects must fit the same space: keep them about as short as the original, and use the language's own sound words.
+  - Keep line breaks (\\n) where the original has them.
+
+  Items (JSON):
+  ${JSON.stringify(source)}
+
+  Return a JSON object with "translations": an array of { "key": the item's key, unchanged, "text": the translation }, one per item.
+  `;
+
+  try {
+    const data = await cachedJson<any>({
+      task: "translate",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          translations: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                key: { type: Type.STRING },
+                text: { type: Type.STRING }
+              },
+              required: ["key", "text"]
+            }
+          }
+        },
+        required: ["translations"]
+      },
+      params: { language, items: source },
+    }, job);
+
+    const keys = new Set(items.map(item => item.key));
+    const result: Record<string, string> = {};
+    for (const entry of data.translations || []) {
+      if (keys.has(entry.key) && typeof entry.text === "string" && entry.text.trim()) result[entry.key] = entry.text;
+    }
+    return result;
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Translation failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * What the listing copy is written from: the book in the listing's language.
+ */
+export interface ListingSource {
+  title: string;
+  author: string;
+  summary: string;
+  captions: string[];
+  audience: string;
+  visualStyle: string;
+  language: string;
+  // The publisher agent's critique, when the book has been analysed
+  critique?: string;
+}
+
+/**
+ * Writes marketplace copy for Amazon KDP and Etsy. The result is tidied to
+ * the platforms' counts and limits (normalizeListing); readership falls back
+ * to the audience's defaults when the model leaves it out.
+ */
+export const generateListing = async (source: ListingSource, job: GenerationOptions = {}): Promise<MarketplaceListing> => {
+  const policy = getAudiencePolicy(source.audience);
+  const readership = defaultReadership(policy);
+  const prompt = `You are an expert at selling picture books and comics on Amazon KDP and Etsy.
+  Write the store listings for this book, in ${languageLabel(source.language)} (${source.language}).
+
+  Title: "${source.title}"
+  Author: "${source.author}"
+  Audience: ${source.audience}
+  Art style: ${source.visualStyle}
+  Summary: "${source.summary}"
+  Story, page by page:
+  ${source.captions.map((caption, i) => `${i + 1}. ${caption}`).join("\n")}
+  ${source.critique ? `Publisher's critique to take into account: "${source.critique}"` : ""}
+
+  Amazon KDP:
+  - description: a persuasive blurb for the product page, plain text with short paragraphs, at most ${KDP_LIMITS.descriptionChars} characters. Don't spoil the ending.
+  - keywords: exactly ${KDP_LIMITS.keywords} search phrases shoppers would type, each at most ${KDP_LIMITS.keywordChars} characters. Don't repeat the title or use "free", "bestseller", "new" or store names.
+  - categories: up to ${KDP_LIMITS.categories} BISAC codes from this list, best first:
+  ${BISAC_CATEGORIES.map(c => `${c.code} ${c.label}`).join("\n  ")}
+  - minAge / maxAge: reading age in years (0 to ${KDP_LIMITS.maxAge}), or omit for adult books.
+  - minGrade / maxGrade: US school grade, -1 for preschool and 0 for kindergarten, or omit for teen and adult books.
+
+  Etsy (digital download):
+  - title: at most ${ETSY_LIMITS.titleChars} characters, most important words first.
+  - tags: exactly ${ETSY_LIMITS.tags} tags, each at most ${ETSY_LIMITS.tagChars} characters, letters, numbers and spaces only, no repeats.
+  - description: what the buyer gets and who it's for, plain text with short paragraphs.
+  `;
+
+  try {
+    const data = await cachedJson<any>({
+      task: "listing",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          kdp: {
+            type: Type.OBJECT,
+            properties: {
+              description: { type: Type.STRING },
+              keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+              categories: { type: Type.ARRAY, items: { type: Type.STRING, enum: BISAC_CATEGORIES.map(c => c.code) } },
+              minAge: { type: Type.INTEGER },
+              maxAge: { type: Type.INTEGER },
+              minGrade: { type: Type.INTEGER },
+              maxGrade: { type: Type.INTEGER }
+            },
+            required: ["description", "keywords", "categories"]
+          },
+          etsy: {
+            type: Type.OBJECT,
+            properties: {
+              title: { type: Type.STRING },
+              tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+              description: { type: Type.STRING }
+            },
+            required: ["title", "tags", "description"]
+          }
+        },
+        required: ["kdp", "etsy"]
+      },
+      params: { title: source.title, summary: source.summary, audience: policy.id, language: source.language },
+    }, job);
+
+    const kdp = data.kdp || {};
+    const etsy = data.etsy || {};
+    const range = (min: unknown, max: unknown, fallback?: { min: number; max: number }) =>
+      typeof min === "number" && typeof max === "number" ? { min, max } : fallback;
+    return normalizeListing({
+      language: source.language,
+      kdp: {
+        description: kdp.description || source.summary,
+        keywords: kdp.keywords || [],
+        categories: kdp.categories || [],
+        ageRange: range(kdp.minAge, kdp.maxAge, readership.ageRange),
+        gradeRange: range(kdp.minGrade, kdp.maxGrade, readership.gradeRange),
+      },
+      etsy: {
+        title: etsy.title || source.title,
+        tags: etsy.tags || [],
+        description: etsy.description || source.summary,
+      },
+      updatedAt: Date.now(),
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Listing generation failed:", error);
+    throw error;
+  }
+};
+
+/**
+ * Second stage of the safety check: the model reads every caption, scene and
+ * line of dialogue against the audience policy and reports what the word
+ * lists in safety.ts can't see (implied violence, innuendo, named real people).
+ * For translated editions it is the only check that understands the language.
+ */
+export const reviewContentSafety = async (
+  items: SafetyItem[],
+  policy: AudiencePolicy,
+  language: string = SOURCE_LANGUAGE,
+  job: JobOptions = {}
+): Promise<SafetyFlag[]> => {
+  const tolerated = (Object.keys(policy.allowed) as SafetyCategory[])
+    .map(category => `- ${category}: ${policy.allowed[category] ? `up to ${policy.allowed[category]}` : "none at all"}`)
+    .join("\n");
+
+  const prompt = `You are a children's publishing standards editor.
+  Review the following text from a picture book for the audience "${policy.label}".${language !== SOURCE_LANGUAGE ? `
+  The text is in ${languageLabel(language)}; judge it as a native reader would, slang and crude idioms included.` : ""}
+
+  This audience tolerates:
+  ${tolerated}
+
+  Categories:
+  - profanity: swearing, slurs, crude language.
+  - violence: physical harm, threats, weapons, death, gore (mild = cartoon scuffles; severe = injury, killing, blood).
+  - sexual: sexual acts, nudity, innuendo (mild = romance or suggestive; severe = explicit).
+  - realPerson: anything that identifies a real private person: full names, usernames, addresses, workplaces, schools, contact details.
+
+  Text items:
+  ${items.map((item, index) => `[${index}] (${item.field}) ${item.text}`).join("\n")}
+
+  Report every problem, including ones this audience tolerates; the app decides what is allowed.
+  Return a JSON object with "flags": an array of { "item": item number, "category", "severity": "mild" or "severe", "excerpt": the exact words from the item, "reason": a short explanation }.
+  Return an empty array if nothing needs flagging.
+  `;
+
+  try {
+    const data = await cachedJson<any>({
+      task: "safety",
+      tier: "analysis",
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: {
+          flags: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                item: { type: Type.INTEGER },
+                category: { type: Type.STRING, enum: ["profanity", "violence", "sexual", "realPerson"] },
+                severity: { type: Type.STRING, enum: ["mild", "severe"] },
+                excerpt: { type: Type.STRING },
+                reason: { type: Type.STRING }
+              },
+              required: ["item", "category", "severity", "excerpt", "reason"]
+            }
+          }
+        },
+        required: ["flags"]
+      },
+      params: { items, policy: policy.id, language },
+    }, job);
+
+    return (data.flags || [])
+      .filter((flag: any) => items[flag.item])
+      .map((flag: any): SafetyFlag => ({
+        field: items[flag.item].field,
+        panelId: items[flag.item].panelId,
+        category: flag.category,
+        severity: flag.severity === "severe" ? "severe" : "mild",
+        excerpt: flag.excerpt || "",
+        reason: flag.reason || "Flagged by review",
+        source: "review",
+      }));
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Safety review failed:", error);
+    throw error;
+  }
+};
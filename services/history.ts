@@ -0,0 +1,134 @@
+import { Panel } from "../types";
+import { updatePanel } from "./panelOps";
+
+/**
+ * Command history for the book editor. Each entry records the before/after
+ * values of exactly what it changed, so undo and redo replay those fields and
+ * leave everything else alone (e.g. images that finished generating since).
+ */
+
+export type BookChange =
+  | { kind: "title"; before: string; after: string }
+  | { kind: "author"; before: string; after: string }
+  | { kind: "cover"; before: string | null; after: string | null }
+  | { kind: "panel"; id: number; before: Partial<Panel>; after: Partial<Panel> }
+  // Insert, delete and reorder. Panels present in both the list and the live
+  // book keep their live content on replay; only order and membership change.
+  | { kind: "structure"; before: Panel[]; after: Panel[] };
+
+export type HistorySource = "user" | "agent";
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  source: HistorySource;
+  timestamp: number;
+  changes: BookChange[];
+}
+
+export interface History {
+  past: HistoryEntry[];
+  // Undone entries, next to redo first.
+  future: HistoryEntry[];
+}
+
+export interface BookState {
+  title: string;
+  author: string;
+  coverImage: string | null;
+  panels: Panel[];
+}
+
+const MAX_HISTORY = 100;
+
+export const EMPTY_HISTORY: History = { past: [], future: [] };
+
+let nextEntryId = 1;
+
+export const createEntry = (label: string, changes: BookChange[], source: HistorySource = "user"): HistoryEntry => ({
+  id: nextEntryId++,
+  label,
+  source,
+  timestamp: Date.now(),
+  changes,
+});
+
+/**
+ * Adds an entry for a change that has already been applied. Recording a new
+ * change drops anything that was undone.
+ */
+export const recordEntry = (history: History, entry: HistoryEntry): History => ({
+  past: [...history.past, entry].slice(-MAX_HISTORY),
+  future: [],
+});
+
+const mergeStructure = (live: Panel[], target: Panel[]): Panel[] => {
+  const byId = new Map(live.map(p => [p.id, p]));
+  return target.map(p => byId.get(p.id) || { ...p, isGenerating: false });
+};
+
+const applyChanges = (state: BookState, changes: BookChange[], direction: "undo" | "redo"): BookState => {
+  const ordered = direction === "undo" ? [...changes].reverse() : changes;
+  return ordered.reduce<BookState>((current, change) => {
+    switch (change.kind) {
+      case "title":
+        return { ...current, title: direction === "undo" ? change.before : change.after };
+      case "author":
+        return { ...current, author: direction === "undo" ? change.before : change.after };
+      case "cover":
+        return { ...current, coverImage: direction === "undo" ? change.before : change.after };
+      case "panel":
+        return { ...current, panels: updatePanel(current.panels, change.id, direction === "undo" ? change.before : change.after) };
+      case "structure":
+        return { ...current, panels: mergeStructure(current.panels, direction === "undo" ? change.before : change.after) };
+    }
+  }, state);
+};
+
+// Structure snapshots pick up the live content of their panels before a
+// replay, so a panel removed by undo comes back as it was, not as first recorded.
+const refreshEntry = (entry: HistoryEntry, panels: Panel[]): HistoryEntry => ({
+  ...entry,
+  changes: entry.changes.map(change => change.kind === "structure"
+    ? { ...change, before: mergeStructure(panels, change.before), after: mergeStructure(panels, change.after) }
+    : change),
+});
+
+export const undo = (history: History, state: BookState): { history: History; state: BookState } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  const refreshed = refreshEntry(entry, state.panels);
+  return {
+    history: { past: history.past.slice(0, -1), future: [refreshed, ...history.future] },
+    state: applyChanges(state, refreshed.changes, "undo"),
+  };
+};
+
+export const redo = (history: History, state: BookState): { history: History; state: BookState } | null => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  const refreshed = refreshEntry(entry, state.panels);
+  return {
+    history: { past: [...history.past, refreshed], future: history.future.slice(1) },
+    state: applyChanges(state, refreshed.changes, "redo"),
+  };
+};
+
+/**
+ * Undoes or redoes until the given entry is the latest applied one
+ * (or until nothing is applied, for id null).
+ */
+export const jumpTo = (history: History, state: BookState, entryId: number | null): { history: History; state: BookState } => {
+  let result = { history, state };
+  const isCurrent = () => {
+    const top = result.history.past[result.history.past.length - 1];
+    return entryId === null ? !top : top?.id === entryId;
+  };
+  const inPast = entryId === null || history.past.some(e => e.id === entryId);
+  while (!isCurrent()) {
+    const step = inPast ? undo(result.history, result.state) : redo(result.history, result.state);
+    if (!step) break;
+    result = step;
+  }
+  return result;
+};
@@ -0,0 +1,64 @@
+/**
+ * Minimal promise wrappers around IndexedDB.
+ * Image payloads are large base64 data URLs, which rules out localStorage.
+ */
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/**
+ * Opens (and upgrades if needed) a database. Connections are cached per name.
+ */
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+export const openDatabase = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void
+): Promise<IDBDatabase> => {
+  const existing = connections.get(name);
+  if (existing) return existing;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = () => upgrade(request.result, request.transaction!);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  connections.set(name, opening);
+  opening.catch(() => connections.delete(name));
+  return opening;
+};
+
+/**
+ * Runs `work` inside a transaction and resolves once the transaction commits.
+ */
+export const withStore = async <T>(
+  db: IDBDatabase,
+  storeName: string,
+  mode: IDBTransactionMode,
+  work: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> => {
+  const tx = db.transaction(storeName, mode);
+  const done = transactionDone(tx);
+  const result = await work(tx.objectStore(storeName));
+  await done;
+  return result;
+};
@@ -0,0 +1,128 @@
+import { audioFormat } from "./audioData";
+
+/**
+ * Helpers for the base64 data URLs we use for every generated image.
+ */
+
+export interface ParsedDataUrl {
+  mimeType: string;
+  base64: string;
+}
+
+export const parseDataUrl = (dataUrl: string): ParsedDataUrl => {
+  const match = dataUrl.match(/^data:([^;,]+)(?:;[^,]*)?;base64,(.*)$/);
+  if (!match) {
+    throw new Error("Invalid image data");
+  }
+  return { mimeType: match[1], base64: match[2] };
+};
+
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } => {
+  const { mimeType, base64 } = parseDataUrl(dataUrl);
+  const raw = window.atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; ++i) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return { mimeType, bytes };
+};
+
+// Helper for robust base64 to blob conversion
+export const base64ToBlob = (base64: string): Blob => {
+  try {
+    const { mimeType, bytes } = dataUrlToBytes(base64);
+    return new Blob([bytes], { type: mimeType });
+  } catch (e) {
+    console.error("Base64 conversion failed", e);
+    throw new Error("Invalid image data");
+  }
+};
+
+/**
+ * File extension for an image or audio type. Unknown audio types throw
+ * rather than being packaged under a name that misdescribes them.
+ */
+export const extensionForMimeType = (mimeType: string): string => {
+  if (mimeType.startsWith("audio/")) {
+    const format = audioFormat(mimeType);
+    if (!format) throw new Error(`Unsupported audio type ${mimeType}`);
+    return format.extension;
+  }
+  switch (mimeType) {
+    case "image/jpeg": return "jpg";
+    case "image/webp": return "webp";
+    case "image/svg+xml": return "svg";
+    case "image/gif": return "gif";
+    default: return "png";
+  }
+};
+
+/**
+ * Triggers a browser download for a generated file.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Turns a book title into a safe file name.
+ */
+export const toFileName = (title: string, extension: string) => {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "") || "ebook";
+  return `${slug}.${extension}`;
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Could not load image"));
+    img.src = src;
+  });
+};
+
+/**
+ * Draws an image into a width x height canvas, cropping it to fill
+ * (like CSS object-fit: cover), and returns the canvas.
+ */
+export const drawCover = (img: CanvasImageSource & { width: number; height: number }, width: number, height: number): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+  const scale = Math.max(width / img.width, height / img.height);
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  ctx.fillStyle = "#ffffff";
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+  return canvas;
+};
+
+export const canvasToBytes = (canvas: HTMLCanvasElement, mimeType = "image/jpeg", quality = 0.92): Promise<Uint8Array> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(async (blob) => {
+      if (!blob) {
+        reject(new Error("Canvas export failed"));
+        return;
+      }
+      resolve(new Uint8Array(await blob.arrayBuffer()));
+    }, mimeType, quality);
+  });
+};
+
+export const readFileAsDataUrl = (file: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not read file"));
+    reader.readAsDataURL(file);
+  });
+};
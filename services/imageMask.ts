@@ -0,0 +1,104 @@
+import { loadImage } from "./imageData";
+
+/**
+ * Helpers for inpainting masks. ImageEditor paints the mask on a canvas the
+ * size of the image; any painted pixel (alpha > 0) is part of the region the
+ * edit may change, whatever colour it is drawn in for display.
+ */
+
+export interface MaskPoint {
+  x: number;
+  y: number;
+}
+
+export const isMaskEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const { data } = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return false;
+  }
+  return true;
+};
+
+/**
+ * The painted canvas as the black and white PNG image models expect:
+ * white where the edit is allowed, black everywhere else.
+ */
+export const maskToDataUrl = (canvas: HTMLCanvasElement): string => {
+  const out = document.createElement("canvas");
+  out.width = canvas.width;
+  out.height = canvas.height;
+  const ctx = out.getContext("2d")!;
+  const source = canvas.getContext("2d")!.getImageData(0, 0, canvas.width, canvas.height);
+  const target = ctx.createImageData(canvas.width, canvas.height);
+  for (let i = 0; i < source.data.length; i += 4) {
+    const value = source.data[i + 3] > 0 ? 255 : 0;
+    target.data[i] = target.data[i + 1] = target.data[i + 2] = value;
+    target.data[i + 3] = 255;
+  }
+  ctx.putImageData(target, 0, 0);
+  return out.toDataURL("image/png");
+};
+
+export const drawBrushStroke = (canvas: HTMLCanvasElement, from: MaskPoint, to: MaskPoint, size: number, erase: boolean) => {
+  const ctx = canvas.getContext("2d")!;
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? "destination-out" : "source-over";
+  ctx.strokeStyle = "#ef4444";
+  ctx.lineWidth = size;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.beginPath();
+  ctx.moveTo(from.x, from.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.stroke();
+  ctx.restore();
+};
+
+export const fillLasso = (canvas: HTMLCanvasElement, points: MaskPoint[], erase: boolean) => {
+  if (points.length < 3) return;
+  const ctx = canvas.getContext("2d")!;
+  ctx.save();
+  ctx.globalCompositeOperation = erase ? "destination-out" : "source-over";
+  ctx.fillStyle = "#ef4444";
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+  ctx.closePath();
+  ctx.fill();
+  ctx.restore();
+};
+
+/**
+ * Pastes the edited image back over the original inside the mask only, so
+ * pixels outside it stay identical. The edited image is scaled to the
+ * original's size (models don't always keep it) and the mask edge is
+ * feathered inwards by `feather` pixels to hide the seam.
+ */
+export const blendMasked = async (original: string, edited: string, mask: HTMLCanvasElement, feather = 8): Promise<string> => {
+  const [base, result] = await Promise.all([loadImage(original), loadImage(edited)]);
+  const width = base.naturalWidth;
+  const height = base.naturalHeight;
+
+  // The edited pixels, cut to the (softened) mask
+  const patch = document.createElement("canvas");
+  patch.width = width;
+  patch.height = height;
+  const patchCtx = patch.getContext("2d")!;
+  patchCtx.drawImage(result, 0, 0, width, height);
+  patchCtx.globalCompositeOperation = "destination-in";
+  if (feather > 0) {
+    patchCtx.filter = `blur(${feather}px)`;
+    patchCtx.drawImage(mask, 0, 0, width, height);
+    patchCtx.filter = "none";
+  }
+  // Clip again with the hard mask so the feathering only fades inwards
+  patchCtx.drawImage(mask, 0, 0, width, height);
+
+  const out = document.createElement("canvas");
+  out.width = width;
+  out.height = height;
+  const ctx = out.getContext("2d")!;
+  ctx.drawImage(base, 0, 0);
+  ctx.drawImage(patch, 0, 0);
+  return out.toDataURL("image/png");
+};
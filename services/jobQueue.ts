@@ -0,0 +1,186 @@
+/**
+ * A small promise queue for AI calls: limits how many jobs run at once and
+ * how many start per minute, retries transient failures with backoff, and
+ * cancels through AbortSignal whether a job is waiting, backing off or running.
+ */
+
+export type JobStatus = "queued" | "running" | "failed" | "done";
+
+export interface JobQueueOptions {
+  concurrency: number;
+  // Maximum job starts (including retries) per rolling minute; 0 = unlimited
+  requestsPerMinute: number;
+  // Extra attempts for transient failures (quota, overload, network)
+  maxRetries: number;
+  baseRetryDelayMs: number;
+}
+
+export interface JobOptions {
+  signal?: AbortSignal;
+  // Called when the job first leaves the queue and starts running
+  onStart?: () => void;
+}
+
+export interface JobQueueStats {
+  queued: number;
+  running: number;
+}
+
+export interface JobQueue {
+  run: <T>(task: (signal: AbortSignal) => Promise<T>, options?: JobOptions) => Promise<T>;
+  getOptions: () => JobQueueOptions;
+  setOptions: (options: Partial<JobQueueOptions>) => void;
+  getStats: () => JobQueueStats;
+  subscribe: (listener: (stats: JobQueueStats) => void) => () => void;
+}
+
+const MINUTE_MS = 60_000;
+
+export const createAbortError = () => new DOMException("The operation was aborted.", "AbortError");
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: string } | null)?.name === "AbortError";
+
+/**
+ * Quota, overload and network errors are worth retrying; anything else
+ * (bad request, safety block, parse failure) will fail the same way again.
+ */
+export const isTransientError = (error: any): boolean => {
+  const status = error?.status ?? error?.code;
+  if (status === 429 || status === "RESOURCE_EXHAUSTED" || status === "UNAVAILABLE") return true;
+  if (typeof status === "number" && status >= 500) return true;
+  const message = String(error?.message || "");
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|overloaded|Failed to fetch|NetworkError/i.test(message);
+};
+
+/**
+ * Gemini quota errors include a RetryInfo detail such as "retryDelay": "17s".
+ */
+export const retryDelayFromError = (error: any): number | null => {
+  const match = String(error?.message || "").match(/retryDelay"?\s*:\s*"?(\d+(?:\.\d+)?)s/);
+  return match ? parseFloat(match[1]) * 1000 : null;
+};
+
+export const createJobQueue = (initialOptions: JobQueueOptions): JobQueue => {
+  let options = { ...initialOptions };
+  const waiting: (() => void)[] = [];
+  const recentStarts: number[] = [];
+  const listeners = new Set<(stats: JobQueueStats) => void>();
+  let running = 0;
+  let pumpTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const getStats = (): JobQueueStats => ({ queued: waiting.length, running });
+
+  const notify = () => {
+    const stats = getStats();
+    listeners.forEach(listener => listener(stats));
+  };
+
+  const pump = () => {
+    if (pumpTimer) {
+      clearTimeout(pumpTimer);
+      pumpTimer = null;
+    }
+    while (waiting.length > 0 && running < options.concurrency) {
+      const now = Date.now();
+      while (recentStarts.length > 0 && now - recentStarts[0] >= MINUTE_MS) recentStarts.shift();
+      if (options.requestsPerMinute > 0 && recentStarts.length >= options.requestsPerMinute) {
+        pumpTimer = setTimeout(pump, MINUTE_MS - (now - recentStarts[0]));
+        break;
+      }
+      recentStarts.push(now);
+      running++;
+      waiting.shift()!();
+    }
+    notify();
+  };
+
+  const run = <T>(task: (signal: AbortSignal) => Promise<T>, jobOptions: JobOptions = {}): Promise<T> => {
+    const { signal, onStart } = jobOptions;
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(createAbortError());
+        return;
+      }
+
+      let state: "waiting" | "running" | "backoff" | "settled" = "waiting";
+      let attempt = 0;
+      let controller: AbortController | null = null;
+      let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const settle = (finish: () => void) => {
+        state = "settled";
+        signal?.removeEventListener("abort", onAbort);
+        finish();
+        notify();
+      };
+
+      // A running task that ignores its signal still holds its slot until it
+      // returns, but the caller is released straight away.
+      const onAbort = () => {
+        if (state === "waiting") {
+          waiting.splice(waiting.indexOf(start), 1);
+        } else if (state === "backoff") {
+          clearTimeout(retryTimer!);
+        } else if (state === "running") {
+          controller?.abort();
+        } else {
+          return;
+        }
+        settle(() => reject(createAbortError()));
+      };
+
+      const start = () => {
+        state = "running";
+        controller = new AbortController();
+        if (attempt === 0) onStart?.();
+        task(controller.signal).then(
+          result => {
+            running--;
+            if (state === "running") settle(() => resolve(result));
+            pump();
+          },
+          error => {
+            running--;
+            if (state === "running") {
+              if (attempt < options.maxRetries && isTransientError(error)) {
+                const delay = retryDelayFromError(error) ?? options.baseRetryDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+                attempt++;
+                state = "backoff";
+                console.warn(`Transient AI error, retrying in ${Math.round(delay)}ms (attempt ${attempt} of ${options.maxRetries})`, error);
+                retryTimer = setTimeout(() => {
+                  state = "waiting";
+                  // Retries go to the front so a failing job doesn't lose its turn
+                  waiting.unshift(start);
+                  pump();
+                }, delay);
+              } else {
+                settle(() => reject(error));
+              }
+            }
+            pump();
+          },
+        );
+      };
+
+      signal?.addEventListener("abort", onAbort);
+      waiting.push(start);
+      pump();
+    });
+  };
+
+  return {
+    run,
+    getOptions: () => ({ ...options }),
+    setOptions: (changes) => {
+      options = { ...options, ...changes };
+      pump();
+    },
+    getStats,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,182 @@
+import { LayoutStyle, PageTemplate, TemplateSlot } from "../types";
+import { parseAspectRatio } from "./pageFormats";
+
+/**
+ * Built-in page templates and the grid geometry shared by the editor, the
+ * PDF writer and the EPUB builder. A book's LayoutStyle picks its default
+ * template; any page can switch to another one.
+ */
+
+const text = (panel: number, column: number, row: number, extra: Partial<TemplateSlot> = {}): TemplateSlot =>
+  ({ kind: "text", panel, column, row, align: "center", ...extra });
+
+const image = (panel: number, column: number, row: number, extra: Partial<TemplateSlot> = {}): TemplateSlot =>
+  ({ kind: "image", panel, column, row, ...extra });
+
+export const BUILT_IN_TEMPLATES: PageTemplate[] = [
+  {
+    id: "storybook",
+    name: "Storybook",
+    columns: [1],
+    rows: [65, 35],
+    slots: [image(0, 1, 1), text(0, 1, 2)],
+    margin: 0.08,
+    gap: 0,
+    background: "#ffffff",
+    font: { family: "comic", size: 0.034, color: "#334155" },
+    fullBleed: true,
+  },
+  {
+    id: "comic-4",
+    name: "4-panel comic",
+    columns: [1, 1],
+    rows: [7, 3, 7, 3],
+    slots: [
+      image(0, 1, 1), text(0, 1, 2), image(1, 2, 1), text(1, 2, 2),
+      image(2, 1, 3), text(2, 1, 4), image(3, 2, 3), text(3, 2, 4),
+    ],
+    margin: 0.046,
+    gap: 0.023,
+    background: "#ffffff",
+    font: { family: "comic", size: 0.017, color: "#334155" },
+    borders: true,
+  },
+  {
+    id: "manga-3",
+    name: "3-panel manga",
+    columns: [1, 1],
+    rows: [5, 1, 5, 1],
+    slots: [
+      image(0, 1, 1, { columnSpan: 2 }), text(0, 1, 2, { columnSpan: 2 }),
+      image(1, 1, 3), text(1, 1, 4), image(2, 2, 3), text(2, 2, 4),
+    ],
+    margin: 0.046,
+    gap: 0.02,
+    background: "#ffffff",
+    font: { family: "sans", size: 0.02, color: "#0f172a" },
+    borders: true,
+  },
+  {
+    id: "grid-6",
+    name: "6-panel grid",
+    columns: [1, 1],
+    rows: [3, 1, 3, 1, 3, 1],
+    slots: [0, 1, 2, 3, 4, 5].flatMap(panel => {
+      const column = (panel % 2) + 1;
+      const row = Math.floor(panel / 2) * 2 + 1;
+      return [image(panel, column, row), text(panel, column, row + 1)];
+    }),
+    margin: 0.046,
+    gap: 0.018,
+    background: "#ffffff",
+    font: { family: "comic", size: 0.015, color: "#334155" },
+    borders: true,
+  },
+  {
+    id: "text-left",
+    name: "Text left, image right",
+    columns: [2, 3],
+    rows: [1],
+    slots: [text(0, 1, 1), image(0, 2, 1)],
+    margin: 0.06,
+    gap: 0.04,
+    background: "#fdf8ef",
+    font: { family: "serif", size: 0.03, color: "#3f3a33" },
+  },
+  {
+    id: "full-bleed",
+    name: "Full bleed, caption over art",
+    columns: [1],
+    rows: [1],
+    slots: [image(0, 1, 1), text(0, 1, 1, { align: "end", band: true })],
+    margin: 0.06,
+    gap: 0,
+    background: "#ffffff",
+    font: { family: "comic", size: 0.03, color: "#1e293b" },
+    fullBleed: true,
+  },
+];
+
+export const DEFAULT_TEMPLATE_IDS: Record<LayoutStyle, string> = {
+  STORYBOOK: "storybook",
+  COMIC_STRIP: "comic-4",
+};
+
+export const FONT_STACKS: Record<PageTemplate["font"]["family"], string> = {
+  comic: '"Comic Neue", "Comic Sans MS", cursive, sans-serif',
+  serif: 'Georgia, "Times New Roman", serif',
+  sans: '"Inter", "Helvetica Neue", Arial, sans-serif',
+};
+
+export const getTemplate = (id: string | undefined, layoutStyle: LayoutStyle = "STORYBOOK"): PageTemplate =>
+  BUILT_IN_TEMPLATES.find(t => t.id === id)
+  || BUILT_IN_TEMPLATES.find(t => t.id === DEFAULT_TEMPLATE_IDS[layoutStyle])!;
+
+// How many panels a page with this template holds
+export const templateCapacity = (template: PageTemplate): number =>
+  Math.max(0, ...template.slots.map(s => s.panel)) + 1;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const trackOffsets = (weights: number[], length: number, gap: number) => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const free = Math.max(0, length - gap * (weights.length - 1));
+  const sizes = weights.map(w => (free * w) / total);
+  const starts = sizes.map((_, i) => sizes.slice(0, i).reduce((sum, s) => sum + s + gap, 0));
+  return { sizes, starts };
+};
+
+/**
+ * A slot's rectangle inside an area of the given size, top-left origin,
+ * in the same units as `width`, `height` and `gap`.
+ */
+export const slotRect = (template: PageTemplate, slot: TemplateSlot, width: number, height: number, gap: number): Rect => {
+  const columns = trackOffsets(template.columns, width, gap);
+  const rows = trackOffsets(template.rows, height, gap);
+  const lastColumn = Math.min(template.columns.length, slot.column + (slot.columnSpan || 1) - 1) - 1;
+  const lastRow = Math.min(template.rows.length, slot.row + (slot.rowSpan || 1) - 1) - 1;
+  const x = columns.starts[slot.column - 1];
+  const y = rows.starts[slot.row - 1];
+  return {
+    x,
+    y,
+    width: columns.starts[lastColumn] + columns.sizes[lastColumn] - x,
+    height: rows.starts[lastRow] + rows.sizes[lastRow] - y,
+  };
+};
+
+/**
+ * The grid area of a page `pageWidth` wide and `pageHeight` tall, and the
+ * gap between tracks: full-bleed templates use the whole page.
+ */
+export const templateArea = (template: PageTemplate, pageWidth: number, pageHeight: number): Rect & { gap: number } => {
+  const margin = template.fullBleed ? 0 : template.margin * pageWidth;
+  return {
+    x: margin,
+    y: margin,
+    width: pageWidth - margin * 2,
+    height: pageHeight - margin * 2,
+    gap: template.gap * pageWidth,
+  };
+};
+
+// Ratios the image model accepts
+const MODEL_ASPECT_RATIOS = ["1:1", "3:4", "4:3", "2:3", "3:2", "9:16", "16:9"];
+
+/**
+ * The model aspect ratio closest to the shape of an image slot on a page of
+ * the given width / height.
+ */
+export const slotAspectRatio = (template: PageTemplate, slot: TemplateSlot, pageAspect: number): string => {
+  const area = templateArea(template, pageAspect, 1);
+  const rect = slotRect(template, slot, area.width, area.height, area.gap);
+  const target = Math.log(rect.width / rect.height);
+  return MODEL_ASPECT_RATIOS.reduce((best, ratio) =>
+    Math.abs(Math.log(parseAspectRatio(ratio)) - target) < Math.abs(Math.log(parseAspectRatio(best)) - target) ? ratio : best
+  );
+};
@@ -0,0 +1,210 @@
+import { KdpListing, EtsyListing, MarketplaceListing } from "../types";
+import { AudiencePolicy } from "./safety";
+
+/**
+ * Marketplace listings: the copy a book needs on Amazon KDP and Etsy, and
+ * the limits each platform's form enforces. Listings are checked here
+ * rather than on upload, where a rejected field means starting over.
+ */
+
+export const KDP_LIMITS = {
+  descriptionChars: 4000,
+  keywords: 7,
+  keywordChars: 50,
+  categories: 3,
+  maxAge: 18,
+};
+
+export const ETSY_LIMITS = {
+  titleChars: 140,
+  tags: 13,
+  tagChars: 20,
+};
+
+// The part of the BISAC subject list that picture books, comics and humour
+// land in; the model picks from these so every suggestion is a real code.
+export const BISAC_CATEGORIES = [
+  { code: "JUV000000", label: "Juvenile Fiction / General" },
+  { code: "JUV001000", label: "Juvenile Fiction / Action & Adventure / General" },
+  { code: "JUV002000", label: "Juvenile Fiction / Animals / General" },
+  { code: "JUV002050", label: "Juvenile Fiction / Animals / Cats" },
+  { code: "JUV002070", label: "Juvenile Fiction / Animals / Dogs" },
+  { code: "JUV008000", label: "Juvenile Fiction / Comics & Graphic Novels / General" },
+  { code: "JUV009000", label: "Juvenile Fiction / Concepts / General" },
+  { code: "JUV010000", label: "Juvenile Fiction / Bedtime & Dreams" },
+  { code: "JUV012000", label: "Juvenile Fiction / Fairy Tales & Folklore / General" },
+  { code: "JUV013000", label: "Juvenile Fiction / Family / General" },
+  { code: "JUV018000", label: "Juvenile Fiction / Horror" },
+  { code: "JUV019000", label: "Juvenile Fiction / Humorous Stories" },
+  { code: "JUV028000", label: "Juvenile Fiction / Mysteries & Detective Stories" },
+  { code: "JUV030000", label: "Juvenile Fiction / People & Places / General" },
+  { code: "JUV035000", label: "Juvenile Fiction / School & Education" },
+  { code: "JUV037000", label: "Juvenile Fiction / Fantasy & Magic" },
+  { code: "JUV039000", label: "Juvenile Fiction / Social Themes / General" },
+  { code: "JUV039060", label: "Juvenile Fiction / Social Themes / Friendship" },
+  { code: "JUV051000", label: "Juvenile Fiction / Imagination & Play" },
+  { code: "JUV053000", label: "Juvenile Fiction / Science Fiction / General" },
+  { code: "YAF000000", label: "Young Adult Fiction / General" },
+  { code: "YAF010000", label: "Young Adult Fiction / Comics & Graphic Novels / General" },
+  { code: "CGN000000", label: "Comics & Graphic Novels / General" },
+  { code: "FIC016000", label: "Fiction / Humorous / General" },
+  { code: "HUM000000", label: "Humor / General" },
+  { code: "HUM001000", label: "Humor / Form / Comic Strips & Cartoons" },
+];
+
+export const bisacLabel = (code: string): string =>
+  BISAC_CATEGORIES.find(c => c.code === code)?.label || code;
+
+export const gradeLabel = (grade: number): string =>
+  grade < 0 ? "Preschool" : grade === 0 ? "Kindergarten" : `Grade ${grade}`;
+
+/**
+ * KDP's readership fields for an audience policy; books for teens get an
+ * age range only, adult books neither.
+ */
+export const defaultReadership = (policy: AudiencePolicy): Pick<KdpListing, "ageRange" | "gradeRange"> => {
+  switch (policy.id) {
+    case "toddlers": return { ageRange: { min: 0, max: 3 }, gradeRange: { min: -1, max: -1 } };
+    case "children": return { ageRange: { min: 4, max: 8 }, gradeRange: { min: -1, max: 3 } };
+    case "preteens": return { ageRange: { min: 9, max: 12 }, gradeRange: { min: 4, max: 7 } };
+    case "youngAdults": return { ageRange: { min: 13, max: 18 } };
+    default: return {};
+  }
+};
+
+// Case-insensitive de-duplication, keeping the first spelling
+const uniqueTerms = (terms: string[]): string[] => {
+  const seen = new Set<string>();
+  return terms.map(t => t.trim().replace(/\s+/g, " ")).filter(t => {
+    const key = t.toLowerCase();
+    if (!t || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Tidies model output into something the forms accept: unknown categories,
+ * duplicate terms and over-long tags are dropped (cut tags read badly), and
+ * lists are capped at the platform's count. Over-long free text is left for
+ * validateListing to report, since only the user can shorten it well.
+ */
+export const normalizeListing = (listing: MarketplaceListing): MarketplaceListing => ({
+  ...listing,
+  kdp: {
+    ...listing.kdp,
+    description: listing.kdp.description.trim(),
+    keywords: uniqueTerms(listing.kdp.keywords).filter(k => k.length <= KDP_LIMITS.keywordChars).slice(0, KDP_LIMITS.keywords),
+    categories: uniqueTerms(listing.kdp.categories).filter(c => BISAC_CATEGORIES.some(b => b.code === c)).slice(0, KDP_LIMITS.categories),
+  },
+  etsy: {
+    title: listing.etsy.title.trim().replace(/\s+/g, " "),
+    tags: uniqueTerms(listing.etsy.tags.map(t => t.toLowerCase())).filter(t => t.length <= ETSY_LIMITS.tagChars).slice(0, ETSY_LIMITS.tags),
+    description: listing.etsy.description.trim(),
+  },
+});
+
+export type ListingPlatform = "kdp" | "etsy";
+
+export interface ListingIssue {
+  platform: ListingPlatform;
+  field: string;
+  message: string;
+  // Errors are rejected by the platform; warnings only cost visibility
+  severity: "error" | "warning";
+}
+
+// Terms KDP's keyword guidelines forbid
+const KDP_BANNED_KEYWORDS = /\b(?:free|bestsell\w*|best sell\w*|new release|on sale|amazon|kindle unlimited|kdp)\b|#1\b/i;
+// Etsy tags take letters, numbers, spaces, hyphens, apostrophes and ™©®
+const ETSY_TAG_PATTERN = /^[\p{L}\p{N}\s\-'™©®]+$/u;
+
+export const validateListing = (listing: MarketplaceListing, bookTitle: string): ListingIssue[] => {
+  const issues: ListingIssue[] = [];
+  const kdp = (field: string, message: string, severity: ListingIssue["severity"] = "error") =>
+    issues.push({ platform: "kdp", field, message, severity });
+  const etsy = (field: string, message: string, severity: ListingIssue["severity"] = "error") =>
+    issues.push({ platform: "etsy", field, message, severity });
+
+  const { description, keywords, categories, ageRange, gradeRange } = listing.kdp;
+  if (!description.trim()) kdp("description", "Add a book description.");
+  if (description.length > KDP_LIMITS.descriptionChars) {
+    kdp("description", `Description is ${description.length} characters; KDP allows ${KDP_LIMITS.descriptionChars}.`);
+  }
+  if (keywords.length > KDP_LIMITS.keywords) kdp("keywords", `KDP takes ${KDP_LIMITS.keywords} keywords; remove ${keywords.length - KDP_LIMITS.keywords}.`);
+  if (keywords.filter(k => k.trim()).length < KDP_LIMITS.keywords) kdp("keywords", `Fill all ${KDP_LIMITS.keywords} keyword boxes to be found in more searches.`, "warning");
+  for (const keyword of keywords) {
+    if (keyword.length > KDP_LIMITS.keywordChars) kdp("keywords", `"${keyword}" is over ${KDP_LIMITS.keywordChars} characters.`);
+    if (KDP_BANNED_KEYWORDS.test(keyword)) kdp("keywords", `"${keyword}" uses a term KDP doesn't allow in keywords (sales claims or store names).`);
+    if (keyword.trim() && keyword.trim().toLowerCase() === bookTitle.trim().toLowerCase()) {
+      kdp("keywords", `"${keyword}" repeats the title, which is already searchable.`, "warning");
+    }
+  }
+  if (uniqueTerms(keywords).length < keywords.filter(k => k.trim()).length) kdp("keywords", "Some keywords are repeated.", "warning");
+  if (categories.length === 0) kdp("categories", "Pick at least one BISAC category.");
+  if (categories.length > KDP_LIMITS.categories) kdp("categories", `KDP takes ${KDP_LIMITS.categories} categories; remove ${categories.length - KDP_LIMITS.categories}.`);
+  if (ageRange) {
+    if (ageRange.min > ageRange.max) kdp("ageRange", "The minimum age is above the maximum.");
+    if (ageRange.max > KDP_LIMITS.maxAge) kdp("ageRange", `KDP reading ages stop at ${KDP_LIMITS.maxAge}.`);
+  }
+  if (gradeRange && gradeRange.min > gradeRange.max) kdp("gradeRange", "The lowest grade is above the highest.");
+
+  const { title, tags } = listing.etsy;
+  if (!title.trim()) etsy("title", "Add a listing title.");
+  if (title.length > ETSY_LIMITS.titleChars) etsy("title", `Title is ${title.length} characters; Etsy allows ${ETSY_LIMITS.titleChars}.`);
+  if (tags.length > ETSY_LIMITS.tags) etsy("tags", `Etsy takes ${ETSY_LIMITS.tags} tags; remove ${tags.length - ETSY_LIMITS.tags}.`);
+  if (tags.filter(t => t.trim()).length < ETSY_LIMITS.tags) etsy("tags", `Use all ${ETSY_LIMITS.tags} tags to be found in more searches.`, "warning");
+  for (const tag of tags) {
+    if (tag.length > ETSY_LIMITS.tagChars) etsy("tags", `"${tag}" is over ${ETSY_LIMITS.tagChars} characters.`);
+    if (tag.trim() && !ETSY_TAG_PATTERN.test(tag)) etsy("tags", `"${tag}" has characters Etsy tags can't contain.`);
+  }
+  if (uniqueTerms(tags).length < tags.filter(t => t.trim()).length) etsy("tags", "Some tags are repeated.", "warning");
+  if (!listing.etsy.description.trim()) etsy("description", "Add a listing description.");
+  return issues;
+};
+
+// Spreadsheets run a cell starting with these as a formula; a leading quote
+// keeps model-written text as plain text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number | undefined): string => {
+  let text = value === undefined ? "" : String(value);
+  if (typeof value === "string" && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// The editor keeps a box per keyword and tag; empty ones aren't exported
+const filled = (listing: MarketplaceListing): MarketplaceListing => ({
+  ...listing,
+  kdp: { ...listing.kdp, keywords: listing.kdp.keywords.filter(k => k.trim()) },
+  etsy: { ...listing.etsy, tags: listing.etsy.tags.filter(t => t.trim()) },
+});
+
+const CSV_COLUMNS = ["platform", "language", "title", "author", "description", "keywords", "categories", "min_age", "max_age", "min_grade", "max_grade"];
+
+/**
+ * One row per platform, with keywords and tags comma-joined in one cell.
+ */
+export const listingToCsv = (listing: MarketplaceListing, book: { title: string; author: string }): string => {
+  const { kdp, etsy } = filled(listing);
+  const rows = [
+    CSV_COLUMNS,
+    [
+      "kdp", listing.language, book.title, book.author, kdp.description, kdp.keywords.join(", "), kdp.categories.join(", "),
+      kdp.ageRange?.min, kdp.ageRange?.max, kdp.gradeRange && gradeLabel(kdp.gradeRange.min), kdp.gradeRange && gradeLabel(kdp.gradeRange.max),
+    ],
+    ["etsy", listing.language, etsy.title, book.author, etsy.description, etsy.tags.join(", "), "", undefined, undefined, undefined, undefined],
+  ];
+  return rows.map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+};
+
+export const listingToJson = (listing: MarketplaceListing, book: { title: string; author: string }): string => {
+  const { kdp, etsy } = filled(listing);
+  return JSON.stringify({
+    language: listing.language,
+    title: book.title,
+    author: book.author,
+    kdp: { ...kdp, categories: kdp.categories.map(code => ({ code, label: bisacLabel(code) })) },
+    etsy,
+  }, null, 2);
+};
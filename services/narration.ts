@@ -0,0 +1,122 @@
+import { Panel, PanelNarration } from "../types";
+import { aiQueues } from "./aiQueue";
+import { createAbortError, JobOptions } from "./jobQueue";
+import { findTtsProvider, getTtsProvider } from "./tts";
+import { AUDIO_FORMAT_NAMES, audioFormat, getAudioDuration } from "./audioData";
+import { readFileAsDataUrl } from "./imageData";
+import { estimateWordTimings, wordAt } from "./wordTimings";
+import "./providers";
+
+/**
+ * Per-panel narration: generating clips from captions, taking recorded
+ * ones, and playing either back with word-by-word progress for read-along.
+ * Clips are stored on the panel (and so with the project).
+ */
+
+export interface NarrationSettings {
+  providerId: string;
+  voice?: string;
+  rate: number;
+}
+
+export const NARRATION_RATES = [
+  { rate: 0.8, label: "Slow" },
+  { rate: 1, label: "Normal" },
+  { rate: 1.2, label: "Brisk" },
+];
+
+// A few minutes of uncompressed audio; a page's narration is seconds long
+export const MAX_RECORDING_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Whether the panel has narration matching its caption as it is now.
+ */
+export const hasCurrentNarration = (panel: Panel): boolean =>
+  !!panel.narration && panel.narration.text === panel.caption;
+
+/**
+ * Narrates a caption with the chosen TTS backend. Runs on the text queue,
+ * since hosted speech models share the text models' quota.
+ */
+export const narrateText = async (text: string, settings: NarrationSettings, job: JobOptions = {}): Promise<PanelNarration> => {
+  const provider = findTtsProvider(settings.providerId) || getTtsProvider();
+  const result = await aiQueues.text.run(signal => provider.synthesize({ text, voice: settings.voice, rate: settings.rate, signal }), job);
+  return {
+    ...result,
+    source: "tts",
+    providerId: provider.id,
+    voice: settings.voice,
+    rate: settings.rate,
+    text,
+  };
+};
+
+/**
+ * Why the file can't be used as a recording, or null when it can.
+ */
+export const validateRecording = (file: File): string | null => {
+  if (!audioFormat(file.type)) return `Upload an audio file (${AUDIO_FORMAT_NAMES}).`;
+  if (file.size > MAX_RECORDING_BYTES) return "That recording is too large (20 MB at most).";
+  return null;
+};
+
+/**
+ * Narration from an uploaded voice recording of the caption. Recordings
+ * carry no word boundaries, so the timings are estimated from its length.
+ */
+export const narrationFromRecording = async (file: File, text: string): Promise<PanelNarration> => {
+  const audioUrl = await readFileAsDataUrl(file);
+  const duration = await getAudioDuration(audioUrl);
+  return { audioUrl, source: "recording", text, duration, words: estimateWordTimings(text, duration) };
+};
+
+interface PlaybackOptions {
+  // Index of the word being spoken, -1 before the first
+  onWord?: (index: number) => void;
+  signal?: AbortSignal;
+}
+
+const playClip = (audioUrl: string, narration: PanelNarration, { onWord, signal }: PlaybackOptions): Promise<void> => {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+  const audio = new Audio(audioUrl);
+  let timer: ReturnType<typeof setInterval> | undefined;
+  return new Promise<void>((resolve, reject) => {
+    const abort = () => {
+      audio.pause();
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", abort, { once: true });
+    audio.onended = () => {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    };
+    audio.onerror = () => {
+      signal?.removeEventListener("abort", abort);
+      reject(new Error("Could not play the narration"));
+    };
+    timer = setInterval(() => onWord?.(wordAt(narration.words, audio.currentTime)), 50);
+    audio.play().catch(e => {
+      signal?.removeEventListener("abort", abort);
+      reject(e);
+    });
+  }).finally(() => clearInterval(timer));
+};
+
+/**
+ * Plays a panel's narration, resolving when it finishes. Live narration is
+ * spoken again by the backend that made it.
+ */
+export const playNarration = (narration: PanelNarration, options: PlaybackOptions = {}): Promise<void> => {
+  if (narration.audioUrl) return playClip(narration.audioUrl, narration, options);
+  const provider = findTtsProvider(narration.providerId);
+  if (!provider?.speak || !provider.isAvailable()) {
+    return Promise.reject(new Error("This narration's voice isn't available in this browser."));
+  }
+  return provider.speak({
+    text: narration.text,
+    voice: narration.voice,
+    rate: narration.rate || 1,
+    signal: options.signal,
+    onWord: options.onWord || (() => undefined),
+  });
+};
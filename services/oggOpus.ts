@@ -0,0 +1,188 @@
+/**
+ * Tiny Ogg Opus writer (RFC 7845), for narration in EPUBs: Opus in Ogg is
+ * one of the EPUB 3 core audio types, and browsers can encode it with
+ * WebCodecs but won't put it in a file. Mono only, which is all narration
+ * needs.
+ */
+
+// Opus always runs at 48 kHz; granule positions count samples at this rate
+export const OPUS_SAMPLE_RATE = 48000;
+
+const BITRATE = 32000;
+// Pages of about a second, so readers can seek into a clip
+const PACKETS_PER_PAGE = 50;
+// libopus's lookahead, for encoders that don't report it
+const DEFAULT_PRE_SKIP = 312;
+
+const ENCODER_CONFIG: AudioEncoderConfig = {
+  codec: "opus",
+  sampleRate: OPUS_SAMPLE_RATE,
+  numberOfChannels: 1,
+  bitrate: BITRATE,
+};
+
+// Ogg's CRC-32: polynomial 0x04c11db7, unreflected, no final xor
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n << 24;
+    for (let k = 0; k < 8; k++) {
+      c = c & 0x80000000 ? (c << 1) ^ 0x04c11db7 : c << 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = (crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ data[i]) & 0xff];
+  }
+  return crc >>> 0;
+};
+
+const ascii = (text: string) => Uint8Array.from(text, c => c.charCodeAt(0));
+
+export const canEncodeOpus = async (): Promise<boolean> => {
+  if (typeof AudioEncoder === "undefined") return false;
+  try {
+    return !!(await AudioEncoder.isConfigSupported(ENCODER_CONFIG)).supported;
+  } catch {
+    return false;
+  }
+};
+
+interface OpusPacket {
+  data: Uint8Array;
+  // Length in samples at 48 kHz
+  frames: number;
+}
+
+const writePage = (packets: Uint8Array[], granule: number, serial: number, sequence: number, flags: number): Uint8Array => {
+  // Lacing: each packet is 255-byte segments ended by a shorter one
+  const lacing: number[] = [];
+  for (const packet of packets) {
+    for (let left = packet.length; ; left -= 255) {
+      lacing.push(Math.min(left, 255));
+      if (left < 255) break;
+    }
+  }
+  const bodySize = packets.reduce((sum, p) => sum + p.length, 0);
+  const page = new Uint8Array(27 + lacing.length + bodySize);
+  const view = new DataView(page.buffer);
+  page.set(ascii("OggS"), 0);
+  view.setUint8(5, flags);
+  view.setBigUint64(6, BigInt(granule), true);
+  view.setUint32(14, serial, true);
+  view.setUint32(18, sequence, true);
+  view.setUint8(26, lacing.length);
+  page.set(lacing, 27);
+  let offset = 27 + lacing.length;
+  for (const packet of packets) {
+    page.set(packet, offset);
+    offset += packet.length;
+  }
+  view.setUint32(22, crc32(page), true);
+  return page;
+};
+
+const opusHead = (preSkip: number, inputSampleRate: number): Uint8Array => {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(ascii("OpusHead"), 0);
+  view.setUint8(8, 1); // version
+  view.setUint8(9, 1); // mono
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, inputSampleRate, true);
+  // Output gain and channel mapping family stay 0
+  return head;
+};
+
+const opusTags = (): Uint8Array => {
+  const vendor = ascii("RedditToon");
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(ascii("OpusTags"), 0);
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  // No user comments
+  return tags;
+};
+
+// The encoder's own OpusHead, when it gives one, knows its real lookahead
+const preSkipFrom = (description: BufferSource | undefined): number => {
+  if (!description) return DEFAULT_PRE_SKIP;
+  const bytes = ArrayBuffer.isView(description)
+    ? new Uint8Array(description.buffer, description.byteOffset, description.byteLength)
+    : new Uint8Array(description);
+  if (bytes.length < 19 || String.fromCharCode(...bytes.subarray(0, 8)) !== "OpusHead") return DEFAULT_PRE_SKIP;
+  return new DataView(bytes.buffer, bytes.byteOffset).getUint16(10, true);
+};
+
+const encodePackets = async (samples: Float32Array): Promise<{ packets: OpusPacket[]; preSkip: number }> => {
+  const packets: OpusPacket[] = [];
+  let preSkip = DEFAULT_PRE_SKIP;
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // 20 ms frames unless the encoder says otherwise
+      const frames = chunk.duration ? Math.round(chunk.duration * OPUS_SAMPLE_RATE / 1_000_000) : 960;
+      packets.push({ data, frames });
+      if (metadata?.decoderConfig) preSkip = preSkipFrom(metadata.decoderConfig.description);
+    },
+    // flush() rejects with the same error
+    error: (e) => console.warn("Opus encoder error", e),
+  });
+  try {
+    encoder.configure(ENCODER_CONFIG);
+    const audio = new AudioData({
+      format: "f32-planar",
+      sampleRate: OPUS_SAMPLE_RATE,
+      numberOfFrames: samples.length,
+      numberOfChannels: 1,
+      timestamp: 0,
+      data: samples,
+    });
+    encoder.encode(audio);
+    audio.close();
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== "closed") encoder.close();
+  }
+  return { packets, preSkip };
+};
+
+/**
+ * Encodes mono samples at 48 kHz as an Ogg Opus file. The last page's
+ * granule position trims the encoder's padding, so the file plays for
+ * exactly as long as the input.
+ */
+export const encodeOggOpus = async (samples: Float32Array, inputSampleRate = OPUS_SAMPLE_RATE): Promise<Uint8Array> => {
+  if (samples.length === 0) throw new Error("The clip is empty");
+  if (!(await canEncodeOpus())) throw new Error("This browser can't encode Opus audio");
+  const { packets, preSkip } = await encodePackets(samples);
+  const serial = (Math.random() * 0xffffffff) >>> 0;
+  const end = preSkip + samples.length;
+
+  const pages: Uint8Array[] = [
+    writePage([opusHead(preSkip, inputSampleRate)], 0, serial, 0, 0x02),
+    writePage([opusTags()], 0, serial, 1, 0),
+  ];
+  let granule = 0;
+  for (let i = 0; i < packets.length; i += PACKETS_PER_PAGE) {
+    const batch = packets.slice(i, i + PACKETS_PER_PAGE);
+    granule += batch.reduce((sum, p) => sum + p.frames, 0);
+    const last = i + PACKETS_PER_PAGE >= packets.length;
+    pages.push(writePage(batch.map(p => p.data), last ? Math.min(granule, end) : granule, serial, pages.length, last ? 0x04 : 0));
+  }
+
+  const file = new Uint8Array(pages.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const page of pages) {
+    file.set(page, offset);
+    offset += page.length;
+  }
+  return file;
+};
@@ -0,0 +1,290 @@
+import { Ebook, OverlayKind, Panel, PanelOverlay } from "../types";
+import { loadImage } from "./imageData";
+import { applyAdjustments } from "./adjustments";
+
+/**
+ * Speech bubbles and other lettering drawn over panel art.
+ * Shapes are built as SVG path strings so the editor (SVG) and the export
+ * renderer (canvas Path2D) draw exactly the same outlines.
+ */
+
+export interface OverlayStyle {
+  // Font size as a fraction of the image width
+  fontScale: number;
+  bold: boolean;
+  italic: boolean;
+  uppercase: boolean;
+  fill: string;
+  stroke: string;
+  textColor: string;
+  // Outline around the letters (sound effects only)
+  textStroke?: string;
+  hasTail: boolean;
+}
+
+export const OVERLAY_STYLES: Record<OverlayKind, OverlayStyle> = {
+  speech: { fontScale: 0.036, bold: false, italic: false, uppercase: false, fill: "#ffffff", stroke: "#0f172a", textColor: "#0f172a", hasTail: true },
+  thought: { fontScale: 0.034, bold: false, italic: true, uppercase: false, fill: "#ffffff", stroke: "#0f172a", textColor: "#334155", hasTail: true },
+  shout: { fontScale: 0.042, bold: true, italic: false, uppercase: true, fill: "#ffffff", stroke: "#0f172a", textColor: "#0f172a", hasTail: true },
+  narration: { fontScale: 0.032, bold: false, italic: false, uppercase: false, fill: "#fef9c3", stroke: "#0f172a", textColor: "#0f172a", hasTail: false },
+  sfx: { fontScale: 0.09, bold: true, italic: false, uppercase: true, fill: "none", stroke: "none", textColor: "#f97316", textStroke: "#0f172a", hasTail: false },
+};
+
+export const OVERLAY_LABELS: Record<OverlayKind, string> = {
+  speech: "Speech",
+  thought: "Thought",
+  shout: "Shout",
+  narration: "Narration",
+  sfx: "Sound effect",
+};
+
+export const OVERLAY_FONT_FAMILY = `"Comic Neue", "Comic Sans MS", cursive`;
+
+export const createOverlayId = () => `overlay-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const DEFAULT_SIZES: Record<OverlayKind, [number, number]> = {
+  speech: [0.4, 0.18],
+  thought: [0.4, 0.18],
+  shout: [0.44, 0.22],
+  narration: [0.6, 0.1],
+  sfx: [0.4, 0.14],
+};
+
+export const createOverlay = (kind: OverlayKind, fields: Partial<PanelOverlay> = {}): PanelOverlay => {
+  const [width, height] = DEFAULT_SIZES[kind];
+  const base: PanelOverlay = { id: createOverlayId(), kind, text: "", x: 0.5, y: 0.2, width, height };
+  if (OVERLAY_STYLES[kind].hasTail) {
+    base.tailX = 0.5;
+    base.tailY = 0.5;
+  }
+  return { ...base, ...fields };
+};
+
+export interface DialogueLine {
+  kind: OverlayKind;
+  text: string;
+  characterId?: string;
+}
+
+/**
+ * Lays out a panel's script dialogue as a first draft: narration along the top,
+ * bubbles alternating left and right down the panel, sound effects at the bottom.
+ */
+export const dialogueToOverlays = (lines: DialogueLine[]): PanelOverlay[] => {
+  let bubbleIndex = 0;
+  return lines.filter(line => line.text.trim()).map(line => {
+    if (line.kind === "narration") {
+      return createOverlay("narration", { text: line.text, x: 0.5, y: 0.08 });
+    }
+    if (line.kind === "sfx") {
+      return createOverlay("sfx", { text: line.text, x: 0.5, y: 0.85 });
+    }
+    const left = bubbleIndex % 2 === 0;
+    const y = Math.min(0.7, 0.22 + bubbleIndex * 0.2);
+    bubbleIndex++;
+    return createOverlay(line.kind, {
+      text: line.text,
+      characterId: line.characterId,
+      x: left ? 0.3 : 0.7,
+      y,
+      tailX: left ? 0.38 : 0.62,
+      tailY: Math.min(0.95, y + 0.25),
+    });
+  });
+};
+
+const f = (n: number) => n.toFixed(1);
+
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number) =>
+  `M${f(cx - rx)} ${f(cy)}A${f(rx)} ${f(ry)} 0 1 0 ${f(cx + rx)} ${f(cy)}A${f(rx)} ${f(ry)} 0 1 0 ${f(cx - rx)} ${f(cy)}Z`;
+
+const cloudPath = (cx: number, cy: number, rx: number, ry: number) => {
+  const bumps = 10;
+  const points = Array.from({ length: bumps }, (_, i) => {
+    const angle = (i / bumps) * Math.PI * 2;
+    return [cx + Math.cos(angle) * rx, cy + Math.sin(angle) * ry];
+  });
+  const bump = Math.min(rx, ry) * 0.45;
+  return `M${f(points[0][0])} ${f(points[0][1])}` +
+    points.map((_, i) => {
+      const [x, y] = points[(i + 1) % bumps];
+      return `A${f(bump)} ${f(bump)} 0 0 1 ${f(x)} ${f(y)}`;
+    }).join("") + "Z";
+};
+
+const burstPath = (cx: number, cy: number, rx: number, ry: number) => {
+  const spikes = 14;
+  const points = Array.from({ length: spikes * 2 }, (_, i) => {
+    const angle = (i / (spikes * 2)) * Math.PI * 2;
+    const r = i % 2 === 0 ? 1.12 : 0.88;
+    return `${f(cx + Math.cos(angle) * rx * r)} ${f(cy + Math.sin(angle) * ry * r)}`;
+  });
+  return `M${points.join("L")}Z`;
+};
+
+// A wedge from inside the body to the tail tip, so filling the body hides its base
+const wedgePath = (cx: number, cy: number, rx: number, ry: number, tipX: number, tipY: number) => {
+  const angle = Math.atan2(tipY - cy, tipX - cx);
+  const base = Math.min(rx, ry) * 0.3;
+  const bx = cx + Math.cos(angle) * rx * 0.6;
+  const by = cy + Math.sin(angle) * ry * 0.6;
+  const nx = -Math.sin(angle) * base;
+  const ny = Math.cos(angle) * base;
+  return `M${f(bx + nx)} ${f(by + ny)}L${f(tipX)} ${f(tipY)}L${f(bx - nx)} ${f(by - ny)}Z`;
+};
+
+// Shrinking circles from the body towards the tip
+const thoughtTrailPath = (cx: number, cy: number, rx: number, ry: number, tipX: number, tipY: number) => {
+  const angle = Math.atan2(tipY - cy, tipX - cx);
+  const startX = cx + Math.cos(angle) * rx;
+  const startY = cy + Math.sin(angle) * ry;
+  const r = Math.min(rx, ry) * 0.18;
+  return [0.25, 0.6, 1].map((t, i) => {
+    const x = startX + (tipX - startX) * t;
+    const y = startY + (tipY - startY) * t;
+    return ellipsePath(x, y, r * (1 - i * 0.3), r * (1 - i * 0.3));
+  }).join("");
+};
+
+/**
+ * Outline paths (tail first, then body) in pixels for an image of the given size.
+ * Renderers stroke every path and then fill every path, which hides the seam
+ * where the tail joins the body.
+ */
+export const overlayPaths = (overlay: PanelOverlay, width: number, height: number): string[] => {
+  const cx = overlay.x * width;
+  const cy = overlay.y * height;
+  const rx = (overlay.width * width) / 2;
+  const ry = (overlay.height * height) / 2;
+  const hasTail = OVERLAY_STYLES[overlay.kind].hasTail && overlay.tailX !== undefined && overlay.tailY !== undefined;
+  const tipX = (overlay.tailX ?? 0) * width;
+  const tipY = (overlay.tailY ?? 0) * height;
+
+  switch (overlay.kind) {
+    case "speech":
+      return [...(hasTail ? [wedgePath(cx, cy, rx, ry, tipX, tipY)] : []), ellipsePath(cx, cy, rx, ry)];
+    case "thought":
+      return [...(hasTail ? [thoughtTrailPath(cx, cy, rx, ry, tipX, tipY)] : []), cloudPath(cx, cy, rx, ry)];
+    case "shout":
+      return [...(hasTail ? [wedgePath(cx, cy, rx, ry, tipX, tipY)] : []), burstPath(cx, cy, rx, ry)];
+    case "narration":
+      return [`M${f(cx - rx)} ${f(cy - ry)}H${f(cx + rx)}V${f(cy + ry)}H${f(cx - rx)}Z`];
+    case "sfx":
+      return [];
+  }
+};
+
+/**
+ * The area text is fitted into, as fractions of the overlay box
+ * (ellipses lose their corners).
+ */
+export const textInset = (kind: OverlayKind): number => (kind === "narration" || kind === "sfx" ? 0.92 : 0.72);
+
+export const overlayText = (overlay: PanelOverlay) =>
+  OVERLAY_STYLES[overlay.kind].uppercase ? overlay.text.toUpperCase() : overlay.text;
+
+export const wrapCanvasText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+/**
+ * Draws overlays onto a canvas that already holds the panel image.
+ */
+export const drawOverlays = (ctx: CanvasRenderingContext2D, overlays: PanelOverlay[], width: number, height: number) => {
+  for (const overlay of overlays) {
+    const style = OVERLAY_STYLES[overlay.kind];
+    const paths = overlayPaths(overlay, width, height).map(d => new Path2D(d));
+
+    ctx.save();
+    ctx.lineWidth = Math.max(2, width * 0.004);
+    ctx.lineJoin = "round";
+    if (style.stroke !== "none") {
+      ctx.strokeStyle = style.stroke;
+      paths.forEach(p => ctx.stroke(p));
+    }
+    if (style.fill !== "none") {
+      ctx.fillStyle = style.fill;
+      paths.forEach(p => ctx.fill(p));
+    }
+
+    const text = overlayText(overlay);
+    if (text.trim()) {
+      const inset = textInset(overlay.kind);
+      const boxWidth = overlay.width * width * inset;
+      const boxHeight = overlay.height * height * inset;
+      // Shrink the text until it fits the box
+      let fontSize = style.fontScale * width;
+      let lines: string[] = [];
+      for (; fontSize > 8; fontSize *= 0.9) {
+        ctx.font = `${style.italic ? "italic " : ""}${style.bold ? "bold " : ""}${fontSize}px ${OVERLAY_FONT_FAMILY}`;
+        lines = wrapCanvasText(ctx, text, boxWidth);
+        if (lines.length * fontSize * 1.15 <= boxHeight && lines.every(l => ctx.measureText(l).width <= boxWidth)) break;
+      }
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      const lineHeight = fontSize * 1.15;
+      const top = overlay.y * height - ((lines.length - 1) * lineHeight) / 2;
+      lines.forEach((line, i) => {
+        const y = top + i * lineHeight;
+        if (style.textStroke) {
+          ctx.strokeStyle = style.textStroke;
+          ctx.lineWidth = fontSize * 0.12;
+          ctx.strokeText(line, overlay.x * width, y);
+        }
+        ctx.fillStyle = style.textColor;
+        ctx.fillText(line, overlay.x * width, y);
+      });
+    }
+    ctx.restore();
+  }
+};
+
+/**
+ * Bakes overlays into the image, returning a PNG data URL.
+ */
+export const flattenOverlays = async (imageUrl: string, overlays: PanelOverlay[] = []): Promise<string> => {
+  if (overlays.length === 0) return imageUrl;
+  if (document.fonts) {
+    await document.fonts.load(`16px ${OVERLAY_FONT_FAMILY}`).catch(() => undefined);
+  }
+  const img = await loadImage(imageUrl);
+  const canvas = document.createElement("canvas");
+  canvas.width = img.naturalWidth || img.width;
+  canvas.height = img.naturalHeight || img.height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  drawOverlays(ctx, overlays, canvas.width, canvas.height);
+  return canvas.toDataURL("image/png");
+};
+
+/**
+ * The panel's image as exported: adjustments applied, then lettering on top.
+ */
+export const flattenPanelImage = async (panel: Panel): Promise<string | undefined> =>
+  panel.imageUrl ? flattenOverlays(await applyAdjustments(panel.imageUrl, panel.adjustments), panel.overlays) : panel.imageUrl;
+
+/**
+ * A copy of the ebook with every panel's adjustments and lettering baked
+ * into its image, for export formats that only carry images.
+ */
+export const flattenEbookOverlays = async (ebook: Ebook): Promise<Ebook> => {
+  const panels: Panel[] = [];
+  for (const panel of ebook.panels) {
+    panels.push({ ...panel, imageUrl: await flattenPanelImage(panel), overlays: [] });
+  }
+  return { ...ebook, panels };
+};
@@ -0,0 +1,93 @@
+import { LayoutStyle, PageFormat } from "../types";
+
+/**
+ * Page formats a book can be laid out in. The format decides the shape of a
+ * page in the editor and the exports and the default print trim and EPUB
+ * page size. Art is generated for the shape of the box it ends up in: the
+ * image slot of the page template (see getArtAspectRatios) or, for
+ * spreads, the whole spread.
+ */
+
+export interface PageFormatSpec {
+  label: string;
+  description: string;
+  // Width / height of a single page
+  pageAspect: number;
+  // Sent to the image model for the cover
+  coverAspectRatio: string;
+  // Storybook pages are two-page spreads, one image across facing pages,
+  // with the caption on a band over the art. Comic pages and the cover stay
+  // single pages.
+  spread: boolean;
+  // Sent to the image model for the art of a spread
+  spreadAspectRatio?: string;
+  trimSizeId: string;
+  epubPageWidth: number;
+  epubPageHeight: number;
+}
+
+export const DEFAULT_PAGE_FORMAT: PageFormat = "PORTRAIT";
+
+export const PAGE_FORMATS: Record<PageFormat, PageFormatSpec> = {
+  PORTRAIT: {
+    label: "Portrait",
+    description: "3:4 pages, the classic picture book",
+    pageAspect: 3 / 4,
+    coverAspectRatio: "3:4",
+    spread: false,
+    trimSizeId: "8x10",
+    epubPageWidth: 1200,
+    epubPageHeight: 1600,
+  },
+  SQUARE: {
+    label: "Square",
+    description: "1:1 pages for board books",
+    pageAspect: 1,
+    coverAspectRatio: "4:3",
+    spread: false,
+    trimSizeId: "8.5x8.5",
+    epubPageWidth: 1600,
+    epubPageHeight: 1600,
+  },
+  LANDSCAPE: {
+    label: "Landscape",
+    description: "4:3 pages with wide scenes",
+    pageAspect: 4 / 3,
+    coverAspectRatio: "16:9",
+    spread: false,
+    trimSizeId: "11x8.5",
+    epubPageWidth: 1600,
+    epubPageHeight: 1200,
+  },
+  SPREAD: {
+    label: "Full-bleed spreads",
+    description: "One image across each pair of facing pages",
+    pageAspect: 3 / 4,
+    coverAspectRatio: "3:4",
+    spread: true,
+    spreadAspectRatio: "3:2",
+    trimSizeId: "8.5x11",
+    epubPageWidth: 1200,
+    epubPageHeight: 1600,
+  },
+};
+
+/**
+ * A "3:4" aspect ratio, as sent to the image model, as a width / height number.
+ */
+export const parseAspectRatio = (aspectRatio: string): number => {
+  const [width, height] = aspectRatio.split(":").map(Number);
+  return width > 0 && height > 0 ? width / height : 1;
+};
+
+export const PAGE_FORMAT_IDS = Object.keys(PAGE_FORMATS) as PageFormat[];
+
+// Projects from before page formats were all portrait
+export const getPageFormat = (format?: PageFormat): PageFormatSpec => PAGE_FORMATS[format || DEFAULT_PAGE_FORMAT];
+
+/**
+ * Whether storybook content pages are laid out as spreads. Spreads have a
+ * fixed layout, so per-page templates don't apply to them.
+ */
+export const usesSpreads = (format: PageFormat | undefined, layoutStyle: LayoutStyle = "STORYBOOK"): boolean =>
+  layoutStyle === "STORYBOOK" && getPageFormat(format).spread;
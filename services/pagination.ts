@@ -0,0 +1,44 @@
+import { LayoutStyle, PageTemplate, Panel } from "../types";
+import { getTemplate, slotAspectRatio, templateCapacity } from "./layoutTemplates";
+
+export interface ContentPage {
+  template: PageTemplate;
+  panels: Panel[];
+}
+
+/**
+ * Groups panels into the content pages of the book (cover excluded).
+ * Shared by the editor and every export path so page numbers always agree.
+ * A panel with a pageTemplateId always starts a new page in that template;
+ * otherwise pages use the layout style's template and fill up to its
+ * capacity.
+ */
+export const getContentPages = (panels: Panel[], layoutStyle: LayoutStyle = 'STORYBOOK'): ContentPage[] => {
+  const pages: ContentPage[] = [];
+  let index = 0;
+  while (index < panels.length) {
+    const template = getTemplate(panels[index].pageTemplateId, layoutStyle);
+    const capacity = templateCapacity(template);
+    const pagePanels = [panels[index++]];
+    while (pagePanels.length < capacity && index < panels.length && !panels[index].pageTemplateId) {
+      pagePanels.push(panels[index++]);
+    }
+    pages.push({ template, panels: pagePanels });
+  }
+  return pages;
+};
+
+/**
+ * The aspect ratio each panel's art should be generated at, from the image
+ * slot it lands in, keyed by panel id.
+ */
+export const getArtAspectRatios = (pages: ContentPage[], pageAspect: number): Record<number, string> => {
+  const ratios: Record<number, string> = {};
+  for (const { template, panels } of pages) {
+    panels.forEach((panel, i) => {
+      const slot = template.slots.find(s => s.kind === 'image' && s.panel === i);
+      if (slot) ratios[panel.id] = slotAspectRatio(template, slot, pageAspect);
+    });
+  }
+  return ratios;
+};
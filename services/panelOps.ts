@@ -0,0 +1,53 @@
+import { Panel } from "../types";
+
+/**
+ * Pure helpers for changing the panel list. Panel ids are never reused:
+ * in-flight image generations, job status, cached variants and
+ * refineStoryContent's refinedPanels all match back to panels by id, so a new
+ * panel always gets a fresh one. The highest id in the list isn't enough
+ * (deleting the last panel would free its id), so editors keep a counter
+ * that only goes up and is saved with the project (Project.nextPanelId).
+ */
+
+/**
+ * The next unused id: past both the counter and every id in the list, so
+ * projects saved before the counter existed still get fresh ids.
+ */
+export const nextPanelId = (panels: Panel[], counter = 0): number =>
+  Math.max(counter, panels.reduce((max, p) => Math.max(max, p.id), -1) + 1);
+
+export const createPanel = (id: number, fields: Partial<Panel> = {}): Panel => ({
+  description: "",
+  caption: "",
+  isGenerating: false,
+  ...fields,
+  id,
+});
+
+/**
+ * Inserts a panel after the given index (-1 inserts at the start).
+ */
+export const insertPanelAt = (panels: Panel[], index: number, panel: Panel): Panel[] => [
+  ...panels.slice(0, index + 1),
+  panel,
+  ...panels.slice(index + 1),
+];
+
+export const removePanel = (panels: Panel[], id: number): Panel[] => panels.filter(p => p.id !== id);
+
+export const movePanel = (panels: Panel[], from: number, to: number): Panel[] => {
+  if (from === to || from < 0 || to < 0 || from >= panels.length || to >= panels.length) return panels;
+  const next = [...panels];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+export const updatePanel = (panels: Panel[], id: number, changes: Partial<Panel>): Panel[] =>
+  panels.map(p => p.id === id ? { ...p, ...changes } : p);
+
+/**
+ * A copy of a panel under a fresh id, ready to insert.
+ */
+export const copyPanel = (id: number, source: Panel): Panel =>
+  createPanel(id, { ...source, isGenerating: false });
@@ -0,0 +1,381 @@
+import { Ebook, Panel } from "../types";
+import { createPdfDocument, Box, PdfDocument, PdfFont, PdfPage, RGB } from "./pdfWriter";
+import { parseTrueType } from "./trueType";
+import { loadImage, drawCover, canvasToBytes } from "./imageData";
+import { getContentPages } from "./pagination";
+import { usesSpreads } from "./pageFormats";
+import { slotRect } from "./layoutTemplates";
+
+export interface TrimSize {
+  id: string;
+  label: string;
+  width: number; // inches
+  height: number; // inches
+}
+
+// Common KDP paperback trim sizes for picture books and comics
+export const KDP_TRIM_SIZES: TrimSize[] = [
+  { id: "8.5x8.5", label: '8.5" × 8.5" (Square picture book)', width: 8.5, height: 8.5 },
+  { id: "8x10", label: '8" × 10" (Portrait picture book)', width: 8, height: 10 },
+  { id: "11x8.5", label: '11" × 8.5" (Landscape picture book)', width: 11, height: 8.5 },
+  { id: "8.5x11", label: '8.5" × 11" (Letter / workbook)', width: 8.5, height: 11 },
+  { id: "7x10", label: '7" × 10" (Comic)', width: 7, height: 10 },
+  { id: "6x9", label: '6" × 9" (Trade paperback)', width: 6, height: 9 },
+];
+
+// Comic Neue matches the editor's caption font; served as a plain TTF so it can be embedded.
+export const DEFAULT_FONT_URL = "https://cdn.jsdelivr.net/fontsource/fonts/comic-neue@latest/latin-400-normal.ttf";
+
+export interface PdfOptions {
+  trimSizeId: string;
+  bleed: boolean;
+  pageNumbers: boolean;
+  // Raw .ttf bytes. Without a font the standard Helvetica is referenced, not embedded.
+  font: ArrayBuffer | null;
+}
+
+export const DEFAULT_PDF_OPTIONS: PdfOptions = {
+  trimSizeId: "8.5x8.5",
+  bleed: true,
+  pageNumbers: true,
+  font: null,
+};
+
+export interface PdfWarning {
+  page: number | null;
+  message: string;
+}
+
+export interface PdfResult {
+  blob: Blob;
+  pageCount: number;
+  warnings: PdfWarning[];
+}
+
+const POINTS_PER_INCH = 72;
+const BLEED = 0.125 * POINTS_PER_INCH;
+const GUTTER = 0.375 * POINTS_PER_INCH;
+const IMAGE_DPI = 300;
+const MAX_IMAGE_PIXELS = 3600;
+
+const TEXT_COLOR: RGB = [51, 65, 85];
+const TITLE_COLOR: RGB = [15, 23, 42];
+const MUTED_COLOR: RGB = [148, 163, 184];
+const CELL_BORDER: RGB = [203, 213, 225];
+
+export const fetchFontFile = async (url: string = DEFAULT_FONT_URL): Promise<ArrayBuffer> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Font download failed (${response.status})`);
+  }
+  return response.arrayBuffer();
+};
+
+/**
+ * Greedy word wrap using the font's real glyph widths.
+ */
+export const wrapText = (font: PdfFont, text: string, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.measure(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+interface FittedText {
+  lines: string[];
+  size: number;
+  lineHeight: number;
+  fits: boolean;
+}
+
+/**
+ * Picks the largest font size (down to minSize) at which the text fits the box.
+ */
+const fitText = (font: PdfFont, text: string, box: Box, maxSize: number, minSize: number): FittedText => {
+  for (let size = maxSize; size >= minSize; size -= 0.5) {
+    const lines = wrapText(font, text, size, box.width);
+    const lineHeight = size * 1.35;
+    const widest = Math.max(0, ...lines.map(l => font.measure(l, size)));
+    if (lines.length * lineHeight <= box.height && widest <= box.width) {
+      return { lines, size, lineHeight, fits: true };
+    }
+  }
+  const lines = wrapText(font, text, minSize, box.width);
+  return { lines, size: minSize, lineHeight: minSize * 1.35, fits: false };
+};
+
+const drawCenteredLines = (page: PdfPage, font: PdfFont, fitted: FittedText, box: Box, fill: RGB) => {
+  const blockHeight = fitted.lines.length * fitted.lineHeight;
+  // Vertically centre the block; the first baseline sits one ascent below the block top
+  let baseline = box.y + (box.height + blockHeight) / 2 - fitted.lineHeight + (fitted.lineHeight - fitted.size) / 2
+    + (-font.descent / 1000) * fitted.size;
+  for (const line of fitted.lines) {
+    const width = font.measure(line, fitted.size);
+    page.drawText(font, line, box.x + (box.width - width) / 2, baseline, fitted.size, fill);
+    baseline -= fitted.lineHeight;
+  }
+};
+
+/**
+ * Rasterises an image at print resolution for the given box, cropped to fill it.
+ */
+const embedImage = async (doc: PdfDocument, dataUrl: string, box: Box) => {
+  const img = await loadImage(dataUrl);
+  const scale = Math.min(1, MAX_IMAGE_PIXELS / (Math.max(box.width, box.height) / POINTS_PER_INCH * IMAGE_DPI));
+  const width = Math.max(1, Math.round(box.width / POINTS_PER_INCH * IMAGE_DPI * scale));
+  const height = Math.max(1, Math.round(box.height / POINTS_PER_INCH * IMAGE_DPI * scale));
+  const canvas = drawCover(img, width, height);
+  const bytes = await canvasToBytes(canvas, "image/jpeg", 0.92);
+  return {
+    image: doc.addJpeg(bytes, width, height),
+    // Effective resolution of the source art at this size, for the low-DPI check
+    sourceDpi: Math.min(img.width / (box.width / POINTS_PER_INCH), img.height / (box.height / POINTS_PER_INCH)),
+  };
+};
+
+/**
+ * Rasterises a spread's art across two facing boxes of the same size, cropped
+ * to fill both, and returns the verso and recto halves as separate images.
+ */
+const embedSpread = async (doc: PdfDocument, dataUrl: string, half: Box) => {
+  const img = await loadImage(dataUrl);
+  const spreadWidth = half.width * 2;
+  const scale = Math.min(1, MAX_IMAGE_PIXELS / (Math.max(spreadWidth, half.height) / POINTS_PER_INCH * IMAGE_DPI));
+  const halfPixels = Math.max(1, Math.round(half.width / POINTS_PER_INCH * IMAGE_DPI * scale));
+  const height = Math.max(1, Math.round(half.height / POINTS_PER_INCH * IMAGE_DPI * scale));
+  const canvas = drawCover(img, halfPixels * 2, height);
+  const images = [];
+  for (const side of [0, 1]) {
+    const part = document.createElement("canvas");
+    part.width = halfPixels;
+    part.height = height;
+    part.getContext("2d")!.drawImage(canvas, -side * halfPixels, 0);
+    images.push(doc.addJpeg(await canvasToBytes(part, "image/jpeg", 0.92), halfPixels, height));
+  }
+  return {
+    verso: images[0],
+    recto: images[1],
+    sourceDpi: Math.min(img.width / (spreadWidth / POINTS_PER_INCH), img.height / (half.height / POINTS_PER_INCH)),
+  };
+};
+
+const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace("#", "").slice(0, 6), 16);
+  return Number.isNaN(value) ? [255, 255, 255] : [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const intersect = (a: Box, b: Box): Box => {
+  const x = Math.max(a.x, b.x);
+  const y = Math.max(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(0, Math.min(a.x + a.width, b.x + b.width) - x),
+    height: Math.max(0, Math.min(a.y + a.height, b.y + b.height) - y),
+  };
+};
+
+const inset = (box: Box, left: number, right: number, top: number, bottom: number): Box => ({
+  x: box.x + left,
+  y: box.y + bottom,
+  width: box.width - left - right,
+  height: box.height - top - bottom,
+});
+
+/**
+ * Lays out the cover and content pages at a KDP trim size and writes a PDF.
+ * Art on full-bleed pages extends into the bleed; all text is kept inside the
+ * safe zone and anything that cannot fit is reported as a warning. Content
+ * pages follow their page templates (the PDF's one font stands in for the
+ * template's font family). Spreads
+ * take two pages each, always verso then recto, since the cover is page 1.
+ */
+export const buildPdf = async (ebook: Ebook, options: PdfOptions = DEFAULT_PDF_OPTIONS): Promise<PdfResult> => {
+  const trim = KDP_TRIM_SIZES.find(t => t.id === options.trimSizeId) || KDP_TRIM_SIZES[0];
+  const trimWidth = trim.width * POINTS_PER_INCH;
+  const trimHeight = trim.height * POINTS_PER_INCH;
+  const pageWidth = options.bleed ? trimWidth + BLEED : trimWidth;
+  const pageHeight = options.bleed ? trimHeight + BLEED * 2 : trimHeight;
+  // KDP asks for a larger outside margin when the book has bleed
+  const outside = (options.bleed ? 0.375 : 0.25) * POINTS_PER_INCH;
+
+  const doc = createPdfDocument();
+  const warnings: PdfWarning[] = [];
+
+  let font: PdfFont;
+  if (options.font) {
+    try {
+      font = doc.addTrueTypeFont(parseTrueType(options.font));
+    } catch (e) {
+      console.warn("Falling back to Helvetica", e);
+      warnings.push({ page: null, message: `Font could not be embedded (${(e as Error).message}). Helvetica is referenced instead; KDP requires embedded fonts.` });
+      font = doc.addStandardFont();
+    }
+  } else {
+    warnings.push({ page: null, message: "No font file provided. Helvetica is referenced but not embedded; KDP requires embedded fonts." });
+    font = doc.addStandardFont();
+  }
+
+  // Page geometry: bleed goes off the top, bottom and outside edge only.
+  // Odd pages are recto (spine on the left), even pages verso (spine on the right).
+  const newPage = (pageNumber: number) => {
+    const recto = pageNumber % 2 === 1;
+    const trimBox: Box = {
+      x: options.bleed && !recto ? BLEED : 0,
+      y: options.bleed ? BLEED : 0,
+      width: trimWidth,
+      height: trimHeight,
+    };
+    const page = doc.addPage(pageWidth, pageHeight, {
+      trimBox,
+      bleedBox: { x: 0, y: 0, width: pageWidth, height: pageHeight },
+    });
+    const safe = recto
+      ? inset(trimBox, GUTTER, outside, outside, outside)
+      : inset(trimBox, outside, GUTTER, outside, outside);
+    // Full-bleed art: from the spine edge of the trim out to the bleed edges
+    const bleedArea: Box = options.bleed
+      ? { x: recto ? trimBox.x : 0, y: 0, width: trimWidth + BLEED, height: pageHeight }
+      : trimBox;
+    return { page, trimBox, safe, bleedArea };
+  };
+
+  const checkDpi = (sourceDpi: number, pageNumber: number) => {
+    if (sourceDpi < 150) {
+      warnings.push({ page: pageNumber, message: `Artwork is only ~${Math.round(sourceDpi)} DPI at this trim size and may print blurry.` });
+    }
+  };
+
+  const drawPageNumber = (page: PdfPage, safe: Box, label: string) => {
+    if (!options.pageNumbers) return;
+    const size = 9;
+    page.drawText(font, label, safe.x + (safe.width - font.measure(label, size)) / 2, safe.y, size, MUTED_COLOR);
+  };
+  const pageNumberSpace = options.pageNumbers ? 20 : 0;
+
+  // PAGE 1: COVER
+  {
+    const { page, trimBox, safe, bleedArea } = newPage(1);
+    const artBottom = trimBox.y + trimHeight * 0.25;
+    if (ebook.coverImage) {
+      const artBox: Box = options.bleed
+        ? { x: bleedArea.x, y: artBottom, width: bleedArea.width, height: pageHeight - artBottom }
+        : { ...safe, y: artBottom, height: safe.y + safe.height - artBottom };
+      const { image, sourceDpi } = await embedImage(doc, ebook.coverImage, artBox);
+      page.drawImage(image, artBox);
+      checkDpi(sourceDpi, 1);
+    } else {
+      warnings.push({ page: 1, message: "Cover has no artwork." });
+    }
+
+    const textArea: Box = { x: safe.x, y: safe.y, width: safe.width, height: artBottom - safe.y - 12 };
+    const titleBox: Box = { ...textArea, y: textArea.y + textArea.height * 0.35, height: textArea.height * 0.65 };
+    const authorBox: Box = { ...textArea, height: textArea.height * 0.35 };
+    const title = fitText(font, (ebook.storyTitle || "Untitled Story").toUpperCase(), titleBox, 40, 14);
+    drawCenteredLines(page, font, title, titleBox, TITLE_COLOR);
+    if (!title.fits) warnings.push({ page: 1, message: "Title does not fit inside the safe zone; shorten it." });
+    if (ebook.author) {
+      const author = fitText(font, ebook.author, authorBox, 16, 9);
+      drawCenteredLines(page, font, author, authorBox, MUTED_COLOR);
+      if (!author.fits) warnings.push({ page: 1, message: "Author line does not fit inside the safe zone." });
+    }
+  }
+
+  // CONTENT PAGES
+  const layoutStyle = ebook.layoutStyle || "STORYBOOK";
+  const contentPages = getContentPages(ebook.panels, layoutStyle);
+  const spreads = usesSpreads(ebook.pageFormat, layoutStyle);
+  let pageNumber = 1;
+  for (let index = 0; index < contentPages.length; index++) {
+    pageNumber += 1;
+    if (spreads) {
+      const panel = contentPages[index].panels[0];
+      const left = newPage(pageNumber);
+      const right = newPage(pageNumber + 1);
+      if (panel.imageUrl) {
+        const { verso, recto, sourceDpi } = await embedSpread(doc, panel.imageUrl, left.bleedArea);
+        left.page.drawImage(verso, left.bleedArea);
+        right.page.drawImage(recto, right.bleedArea);
+        checkDpi(sourceDpi, pageNumber);
+      } else {
+        warnings.push({ page: pageNumber, message: "Spread has no artwork." });
+      }
+      // The caption sits on a white band on the recto, clear of the fold
+      const band: Box = { ...right.safe, x: right.safe.x + right.safe.width * 0.1, width: right.safe.width * 0.8, height: right.safe.height * 0.22 };
+      right.page.fillRect(band, [255, 255, 255]);
+      const captionBox = inset(band, 10, 10, 10, 10);
+      const caption = fitText(font, panel.caption, captionBox, 18, 10);
+      drawCenteredLines(right.page, font, caption, captionBox, TEXT_COLOR);
+      if (!caption.fits) warnings.push({ page: pageNumber + 1, message: "Caption overflows its band; shorten it." });
+      pageNumber += 1;
+      continue;
+    }
+
+    const label = `Page ${pageNumber - 1}`;
+    const { page, safe, bleedArea } = newPage(pageNumber);
+    const textSafe: Box = { ...safe, y: safe.y + pageNumberSpace, height: safe.height - pageNumberSpace };
+    const { template, panels } = contentPages[index];
+    if (template.background.toLowerCase() !== "#ffffff") {
+      page.fillRect({ x: 0, y: 0, width: pageWidth, height: pageHeight }, hexToRgb(template.background));
+    }
+    // Full-bleed art runs into the bleed; everything else stays in the safe zone
+    const area = template.fullBleed ? bleedArea : textSafe;
+    const gap = template.gap * trimWidth;
+    const fontSize = template.font.size * trimWidth;
+    const fontColor = hexToRgb(template.font.color);
+    const single = panels.length === 1;
+
+    for (const slot of template.slots) {
+      const panel: Panel | undefined = panels[slot.panel];
+      if (!panel) continue;
+      const rect = slotRect(template, slot, area.width, area.height, gap);
+      // Template rects are top-down; PDF boxes are bottom-up
+      const box: Box = { x: area.x + rect.x, y: area.y + area.height - rect.y - rect.height, width: rect.width, height: rect.height };
+
+      if (slot.kind === "image") {
+        if (panel.imageUrl) {
+          const { image, sourceDpi } = await embedImage(doc, panel.imageUrl, box);
+          page.drawImage(image, box);
+          checkDpi(sourceDpi, pageNumber);
+        } else {
+          warnings.push({ page: pageNumber, message: single ? "Page has no artwork." : `Panel ${slot.panel + 1} has no artwork.` });
+        }
+        if (template.borders) page.strokeRect(box, CELL_BORDER, 0.75);
+        continue;
+      }
+
+      let textBox = template.fullBleed ? intersect(box, textSafe) : inset(box, 4, 4, 4, 4);
+      if (slot.band) {
+        // Same band the editor draws: the bottom (or top) 30% of the slot
+        const height = textBox.height * 0.3;
+        textBox = { ...textBox, y: slot.align === "start" ? textBox.y + textBox.height - height : textBox.y, height };
+        page.fillRect(textBox, [255, 255, 255]);
+        textBox = inset(textBox, 10, 10, 10, 10);
+      }
+      const caption = fitText(font, panel.caption, textBox, fontSize, Math.max(6, fontSize / 2));
+      drawCenteredLines(page, font, caption, textBox, fontColor);
+      if (!caption.fits) {
+        warnings.push({ page: pageNumber, message: single ? "Caption overflows the safe zone; shorten it." : `Caption of panel ${slot.panel + 1} overflows its box; shorten it.` });
+      }
+    }
+
+    drawPageNumber(page, safe, label);
+  }
+
+  return {
+    blob: doc.save(ebook.storyTitle || "Untitled Story", ebook.author || "", ebook.language),
+    pageCount: pageNumber,
+    warnings,
+  };
+};
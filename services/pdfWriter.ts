@@ -0,0 +1,246 @@
+import { TrueTypeFont } from "./trueType";
+
+/**
+ * Minimal PDF 1.4 writer: JPEG images, one TrueType (or standard) font with
+ * WinAnsi encoding, rectangles and single-line text. Coordinates are in
+ * points with the origin at the bottom-left, as in PDF itself.
+ */
+
+export type RGB = [number, number, number];
+
+export interface PdfFont {
+  resourceName: string;
+  embedded: boolean;
+  measure: (text: string, size: number) => number;
+  ascent: number;
+  descent: number;
+}
+
+export interface PdfImage {
+  resourceName: string;
+  width: number;
+  height: number;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PdfPage {
+  drawImage: (image: PdfImage, box: Box) => void;
+  fillRect: (box: Box, color: RGB) => void;
+  strokeRect: (box: Box, color: RGB, lineWidth?: number) => void;
+  drawText: (font: PdfFont, text: string, x: number, y: number, size: number, color?: RGB) => void;
+  // Raw operators for shapes the helpers above don't cover.
+  appendOperators: (operators: string) => void;
+}
+
+export interface PageBoxes {
+  trimBox?: Box;
+  bleedBox?: Box;
+}
+
+// Unicode -> WinAnsi byte for the 0x80-0x9F range (smart quotes, dashes, ...)
+const WIN_ANSI_EXTRAS: Record<number, number> = {
+  0x20ac: 0x80, 0x201a: 0x82, 0x0192: 0x83, 0x201e: 0x84, 0x2026: 0x85, 0x2020: 0x86, 0x2021: 0x87,
+  0x02c6: 0x88, 0x2030: 0x89, 0x0160: 0x8a, 0x2039: 0x8b, 0x0152: 0x8c, 0x017d: 0x8e, 0x2018: 0x91,
+  0x2019: 0x92, 0x201c: 0x93, 0x201d: 0x94, 0x2022: 0x95, 0x2013: 0x96, 0x2014: 0x97, 0x02dc: 0x98,
+  0x2122: 0x99, 0x0161: 0x9a, 0x203a: 0x9b, 0x0153: 0x9c, 0x017e: 0x9e, 0x0178: 0x9f,
+};
+const WIN_ANSI_TO_UNICODE: Record<number, number> = Object.fromEntries(
+  Object.entries(WIN_ANSI_EXTRAS).map(([unicode, code]) => [code, Number(unicode)])
+);
+
+const toWinAnsi = (codePoint: number): number => {
+  if ((codePoint >= 0x20 && codePoint < 0x7f) || (codePoint >= 0xa0 && codePoint <= 0xff)) return codePoint;
+  return WIN_ANSI_EXTRAS[codePoint] ?? 0x3f; // '?'
+};
+
+const encodeWinAnsi = (text: string): number[] => Array.from(text).map(ch => toWinAnsi(ch.codePointAt(0)!));
+
+// Helvetica advance widths for ASCII 32-126 (from the standard AFM)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const num = (n: number) => (Math.round(n * 1000) / 1000).toString();
+const color = (c: RGB) => c.map(v => num(v / 255)).join(" ");
+const boxArray = (b: Box) => `[${num(b.x)} ${num(b.y)} ${num(b.x + b.width)} ${num(b.y + b.height)}]`;
+
+const pdfString = (bytes: number[]) => {
+  let out = "(";
+  for (const b of bytes) {
+    if (b === 0x28 || b === 0x29 || b === 0x5c) out += "\\" + String.fromCharCode(b);
+    else out += String.fromCharCode(b);
+  }
+  return out + ")";
+};
+
+const latin1 = (text: string): Uint8Array => {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+export const createPdfDocument = () => {
+  const objects: (Uint8Array[] | null)[] = [];
+  const pageRefs: number[] = [];
+  let imageCount = 0;
+  let fontCount = 0;
+
+  const reserve = () => {
+    objects.push(null);
+    return objects.length;
+  };
+
+  const setObject = (ref: number, body: string, stream?: Uint8Array) => {
+    objects[ref - 1] = stream
+      ? [latin1(`${ref} 0 obj\n${body}\nstream\n`), stream, latin1(`\nendstream\nendobj\n`)]
+      : [latin1(`${ref} 0 obj\n${body}\nendobj\n`)];
+  };
+
+  const addObject = (body: string, stream?: Uint8Array) => {
+    const ref = reserve();
+    setObject(ref, body, stream);
+    return ref;
+  };
+
+  const catalogRef = reserve();
+  const pagesRef = reserve();
+  const fontRefs = new Map<string, number>();
+  const imageRefs = new Map<string, number>();
+  const finalizers: (() => void)[] = [];
+
+  const addJpeg = (bytes: Uint8Array, width: number, height: number): PdfImage => {
+    const resourceName = `Im${++imageCount}`;
+    const ref = addObject(
+      `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${bytes.length} >>`,
+      bytes
+    );
+    imageRefs.set(resourceName, ref);
+    return { resourceName, width, height };
+  };
+
+  const addStandardFont = (): PdfFont => {
+    const resourceName = `F${++fontCount}`;
+    fontRefs.set(resourceName, addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>`));
+    return {
+      resourceName,
+      embedded: false,
+      ascent: 718,
+      descent: -207,
+      measure: (text, size) => encodeWinAnsi(text)
+        .reduce((sum, code) => sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556), 0) * size / 1000,
+    };
+  };
+
+  const addTrueTypeFont = (font: TrueTypeFont): PdfFont => {
+    const resourceName = `F${++fontCount}`;
+    const widths: number[] = [];
+    for (let code = 32; code <= 255; code++) {
+      widths.push(font.advanceWidth(WIN_ANSI_TO_UNICODE[code] ?? code));
+    }
+    const fileRef = addObject(`<< /Length ${font.bytes.length} /Length1 ${font.bytes.length} >>`, font.bytes);
+    const descriptorRef = addObject(`<< /Type /FontDescriptor /FontName /${font.postScriptName} /Flags 32 /FontBBox [${font.bbox.join(" ")}] /ItalicAngle 0 /Ascent ${font.ascent} /Descent ${font.descent} /CapHeight ${font.capHeight} /StemV 80 /FontFile2 ${fileRef} 0 R >>`);
+    fontRefs.set(resourceName, addObject(`<< /Type /Font /Subtype /TrueType /BaseFont /${font.postScriptName} /FirstChar 32 /LastChar 255 /Widths [${widths.join(" ")}] /Encoding /WinAnsiEncoding /FontDescriptor ${descriptorRef} 0 R >>`));
+    return {
+      resourceName,
+      embedded: true,
+      ascent: font.ascent,
+      descent: font.descent,
+      measure: (text, size) => encodeWinAnsi(text)
+        .reduce((sum, code) => sum + (code >= 32 ? widths[code - 32] : 0), 0) * size / 1000,
+    };
+  };
+
+  const addPage = (width: number, height: number, boxes: PageBoxes = {}): PdfPage => {
+    const ops: string[] = [];
+    const usedImages = new Set<string>();
+    const usedFonts = new Set<string>();
+    const pageRef = reserve();
+    const contentRef = reserve();
+    pageRefs.push(pageRef);
+
+    const page: PdfPage = {
+      drawImage: (image, box) => {
+        usedImages.add(image.resourceName);
+        ops.push(`q ${num(box.width)} 0 0 ${num(box.height)} ${num(box.x)} ${num(box.y)} cm /${image.resourceName} Do Q`);
+      },
+      fillRect: (box, fill) => {
+        ops.push(`q ${color(fill)} rg ${num(box.x)} ${num(box.y)} ${num(box.width)} ${num(box.height)} re f Q`);
+      },
+      strokeRect: (box, stroke, lineWidth = 1) => {
+        ops.push(`q ${color(stroke)} RG ${num(lineWidth)} w ${num(box.x)} ${num(box.y)} ${num(box.width)} ${num(box.height)} re S Q`);
+      },
+      drawText: (font, text, x, y, size, fill = [0, 0, 0]) => {
+        usedFonts.add(font.resourceName);
+        ops.push(`BT ${color(fill)} rg /${font.resourceName} ${num(size)} Tf ${num(x)} ${num(y)} Td ${pdfString(encodeWinAnsi(text))} Tj ET`);
+      },
+      appendOperators: (operators) => {
+        ops.push(operators);
+      },
+    };
+
+    // Page objects are finalised lazily in save() so drawing can happen in any order.
+    finalizers.push(() => {
+      const stream = latin1(ops.join("\n"));
+      setObject(contentRef, `<< /Length ${stream.length} >>`, stream);
+      const fonts = Array.from(usedFonts).map(n => `/${n} ${fontRefs.get(n)} 0 R`).join(" ");
+      const images = Array.from(usedImages).map(n => `/${n} ${imageRefs.get(n)} 0 R`).join(" ");
+      const media: Box = { x: 0, y: 0, width, height };
+      setObject(pageRef, `<< /Type /Page /Parent ${pagesRef} 0 R /MediaBox ${boxArray(media)}`
+        + (boxes.bleedBox ? ` /BleedBox ${boxArray(boxes.bleedBox)}` : "")
+        + (boxes.trimBox ? ` /TrimBox ${boxArray(boxes.trimBox)}` : "")
+        + ` /Resources << /Font << ${fonts} >> /XObject << ${images} >> >> /Contents ${contentRef} 0 R >>`);
+    });
+
+    return page;
+  };
+
+  // `language` is a BCP 47 tag, declared for screen readers and store checks
+  const save = (title: string, author: string, language = "en"): Blob => {
+    finalizers.forEach(f => f());
+    setObject(pagesRef, `<< /Type /Pages /Kids [${pageRefs.map(r => `${r} 0 R`).join(" ")}] /Count ${pageRefs.length} >>`);
+    setObject(catalogRef, `<< /Type /Catalog /Pages ${pagesRef} 0 R /Lang ${pdfString(encodeWinAnsi(language))} >>`);
+    const infoRef = addObject(`<< /Title ${pdfString(encodeWinAnsi(title))} /Author ${pdfString(encodeWinAnsi(author))} /Producer (RedditToon Studio) >>`);
+
+    const header = latin1("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n");
+    const chunks: Uint8Array[] = [header];
+    const offsets: number[] = [];
+    let position = header.length;
+    objects.forEach(parts => {
+      offsets.push(position);
+      for (const part of parts || []) {
+        chunks.push(part);
+        position += part.length;
+      }
+    });
+
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f ",
+      ...offsets.map(o => `${String(o).padStart(10, "0")} 00000 n `),
+      "trailer",
+      `<< /Size ${objects.length + 1} /Root ${catalogRef} 0 R /Info ${infoRef} 0 R >>`,
+      "startxref",
+      String(position),
+      "%%EOF",
+    ].join("\n");
+    chunks.push(latin1(xref));
+
+    return new Blob(chunks, { type: "application/pdf" });
+  };
+
+  return { addJpeg, addStandardFont, addTrueTypeFont, addPage, save };
+};
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
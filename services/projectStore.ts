@@ -0,0 +1,72 @@
+import { Project } from "../types";
+import { openDatabase, requestToPromise, withStore } from "./idb";
+
+const DB_NAME = "reddittoon-projects";
+const DB_VERSION = 1;
+const STORE = "projects";
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(STORE)) {
+    const store = db.createObjectStore(STORE, { keyPath: "id" });
+    store.createIndex("updatedAt", "updatedAt");
+  }
+});
+
+export const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * In-flight generation flags must never be persisted, otherwise a reopened
+ * project would show spinners for jobs that no longer exist.
+ */
+const sanitize = (project: Project): Project => ({
+  ...project,
+  panels: project.panels.map(p => ({ ...p, isGenerating: false })),
+});
+
+/**
+ * Inserts or replaces a project, bumping its updatedAt timestamp.
+ */
+export const saveProject = async (project: Project): Promise<Project> => {
+  const db = await getDb();
+  const record = sanitize({ ...project, updatedAt: Date.now() });
+  await withStore(db, STORE, "readwrite", store => requestToPromise(store.put(record)));
+  return record;
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const db = await getDb();
+  const record = await withStore(db, STORE, "readonly", store => requestToPromise(store.get(id)));
+  return (record as Project | undefined) || null;
+};
+
+/**
+ * Lists all saved projects, most recently edited first.
+ */
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await getDb();
+  const all = await withStore(db, STORE, "readonly", store => requestToPromise(store.getAll()));
+  return (all as Project[]).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await getDb();
+  await withStore(db, STORE, "readwrite", store => requestToPromise(store.delete(id)));
+};
+
+/**
+ * Copies a project under a new id so it can be branched without touching the original.
+ */
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const original = await getProject(id);
+  if (!original) {
+    throw new Error("Project not found.");
+  }
+  const now = Date.now();
+  return saveProject({
+    ...original,
+    id: createProjectId(),
+    title: `${original.title} (Copy)`,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
@@ -0,0 +1,103 @@
+import { TtsProvider } from "../tts";
+import { estimateWordTimings, tokenizeWords, wordAt } from "../wordTimings";
+import { createAbortError } from "../jobQueue";
+
+/**
+ * Narration with the browser's built-in voices (Web Speech API). The browser
+ * plays speech straight to the speakers and can't hand back the audio, so
+ * this backend is live: synthesize only estimates the timings, and the text
+ * is spoken again each time it is played. Word boundary events drive the
+ * highlighting where the voice reports them.
+ */
+
+// Typical narration pace at rate 1, for the estimates
+const WORDS_PER_MINUTE = 160;
+const VOICES_TIMEOUT_MS = 1000;
+
+const isSupported = () => typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Chrome loads its voice list asynchronously
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+  return new Promise(resolve => {
+    const done = () => {
+      window.speechSynthesis.removeEventListener("voiceschanged", done);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener("voiceschanged", done);
+    setTimeout(done, VOICES_TIMEOUT_MS);
+  });
+};
+
+export const browserSpeechProvider: TtsProvider = {
+  id: "browser",
+  label: "Browser voices (live)",
+  requiresApiKey: false,
+  live: true,
+  isAvailable: isSupported,
+
+  listVoices: async () => (await loadVoices()).map(voice => ({
+    id: voice.voiceURI,
+    label: `${voice.name} (${voice.lang})`,
+    language: voice.lang,
+  })),
+
+  synthesize: async ({ text, rate }) => {
+    const tokens = tokenizeWords(text);
+    const pauses = tokens.filter(t => /[.!?…,;:]["”’)]*$/.test(t.word)).length;
+    const duration = (tokens.length * 60) / (WORDS_PER_MINUTE * rate) + pauses * 0.25 + 0.3;
+    return { duration, words: estimateWordTimings(text, duration) };
+  },
+
+  speak: async ({ text, voice, rate, signal, onWord }) => {
+    if (signal?.aborted) throw createAbortError();
+    const synth = window.speechSynthesis;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.rate = rate;
+    const match = (await loadVoices()).find(v => v.voiceURI === voice);
+    if (match) {
+      utterance.voice = match;
+      utterance.lang = match.lang;
+    }
+
+    const tokens = tokenizeWords(text);
+    const estimate = await browserSpeechProvider.synthesize({ text, rate });
+    // Voices without boundary events fall back to the estimated timings
+    let boundaries = false;
+    let startedAt = 0;
+    let timer: ReturnType<typeof setInterval> | undefined;
+
+    await new Promise<void>((resolve, reject) => {
+      const abort = () => {
+        synth.cancel();
+        reject(createAbortError());
+      };
+      signal?.addEventListener("abort", abort, { once: true });
+      utterance.onstart = () => {
+        startedAt = performance.now();
+        timer = setInterval(() => {
+          if (!boundaries) onWord(wordAt(estimate.words, (performance.now() - startedAt) / 1000));
+        }, 50);
+      };
+      utterance.onboundary = (e) => {
+        if (e.name !== "word") return;
+        boundaries = true;
+        const index = tokens.findIndex(t => e.charIndex < t.to);
+        if (index >= 0) onWord(index);
+      };
+      utterance.onend = () => {
+        signal?.removeEventListener("abort", abort);
+        resolve();
+      };
+      utterance.onerror = (e) => {
+        signal?.removeEventListener("abort", abort);
+        if (e.error === "canceled" || e.error === "interrupted") reject(createAbortError());
+        else reject(new Error(`Speech failed: ${e.error}`));
+      };
+      // Anything still queued (e.g. from a previous page) would play first
+      synth.cancel();
+      synth.speak(utterance);
+    }).finally(() => clearInterval(timer));
+  },
+};
@@ -0,0 +1,108 @@
+import { GoogleGenAI } from "@google/genai";
+import { AiProvider } from "../aiProvider";
+import { parseDataUrl } from "../imageData";
+
+// Models
+const TEXT_MODEL = "gemini-2.5-flash"; // Good for search and logic
+const IMAGE_MODEL = "gemini-2.5-flash-image"; // "Nano Banana" for images
+const ANALYSIS_MODEL = "gemini-3-pro-preview"; // "Pro" for complex reasoning and multimodal analysis
+
+// Helper to get fresh client with latest key
+const getAiClient = () => {
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+const inlineImagePart = (dataUrl: string) => {
+  const { mimeType, base64 } = parseDataUrl(dataUrl);
+  return { inlineData: { mimeType, data: base64 } };
+};
+
+const extractImage = (response: any, errorMessage: string): string => {
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData) {
+      return `data:image/png;base64,${part.inlineData.data}`;
+    }
+  }
+  throw new Error(errorMessage);
+};
+
+export const geminiProvider: AiProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  requiresApiKey: true,
+  models: { text: TEXT_MODEL, analysis: ANALYSIS_MODEL, image: IMAGE_MODEL },
+
+  generateText: async ({ prompt, tier, search, signal }) => {
+    const response = await getAiClient().models.generateContent({
+      model: tier === "analysis" ? ANALYSIS_MODEL : TEXT_MODEL,
+      contents: prompt,
+      config: {
+        tools: search ? [{ googleSearch: {} }] : undefined,
+        abortSignal: signal,
+      },
+    });
+    return response.text || "";
+  },
+
+  generateJson: async <T>({ prompt, tier, schema, signal }: Parameters<AiProvider["generateJson"]>[0]) => {
+    const response = await getAiClient().models.generateContent({
+      model: tier === "analysis" ? ANALYSIS_MODEL : TEXT_MODEL,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        abortSignal: signal,
+      }
+    });
+    return JSON.parse(response.text || "{}") as T;
+  },
+
+  analyze: async <T>({ prompt, images, schema, tier, signal }: Parameters<AiProvider["analyze"]>[0]) => {
+    const parts: any[] = images.map(inlineImagePart);
+    parts.push({ text: prompt });
+
+    const response = await getAiClient().models.generateContent({
+      model: tier === "text" ? TEXT_MODEL : ANALYSIS_MODEL,
+      contents: { parts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: schema,
+        abortSignal: signal,
+      }
+    });
+    return JSON.parse(response.text || "{}") as T;
+  },
+
+  generateImage: async ({ prompt, aspectRatio, referenceImages = [], signal }) => {
+    // 2.5 Flash Image works best with clear, descriptive prompts.
+    const parts: any[] = referenceImages.map(inlineImagePart);
+    parts.push({ text: prompt });
+
+    const response = await getAiClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: { parts },
+      config: {
+        imageConfig: {
+          aspectRatio,
+        },
+        abortSignal: signal,
+      }
+    });
+    return extractImage(response, "No image data returned.");
+  },
+
+  editImage: async ({ image, prompt, mask, signal }) => {
+    const response = await getAiClient().models.generateContent({
+      model: IMAGE_MODEL,
+      contents: {
+        parts: [
+          inlineImagePart(image),
+          ...(mask ? [inlineImagePart(mask)] : []),
+          { text: prompt }
+        ]
+      },
+      config: { abortSignal: signal },
+    });
+    return extractImage(response, "No edited image returned.");
+  },
+};
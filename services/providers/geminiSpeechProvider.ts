@@ -0,0 +1,57 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import { TtsProvider } from "../tts";
+import { pcmToWavDataUrl } from "../audioData";
+import { estimateWordTimings } from "../wordTimings";
+
+/**
+ * Narration with Gemini's speech model. It returns raw 16-bit PCM and no
+ * word boundaries, so clips are wrapped as WAV and the timings estimated.
+ */
+
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+const SAMPLE_RATE = 24000;
+
+const VOICES = [
+  { id: "Kore", label: "Kore (firm)" },
+  { id: "Puck", label: "Puck (upbeat)" },
+  { id: "Aoede", label: "Aoede (breezy)" },
+  { id: "Charon", label: "Charon (informative)" },
+  { id: "Leda", label: "Leda (youthful)" },
+  { id: "Fenrir", label: "Fenrir (excitable)" },
+];
+
+const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+// The model takes delivery instructions in the prompt rather than a rate setting
+const pace = (rate: number) => rate < 0.9 ? "slowly and warmly" : rate > 1.1 ? "briskly" : "warmly";
+
+export const geminiSpeechProvider: TtsProvider = {
+  id: "gemini",
+  label: "Google Gemini",
+  requiresApiKey: true,
+  live: false,
+  isAvailable: () => true,
+
+  listVoices: async () => VOICES,
+
+  synthesize: async ({ text, voice, rate, signal }) => {
+    const response = await getAiClient().models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: `Read aloud ${pace(rate)}, like a picture book narrator: ${text}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice || VOICES[0].id } } },
+        abortSignal: signal,
+      },
+    });
+    const data = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData?.data;
+    if (!data) throw new Error("No audio was returned");
+    const raw = window.atob(data);
+    const samples = new Int16Array(Math.floor(raw.length / 2));
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = raw.charCodeAt(i * 2) | (raw.charCodeAt(i * 2 + 1) << 8);
+    }
+    const duration = samples.length / SAMPLE_RATE;
+    return { audioUrl: pcmToWavDataUrl(samples, SAMPLE_RATE), duration, words: estimateWordTimings(text, duration) };
+  },
+};
@@ -0,0 +1,17 @@
+import { registerAiProvider } from "../aiProvider";
+import { registerTtsProvider } from "../tts";
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { browserSpeechProvider } from "./browserSpeechProvider";
+import { geminiSpeechProvider } from "./geminiSpeechProvider";
+import { stubSpeechProvider } from "./stubSpeechProvider";
+
+// Every backend the app can switch between at runtime
+registerAiProvider(geminiProvider);
+registerAiProvider(mockProvider);
+
+registerTtsProvider(browserSpeechProvider);
+registerTtsProvider(geminiSpeechProvider);
+registerTtsProvider(stubSpeechProvider);
+
+export { geminiProvider, mockProvider };
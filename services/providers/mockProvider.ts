@@ -0,0 +1,312 @@
+import { AiProvider, AiTask } from "../aiProvider";
+
+/**
+ * Deterministic offline backend. Returns canned stories, scripts and analysis,
+ * and draws placeholder art locally, so the whole StoryFinder -> EbookCreator
+ * flow works with no network or API key. The same inputs always give the same outputs.
+ */
+
+const LATENCY_MS = 400;
+
+const CANNED_STORIES = [
+  {
+    title: "The Cat Who Ran the Front Desk",
+    summary: "A hotel's new night clerk discovers the resident cat has been quietly checking in guests for years. When the manager tries to evict it, the guests stage a revolt.",
+    source: "Reddit r/TalesFromTheFrontDesk (offline demo)",
+  },
+  {
+    title: "My Neighbour's Gnome Keeps Moving",
+    summary: "Every morning the garden gnome next door is one step closer to my window. The truth turns out to be a very patient grandpa and a very long prank.",
+    source: "Reddit r/PettyRevenge (offline demo)",
+  },
+  {
+    title: "The Kid Who Returned a Library Book 40 Years Late",
+    summary: "A boy finds an overdue library book in his grandmother's attic and sets out to return it. The librarian has been waiting for it longer than he's been alive.",
+    source: "Reddit r/FeelGood (offline demo)",
+  },
+  {
+    title: "Malicious Compliance at the Science Fair",
+    summary: "Told to 'use only materials found at home', a kid brings the whole kitchen. The judges have never seen a volcano like it.",
+    source: "Reddit r/MaliciousCompliance (offline demo)",
+  },
+  {
+    title: "The Lighthouse That Blinked Back",
+    summary: "A lonely lighthouse keeper starts flashing messages to passing ships. One night, a ship flashes back.",
+    source: "Reddit r/NoSleep (offline demo)",
+  },
+];
+
+const STORY_BEATS = [
+  { action: "Wide establishing shot of the main setting at dawn, warm light, the hero small in frame.", caption: "It all started on a perfectly ordinary morning.",
+    dialogue: [{ kind: "narration", text: "Early one morning..." }] },
+  { action: "Close-up of the hero noticing something strange, eyebrows raised, curious expression.", caption: "But then something caught their eye.",
+    dialogue: [{ kind: "thought", speaker: "Hero", text: "Wait... what is that?" }] },
+  { action: "The hero investigates, tiptoeing forward, long shadows, sense of mystery.", caption: "They just had to find out what it was.",
+    dialogue: [{ kind: "sfx", text: "creak" }] },
+  { action: "A surprising reveal, the mystery object or character in full view, dramatic lighting.", caption: "Nobody could have guessed what came next!",
+    dialogue: [{ kind: "shout", speaker: "Hero", text: "No way!" }] },
+  { action: "The hero and a friend make a plan around a table covered in drawings.", caption: "So they came up with a brilliant plan.",
+    dialogue: [{ kind: "speech", speaker: "Friend", text: "Okay, here's the plan." }, { kind: "speech", speaker: "Hero", text: "I love it already!" }] },
+  { action: "The plan goes hilariously wrong, objects flying, comic motion lines.", caption: "Of course, it didn't go quite as planned...",
+    dialogue: [{ kind: "sfx", text: "crash!" }, { kind: "shout", speaker: "Friend", text: "Duck!" }] },
+  { action: "The hero stands tall, determined, wind in their hair, sunset behind them.", caption: "But they refused to give up.",
+    dialogue: [{ kind: "speech", speaker: "Hero", text: "We're not done yet." }] },
+  { action: "A heartwarming celebration with everyone together, confetti, big smiles.", caption: "And in the end, everyone learned something wonderful.",
+    dialogue: [{ kind: "speech", speaker: "Friend", text: "Best. Day. Ever." }] },
+];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a: small, stable string hash for picking canned content and colours
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+const asNumber = (value: unknown, fallback: number) => (typeof value === "number" && value > 0 ? value : fallback);
+const asString = (value: unknown, fallback: string) => (typeof value === "string" && value ? value : fallback);
+
+const ASPECT_SIZES: Record<string, [number, number]> = {
+  "1:1": [768, 768],
+  "3:4": [768, 1024],
+  "4:3": [1024, 768],
+  "2:3": [683, 1024],
+  "3:2": [1024, 683],
+  "9:16": [576, 1024],
+  "16:9": [1024, 576],
+};
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number) => {
+  const words = text.split(/\s+/);
+  const lines: string[] = [];
+  let line = "";
+  for (const word of words) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+      if (lines.length === maxLines) break;
+    } else {
+      line = candidate;
+    }
+  }
+  if (lines.length < maxLines && line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Draws a placeholder illustration: a gradient derived from the prompt hash,
+ * a few shapes, and the start of the prompt as a label.
+ */
+const placeholderImage = (prompt: string, aspectRatio: string, label: string): string => {
+  const [width, height] = ASPECT_SIZES[aspectRatio] || ASPECT_SIZES["1:1"];
+  const seed = hash(prompt);
+  const hue = seed % 360;
+
+  if (typeof document === "undefined") {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"><rect width="100%" height="100%" fill="hsl(${hue},70%,60%)"/></svg>`;
+    return `data:image/svg+xml;base64,${btoa(svg)}`;
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 65%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 70%, 40%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < 6; i++) {
+    const r = (seed >> (i * 4)) & 0xff;
+    ctx.fillStyle = `hsla(${(hue + i * 40) % 360}, 80%, 80%, 0.35)`;
+    ctx.beginPath();
+    ctx.arc((r * 7 + i * 131) % width, (r * 13 + i * 97) % height, 40 + (r % 120), 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = "rgba(255,255,255,0.85)";
+  ctx.fillRect(0, height - 170, width, 170);
+  ctx.fillStyle = "#1e293b";
+  ctx.font = "bold 28px sans-serif";
+  ctx.fillText(label, 24, height - 130);
+  ctx.font = "20px sans-serif";
+  wrapLines(ctx, prompt.replace(/^.*Scene:\s*/, ""), width - 48, 3)
+    .forEach((line, i) => ctx.fillText(line, 24, height - 95 + i * 28));
+
+  return canvas.toDataURL("image/png");
+};
+
+const overlayEdit = async (image: string, prompt: string): Promise<string> => {
+  if (typeof document === "undefined") return image;
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const el = new Image();
+    el.onload = () => resolve(el);
+    el.onerror = () => reject(new Error("Could not load image"));
+    el.src = image;
+  });
+  const canvas = document.createElement("canvas");
+  canvas.width = img.width;
+  canvas.height = img.height;
+  const ctx = canvas.getContext("2d")!;
+  ctx.drawImage(img, 0, 0);
+  ctx.fillStyle = `hsla(${hash(prompt) % 360}, 80%, 50%, 0.25)`;
+  ctx.fillRect(0, 0, img.width, img.height);
+  ctx.fillStyle = "rgba(15,23,42,0.75)";
+  ctx.fillRect(0, 0, img.width, 48);
+  ctx.fillStyle = "#ffffff";
+  ctx.font = "bold 20px sans-serif";
+  ctx.fillText(`Edited: ${prompt}`.slice(0, 60), 16, 31);
+  return canvas.toDataURL("image/png");
+};
+
+const cannedJson = (task: AiTask, params: Record<string, unknown>): unknown => {
+  switch (task) {
+    case "createStory": {
+      const idea = asString(params.userPrompt, "A brand new adventure");
+      return {
+        title: `The Tale of ${idea.split(/\s+/).slice(0, 4).join(" ")}`,
+        summary: `${idea}. What follows is an unexpected adventure with a happy ending.`,
+      };
+    }
+    case "redditStory": {
+      const text = asString(params.selftext, "");
+      // First two sentences of the post stand in for a summary
+      const sentences = text.match(/[^.!?]+[.!?]+/g) || [text];
+      return {
+        title: asString(params.title, "A Story from Reddit"),
+        summary: sentences.slice(0, 2).join(" ").trim() || asString(params.title, ""),
+      };
+    }
+    case "script": {
+      const count = asNumber(params.panelCount, 6);
+      return {
+        visualStyle: `${asString(params.visualStyle, "Vibrant Digital Cartoon")}, soft lighting, bold outlines, saturated colours`,
+        characters: [
+          { name: "Hero", description: "small, round glasses, yellow raincoat, curly brown hair" },
+          { name: "Friend", description: "tall, striped scarf, big grin" },
+        ],
+        panels: Array.from({ length: count }, (_, i) => {
+          const beatIndex = Math.round((i * (STORY_BEATS.length - 1)) / Math.max(1, count - 1));
+          const beat = STORY_BEATS[beatIndex];
+          return { actionDescription: beat.action, caption: beat.caption, characters: beatIndex >= 4 ? ["Hero", "Friend"] : ["Hero"], dialogue: beat.dialogue };
+        }),
+      };
+    }
+    case "beat": {
+      // Step to the canned beat after the current one so each regeneration visibly changes
+      const current = STORY_BEATS.findIndex(b => b.action === params.current);
+      const beat = STORY_BEATS[(current >= 0 ? current + 1 : hash(asString(params.current, ""))) % STORY_BEATS.length];
+      return { actionDescription: beat.action, caption: beat.caption };
+    }
+    case "bridge": {
+      const previous = STORY_BEATS.findIndex(b => b.action === params.previous);
+      const beat = STORY_BEATS[(previous >= 0 ? previous + 1 : hash(asString(params.next, ""))) % STORY_BEATS.length];
+      return { actionDescription: `${beat.action} (a moment later)`, caption: beat.caption, characters: ["Hero"] };
+    }
+    case "split": {
+      const current = asString(params.current, "A scene from the story");
+      const caption = asString(params.caption, "");
+      const words = caption.split(/\s+/);
+      const half = Math.ceil(words.length / 2);
+      return {
+        beats: [
+          { actionDescription: `${current} Wide shot, the moment begins.`, caption: words.slice(0, half).join(" "), characters: ["Hero"] },
+          { actionDescription: `${current} Close-up, the moment lands.`, caption: words.slice(half).join(" "), characters: ["Hero"] },
+        ],
+      };
+    }
+    case "analysis":
+      return {
+        score: 7,
+        viralPotential: "High",
+        coherenceCheck: "The cartoon style suits the intended audience.",
+        critique: "Strong hook and a clear arc. The title could include a searchable keyword such as 'funny' or 'bedtime'.",
+        textQuality: "Captions are short and readable; a few could use more vivid verbs.",
+        visualQuality: "Consistent palette and characters (offline placeholder art).",
+        suggestions: ["Add a keyword to the title", "Brighten the cover colours", "End on a memorable line"],
+      };
+    case "refine": {
+      const panels = Array.isArray(params.panels) ? params.panels as { id: number; caption: string }[] : [];
+      return {
+        newTitle: `${asString(params.title, "Untitled Story")}: A Funny Story for Everyone`,
+        newSummary: asString(params.summary, ""),
+        refinedPanels: panels.map(p => ({ id: p.id, caption: `${p.caption.replace(/[.!?]*$/, "")}!` })),
+      };
+    }
+    case "pii":
+      // Canned stories have no real people; usernames are still caught by pattern
+      return { identifiers: [] };
+    case "safety":
+      // The offline backend relies on the local word lists alone
+      return { flags: [] };
+    case "translate": {
+      // Tagged rather than translated, so it's plain which text went through
+      const items = Array.isArray(params.items) ? params.items as { key: string; text: string }[] : [];
+      const tag = asString(params.language, "xx").toUpperCase();
+      return { translations: items.map(item => ({ key: item.key, text: `[${tag}] ${item.text}` })) };
+    }
+    case "listing": {
+      const title = asString(params.title, "Untitled Story");
+      const summary = asString(params.summary, "");
+      return {
+        kdp: {
+          description: `${summary}\n\nA funny, heartwarming picture book to read aloud together.`,
+          keywords: ["funny picture book", "read aloud story", "bedtime story for kids", "illustrated kids book", "story about friendship", "gift for young readers", "cartoon adventure book"],
+          categories: ["JUV019000", "JUV039060"],
+        },
+        etsy: {
+          title: `${title} | Printable Picture Book PDF | Funny Kids Story | Digital Download`,
+          tags: ["picture book", "kids story", "printable book", "digital download", "bedtime story", "funny story", "childrens ebook", "read aloud", "kids gift", "illustrated story", "cartoon book", "pdf storybook", "story for kids"],
+          description: `${summary}\n\nInstant download: a printable PDF and an EPUB for e-readers.`,
+        },
+      };
+    }
+    default:
+      return {};
+  }
+};
+
+export const mockProvider: AiProvider = {
+  id: "mock",
+  label: "Offline demo (no API key)",
+  requiresApiKey: false,
+  models: { text: "mock-text", analysis: "mock-text", image: "mock-image" },
+
+  generateText: async ({ task, prompt }) => {
+    await wait(LATENCY_MS);
+    if (task === "findStories") {
+      const offset = hash(prompt) % CANNED_STORIES.length;
+      const stories = CANNED_STORIES.map((_, i) => CANNED_STORIES[(i + offset) % CANNED_STORIES.length]);
+      return JSON.stringify(stories);
+    }
+    return "";
+  },
+
+  generateJson: async <T>({ task, params }: Parameters<AiProvider["generateJson"]>[0]) => {
+    await wait(LATENCY_MS);
+    return cannedJson(task, params || {}) as T;
+  },
+
+  analyze: async <T>({ task, params }: Parameters<AiProvider["analyze"]>[0]) => {
+    await wait(LATENCY_MS);
+    return cannedJson(task, params || {}) as T;
+  },
+
+  generateImage: async ({ task, prompt, aspectRatio }) => {
+    await wait(LATENCY_MS);
+    const label = task === "coverImage" ? "Cover" : task === "characterSheet" ? "Character" : "Panel";
+    return placeholderImage(prompt, aspectRatio, `${label} (offline demo)`);
+  },
+
+  editImage: async ({ image, prompt }) => {
+    await wait(LATENCY_MS);
+    return overlayEdit(image, prompt);
+  },
+};
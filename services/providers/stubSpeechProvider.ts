@@ -0,0 +1,66 @@
+import { WordTiming } from "../../types";
+import { TtsProvider } from "../tts";
+import { pcmToWavDataUrl } from "../audioData";
+import { tokenizeWords } from "../wordTimings";
+import { createAbortError } from "../jobQueue";
+
+/**
+ * Deterministic offline narration backend. Hums each word as a short tone
+ * burst whose length follows the word, with pauses at punctuation, so clips,
+ * timings, read-along and EPUB Media Overlays can all be tried with no
+ * network or speech engine. The same text always gives the same clip.
+ */
+
+const SAMPLE_RATE = 22050;
+const LATENCY_MS = 200;
+
+const VOICES = [
+  { id: "low", label: "Low hum", pitch: 140 },
+  { id: "high", label: "High hum", pitch: 220 },
+];
+
+const hash = (text: string) => Array.from(text).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+export const stubSpeechProvider: TtsProvider = {
+  id: "stub",
+  label: "Offline stub (tones)",
+  requiresApiKey: false,
+  live: false,
+  isAvailable: () => true,
+
+  listVoices: async () => VOICES.map(({ id, label }) => ({ id, label })),
+
+  synthesize: async ({ text, voice, rate, signal }) => {
+    await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+    if (signal?.aborted) throw createAbortError();
+    const basePitch = (VOICES.find(v => v.id === voice) || VOICES[0]).pitch;
+    const tokens = tokenizeWords(text);
+    const segments: { start: number; end: number; pitch: number }[] = [];
+    const words: WordTiming[] = [];
+    let time = 0.15;
+    for (const { word } of tokens) {
+      const letters = word.replace(/[^\p{L}\p{N}]/gu, "").length;
+      const length = (0.12 + 0.055 * letters) / rate;
+      const pitch = basePitch * (0.85 + (hash(word) % 30) / 100);
+      segments.push({ start: time, end: time + length, pitch });
+      words.push({ word, start: time, end: time + length });
+      time += length + (/[.!?…]["”’)]*$/.test(word) ? 0.4 : /[,;:—-]["”’)]*$/.test(word) ? 0.22 : 0.08) / rate;
+    }
+    const duration = time + 0.2;
+
+    const samples = new Int16Array(Math.ceil(duration * SAMPLE_RATE));
+    for (const segment of segments) {
+      const from = Math.floor(segment.start * SAMPLE_RATE);
+      const to = Math.min(samples.length, Math.floor(segment.end * SAMPLE_RATE));
+      const fade = Math.min(0.03 * SAMPLE_RATE, (to - from) / 2);
+      for (let i = from; i < to; i++) {
+        const t = (i - from) / SAMPLE_RATE;
+        const envelope = Math.min(1, (i - from) / fade, (to - i) / fade);
+        // A fundamental plus a softer octave sounds more like a voice than a pure tone
+        const wave = Math.sin(2 * Math.PI * segment.pitch * t) + 0.35 * Math.sin(4 * Math.PI * segment.pitch * t);
+        samples[i] = Math.round(wave * envelope * 0.25 * 32767);
+      }
+    }
+    return { audioUrl: pcmToWavDataUrl(samples, SAMPLE_RATE), duration, words };
+  },
+};
@@ -0,0 +1,221 @@
+/**
+ * Reads real Reddit posts so a book can start from the actual text instead of
+ * a model's recollection of it. Accepts a post's .json export (or its URL), a
+ * subreddit listing, archived dumps (JSON arrays or one submission per line,
+ * as produced by Pushshift-style archives) and text copied from the page.
+ */
+
+export interface RedditPost {
+  id: string;
+  title: string;
+  // Body of a self post; empty for link posts and removed or deleted posts
+  selftext: string;
+  author: string;
+  subreddit: string;
+  score: number;
+  permalink: string;
+  createdUtc?: number;
+  // True when Reddit replaced the body with [removed] or [deleted]
+  bodyRemoved?: boolean;
+}
+
+const REDDIT_ORIGIN = "https://www.reddit.com";
+const REMOVED_BODIES = new Set(["[removed]", "[deleted]"]);
+
+// Reddit escapes these three in JSON unless raw_json=1 is requested
+const decodeEntities = (text: string): string =>
+  text.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&");
+
+const asText = (value: unknown): string => (typeof value === "string" ? decodeEntities(value).trim() : "");
+
+const stripPrefix = (value: string, prefix: RegExp): string => value.replace(prefix, "");
+
+const toPermalink = (data: Record<string, unknown>, subreddit: string, id: string): string => {
+  const permalink = asText(data.permalink);
+  if (permalink.startsWith("http")) return permalink;
+  if (permalink) return `${REDDIT_ORIGIN}${permalink}`;
+  if (subreddit && id) return `${REDDIT_ORIGIN}/r/${subreddit}/comments/${id}/`;
+  return "";
+};
+
+/**
+ * Converts one submission object (the `data` of a t3 thing, or a raw dump
+ * record) into a RedditPost. Anything without a title is not a post.
+ */
+const toPost = (data: Record<string, unknown>): RedditPost | null => {
+  const title = asText(data.title);
+  if (!title) return null;
+  const rawBody = asText(data.selftext);
+  const bodyRemoved = REMOVED_BODIES.has(rawBody);
+  const subreddit = stripPrefix(asText(data.subreddit), /^\/?r\//i);
+  const id = stripPrefix(asText(data.id) || asText(data.name), /^t3_/);
+  return {
+    id,
+    title,
+    selftext: bodyRemoved ? "" : rawBody,
+    author: stripPrefix(asText(data.author), /^\/?u\//i) || "[deleted]",
+    subreddit,
+    score: typeof data.score === "number" ? data.score : Number(data.score) || 0,
+    permalink: toPermalink(data, subreddit, id),
+    createdUtc: typeof data.created_utc === "number" ? data.created_utc : Number(data.created_utc) || undefined,
+    bodyRemoved: bodyRemoved || undefined,
+  };
+};
+
+/**
+ * Walks any of the JSON shapes Reddit and its archives produce and collects
+ * the submissions. Comments (t1) and other things are skipped.
+ */
+export const parseRedditJson = (json: unknown): RedditPost[] => {
+  const posts: RedditPost[] = [];
+  const visit = (node: unknown) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+    if (!node || typeof node !== "object") return;
+    const record = node as Record<string, unknown>;
+    if (record.kind === "Listing") {
+      visit((record.data as Record<string, unknown> | undefined)?.children);
+    } else if (record.kind === "t3") {
+      const post = toPost((record.data as Record<string, unknown>) || {});
+      if (post) posts.push(post);
+    } else if (!record.kind) {
+      const post = toPost(record);
+      if (post) posts.push(post);
+    }
+  };
+  visit(json);
+  return posts;
+};
+
+// Lines of page chrome picked up when copying a post from the browser
+const PAGE_CHROME = /^(share|save|hide|report|reply|award|give award|upvote|downvote|vote|follow|join|joined|sort by:?.*|best|top|new|controversial|old|q&a|\d+(\.\d+)?k?\s+comments?|level \d+|•|archived post.*|comments|more posts.*)$/i;
+
+/**
+ * Best-effort parse of text copied from a post page: the first real line is
+ * the title and the rest is the body. Subreddit, author and score are picked
+ * up from the usual "r/sub", "Posted by u/name" and "1.2k upvotes" lines.
+ */
+export const parsePastedPost = (text: string): RedditPost | null => {
+  let subreddit = "";
+  let author = "";
+  let score = 0;
+  let permalink = "";
+  const lines: string[] = [];
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const subredditLine = line.match(/^\/?r\/([A-Za-z0-9_]{2,21})\b/);
+    const authorLine = line.match(/(?:^|posted by\s+)\/?u\/([A-Za-z0-9_-]{3,20})\b/i);
+    const scoreLine = line.match(/^(\d+(?:\.\d+)?)(k?)\s*(?:upvotes?|points?|votes?)?$/i);
+    const urlLine = line.match(/^https?:\/\/(?:www\.|old\.|new\.)?reddit\.com\/r\/\S+\/comments\/\S+$/i);
+    if (subredditLine && !subreddit && line.length < 60) {
+      subreddit = subredditLine[1];
+      // "r/sub • Posted by u/name 5h ago" carries the author too
+      if (authorLine) author = authorLine[1];
+    } else if (authorLine && !author && line.length < 80) {
+      author = authorLine[1];
+    } else if (scoreLine && lines.length === 0) {
+      score = Math.round(parseFloat(scoreLine[1]) * (scoreLine[2] ? 1000 : 1));
+    } else if (urlLine && !permalink) {
+      permalink = line;
+    } else if (PAGE_CHROME.test(line) || /^\d+\s*(h|hr|d|mo|y|min)s?( ago)?$/i.test(line)) {
+      continue;
+    } else if (line || lines.length > 0) {
+      lines.push(line);
+    }
+  }
+
+  const [title, ...body] = lines;
+  if (!title) return null;
+  return {
+    id: "",
+    title,
+    selftext: body.join("\n").replace(/\n{3,}/g, "\n\n").trim(),
+    author: author || "[unknown]",
+    subreddit,
+    score,
+    permalink,
+  };
+};
+
+/**
+ * Parses whatever the user pasted or uploaded: a JSON document, a dump with
+ * one JSON object per line, or plain post text.
+ */
+export const parseRedditText = (text: string): RedditPost[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    try {
+      return parseRedditJson(JSON.parse(trimmed));
+    } catch {
+      // Not a single document; may be one record per line
+    }
+    const records = trimmed.split(/\r?\n/).filter(line => line.trim().startsWith("{"));
+    const posts: RedditPost[] = [];
+    for (const line of records) {
+      try {
+        posts.push(...parseRedditJson(JSON.parse(line)));
+      } catch {
+        // Archives are often truncated mid-line; keep what parses
+      }
+    }
+    if (posts.length > 0) return posts;
+  }
+  const post = parsePastedPost(trimmed);
+  return post ? [post] : [];
+};
+
+export const isRedditUrl = (text: string): boolean =>
+  /^https?:\/\/(?:[a-z]+\.)?(?:reddit\.com|redd\.it)\/\S+$/i.test(text.trim());
+
+/**
+ * Turns a post URL (www, old, new, or a redd.it short link) into the URL of
+ * its JSON representation.
+ */
+export const toRedditJsonUrl = (url: string): string => {
+  const parsed = new URL(url.trim());
+  const host = parsed.hostname.toLowerCase();
+  let path = parsed.pathname.replace(/\/+$/, "");
+  if (host === "redd.it") {
+    path = `/comments${path}`;
+  } else if (/\/s\/[A-Za-z0-9]+$/.test(path)) {
+    throw new Error("Share links can't be imported directly. Open the link and paste the full post URL instead.");
+  } else if (!/\/comments\/[a-z0-9]+/i.test(path)) {
+    throw new Error("That isn't a link to a Reddit post.");
+  }
+  return `${REDDIT_ORIGIN}${path.replace(/\.json$/, "")}.json?raw_json=1`;
+};
+
+/**
+ * Fetches a post by URL. Reddit serves post JSON with permissive CORS, but
+ * it can rate limit or block anonymous requests; the error says what to do.
+ */
+export const fetchRedditPost = async (url: string, signal?: AbortSignal): Promise<RedditPost> => {
+  const response = await fetch(toRedditJsonUrl(url), { signal, headers: { Accept: "application/json" } });
+  if (!response.ok) {
+    throw new Error(`Reddit returned ${response.status}. Open the post, add ".json" to its URL and paste or upload the result instead.`);
+  }
+  const [post] = parseRedditJson(await response.json());
+  if (!post) {
+    throw new Error("No post found at that URL.");
+  }
+  return post;
+};
+
+/**
+ * Credit line stored in Story.source, e.g. "Reddit r/tifu". It becomes the
+ * default author line printed on the cover and in every export, so the
+ * poster's username is left out: it identifies a real person.
+ */
+export const formatRedditAttribution = (post: RedditPost): string =>
+  ["Reddit", post.subreddit && `r/${post.subreddit}`].filter(Boolean).join(" ");
+
+/**
+ * Removes "u/someone" handles from a credit line. Stories imported before
+ * the handle was left out of formatRedditAttribution still carry one.
+ */
+export const stripRedditHandles = (text: string): string =>
+  text.replace(/\s*•?\s*\/?\bu\/[A-Za-z0-9_-]+/g, "").trim();
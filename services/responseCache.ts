@@ -0,0 +1,214 @@
+import { openDatabase, requestToPromise, withStore } from "./idb";
+import { saveSetting } from "./settings";
+
+/**
+ * Content-addressed cache for AI responses. An entry is keyed by a SHA-256 of
+ * provider + model + prompt + config (aspect ratio, schema, reference images),
+ * so identical requests are answered locally instead of paying for them again.
+ *
+ * Payloads (mostly base64 images) live in their own store; a small metadata
+ * store carries sizes and timestamps so eviction never has to load them. A
+ * fresh generation for the same key is stored as a new entry rather than
+ * replacing the old one, which is what lets a panel's earlier variants be
+ * browsed later.
+ */
+
+export interface CacheOptions {
+  // Skip the lookup (the result is still stored)
+  fresh?: boolean;
+  // Groups the result with others for browsing, e.g. every image made for one panel
+  variantGroup?: string;
+}
+
+export interface CacheRequest {
+  kind: "text" | "image";
+  provider: string;
+  model: string;
+  prompt: string;
+  config?: Record<string, unknown>;
+}
+
+export interface CachedVariant {
+  id: string;
+  key: string;
+  kind: CacheRequest["kind"];
+  model: string;
+  groups: string[];
+  size: number;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+export interface CacheSettings {
+  // Bypass lookups everywhere, e.g. while iterating on prompts
+  forceFresh: boolean;
+  maxBytes: number;
+}
+
+export interface CacheUsage {
+  entries: number;
+  bytes: number;
+}
+
+const DB_NAME = "reddittoon-cache";
+const DB_VERSION = 1;
+const META_STORE = "entries";
+const VALUE_STORE = "values";
+const SETTINGS_KEY = "reddittoon.cacheSettings";
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  forceFresh: false,
+  maxBytes: 200 * 1024 * 1024,
+};
+
+const getDb = () => openDatabase(DB_NAME, DB_VERSION, (db) => {
+  if (!db.objectStoreNames.contains(META_STORE)) {
+    const store = db.createObjectStore(META_STORE, { keyPath: "id" });
+    store.createIndex("key", "key");
+    store.createIndex("lastUsedAt", "lastUsedAt");
+    store.createIndex("groups", "groups", { multiEntry: true });
+  }
+  if (!db.objectStoreNames.contains(VALUE_STORE)) {
+    db.createObjectStore(VALUE_STORE);
+  }
+});
+
+let settings: CacheSettings = (() => {
+  try {
+    return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || "{}") };
+  } catch {
+    return DEFAULT_CACHE_SETTINGS;
+  }
+})();
+
+export const getCacheSettings = (): CacheSettings => ({ ...settings });
+
+export const setCacheSettings = (changes: Partial<CacheSettings>) => {
+  settings = { ...settings, ...changes };
+  saveSetting(SETTINGS_KEY, JSON.stringify(settings));
+  if (changes.maxBytes !== undefined) {
+    evict().catch(e => console.warn("Cache eviction failed", e));
+  }
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, "0")).join("");
+
+export const cacheKey = async (request: CacheRequest): Promise<string> => {
+  const text = JSON.stringify([request.kind, request.provider, request.model, request.prompt, request.config || {}]);
+  return toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text)));
+};
+
+const sizeOf = (value: unknown): number => (typeof value === "string" ? value.length : JSON.stringify(value).length);
+
+const findLatest = async (key: string): Promise<CachedVariant | null> => {
+  const db = await getDb();
+  const matches = await withStore(db, META_STORE, "readonly", store =>
+    requestToPromise(store.index("key").getAll(key)) as Promise<CachedVariant[]>);
+  return matches.sort((a, b) => b.createdAt - a.createdAt)[0] || null;
+};
+
+const readValue = async (id: string): Promise<unknown> => {
+  const db = await getDb();
+  return withStore(db, VALUE_STORE, "readonly", store => requestToPromise(store.get(id)));
+};
+
+const touch = async (entry: CachedVariant, group?: string) => {
+  const db = await getDb();
+  const groups = group && !entry.groups.includes(group) ? [...entry.groups, group] : entry.groups;
+  await withStore(db, META_STORE, "readwrite", store =>
+    requestToPromise(store.put({ ...entry, groups, lastUsedAt: Date.now() })));
+};
+
+const storeEntry = async (key: string, request: CacheRequest, value: unknown, group?: string) => {
+  const db = await getDb();
+  const now = Date.now();
+  const entry: CachedVariant = {
+    id: `${key}:${now}`,
+    key,
+    kind: request.kind,
+    model: request.model,
+    groups: group ? [group] : [],
+    size: sizeOf(value),
+    createdAt: now,
+    lastUsedAt: now,
+  };
+  await withStore(db, VALUE_STORE, "readwrite", s => requestToPromise(s.put(value, entry.id)));
+  await withStore(db, META_STORE, "readwrite", s => requestToPromise(s.put(entry)));
+  await evict();
+};
+
+/**
+ * Deletes least-recently-used entries until the cache fits its size limit.
+ */
+const evict = async () => {
+  const db = await getDb();
+  const entries = await withStore(db, META_STORE, "readonly", s =>
+    requestToPromise(s.index("lastUsedAt").getAll()) as Promise<CachedVariant[]>);
+  let total = entries.reduce((sum, e) => sum + e.size, 0);
+  const doomed: string[] = [];
+  for (const entry of entries) {
+    if (total <= settings.maxBytes) break;
+    doomed.push(entry.id);
+    total -= entry.size;
+  }
+  if (doomed.length === 0) return;
+  await withStore(db, META_STORE, "readwrite", s => Promise.all(doomed.map(id => requestToPromise(s.delete(id)))));
+  await withStore(db, VALUE_STORE, "readwrite", s => Promise.all(doomed.map(id => requestToPromise(s.delete(id)))));
+};
+
+/**
+ * Answers `request` from the cache, or runs `produce` and stores its result.
+ * Cache problems (no IndexedDB, quota errors) never fail the generation.
+ */
+export const withResponseCache = async <T>(request: CacheRequest, options: CacheOptions, produce: () => Promise<T>): Promise<T> => {
+  let key: string | null = null;
+  try {
+    key = await cacheKey(request);
+    if (!options.fresh && !settings.forceFresh) {
+      const hit = await findLatest(key);
+      const value = hit ? await readValue(hit.id) : undefined;
+      if (hit && value !== undefined) {
+        touch(hit, options.variantGroup).catch(e => console.warn("Cache update failed", e));
+        return value as T;
+      }
+    }
+  } catch (e) {
+    console.warn("Response cache unavailable", e);
+  }
+
+  const result = await produce();
+  if (key) {
+    // Awaited so a variant browser refreshed right after sees the new entry
+    await storeEntry(key, request, result, options.variantGroup).catch(e => console.warn("Could not cache response", e));
+  }
+  return result;
+};
+
+/**
+ * Every cached result in a group, newest first, without their payloads.
+ */
+export const listVariants = async (group: string): Promise<CachedVariant[]> => {
+  const db = await getDb();
+  const entries = await withStore(db, META_STORE, "readonly", s =>
+    requestToPromise(s.index("groups").getAll(group)) as Promise<CachedVariant[]>);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getVariantValue = async <T = string>(id: string): Promise<T | null> => {
+  const value = await readValue(id);
+  return value === undefined ? null : value as T;
+};
+
+export const getCacheUsage = async (): Promise<CacheUsage> => {
+  const db = await getDb();
+  const entries = await withStore(db, META_STORE, "readonly", s =>
+    requestToPromise(s.getAll()) as Promise<CachedVariant[]>);
+  return { entries: entries.length, bytes: entries.reduce((sum, e) => sum + e.size, 0) };
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+  const db = await getDb();
+  await withStore(db, META_STORE, "readwrite", s => requestToPromise(s.clear()));
+  await withStore(db, VALUE_STORE, "readwrite", s => requestToPromise(s.clear()));
+};
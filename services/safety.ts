@@ -0,0 +1,217 @@
+import { Panel } from "../types";
+
+/**
+ * Audience-appropriateness checks for a book's text. A fast word-list pass
+ * runs on every edit; an optional model review (see reviewContentSafety in
+ * gemini.ts) catches what word lists can't, such as implied violence or a
+ * named real person. Each audience has a policy saying how much of each
+ * category it tolerates; children's books that break it can't be exported.
+ */
+
+export type SafetyCategory = "profanity" | "violence" | "sexual" | "realPerson";
+
+export type SafetySeverity = "mild" | "severe";
+
+export type SafetyField = "title" | "author" | "summary" | "caption" | "description" | "dialogue";
+
+export interface SafetyItem {
+  field: SafetyField;
+  // Set for caption, description and dialogue
+  panelId?: number;
+  text: string;
+}
+
+export interface SafetyFlag {
+  field: SafetyField;
+  panelId?: number;
+  category: SafetyCategory;
+  severity: SafetySeverity;
+  // The offending words, as they appear in the text
+  excerpt: string;
+  reason: string;
+  source: "rules" | "review";
+}
+
+export interface AudiencePolicy {
+  id: "toddlers" | "children" | "preteens" | "youngAdults" | "adults";
+  label: string;
+  // Highest severity tolerated per category; null tolerates none
+  allowed: Record<SafetyCategory, SafetySeverity | null>;
+  // A failing book can't be exported at all
+  blocksExport: boolean;
+}
+
+export interface SafetyReport {
+  policy: AudiencePolicy;
+  flags: SafetyFlag[];
+  // Flags the policy doesn't tolerate
+  violations: SafetyFlag[];
+  blocked: boolean;
+  // The summary can't be edited in the book editor, so a failing one is
+  // left out of the export (it's only EPUB metadata) rather than blocking it
+  omitSummary: boolean;
+}
+
+export const SAFETY_CATEGORY_LABELS: Record<SafetyCategory, string> = {
+  profanity: "Language",
+  violence: "Violence",
+  sexual: "Sexual content",
+  realPerson: "Identifies a real person",
+};
+
+export const AUDIENCE_POLICIES: AudiencePolicy[] = [
+  {
+    id: "toddlers",
+    label: "Toddlers",
+    allowed: { profanity: null, violence: null, sexual: null, realPerson: null },
+    blocksExport: true,
+  },
+  {
+    id: "children",
+    label: "Children",
+    allowed: { profanity: null, violence: "mild", sexual: null, realPerson: null },
+    blocksExport: true,
+  },
+  {
+    id: "preteens",
+    label: "Pre-Teens",
+    allowed: { profanity: "mild", violence: "mild", sexual: null, realPerson: null },
+    blocksExport: false,
+  },
+  {
+    id: "youngAdults",
+    label: "Young Adults",
+    allowed: { profanity: "mild", violence: "severe", sexual: "mild", realPerson: null },
+    blocksExport: false,
+  },
+  {
+    id: "adults",
+    label: "Adults",
+    allowed: { profanity: "severe", violence: "severe", sexual: "severe", realPerson: null },
+    blocksExport: false,
+  },
+];
+
+/**
+ * Maps the free-text audience from StoryFinder ("Children (4-8 years)",
+ * "Educational", ...) to a policy. Unknown audiences get the Children policy
+ * because "Educational" books are mostly read in schools.
+ */
+export const getAudiencePolicy = (audience?: string): AudiencePolicy => {
+  const text = (audience || "").toLowerCase();
+  const byId = (id: AudiencePolicy["id"]) => AUDIENCE_POLICIES.find(p => p.id === id)!;
+  if (text.includes("toddler")) return byId("toddlers");
+  if (text.includes("pre-teen") || text.includes("preteen")) return byId("preteens");
+  if (text.includes("young adult") || text.includes("teen")) return byId("youngAdults");
+  if (text.includes("adult") || text.includes("general")) return byId("adults");
+  return byId("children");
+};
+
+interface SafetyRule {
+  category: SafetyCategory;
+  severity: SafetySeverity;
+  pattern: RegExp;
+  reason: string;
+}
+
+// Word stems are matched from a word boundary, so "hell" doesn't hit "hello"
+const words = (list: string[]) => new RegExp(`\\b(?:${list.join("|")})\\b`, "gi");
+
+const SAFETY_RULES: SafetyRule[] = [
+  { category: "profanity", severity: "severe", pattern: words(["f+u+c+k\\w*", "motherf\\w*", "shit\\w*", "bullshit", "bitch\\w*", "asshole\\w*", "cunt\\w*", "dickhead\\w*", "cock(?:sucker)?s?", "wank\\w*", "twat\\w*", "wtf"]), reason: "Strong language" },
+  { category: "profanity", severity: "mild", pattern: words(["damn\\w*", "hell", "crap\\w*", "piss\\w*", "bastard\\w*", "arse", "ass", "bloody hell", "screw you", "stfu", "omfg"]), reason: "Mild language" },
+  { category: "violence", severity: "severe", pattern: words(["kill\\w*", "murder\\w*", "stab\\w*", "blood(?:y|ied)?", "gore", "corpse\\w*", "dead bod(?:y|ies)", "shot (?:him|her|them|dead)", "shoots? (?:him|her|them)", "guns?", "gunshots?", "strangl\\w*", "suicid\\w*", "tortur\\w*", "decapitat\\w*", "behead\\w*", "massacre\\w*", "dismember\\w*", "abus(?:e|ed|ive)"]), reason: "Graphic violence" },
+  { category: "violence", severity: "mild", pattern: words(["fight\\w*", "punch\\w*", "slap\\w*", "kick(?:s|ed)?", "beat (?:him|her|them|up)", "weapon\\w*", "knife", "knives", "injur\\w*", "scream(?:s|ed|ing)? in pain", "threaten\\w*"]), reason: "Violence" },
+  { category: "sexual", severity: "severe", pattern: words(["sex(?:ual|ually|y)?", "porn\\w*", "orgasm\\w*", "genital\\w*", "erotic\\w*", "naked", "nude\\w*", "hook(?:ed)? up", "one[- ]night stand", "slept with", "onlyfans"]), reason: "Sexual content" },
+  { category: "sexual", severity: "mild", pattern: words(["making out", "made out", "undress\\w*", "lingerie", "seduc\\w*", "flirt\\w*", "affair"]), reason: "Suggestive content" },
+  { category: "realPerson", severity: "severe", pattern: /[\w.+-]+@[\w-]+\.[\w.]+/g, reason: "Email address" },
+  { category: "realPerson", severity: "severe", pattern: /(?:\+?\d{1,2}[\s.-]?)?\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g, reason: "Phone number" },
+  { category: "realPerson", severity: "severe", pattern: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Lane|Ln|Drive|Dr|Boulevard|Blvd|Court|Ct)\b\.?/g, reason: "Street address" },
+  { category: "realPerson", severity: "mild", pattern: /(?:^|[\s(])(?:\/?u\/[A-Za-z0-9_-]{3,20}|@[A-Za-z0-9_]{3,30})\b/g, reason: "Username or social handle" },
+];
+
+/**
+ * Runs the word-list rules over one piece of text.
+ */
+export const screenText = (text: string): Omit<SafetyFlag, "field" | "panelId">[] => {
+  const found: Omit<SafetyFlag, "field" | "panelId">[] = [];
+  for (const rule of SAFETY_RULES) {
+    const matches = Array.from(new Set((text.match(rule.pattern) || []).map(m => m.trim())));
+    if (matches.length === 0) continue;
+    found.push({
+      category: rule.category,
+      severity: rule.severity,
+      excerpt: matches.slice(0, 3).join(", "),
+      reason: rule.reason,
+      source: "rules",
+    });
+  }
+  return found;
+};
+
+/**
+ * Everything in a book that a reader sees (captions, dialogue, title, author
+ * line and blurb) or that steers the art (scene descriptions).
+ */
+export const collectSafetyItems = (book: { title: string; author?: string; summary: string; panels: Panel[] }): SafetyItem[] => {
+  const items: SafetyItem[] = [
+    { field: "title", text: book.title },
+    { field: "author", text: book.author || "" },
+    { field: "summary", text: book.summary },
+  ];
+  for (const panel of book.panels) {
+    items.push({ field: "caption", panelId: panel.id, text: panel.caption });
+    items.push({ field: "description", panelId: panel.id, text: panel.description });
+    const dialogue = (panel.overlays || []).map(o => o.text).filter(Boolean).join("\n");
+    if (dialogue) items.push({ field: "dialogue", panelId: panel.id, text: dialogue });
+  }
+  return items.filter(item => item.text.trim());
+};
+
+export const screenItems = (items: SafetyItem[]): SafetyFlag[] =>
+  items.flatMap(item => screenText(item.text).map(flag => ({ ...flag, field: item.field, panelId: item.panelId })));
+
+const SEVERITY_RANK: Record<SafetySeverity, number> = { mild: 1, severe: 2 };
+
+export const isViolation = (flag: SafetyFlag, policy: AudiencePolicy): boolean => {
+  const allowed = policy.allowed[flag.category];
+  return allowed === null || SEVERITY_RANK[flag.severity] > SEVERITY_RANK[allowed];
+};
+
+/**
+ * A review flag stays valid while the text it quoted is still there, so an
+ * edit that removes the problem clears it without another review.
+ */
+export const flagStillApplies = (flag: SafetyFlag, items: SafetyItem[]): boolean => {
+  const item = items.find(i => i.field === flag.field && i.panelId === flag.panelId);
+  return !!item && (!flag.excerpt || item.text.toLowerCase().includes(flag.excerpt.toLowerCase()));
+};
+
+export const buildSafetyReport = (items: SafetyItem[], policy: AudiencePolicy, reviewFlags: SafetyFlag[] = []): SafetyReport => {
+  const flags = [...screenItems(items), ...reviewFlags.filter(flag => flagStillApplies(flag, items))];
+  const violations = flags.filter(flag => isViolation(flag, policy));
+  const omitSummary = violations.some(flag => flag.field === "summary");
+  const blocking = violations.filter(flag => flag.field !== "summary");
+  return { policy, flags, violations, blocked: policy.blocksExport && blocking.length > 0, omitSummary };
+};
+
+/**
+ * A stable key for the checked text, so a review can tell it's out of date.
+ */
+export const safetyItemsKey = (items: SafetyItem[]): string =>
+  items.map(item => `${item.field}:${item.panelId ?? ""}:${item.text}`).join("\u0000");
+
+export const flagsFor = (flags: SafetyFlag[], panelId?: number, fields?: SafetyField[]): SafetyFlag[] =>
+  flags.filter(flag => flag.panelId === panelId && (!fields || fields.includes(flag.field)));
+
+const FIELD_LABELS: Record<SafetyField, string> = {
+  title: "Title",
+  author: "Author",
+  summary: "Summary",
+  caption: "Caption",
+  description: "Scene",
+  dialogue: "Dialogue",
+};
+
+export const describeFlagLocation = (flag: SafetyFlag, panelNumber?: number): string =>
+  panelNumber ? `Panel ${panelNumber} ${FIELD_LABELS[flag.field].toLowerCase()}` : FIELD_LABELS[flag.field];
@@ -0,0 +1,15 @@
+/**
+ * Small user preferences (engine choices, queue limits) kept in localStorage.
+ */
+
+/**
+ * Stores a preference. Storage can be unavailable (private mode), in which
+ * case the preference just lasts until the page is closed.
+ */
+export const saveSetting = (key: string, value: string) => {
+  try {
+    localStorage.setItem(key, value);
+  } catch {
+    // Nothing to do: the in-memory value still applies
+  }
+};
@@ -0,0 +1,136 @@
+import { BookEdition, Ebook, Panel, TranslationEntry } from "../types";
+import { OVERLAY_LABELS } from "./overlays";
+
+/**
+ * Language editions: every string a reader sees (title, summary, captions
+ * and lettering) translated per language, over the original's art. Entries
+ * remember the text they were translated from, so editing the original
+ * marks just those entries out of date.
+ */
+
+// Books are written in English; editions are translations of it
+export const SOURCE_LANGUAGE = "en";
+
+// Western European only: PDF text is WinAnsi-encoded (see pdfWriter.ts)
+export const LANGUAGES = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Spanish" },
+  { code: "fr", label: "French" },
+  { code: "de", label: "German" },
+  { code: "it", label: "Italian" },
+  { code: "pt", label: "Portuguese" },
+  { code: "nl", label: "Dutch" },
+];
+
+export const languageLabel = (code?: string): string => {
+  const tag = code || SOURCE_LANGUAGE;
+  return LANGUAGES.find(l => l.code === tag)?.label || tag;
+};
+
+/**
+ * One string of the original book, in reading order.
+ */
+export interface TranslatableItem {
+  key: string;
+  // Where it appears, for the review screen
+  label: string;
+  text: string;
+  panelId?: number;
+}
+
+export const collectTranslatables = (book: { title: string; summary: string; panels: Panel[] }): TranslatableItem[] => {
+  const items: TranslatableItem[] = [
+    { key: "title", label: "Title", text: book.title },
+    { key: "summary", label: "Summary", text: book.summary },
+  ];
+  book.panels.forEach((panel, index) => {
+    items.push({ key: `caption:${panel.id}`, label: `Page ${index + 1} caption`, text: panel.caption, panelId: panel.id });
+    for (const overlay of panel.overlays || []) {
+      items.push({
+        key: `overlay:${panel.id}:${overlay.id}`,
+        label: `Page ${index + 1} ${OVERLAY_LABELS[overlay.kind].toLowerCase()}`,
+        text: overlay.text,
+        panelId: panel.id,
+      });
+    }
+  });
+  return items.filter(item => item.text.trim());
+};
+
+/**
+ * The entry's wording as it will be exported.
+ */
+export const entryText = (entry: TranslationEntry): string => entry.override ?? entry.text;
+
+export const isEntryCurrent = (entry: TranslationEntry | undefined, item: TranslatableItem): entry is TranslationEntry =>
+  !!entry && entry.source === item.text;
+
+/**
+ * Items the edition has no up-to-date translation for.
+ */
+export const pendingItems = (edition: BookEdition | undefined, items: TranslatableItem[]): TranslatableItem[] =>
+  items.filter(item => !isEntryCurrent(edition?.entries[item.key], item));
+
+/**
+ * Stores fresh machine translations. Overrides survive as long as the
+ * original they were written against hasn't changed; entries for text no
+ * longer in the book are dropped.
+ */
+export const mergeTranslations = (
+  edition: BookEdition | undefined,
+  language: string,
+  items: TranslatableItem[],
+  translated: Record<string, string>,
+): BookEdition => {
+  const entries: Record<string, TranslationEntry> = {};
+  for (const item of items) {
+    const previous = edition?.entries[item.key];
+    const text = translated[item.key];
+    if (text === undefined) {
+      if (previous) entries[item.key] = previous;
+      continue;
+    }
+    const override = previous?.source === item.text ? previous.override : undefined;
+    entries[item.key] = { source: item.text, text, ...(override !== undefined && { override }) };
+  }
+  return { language, entries, updatedAt: Date.now() };
+};
+
+/**
+ * Sets (or, when it matches the machine translation, clears) the hand-written
+ * wording of one entry.
+ */
+export const setOverride = (edition: BookEdition, key: string, text: string): BookEdition => {
+  const entry = edition.entries[key];
+  if (!entry) return edition;
+  const { override: _, ...rest } = entry;
+  return {
+    ...edition,
+    entries: { ...edition.entries, [key]: text === entry.text ? rest : { ...rest, override: text } },
+    updatedAt: Date.now(),
+  };
+};
+
+/**
+ * The book as it reads in the edition's language. Strings without a current
+ * translation keep the original wording. Narration is of the original
+ * captions, so it is left out.
+ */
+export const applyEdition = (ebook: Ebook, edition: BookEdition): Ebook => {
+  const translate = (key: string, text: string) => {
+    const entry = edition.entries[key];
+    return entry && entry.source === text ? entryText(entry) : text;
+  };
+  return {
+    ...ebook,
+    language: edition.language,
+    storyTitle: translate("title", ebook.storyTitle),
+    storySummary: ebook.storySummary && translate("summary", ebook.storySummary),
+    panels: ebook.panels.map(panel => ({
+      ...panel,
+      caption: translate(`caption:${panel.id}`, panel.caption),
+      overlays: panel.overlays?.map(o => ({ ...o, text: translate(`overlay:${panel.id}:${o.id}`, o.text) })),
+      narration: undefined,
+    })),
+  };
+};
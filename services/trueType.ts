@@ -0,0 +1,148 @@
+/**
+ * Just enough of a TrueType parser to embed a font in a PDF:
+ * metrics from head/hhea/OS2, advance widths from hmtx and the
+ * Unicode -> glyph mapping from a format 4 cmap subtable.
+ */
+
+export interface TrueTypeFont {
+  bytes: Uint8Array;
+  postScriptName: string;
+  unitsPerEm: number;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  bbox: [number, number, number, number];
+  // Advance width of a Unicode code point in 1/1000 em units.
+  advanceWidth: (codePoint: number) => number;
+}
+
+interface TableRecord {
+  offset: number;
+  length: number;
+}
+
+export const parseTrueType = (buffer: ArrayBuffer): TrueTypeFont => {
+  const view = new DataView(buffer);
+  const sfntVersion = view.getUint32(0);
+  if (sfntVersion !== 0x00010000 && sfntVersion !== 0x74727565) {
+    throw new Error("Only TrueType (.ttf) fonts can be embedded.");
+  }
+
+  const tables = new Map<string, TableRecord>();
+  const numTables = view.getUint16(4);
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = String.fromCharCode(
+      view.getUint8(record), view.getUint8(record + 1), view.getUint8(record + 2), view.getUint8(record + 3)
+    );
+    tables.set(tag, { offset: view.getUint32(record + 8), length: view.getUint32(record + 12) });
+  }
+
+  const table = (tag: string) => {
+    const t = tables.get(tag);
+    if (!t) throw new Error(`Font is missing the '${tag}' table.`);
+    return t.offset;
+  };
+
+  // head
+  const head = table("head");
+  const unitsPerEm = view.getUint16(head + 18);
+  const scale = (v: number) => Math.round((v * 1000) / unitsPerEm);
+  const bbox: [number, number, number, number] = [
+    scale(view.getInt16(head + 36)), scale(view.getInt16(head + 38)),
+    scale(view.getInt16(head + 40)), scale(view.getInt16(head + 42)),
+  ];
+
+  // hhea
+  const hhea = table("hhea");
+  const ascent = scale(view.getInt16(hhea + 4));
+  const descent = scale(view.getInt16(hhea + 6));
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+
+  // OS/2 (optional) for cap height
+  let capHeight = ascent;
+  const os2 = tables.get("OS/2");
+  if (os2 && view.getUint16(os2.offset) >= 2 && os2.length >= 90) {
+    capHeight = scale(view.getInt16(os2.offset + 88));
+  }
+
+  // hmtx
+  const hmtx = table("hmtx");
+  const glyphAdvance = (glyph: number) => {
+    const index = Math.min(glyph, numberOfHMetrics - 1);
+    return scale(view.getUint16(hmtx + index * 4));
+  };
+
+  // cmap: prefer Windows Unicode BMP (3,1), then Unicode (0,x)
+  const cmap = table("cmap");
+  let subtable = -1;
+  const numSubtables = view.getUint16(cmap + 2);
+  for (let i = 0; i < numSubtables; i++) {
+    const platform = view.getUint16(cmap + 4 + i * 8);
+    const encoding = view.getUint16(cmap + 6 + i * 8);
+    const offset = cmap + view.getUint32(cmap + 8 + i * 8);
+    if (view.getUint16(offset) !== 4) continue;
+    if (platform === 3 && encoding === 1) { subtable = offset; break; }
+    if (platform === 0 && subtable < 0) subtable = offset;
+  }
+  if (subtable < 0) {
+    throw new Error("Font has no Unicode character map.");
+  }
+
+  const segCount = view.getUint16(subtable + 6) / 2;
+  const endCodes = subtable + 14;
+  const startCodes = endCodes + segCount * 2 + 2;
+  const idDeltas = startCodes + segCount * 2;
+  const idRangeOffsets = idDeltas + segCount * 2;
+
+  const glyphFor = (codePoint: number): number => {
+    if (codePoint > 0xffff) return 0;
+    for (let i = 0; i < segCount; i++) {
+      const end = view.getUint16(endCodes + i * 2);
+      if (codePoint > end) continue;
+      const start = view.getUint16(startCodes + i * 2);
+      if (codePoint < start) return 0;
+      const delta = view.getInt16(idDeltas + i * 2);
+      const rangeOffsetPos = idRangeOffsets + i * 2;
+      const rangeOffset = view.getUint16(rangeOffsetPos);
+      if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+      const glyph = view.getUint16(rangeOffsetPos + rangeOffset + (codePoint - start) * 2);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+
+  // name: PostScript name (id 6), falling back to a generic one
+  let postScriptName = "EmbeddedFont";
+  const name = tables.get("name");
+  if (name) {
+    const count = view.getUint16(name.offset + 2);
+    const strings = name.offset + view.getUint16(name.offset + 4);
+    for (let i = 0; i < count; i++) {
+      const record = name.offset + 6 + i * 12;
+      if (view.getUint16(record + 6) !== 6) continue;
+      const platform = view.getUint16(record);
+      const length = view.getUint16(record + 8);
+      const offset = strings + view.getUint16(record + 10);
+      let value = "";
+      if (platform === 3 || platform === 0) {
+        for (let j = 0; j < length; j += 2) value += String.fromCharCode(view.getUint16(offset + j));
+      } else {
+        for (let j = 0; j < length; j++) value += String.fromCharCode(view.getUint8(offset + j));
+      }
+      const cleaned = value.replace(/[^A-Za-z0-9-]/g, "");
+      if (cleaned) { postScriptName = cleaned; break; }
+    }
+  }
+
+  return {
+    bytes: new Uint8Array(buffer),
+    postScriptName,
+    unitsPerEm,
+    ascent,
+    descent,
+    capHeight,
+    bbox,
+    advanceWidth: (codePoint: number) => glyphAdvance(glyphFor(codePoint)),
+  };
+};
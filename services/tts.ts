@@ -0,0 +1,96 @@
+import { WordTiming } from "../types";
+import { saveSetting } from "./settings";
+
+/**
+ * Backend-agnostic interface for text-to-speech, the narration counterpart
+ * of aiProvider.ts. services/narration.ts decides what to say; a provider
+ * only turns text into a clip and word timings.
+ */
+
+export interface TtsVoice {
+  id: string;
+  label: string;
+  language?: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice?: string;
+  // 1 is the voice's normal pace
+  rate: number;
+  signal?: AbortSignal;
+}
+
+export interface SpeechResult {
+  // Data URL of the clip; live providers return none and speak at playback
+  audioUrl?: string;
+  duration: number;
+  // One entry per word of the text (see tokenizeWords); estimated when the
+  // backend doesn't report them
+  words: WordTiming[];
+}
+
+export interface LiveSpeechRequest extends SpeechRequest {
+  // Called with the index of each word as it is spoken
+  onWord: (index: number) => void;
+}
+
+export interface TtsProvider {
+  id: string;
+  label: string;
+  // Whether the provider needs the user's AI API key.
+  requiresApiKey: boolean;
+  // Live providers speak through the browser at playback time instead of
+  // producing a clip, so their narration can't be exported.
+  live: boolean;
+  isAvailable: () => boolean;
+  listVoices: () => Promise<TtsVoice[]>;
+  synthesize: (request: SpeechRequest) => Promise<SpeechResult>;
+  // Live providers only. Resolves when the text has been spoken.
+  speak?: (request: LiveSpeechRequest) => Promise<void>;
+}
+
+const providers = new Map<string, TtsProvider>();
+const STORAGE_KEY = "reddittoon.ttsProvider";
+let activeId: string | null = null;
+
+export const registerTtsProvider = (provider: TtsProvider) => {
+  providers.set(provider.id, provider);
+};
+
+// Only the backends this browser can run
+export const listTtsProviders = (): TtsProvider[] => Array.from(providers.values()).filter(p => p.isAvailable());
+
+export const findTtsProvider = (id: string | undefined): TtsProvider | undefined => id ? providers.get(id) : undefined;
+
+/**
+ * Selects the narration backend and remembers the choice.
+ */
+export const setTtsProvider = (id: string) => {
+  if (!providers.has(id)) {
+    throw new Error(`Unknown TTS provider "${id}".`);
+  }
+  activeId = id;
+  saveSetting(STORAGE_KEY, id);
+};
+
+const initialProviderId = (): string => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored && providers.get(stored)?.isAvailable()) return stored;
+  } catch {
+    // ignore
+  }
+  return providers.get("browser")?.isAvailable() ? "browser" : "stub";
+};
+
+export const getTtsProvider = (): TtsProvider => {
+  if (!activeId) {
+    activeId = initialProviderId();
+  }
+  const provider = providers.get(activeId);
+  if (!provider) {
+    throw new Error("No TTS provider registered.");
+  }
+  return provider;
+};
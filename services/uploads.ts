@@ -0,0 +1,43 @@
+import { drawCover, loadImage, readFileAsDataUrl } from "./imageData";
+import { parseAspectRatio } from "./pageFormats";
+
+/**
+ * Hand-drawn or otherwise outside artwork going into a cover or panel slot.
+ * Uploads are cropped to the slot's aspect ratio (as the model would have
+ * drawn it) and scaled down so project files stay a sensible size.
+ */
+
+export const UPLOAD_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+// Scans straight off a scanner can be huge; anything this big is a mistake
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+// Longest side of a stored upload, roughly what the image model returns
+const MAX_UPLOAD_SIDE = 1536;
+
+/**
+ * Why the file can't be used, or null when it can.
+ */
+export const validateUpload = (file: File): string | null => {
+  if (!UPLOAD_TYPES.includes(file.type)) return "Upload a PNG, JPEG or WebP image.";
+  if (file.size > MAX_UPLOAD_BYTES) return "That image is too large (25 MB at most).";
+  return null;
+};
+
+/**
+ * Reads an uploaded image and crops it (centred) to the aspect ratio,
+ * scaled so its longest side is at most MAX_UPLOAD_SIDE. JPEGs stay JPEG;
+ * everything else becomes PNG.
+ */
+export const fitUploadToAspect = async (file: File, aspectRatio: string): Promise<string> => {
+  const img = await loadImage(await readFileAsDataUrl(file));
+  const ratio = parseAspectRatio(aspectRatio);
+  // The largest crop of the target ratio, never upscaled
+  let width = Math.min(img.naturalWidth, img.naturalHeight * ratio);
+  let height = width / ratio;
+  const scale = Math.min(1, MAX_UPLOAD_SIDE / Math.max(width, height));
+  width = Math.round(width * scale);
+  height = Math.round(height * scale);
+  const canvas = drawCover(img, width, height);
+  return file.type === "image/jpeg" ? canvas.toDataURL("image/jpeg", 0.92) : canvas.toDataURL("image/png");
+};
@@ -0,0 +1,79 @@
+import { Panel, PanelVariant, PanelVariantSource } from "../types";
+
+/**
+ * Pure helpers for a panel's image variants. Every image a panel has had
+ * (generated, edited or uploaded) is kept in `variants`; the starred one is
+ * the page image and is mirrored into `imageUrl`, which is what the editor
+ * and the exporters read. Undo only tracks which variant is starred, so
+ * undoing never throws an image away.
+ */
+
+// Each variant is a full data URL saved with the project, so keep it bounded
+export const MAX_VARIANTS = 12;
+
+export const VARIANT_SOURCE_LABELS: Record<PanelVariantSource, string> = {
+  generated: "Generated",
+  edited: "Edited",
+  uploaded: "Uploaded",
+};
+
+export const createVariantId = () => `variant-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createVariant = (imageUrl: string, source: PanelVariantSource): PanelVariant => ({
+  id: createVariantId(),
+  imageUrl,
+  source,
+  createdAt: Date.now(),
+});
+
+/**
+ * The panel's variants, oldest first. Projects saved before variants existed
+ * only have an imageUrl, which is treated as a single generated variant.
+ */
+export const getVariants = (panel: Panel): PanelVariant[] => {
+  if (panel.variants) return panel.variants;
+  return panel.imageUrl ? [{ id: "initial", imageUrl: panel.imageUrl, source: "generated", createdAt: 0 }] : [];
+};
+
+export const getStarredVariant = (panel: Panel): PanelVariant | undefined => {
+  const variants = getVariants(panel);
+  return variants.find(v => v.id === panel.starredVariantId) || variants.find(v => v.imageUrl === panel.imageUrl);
+};
+
+// The fields a star change touches, for history entries
+export const variantSelection = (panel: Partial<Panel>): Partial<Panel> => ({
+  imageUrl: panel.imageUrl,
+  starredVariantId: panel.starredVariantId,
+});
+
+/**
+ * Adds variants to a panel, starring the last one added when `star` is set
+ * (or when the panel had no image). The oldest unstarred variants are dropped
+ * past MAX_VARIANTS.
+ */
+export const addVariants = (panel: Panel, added: PanelVariant[], star: boolean): Partial<Panel> => {
+  if (added.length === 0) return {};
+  const starred = star || !panel.imageUrl ? added[added.length - 1] : getStarredVariant(panel);
+  let variants = [...getVariants(panel), ...added];
+  while (variants.length > MAX_VARIANTS) {
+    const index = variants.findIndex(v => v.id !== starred?.id);
+    variants = [...variants.slice(0, index), ...variants.slice(index + 1)];
+  }
+  return { variants, starredVariantId: starred?.id, imageUrl: starred?.imageUrl };
+};
+
+export const starVariant = (panel: Panel, variantId: string): Partial<Panel> => {
+  const variant = getVariants(panel).find(v => v.id === variantId);
+  if (!variant) return {};
+  return { variants: getVariants(panel), starredVariantId: variant.id, imageUrl: variant.imageUrl };
+};
+
+/**
+ * Removes a variant. Removing the starred one stars the newest that is left.
+ */
+export const removeVariant = (panel: Panel, variantId: string): Partial<Panel> => {
+  const variants = getVariants(panel).filter(v => v.id !== variantId);
+  const starred = getStarredVariant(panel);
+  const next = starred && starred.id !== variantId ? starred : variants[variants.length - 1];
+  return { variants, starredVariantId: next?.id, imageUrl: next?.imageUrl };
+};
@@ -0,0 +1,391 @@
+import { Ebook } from "../types";
+import { loadImage } from "./imageData";
+import { wrapCanvasText } from "./overlays";
+import { createAbortError } from "./jobQueue";
+
+/**
+ * Vertical slideshow video for TikTok and Reels, rendered in the browser:
+ * every frame is drawn on a canvas and recorded in real time with
+ * MediaRecorder. The cover comes first, then one slide per panel with a
+ * slow Ken Burns move over the art and the caption revealed word by word
+ * at reading speed.
+ */
+
+export type VideoTransition = "fade" | "slide" | "cut";
+
+export interface VideoOptions {
+  width: number;
+  height: number;
+  fps: number;
+  wordsPerMinute: number;
+  transition: VideoTransition;
+  kenBurns: boolean;
+  // Background music, looped under the whole video and faded out at the end
+  audio: Blob | null;
+  audioVolume: number;
+}
+
+export const DEFAULT_VIDEO_OPTIONS: VideoOptions = {
+  width: 1080,
+  height: 1920,
+  fps: 30,
+  wordsPerMinute: 160,
+  transition: "fade",
+  kenBurns: true,
+  audio: null,
+  audioVolume: 0.6,
+};
+
+export const VIDEO_TRANSITIONS: Record<VideoTransition, string> = {
+  fade: "Crossfade",
+  slide: "Slide",
+  cut: "Cut",
+};
+
+export const READING_SPEEDS = [
+  { wordsPerMinute: 120, label: "Relaxed (120 wpm)" },
+  { wordsPerMinute: 160, label: "Normal (160 wpm)" },
+  { wordsPerMinute: 220, label: "Fast (220 wpm)" },
+];
+
+export interface VideoSlide {
+  imageUrl?: string;
+  text: string;
+  // The cover shows the title and author instead of a caption
+  subtitle?: string;
+  isCover: boolean;
+  // Seconds from the start of the video
+  start: number;
+  duration: number;
+}
+
+const TRANSITION_SECONDS = 0.6;
+// Pause before the first word of a caption appears, and after the last
+const CAPTION_LEAD_SECONDS = 0.6;
+const CAPTION_HOLD_SECONDS = 1.5;
+const WORD_FADE_SECONDS = 0.25;
+const MIN_SLIDE_SECONDS = 3;
+const COVER_SECONDS = 3.5;
+const FADE_OUT_SECONDS = 0.8;
+const AUDIO_FADE_SECONDS = 1.5;
+const CAPTION_FONT = `"Comic Neue", "Comic Sans MS", cursive`;
+const TITLE_FONT = `"Inter", "Helvetica Neue", Arial, sans-serif`;
+
+// Zoom and pan of each slide's Ken Burns move, cycled through the book.
+// Focus is where the crop sits in the zoomed image, from -1 to 1 per axis.
+const KEN_BURNS_MOVES = [
+  { fromZoom: 1, toZoom: 1.15, fromX: 0, fromY: 0, toX: -0.6, toY: -0.4 },
+  { fromZoom: 1.15, toZoom: 1.02, fromX: 0.7, fromY: 0.3, toX: 0, toY: 0 },
+  { fromZoom: 1.08, toZoom: 1.16, fromX: -0.8, fromY: 0, toX: 0.8, toY: 0 },
+  { fromZoom: 1.16, toZoom: 1.05, fromX: 0, fromY: 0.7, toX: 0, toY: -0.5 },
+];
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+const transitionSeconds = (options: VideoOptions) => options.transition === "cut" ? 0 : TRANSITION_SECONDS;
+
+/**
+ * The video's timeline. Each slide lasts as long as it takes to read its
+ * caption; consecutive slides overlap by the length of the transition.
+ */
+export const planSlides = (ebook: Ebook, options: VideoOptions = DEFAULT_VIDEO_OPTIONS): VideoSlide[] => {
+  const overlap = transitionSeconds(options);
+  const secondsPerWord = 60 / options.wordsPerMinute;
+  const slides: Omit<VideoSlide, "start" | "duration">[] = [
+    { imageUrl: ebook.coverImage || undefined, text: ebook.storyTitle, subtitle: ebook.author, isCover: true },
+    ...ebook.panels.map(panel => ({ imageUrl: panel.imageUrl, text: panel.caption, isCover: false })),
+  ];
+  let start = 0;
+  return slides.map(slide => {
+    const reading = CAPTION_LEAD_SECONDS + countWords(slide.text) * secondsPerWord + CAPTION_HOLD_SECONDS;
+    const duration = overlap + Math.max(slide.isCover ? COVER_SECONDS : MIN_SLIDE_SECONDS, reading);
+    const planned = { ...slide, start, duration };
+    start += duration - overlap;
+    return planned;
+  });
+};
+
+export const videoDuration = (slides: VideoSlide[]): number => {
+  const last = slides[slides.length - 1];
+  return last ? last.start + last.duration : 0;
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const ease = (k: number) => k * k * (3 - 2 * k);
+const lerp = (from: number, to: number, k: number) => from + (to - from) * k;
+
+const roundedRect = (ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) => {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + width, y, x + width, y + height, radius);
+  ctx.arcTo(x + width, y + height, x, y + height, radius);
+  ctx.arcTo(x, y + height, x, y, radius);
+  ctx.arcTo(x, y, x + width, y, radius);
+  ctx.closePath();
+};
+
+// Cover-fits the image into the box, zoomed and panned within the overflow
+const drawImageInBox = (
+  ctx: CanvasRenderingContext2D,
+  img: HTMLImageElement,
+  x: number, y: number, width: number, height: number,
+  zoom = 1, focusX = 0, focusY = 0,
+) => {
+  const scale = Math.max(width / img.width, height / img.height) * zoom;
+  const drawWidth = img.width * scale;
+  const drawHeight = img.height * scale;
+  const overflowX = drawWidth - width;
+  const overflowY = drawHeight - height;
+  ctx.drawImage(img, x - overflowX / 2 + (focusX * overflowX) / 2, y - overflowY / 2 + (focusY * overflowY) / 2, drawWidth, drawHeight);
+};
+
+/**
+ * Lays the caption out once with every word, then draws each word with the
+ * opacity it has at `time`, so lines don't reflow as words appear.
+ */
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, time: number, secondsPerWord: number, width: number, top: number, bottom: number) => {
+  const margin = width * 0.06;
+  const padding = width * 0.05;
+  const boxWidth = width - margin * 2;
+  const maxHeight = bottom - top;
+  let fontSize = width * 0.06;
+  let lines: string[] = [];
+  for (; fontSize > width * 0.03; fontSize *= 0.92) {
+    ctx.font = `bold ${fontSize}px ${CAPTION_FONT}`;
+    lines = wrapCanvasText(ctx, text, boxWidth - padding * 2);
+    if (lines.length * fontSize * 1.25 + padding * 2 <= maxHeight) break;
+  }
+  const lineHeight = fontSize * 1.25;
+  const boxHeight = Math.min(maxHeight, lines.length * lineHeight + padding * 2);
+
+  ctx.save();
+  ctx.globalAlpha *= clamp01(time / 0.3);
+  ctx.fillStyle = "rgba(255, 255, 255, 0.92)";
+  ctx.shadowColor = "rgba(15, 23, 42, 0.35)";
+  ctx.shadowBlur = 24;
+  roundedRect(ctx, margin, top, boxWidth, boxHeight, width * 0.03);
+  ctx.fill();
+  ctx.restore();
+
+  ctx.save();
+  ctx.font = `bold ${fontSize}px ${CAPTION_FONT}`;
+  ctx.textBaseline = "middle";
+  ctx.fillStyle = "#1e293b";
+  const baseAlpha = ctx.globalAlpha;
+  const spaceWidth = ctx.measureText(" ").width;
+  let wordIndex = 0;
+  lines.forEach((line, i) => {
+    const y = top + padding + lineHeight * (i + 0.5);
+    let x = width / 2 - ctx.measureText(line).width / 2;
+    for (const word of line.split(" ").filter(Boolean)) {
+      const appearsAt = CAPTION_LEAD_SECONDS + wordIndex * secondsPerWord;
+      ctx.globalAlpha = baseAlpha * clamp01((time - appearsAt) / WORD_FADE_SECONDS);
+      ctx.fillText(word, x, y);
+      x += ctx.measureText(word).width + spaceWidth;
+      wordIndex++;
+    }
+  });
+  ctx.restore();
+};
+
+const drawCoverText = (ctx: CanvasRenderingContext2D, slide: VideoSlide, time: number, width: number, top: number) => {
+  const k = ease(clamp01(time / 0.8));
+  ctx.save();
+  ctx.globalAlpha *= k;
+  ctx.textAlign = "center";
+  ctx.textBaseline = "top";
+  ctx.fillStyle = "#ffffff";
+  ctx.shadowColor = "rgba(0, 0, 0, 0.6)";
+  ctx.shadowBlur = 30;
+  const titleSize = width * 0.085;
+  ctx.font = `900 ${titleSize}px ${TITLE_FONT}`;
+  const lines = wrapCanvasText(ctx, slide.text.toUpperCase(), width * 0.86);
+  const y = top + (1 - k) * width * 0.05;
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, y + i * titleSize * 1.1));
+  if (slide.subtitle) {
+    ctx.font = `500 ${width * 0.035}px ${TITLE_FONT}`;
+    ctx.fillStyle = "rgba(255, 255, 255, 0.8)";
+    ctx.fillText(slide.subtitle, width / 2, y + lines.length * titleSize * 1.1 + width * 0.03);
+  }
+  ctx.restore();
+};
+
+/**
+ * Draws one slide as it looks `time` seconds after it started: a blurred,
+ * darkened copy of the art filling the frame, the art itself across the
+ * upper part with its Ken Burns move, and the caption or title below.
+ */
+const drawSlide = (
+  ctx: CanvasRenderingContext2D,
+  slide: VideoSlide,
+  slideIndex: number,
+  img: HTMLImageElement | null,
+  time: number,
+  options: VideoOptions,
+) => {
+  const { width, height } = options;
+  ctx.fillStyle = "#0f172a";
+  ctx.fillRect(0, 0, width, height);
+
+  // Art: as wide as the frame, in its own shape, but leaving room for the text
+  const artTop = height * 0.1;
+  const artHeight = img ? Math.min(width * (img.height / img.width), height * (slide.isCover ? 0.62 : 0.55)) : 0;
+  if (img) {
+    ctx.save();
+    ctx.filter = "blur(48px) brightness(0.55)";
+    drawImageInBox(ctx, img, -width * 0.1, -height * 0.1, width * 1.2, height * 1.2);
+    ctx.restore();
+
+    const move = KEN_BURNS_MOVES[slideIndex % KEN_BURNS_MOVES.length];
+    const k = options.kenBurns ? ease(clamp01(time / slide.duration)) : 0;
+    const zoom = options.kenBurns ? lerp(move.fromZoom, move.toZoom, k) : 1;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, artTop, width, artHeight);
+    ctx.clip();
+    drawImageInBox(ctx, img, 0, artTop, width, artHeight, zoom, lerp(move.fromX, move.toX, k), lerp(move.fromY, move.toY, k));
+    ctx.restore();
+  }
+
+  // Below the art, clear of the platform's buttons and description at the bottom
+  const textTop = artTop + artHeight + height * 0.03;
+  if (slide.isCover) {
+    drawCoverText(ctx, slide, time, width, img ? textTop : height * 0.35);
+  } else if (slide.text.trim()) {
+    drawCaption(ctx, slide.text, time, 60 / options.wordsPerMinute, width, textTop, height * 0.84);
+  }
+};
+
+/**
+ * Draws the frame at `time`: the current slide, or two slides mid-transition,
+ * fading to black at the very end.
+ */
+const drawFrame = (
+  ctx: CanvasRenderingContext2D,
+  slides: VideoSlide[],
+  images: (HTMLImageElement | null)[],
+  time: number,
+  options: VideoOptions,
+) => {
+  const { width, height } = options;
+  const active = slides
+    .map((slide, index) => ({ slide, index }))
+    .filter(({ slide }) => time >= slide.start && time < slide.start + slide.duration);
+  const [outgoing, incoming] = active.length > 1 ? active : [active[0] || { slide: slides[slides.length - 1], index: slides.length - 1 }];
+
+  ctx.save();
+  if (incoming && options.transition === "slide") {
+    const k = ease(clamp01((time - incoming.slide.start) / TRANSITION_SECONDS));
+    ctx.translate(-k * width, 0);
+    drawSlide(ctx, outgoing.slide, outgoing.index, images[outgoing.index], time - outgoing.slide.start, options);
+    ctx.translate(width, 0);
+    drawSlide(ctx, incoming.slide, incoming.index, images[incoming.index], time - incoming.slide.start, options);
+  } else {
+    drawSlide(ctx, outgoing.slide, outgoing.index, images[outgoing.index], time - outgoing.slide.start, options);
+    if (incoming) {
+      ctx.globalAlpha = clamp01((time - incoming.slide.start) / TRANSITION_SECONDS);
+      drawSlide(ctx, incoming.slide, incoming.index, images[incoming.index], time - incoming.slide.start, options);
+    }
+  }
+  ctx.restore();
+
+  const fadeOut = clamp01((time - (videoDuration(slides) - FADE_OUT_SECONDS)) / FADE_OUT_SECONDS);
+  if (fadeOut > 0) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${fadeOut})`;
+    ctx.fillRect(0, 0, width, height);
+  }
+};
+
+const RECORDING_TYPES = ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"];
+
+export const canRecordVideo = (): boolean =>
+  typeof MediaRecorder !== "undefined" && RECORDING_TYPES.some(type => MediaRecorder.isTypeSupported(type));
+
+// Loops the music through the recording and fades it out with the picture
+const startAudio = async (audio: Blob, volume: number, duration: number) => {
+  const context = new AudioContext();
+  try {
+    const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.loop = true;
+    const gain = context.createGain();
+    const destination = context.createMediaStreamDestination();
+    source.connect(gain).connect(destination);
+    const start = context.currentTime;
+    gain.gain.setValueAtTime(volume, start);
+    gain.gain.setValueAtTime(volume, start + Math.max(0, duration - AUDIO_FADE_SECONDS));
+    gain.gain.linearRampToValueAtTime(0, start + duration);
+    return { context, source, track: destination.stream.getAudioTracks()[0] };
+  } catch (e) {
+    // A file the browser can't decode
+    context.close();
+    throw e;
+  }
+};
+
+/**
+ * Records the book as a WebM video, drawing every frame on `canvas` (which
+ * the caller may show as a live preview). Takes as long as the video runs;
+ * the tab should stay in the foreground, since background tabs throttle the
+ * frame timer. Images should already have their lettering flattened in.
+ */
+export const renderVideo = async (
+  ebook: Ebook,
+  canvas: HTMLCanvasElement,
+  options: VideoOptions = DEFAULT_VIDEO_OPTIONS,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal,
+): Promise<Blob> => {
+  const mimeType = typeof MediaRecorder === "undefined" ? undefined : RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+  if (!mimeType) throw new Error("This browser can't record WebM video.");
+
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext("2d")!;
+  const slides = planSlides(ebook, options);
+  const duration = videoDuration(slides);
+  const images = await Promise.all(slides.map(slide => slide.imageUrl ? loadImage(slide.imageUrl).catch(() => null) : null));
+  if (document.fonts) {
+    await Promise.all([CAPTION_FONT, TITLE_FONT].map(font => document.fonts.load(`bold 32px ${font}`).catch(() => undefined)));
+  }
+  if (signal?.aborted) throw createAbortError();
+
+  // The music may fail to decode, so it is set up before there's a stream to stop
+  const audio = options.audio ? await startAudio(options.audio, options.audioVolume, duration) : null;
+  drawFrame(ctx, slides, images, 0, options);
+  const stream = canvas.captureStream(options.fps);
+  if (audio) stream.addTrack(audio.track);
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  recorder.start(1000);
+  audio?.source.start();
+  const startedAt = performance.now();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const tick = () => {
+        if (signal?.aborted) {
+          reject(createAbortError());
+          return;
+        }
+        const time = Math.min(duration, (performance.now() - startedAt) / 1000);
+        drawFrame(ctx, slides, images, time, options);
+        onProgress?.(time / duration);
+        if (time >= duration) resolve();
+        else setTimeout(tick, 1000 / options.fps);
+      };
+      tick();
+    });
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    audio?.source.stop();
+    audio?.context.close();
+  }
+  await stopped;
+  return new Blob(chunks, { type: "video/webm" });
+};
@@ -0,0 +1,50 @@
+import { WordTiming } from "../types";
+
+/**
+ * Splitting captions into words and timing them. The reader, the EPUB Media
+ * Overlays and every TTS backend use the same split, so word N of a
+ * narration is always word N of the caption.
+ */
+
+export interface WordToken {
+  word: string;
+  // Character offsets into the text
+  from: number;
+  to: number;
+}
+
+export const tokenizeWords = (text: string): WordToken[] =>
+  Array.from(text.matchAll(/\S+/g), match => ({ word: match[0], from: match.index!, to: match.index! + match[0].length }));
+
+// Relative time spent on a word: its letters, plus a breath after punctuation
+const wordWeight = (word: string) => word.replace(/[^\p{L}\p{N}]/gu, "").length + 2;
+const pauseWeight = (word: string) => /[.!?…]["”’)]*$/.test(word) ? 5 : /[,;:—-]["”’)]*$/.test(word) ? 2.5 : 0;
+
+/**
+ * Spreads the words over a clip of known length, for backends (and
+ * recordings) that don't report word boundaries. Good enough for
+ * highlighting, not for lip sync.
+ */
+export const estimateWordTimings = (text: string, duration: number, lead = 0.1, tail = 0.25): WordTiming[] => {
+  const tokens = tokenizeWords(text);
+  const spoken = Math.max(0, duration - lead - tail);
+  const total = tokens.reduce((sum, t, i) => sum + wordWeight(t.word) + (i < tokens.length - 1 ? pauseWeight(t.word) : 0), 0);
+  const secondsPerWeight = total > 0 ? spoken / total : 0;
+  let time = lead;
+  return tokens.map(({ word }) => {
+    const start = time;
+    const end = start + wordWeight(word) * secondsPerWeight;
+    time = end + pauseWeight(word) * secondsPerWeight;
+    return { word, start, end };
+  });
+};
+
+/**
+ * Index of the word being spoken at `time`, or -1 before the first. Stays on
+ * a word through the pause after it.
+ */
+export const wordAt = (words: WordTiming[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < words.length && words[i].start <= time; i++) index = i;
+  return index;
+};
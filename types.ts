@@ -2,27 +2,263 @@ export interface Story {
   id: string;
   title: string;
   summary: string;
+  // Credit line, e.g. "Reddit r/tifu"
   source?: string;
+  // Link to the original post when the story was imported
+  sourceUrl?: string;
   panelCount?: number;
   visualStyle?: string;
   layoutStyle?: LayoutStyle;
+  // Shape of the pages, and so of the art; portrait when unset
+  pageFormat?: PageFormat;
   targetAudience?: string;
+  // Personal identifiers replaced before scripting. Kept with the story (and
+  // so with the project) so every later generation uses the same substitutes.
+  // Undefined until the story has been through the anonymizer.
+  anonymization?: PiiSubstitution[];
 }
 
+export type PiiKind = 'name' | 'username' | 'place' | 'employer' | 'contact';
+
+export interface PiiSubstitution {
+  original: string;
+  replacement: string;
+  kind: PiiKind;
+}
+
+// The book's default page template; pages can override it (Panel.pageTemplateId)
 export type LayoutStyle = 'STORYBOOK' | 'COMIC_STRIP';
 
+/**
+ * A declarative page layout: a grid of image and text slots plus the page's
+ * margins, background and caption font. Track sizes are relative weights,
+ * like CSS fr units; margin, gap and font size are fractions of the page
+ * width, so a template scales to any page size.
+ */
+export interface PageTemplate {
+  id: string;
+  name: string;
+  columns: number[];
+  rows: number[];
+  slots: TemplateSlot[];
+  margin: number;
+  gap: number;
+  background: string;
+  font: TemplateFont;
+  // Art runs to the page edges; the margin then only pads text slots
+  fullBleed?: boolean;
+  // Outline the image slots, comic style
+  borders?: boolean;
+}
+
+export interface TemplateFont {
+  family: 'comic' | 'serif' | 'sans';
+  size: number;
+  color: string;
+}
+
+export interface TemplateSlot {
+  kind: 'image' | 'text';
+  // Which of the page's panels fills the slot, from 0
+  panel: number;
+  // Grid placement, 1-based like CSS grid lines
+  column: number;
+  row: number;
+  columnSpan?: number;
+  rowSpan?: number;
+  // Text slots: where the text sits in the area, and a backing band for
+  // text laid over art
+  align?: 'start' | 'center' | 'end';
+  band?: boolean;
+}
+
+export type PageFormat = 'SQUARE' | 'PORTRAIT' | 'LANDSCAPE' | 'SPREAD';
+
 export interface Panel {
   id: number;
+  // Scene description. Older projects have style and characters baked in here.
   description: string;
   caption: string;
   imageUrl?: string;
   isGenerating: boolean;
+  // Characters who appear in this panel (ids from the style guide's character bible).
+  characterIds?: string[];
+  // Lettering drawn over the art (the art itself never contains text).
+  overlays?: PanelOverlay[];
+  // Every image kept for this panel; imageUrl is the starred one's.
+  variants?: PanelVariant[];
+  starredVariantId?: string;
+  // Local edits layered over imageUrl, applied in order when shown and exported.
+  adjustments?: ImageAdjustment[];
+  // Starts a new page laid out with this template instead of the book default.
+  pageTemplateId?: string;
+  // Read-aloud audio for the caption, generated or recorded.
+  narration?: PanelNarration;
+}
+
+/**
+ * A panel's narration: the clip and when each word of the caption is
+ * spoken, for read-along highlighting and EPUB Media Overlays.
+ */
+export interface PanelNarration {
+  // Data URL of the clip. Browser voices can't be recorded, so their
+  // narration has none and is spoken live at playback.
+  audioUrl?: string;
+  source: 'tts' | 'recording';
+  // TTS backend and voice the clip was made with
+  providerId?: string;
+  voice?: string;
+  rate?: number;
+  // The caption as narrated; the narration is out of date once it changes
+  text: string;
+  // Seconds
+  duration: number;
+  // One entry per word of `text` (see tokenizeWords)
+  words: WordTiming[];
+}
+
+export interface WordTiming {
+  word: string;
+  // Seconds from the start of the clip
+  start: number;
+  end: number;
+}
+
+/**
+ * One step of a panel's non-destructive edit stack. Positions and sizes are
+ * fractions (0-1) of the image as it is at that step, so a stack survives
+ * swapping in a variant of a different resolution.
+ */
+export type ImageAdjustment =
+  | { kind: 'crop'; x: number; y: number; width: number; height: number }
+  | { kind: 'rotate'; quarterTurns: 1 | 2 | 3 }
+  | { kind: 'flip'; axis: 'horizontal' | 'vertical' }
+  // Each -100 to 100, 0 leaves the image unchanged
+  | { kind: 'levels'; brightness: number; contrast: number; saturation: number; temperature: number }
+  | { kind: 'sharpen'; amount: number }
+  // Copies pixels from (x + dx, y + dy) under each dab of a soft round brush
+  | { kind: 'clone'; dx: number; dy: number; size: number; points: { x: number; y: number }[] };
+
+export type PanelVariantSource = 'generated' | 'edited' | 'uploaded';
+
+export interface PanelVariant {
+  id: string;
+  imageUrl: string;
+  source: PanelVariantSource;
+  createdAt: number;
+}
+
+export type OverlayKind = 'speech' | 'thought' | 'shout' | 'narration' | 'sfx';
+
+/**
+ * A speech bubble, caption box or sound effect on top of a panel image.
+ * Positions are fractions (0-1) of the image width and height, so overlays
+ * survive any render size.
+ */
+export interface PanelOverlay {
+  id: string;
+  kind: OverlayKind;
+  text: string;
+  // Centre of the box
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Where the tail points (speech, thought and shout only)
+  tailX?: number;
+  tailY?: number;
+  // Speaker, from the character bible
+  characterId?: string;
+}
+
+/**
+ * An entry in the character bible. The reference sheet is sent along with
+ * every image request that features the character.
+ */
+export interface Character {
+  id: string;
+  name: string;
+  description: string;
+  // Data URL of a generated or uploaded reference sheet.
+  referenceImage?: string;
+}
+
+/**
+ * Art direction shared by every panel, kept apart from the per-panel scenes
+ * so it can be reviewed and edited once.
+ */
+export interface StyleGuide {
+  visualStyle: string;
+  // Free-text character notes. Scripts written before the character bible only have this.
+  characterDesign: string;
+  characters?: Character[];
+}
+
+export interface Script extends StyleGuide {
+  panels: Panel[];
 }
 
 export interface Ebook {
   storyTitle: string;
   storySummary: string;
   panels: Panel[];
+  author?: string;
+  coverImage?: string | null;
+  layoutStyle?: LayoutStyle;
+  pageFormat?: PageFormat;
+  // BCP 47 tag of the text, e.g. "es"; English when unset
+  language?: string;
+}
+
+/**
+ * A translated edition of the book. Art, cover and layout are shared with
+ * the original; an edition only holds text, one entry per translatable
+ * string (see collectTranslatables).
+ */
+export interface BookEdition {
+  // BCP 47 tag, e.g. "es"
+  language: string;
+  entries: Record<string, TranslationEntry>;
+  updatedAt: number;
+}
+
+export interface TranslationEntry {
+  // The original text as translated; the entry is out of date once it changes
+  source: string;
+  // Machine translation
+  text: string;
+  // Wording set by hand, used instead of `text` until the original changes
+  override?: string;
+}
+
+/**
+ * Store listing copy for one language of the book, checked against each
+ * marketplace's limits before export (see services/listing.ts).
+ */
+export interface MarketplaceListing {
+  // BCP 47 tag of the copy; the original and each edition get their own
+  language: string;
+  kdp: KdpListing;
+  etsy: EtsyListing;
+  updatedAt: number;
+}
+
+export interface KdpListing {
+  description: string;
+  // Backend search keywords, one per box on the KDP form
+  keywords: string[];
+  // BISAC subject codes, e.g. "JUV019000"
+  categories: string[];
+  // Reading age in years; unset for books not written for children
+  ageRange?: { min: number; max: number };
+  // US school grades, -1 for preschool and 0 for kindergarten
+  gradeRange?: { min: number; max: number };
+}
+
+export interface EtsyListing {
+  title: string;
+  tags: string[];
+  description: string;
 }
 
 export interface AnalysisResult {
@@ -44,7 +280,30 @@ export interface RefinedContent {
   }[];
 }
 
+/**
+ * A saved ebook: the source story plus everything generated for it.
+ */
+export interface Project {
+  id: string;
+  story: Story;
+  title: string;
+  author: string;
+  panels: Panel[];
+  // Id for the next new panel; ids are never reused (see panelOps.ts)
+  nextPanelId?: number;
+  styleGuide?: StyleGuide;
+  coverImage: string | null;
+  analysis: AnalysisResult | null;
+  // Translations of the book, sharing its art
+  editions?: BookEdition[];
+  // Marketplace copy, one per language
+  listings?: MarketplaceListing[];
+  createdAt: number;
+  updatedAt: number;
+}
+
 export enum AppState {
+  LIBRARY = 'LIBRARY',
   DISCOVER = 'DISCOVER',
   SCRIPTING = 'SCRIPTING',
   BUILDING = 'BUILDING',
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // "gemini" (default) or "mock" for the offline demo backend
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || '')
       },
       resolve: {
         alias: {